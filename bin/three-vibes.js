@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Собранный CLI (npm run build:cli)
+import '../dist-cli/three-vibes.js'
@@ -0,0 +1,49 @@
+// Свечение ярких мест (блики солнца на воде): порог, цепочка уменьшений, сложение при увеличении обратно
+uniform sampler2D uInput;
+uniform sampler2D uBloom;
+uniform vec2 uTexelSize; // Тексель источника
+uniform float uThreshold;
+uniform float uKnee;
+uniform float uStrength;
+uniform float uRadius;
+
+varying vec2 vUv;
+
+// Четыре билинейных выборки по углам текселя - среднее квадрата 4x4
+vec3 downsample(sampler2D source) {
+    vec3 sum = texture2D(source, vUv + uTexelSize * vec2(-1.0, -1.0)).rgb;
+    sum += texture2D(source, vUv + uTexelSize * vec2(1.0, -1.0)).rgb;
+    sum += texture2D(source, vUv + uTexelSize * vec2(-1.0, 1.0)).rgb;
+    sum += texture2D(source, vUv + uTexelSize * vec2(1.0, 1.0)).rgb;
+    return sum * 0.25;
+}
+
+void main() {
+#if defined(BLOOM_PREFILTER)
+    vec3 color = downsample(uInput);
+    float brightness = max(color.r, max(color.g, color.b));
+    // Мягкое колено вокруг порога: блики не появляются скачком
+    float soft = clamp(brightness - uThreshold + uKnee, 0.0, 2.0 * uKnee);
+    soft = soft * soft / (4.0 * uKnee + 1e-4);
+    float contribution = max(soft, brightness - uThreshold) / max(brightness, 1e-4);
+    gl_FragColor = vec4(color * contribution, 1.0);
+#elif defined(BLOOM_DOWNSAMPLE)
+    gl_FragColor = vec4(downsample(uInput), 1.0);
+#elif defined(BLOOM_UPSAMPLE)
+    // Фильтр-палатка 3x3, складывается с уровнем под ним смешиванием
+    vec2 offset = uTexelSize * uRadius;
+    vec3 sum = texture2D(uInput, vUv).rgb * 4.0;
+    sum += texture2D(uInput, vUv + vec2(-offset.x, 0.0)).rgb * 2.0;
+    sum += texture2D(uInput, vUv + vec2(offset.x, 0.0)).rgb * 2.0;
+    sum += texture2D(uInput, vUv + vec2(0.0, -offset.y)).rgb * 2.0;
+    sum += texture2D(uInput, vUv + vec2(0.0, offset.y)).rgb * 2.0;
+    sum += texture2D(uInput, vUv - offset).rgb;
+    sum += texture2D(uInput, vUv + offset).rgb;
+    sum += texture2D(uInput, vUv + vec2(-offset.x, offset.y)).rgb;
+    sum += texture2D(uInput, vUv + vec2(offset.x, -offset.y)).rgb;
+    gl_FragColor = vec4(sum / 16.0, 1.0);
+#else
+    vec3 color = texture2D(uInput, vUv).rgb;
+    gl_FragColor = vec4(color + texture2D(uBloom, vUv).rgb * uStrength, 1.0);
+#endif
+}
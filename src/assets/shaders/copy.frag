@@ -0,0 +1,7 @@
+uniform sampler2D uInput;
+
+varying vec2 vUv;
+
+void main() {
+    gl_FragColor = vec4(texture2D(uInput, vUv).rgb, 1.0);
+}
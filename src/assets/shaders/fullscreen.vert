@@ -0,0 +1,7 @@
+varying vec2 vUv;
+
+void main() {
+    // Один треугольник на весь экран: вершины (-1,-1), (3,-1), (-1,3)
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
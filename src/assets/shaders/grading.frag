@@ -0,0 +1,44 @@
+// Экспозиция, тональная компрессия и цветокоррекция по 3D LUT. Кадр уже в пространстве экрана:
+// наши шейдеры пишут цвет для вывода как есть, поэтому кодирования в sRGB здесь нет
+uniform sampler2D uInput;
+uniform sampler3D uLut;
+uniform float uLutSize;
+uniform float uLutIntensity;
+uniform float uExposure;
+
+varying vec2 vUv;
+
+// ACES в аппроксимации Stephen Hill, как ACESFilmicToneMapping в three.js
+vec3 RRTAndODTFit(vec3 v) {
+    vec3 a = v * (v + 0.0245786) - 0.000090537;
+    vec3 b = v * (0.983729 * v + 0.4329510) + 0.238081;
+    return a / b;
+}
+
+vec3 acesFilmic(vec3 color) {
+    const mat3 inputMatrix = mat3(
+        vec3(0.59719, 0.07600, 0.02840),
+        vec3(0.35458, 0.90834, 0.13383),
+        vec3(0.04823, 0.01566, 0.83777)
+    );
+    const mat3 outputMatrix = mat3(
+        vec3(1.60475, -0.10208, -0.00327),
+        vec3(-0.53108, 1.10813, -0.07276),
+        vec3(-0.07367, -0.00605, 1.07602)
+    );
+    color = inputMatrix * (color / 0.6);
+    return outputMatrix * RRTAndODTFit(color);
+}
+
+void main() {
+    vec3 color = texture2D(uInput, vUv).rgb * uExposure;
+#ifdef TONE_MAPPING_ACES
+    color = acesFilmic(color);
+#endif
+    color = clamp(color, 0.0, 1.0);
+
+    // Центры крайних ячеек LUT - в 0 и 1
+    vec3 lutCoord = color * ((uLutSize - 1.0) / uLutSize) + 0.5 / uLutSize;
+    vec3 graded = texture(uLut, lutCoord).rgb;
+    gl_FragColor = vec4(mix(color, graded, uLutIntensity), 1.0);
+}
@@ -0,0 +1,40 @@
+// Высотный туман: плотность убывает экспоненциально с высотой, интеграл вдоль луча считается аналитически.
+// Небо получает туман на дальности uMaxDistance - у горизонта дымка гуще, в зените её почти нет
+uniform sampler2D uInput;
+uniform sampler2D uDepth;
+uniform mat4 uInverseProjection;
+uniform mat4 uCameraMatrixWorld;
+uniform vec3 uCameraPosition;
+uniform vec3 uFogColor;
+uniform vec3 uSunColor;
+uniform vec3 uSunDirection;
+uniform float uDensity; // Плотность на базовой высоте, 1/м
+uniform float uFalloff; // Скорость убывания плотности с высотой, 1/м
+uniform float uBaseHeight;
+uniform float uMaxDistance;
+
+varying vec2 vUv;
+
+void main() {
+    vec3 color = texture2D(uInput, vUv).rgb;
+    float depth = texture2D(uDepth, vUv).x;
+
+    vec4 view = uInverseProjection * vec4(vec3(vUv, depth) * 2.0 - 1.0, 1.0);
+    vec3 worldPosition = (uCameraMatrixWorld * vec4(view.xyz / view.w, 1.0)).xyz;
+    vec3 ray = worldPosition - uCameraPosition;
+    float rayLength = depth >= 1.0 ? uMaxDistance : min(length(ray), uMaxDistance);
+    vec3 direction = normalize(ray);
+
+    // Интеграл плотности uDensity * exp(-uFalloff * (h - uBaseHeight)) по лучу длиной rayLength
+    float startDensity = uDensity * exp(-uFalloff * (uCameraPosition.y - uBaseHeight));
+    float heightChange = uFalloff * direction.y * rayLength;
+    float integral = abs(heightChange) > 1e-4 ? (1.0 - exp(-heightChange)) / heightChange : 1.0;
+    float opticalDepth = startDensity * rayLength * integral;
+    float transmittance = exp(-opticalDepth);
+
+    // Рассеяние вперёд: против солнца туман подсвечен его цветом
+    float sunAmount = pow(max(dot(direction, uSunDirection), 0.0), 8.0) * step(0.0, uSunDirection.y);
+    vec3 fogColor = mix(uFogColor, uSunColor, sunAmount * 0.5);
+
+    gl_FragColor = vec4(mix(fogColor, color, transmittance), 1.0);
+}
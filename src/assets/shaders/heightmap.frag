@@ -1,82 +1,96 @@
 uniform vec2 u_chunkOffset;
 uniform vec2 u_chunkSize;
 uniform vec2 u_resolution;
-uniform float u_heightScale;
-uniform float u_noiseScale;
+// Слои TerrainConfig
+uniform vec4 u_base;      // frequency, amplitude, persistence, lacunarity
+uniform int u_octaves;
+uniform float u_offset;
+uniform vec4 u_mountains; // frequency, threshold, amplitude, curve
+uniform vec4 u_lakes;     // frequency, threshold, depth, curve
+uniform vec2 u_hills;     // frequency, amplitude
+uniform vec3 u_valleys;   // frequency, threshold, factor
 uniform float u_time;
-uniform vec4 u_noiseSeeds;
+uniform sampler2D u_permutation;
 uniform float u_useFloatTexture;
 
 varying vec2 vUv;
 
-// Реализация шума
-vec2 hash(vec2 p) {
-    p = vec2(dot(p, vec2(127.1, 311.7)), dot(p, vec2(269.5, 183.3)));
-    return -1.0 + 2.0 * fract(sin(p) * 43758.5453123);
+// Perlin noise - точная копия TerrainHeightFunction: та же таблица перестановок и градиенты
+const float PI = 3.14159265358979;
+
+int perm(int i) {
+    return int(texelFetch(u_permutation, ivec2(i & 255, 0), 0).r * 255.0 + 0.5);
+}
+
+float grad(int hash, vec2 p) {
+    float angle = float(hash & 255) / 256.0 * 2.0 * PI;
+    return cos(angle) * p.x + sin(angle) * p.y;
+}
+
+float fade(float t) {
+    return t * t * t * (t * (t * 6.0 - 15.0) + 10.0);
 }
 
 float noise(vec2 p) {
     vec2 i = floor(p);
-    vec2 f = fract(p);
-    vec2 u = f * f * (3.0 - 2.0 * f);
-    
-    return mix(mix(dot(hash(i + vec2(0.0, 0.0)), f - vec2(0.0, 0.0)),
-                   dot(hash(i + vec2(1.0, 0.0)), f - vec2(1.0, 0.0)), u.x),
-               mix(dot(hash(i + vec2(0.0, 1.0)), f - vec2(0.0, 1.0)),
-                   dot(hash(i + vec2(1.0, 1.0)), f - vec2(1.0, 1.0)), u.x), u.y);
+    vec2 f = p - i;
+    int X = int(i.x) & 255;
+    int Y = int(i.y) & 255;
+
+    float u = fade(f.x);
+    float v = fade(f.y);
+
+    int a = perm(X) + Y;
+    int aa = perm(a);
+    int ab = perm(a + 1);
+    int b = perm(X + 1) + Y;
+    int ba = perm(b);
+    int bb = perm(b + 1);
+
+    return mix(mix(grad(perm(aa), f), grad(perm(ba), f - vec2(1.0, 0.0)), u),
+               mix(grad(perm(ab), f - vec2(0.0, 1.0)), grad(perm(bb), f - vec2(1.0, 1.0)), u),
+               v);
 }
 
-float fractalNoise(vec2 p, int octaves, float persistence) {
-    float value = 0.0;
+void main() {
+    // Индекс точки сетки: края чанка включительно, центр в u_chunkOffset
+    vec2 index = floor(vUv * u_resolution);
+    vec2 worldPos = u_chunkOffset + (index / (u_resolution - 1.0) - 0.5) * u_chunkSize;
+
+    // Генерируем высоту - та же формула, что TerrainHeightFunction.getBaseHeight (эрозия и реки - на CPU)
+    float baseHeight = 0.0;
     float amplitude = 1.0;
-    float frequency = 1.0;
-    float maxValue = 0.0;
-    
-    for (int i = 0; i < octaves; i++) {
-        value += noise(p * frequency) * amplitude;
-        maxValue += amplitude;
-        amplitude *= persistence;
-        frequency *= 2.0;
+    float frequency = u_base.x;
+    for (int o = 0; o < 16; o++) {
+        if (o >= u_octaves) break;
+        baseHeight += noise(worldPos * frequency) * amplitude;
+        amplitude *= u_base.z;
+        frequency *= u_base.w;
     }
-    
-    return value / maxValue;
-}
 
-void main() {
-    vec2 coord = vUv * u_resolution;
-    vec2 worldPos = u_chunkOffset + coord * u_chunkSize / u_resolution;
-    vec2 noisePos = worldPos * u_noiseScale;
-    
-    // Генерируем высоту
-    float baseHeight = fractalNoise(noisePos + u_noiseSeeds.xy, 6, 0.5);
-    float mountainNoise = noise((worldPos + u_noiseSeeds.zw) * 0.001);
-    float hillNoise = noise((worldPos + u_noiseSeeds.xy * 2.0) * 0.008);
-    float lakeNoise = noise((worldPos + u_noiseSeeds.zw * 0.5) * 0.002);
-    float riverNoise = noise((worldPos + u_noiseSeeds.xy * 0.7) * 0.004);
+    float mountainNoise = noise(worldPos * u_mountains.x);
+    float hillNoise = noise(worldPos * u_hills.x);
+    float lakeNoise = noise(worldPos * u_lakes.x);
     
-    float finalHeight = baseHeight * (u_heightScale * 0.8);
+    float finalHeight = baseHeight * u_base.y;
     
-    if (lakeNoise < -0.75 || (riverNoise < -0.8 && lakeNoise < -0.5)) {
-        float lakeFactor = lakeNoise < -0.75 ? pow(abs(lakeNoise + 0.75) / 0.25, 1.5) : 0.0;
-        float riverFactor = (riverNoise < -0.8 && lakeNoise < -0.5) ? 
-                           pow(abs(riverNoise + 0.8) / 0.2, 2.0) : 0.0;
-        float depthFactor = max(lakeFactor, riverFactor);
-        finalHeight -= depthFactor * 8.0;
+    if (lakeNoise < u_lakes.y) {
+        finalHeight -= pow((u_lakes.y - lakeNoise) / (1.0 + u_lakes.y), u_lakes.w) * u_lakes.z;
     }
     
-    if (mountainNoise > 0.2) {
-        float mountainFactor = pow((mountainNoise - 0.2) / 0.8, 1.2);
-        finalHeight += mountainFactor * 60.0;
+    if (mountainNoise > u_mountains.y) {
+        float mountainFactor = pow((mountainNoise - u_mountains.y) / (1.0 - u_mountains.y), u_mountains.w);
+        finalHeight += mountainFactor * u_mountains.z;
     }
     
-    finalHeight += hillNoise * 12.0;
+    finalHeight += hillNoise * u_hills.y;
     
-    float valleyNoise = noise((worldPos + u_noiseSeeds.xy * 1.3) * 0.005);
-    if (valleyNoise < -0.3) {
-        finalHeight *= 0.8;
+    float valleyNoise = noise(worldPos * u_valleys.x);
+    if (valleyNoise < u_valleys.y) {
+        finalHeight *= u_valleys.z;
     }
     
-    finalHeight += 5.0;
+    finalHeight += u_offset;
     
     // Кодируем высоту в цвет в зависимости от типа текстуры
     float encodedHeight;
@@ -0,0 +1,60 @@
+uniform float uTime;
+uniform vec3 uSunColor;
+uniform vec3 uSunDirection;
+uniform float uSunIntensity;
+uniform vec3 uAmbientColor;
+uniform float uAmbientIntensity;
+uniform vec3 uFogColor;
+uniform float uFogNear;
+uniform float uFogFar;
+uniform vec3 uCameraPosition;
+
+#include <cascaded_shadows>
+
+varying vec3 vWorldPosition;
+varying vec3 vViewPosition;
+varying vec2 vUv;
+varying float vFlowSpeed;
+
+void main() {
+    vec3 deepWaterColor = vec3(0.12, 0.25, 0.32);
+    vec3 shallowWaterColor = vec3(0.25, 0.45, 0.5);
+
+    // Рябь сносится вниз по течению: фаза вдоль ленты сдвигается со временем
+    float across = vUv.x - 0.5;
+    float along = vUv.y * 0.35 - uTime * vFlowSpeed;
+    float ripple1 = sin(along * 6.0 + sin(across * 9.0) * 1.5);
+    float ripple2 = sin(along * 11.0 - across * 7.0 + 1.7);
+    vec3 normal = normalize(vec3(ripple2 * 0.06, 1.0, ripple1 * 0.08));
+
+    vec3 viewDir = normalize(uCameraPosition - vWorldPosition);
+    vec3 sunDir = normalize(uSunDirection);
+
+    float shadow = getCascadedShadow(vWorldPosition);
+    float ndotl = max(dot(normal, sunDir), 0.0);
+    vec3 diffuse = uSunColor * uSunIntensity * ndotl * 0.5 * shadow;
+
+    vec3 halfVector = normalize(sunDir + viewDir);
+    float specular = pow(max(dot(normal, halfVector), 0.0), 48.0);
+    vec3 specularColor = uSunColor * specular * 0.6 * shadow;
+
+    vec3 ambient = uAmbientColor * uAmbientIntensity;
+
+    // К середине русла вода глубже и темнее, у берегов светлее
+    float centre = 1.0 - abs(across) * 2.0;
+    vec3 waterColor = mix(shallowWaterColor, deepWaterColor, centre);
+
+    // Полосы пены на быстрых участках
+    float foam = smoothstep(0.85, 1.0, ripple1 * ripple2) * clamp(vFlowSpeed - 0.5, 0.0, 1.0) * 0.4;
+
+    vec3 finalColor = waterColor * (ambient + diffuse) + specularColor + foam;
+
+    // Мягкий край ленты у берегов
+    float alpha = 0.85 * smoothstep(0.0, 0.15, min(vUv.x, 1.0 - vUv.x));
+
+    float distance = length(vViewPosition);
+    float fogFactor = smoothstep(uFogNear, uFogFar, distance);
+    finalColor = mix(finalColor, uFogColor, fogFactor);
+
+    gl_FragColor = vec4(finalColor, alpha);
+}
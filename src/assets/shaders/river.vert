@@ -0,0 +1,21 @@
+attribute float aFlowSpeed;
+
+varying vec3 vWorldPosition;
+varying vec3 vViewPosition;
+varying vec2 vUv;
+varying float vFlowSpeed;
+
+void main() {
+    // u - поперёк ленты, v - длина пути от истока (непрерывна между чанками)
+    vUv = uv;
+    vFlowSpeed = aFlowSpeed;
+
+    // Лента уже в мировых координатах и повторяет уклон воды - волн по высоте нет, чтобы не вылезать на берег
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+
+    vec4 mvPosition = viewMatrix * worldPosition;
+    vViewPosition = -mvPosition.xyz;
+
+    gl_Position = projectionMatrix * mvPosition;
+}
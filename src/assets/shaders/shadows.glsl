@@ -0,0 +1,43 @@
+// Каскадные тени (CascadedShadowMaps): атлас глубины 2x2, каскад выбирается по попаданию точки в тайл
+uniform sampler2D uShadowMap;
+uniform mat4 uShadowMatrices[4];
+uniform vec4 uShadowTexelWorldSize; // Размер текселя каждого каскада в метрах
+uniform int uShadowCascades; // 0 - тени выключены
+uniform float uShadowTexelSize; // 1 / размер атласа
+uniform vec3 uShadowDirection; // На солнце
+
+const float SHADOW_DEPTH_BIAS = 0.0004;
+
+// 1 - точка освещена, 0 - в тени
+float getCascadedShadow(vec3 worldPosition) {
+    if (uShadowCascades == 0) return 1.0;
+
+    for (int i = 0; i < 4; i++) {
+        if (i >= uShadowCascades) break;
+
+        // Сдвиг к солнцу на пару текселей каскада убирает акне на склонах
+        vec3 offsetPosition = worldPosition + uShadowDirection * uShadowTexelWorldSize[i] * 2.0;
+        vec3 coord = (uShadowMatrices[i] * vec4(offsetPosition, 1.0)).xyz;
+        if (any(lessThan(coord.xy, vec2(0.02))) || any(greaterThan(coord.xy, vec2(0.98))) || coord.z > 1.0) continue;
+
+        // PCF 3x3 внутри тайла каскада
+        vec2 tile = vec2(mod(float(i), 2.0), floor(float(i) / 2.0)) * 0.5;
+        float lit = 0.0;
+        for (int x = -1; x <= 1; x++) {
+            for (int y = -1; y <= 1; y++) {
+                vec2 uv = tile + coord.xy * 0.5 + vec2(float(x), float(y)) * uShadowTexelSize;
+                lit += coord.z - SHADOW_DEPTH_BIAS > texture2D(uShadowMap, uv).r ? 0.0 : 1.0;
+            }
+        }
+        lit /= 9.0;
+
+        // У внешнего края последнего каскада тень растворяется
+        if (i == uShadowCascades - 1) {
+            float edge = max(abs(coord.x - 0.5), abs(coord.y - 0.5)) * 2.0;
+            lit = mix(lit, 1.0, smoothstep(0.8, 0.96, edge));
+        }
+        return lit;
+    }
+
+    return 1.0;
+}
@@ -0,0 +1,116 @@
+// Атмосферное рассеяние по Preetham (вариант из примера three.js) + солнечный диск, луна с фазами и звёзды.
+// Без диска, луны и звёзд модель повторяет evaluateSky в SkySystem.ts - по ней считается цвет тумана
+uniform vec3 uSunDirection;
+uniform vec3 uMoonDirection;
+uniform mat3 uStarRotation;
+uniform float uTime;
+uniform float uTurbidity;
+uniform float uRayleigh;
+uniform float uMieCoefficient;
+uniform float uMieDirectionalG;
+
+varying vec3 vDirection;
+
+const float PI = 3.141592653589793;
+const vec3 UP = vec3(0.0, 1.0, 0.0);
+
+const vec3 TOTAL_RAYLEIGH = vec3(5.804542996261093e-6, 1.3562911419845635e-5, 3.0265902468824876e-5);
+const vec3 MIE_CONST = vec3(1.8399918514433978e14, 2.7798023919660528e14, 4.0790479543861094e14);
+const float CUTOFF_ANGLE = 1.6110731556870734;
+const float STEEPNESS = 1.5;
+const float EE = 1000.0;
+
+const float RAYLEIGH_ZENITH_LENGTH = 8.4e3;
+const float MIE_ZENITH_LENGTH = 1.25e3;
+const float SUN_ANGULAR_DIAMETER_COS = 0.99995667694644844;
+const float MOON_ANGULAR_RADIUS = 0.018; // Крупнее настоящей, чтобы фаза читалась
+const vec3 NIGHT_SKY = vec3(0.0, 0.0003, 0.00075);
+const float WHITE_POINT = 1000.0;
+
+float sunIntensity(float zenithAngleCos) {
+    zenithAngleCos = clamp(zenithAngleCos, -1.0, 1.0);
+    return EE * max(0.0, 1.0 - exp(-((CUTOFF_ANGLE - acos(zenithAngleCos)) / STEEPNESS)));
+}
+
+float rayleighPhase(float cosTheta) {
+    return 3.0 / (16.0 * PI) * (1.0 + cosTheta * cosTheta);
+}
+
+float hgPhase(float cosTheta, float g) {
+    float g2 = g * g;
+    return (1.0 - g2) / (4.0 * PI * pow(1.0 - 2.0 * g * cosTheta + g2, 1.5));
+}
+
+// Тонмаппинг Uncharted 2: остальные шейдеры сцены пишут цвет без тонмаппинга рендерера, небо тоже
+vec3 uncharted2Tonemap(vec3 x) {
+    return (x * (0.15 * x + 0.05) + 0.004) / (x * (0.15 * x + 0.5) + 0.06) - 0.02 / 0.3;
+}
+
+float hash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+
+// Звёзды - редкие ячейки решётки на сфере, в каждой одна точка со своей яркостью и мерцанием
+float starField(vec3 direction) {
+    vec3 p = direction * 300.0;
+    vec3 cell = floor(p);
+    float h = hash(cell);
+    if (h < 0.995) return 0.0;
+
+    vec3 center = cell + 0.5 + (vec3(hash(cell + 1.3), hash(cell + 2.7), hash(cell + 5.1)) - 0.5) * 0.6;
+    float brightness = (h - 0.995) / 0.005;
+    float twinkle = 0.75 + 0.25 * sin(uTime * (1.5 + brightness * 3.0) + h * 200.0);
+    return smoothstep(0.45, 0.0, length(p - center)) * (0.3 + 0.7 * brightness) * twinkle;
+}
+
+void main() {
+    vec3 direction = normalize(vDirection);
+    vec3 sunDirection = normalize(uSunDirection);
+
+    float sunE = sunIntensity(dot(sunDirection, UP));
+    float sunfade = min(1.0, exp(sunDirection.y * 0.9));
+    vec3 betaR = TOTAL_RAYLEIGH * (uRayleigh - (1.0 - sunfade));
+    vec3 betaM = 0.434 * (0.2 * uTurbidity) * 1e-17 * MIE_CONST * uMieCoefficient;
+
+    // Оптическая длина пути; ниже горизонта - как на горизонте
+    float zenithAngle = acos(max(0.0, dot(UP, direction)));
+    float inverse = 1.0 / (cos(zenithAngle) + 0.15 * pow(93.885 - zenithAngle * 180.0 / PI, -1.253));
+    vec3 extinction = exp(-(betaR * RAYLEIGH_ZENITH_LENGTH + betaM * MIE_ZENITH_LENGTH) * inverse);
+
+    // Рассеяние в направлении взгляда
+    float cosTheta = dot(direction, sunDirection);
+    vec3 betaTheta = betaR * rayleighPhase(cosTheta * 0.5 + 0.5) + betaM * hgPhase(cosTheta, uMieDirectionalG);
+    vec3 scattering = sunE * betaTheta / (betaR + betaM);
+    vec3 inscatter = pow(scattering * (1.0 - extinction), vec3(1.5));
+    inscatter *= mix(vec3(1.0), sqrt(scattering * extinction), clamp(pow(1.0 - sunDirection.y, 5.0), 0.0, 1.0));
+
+    vec3 ambient = vec3(0.1) * extinction;
+    ambient += sunE * 19000.0 * extinction * smoothstep(SUN_ANGULAR_DIAMETER_COS, SUN_ANGULAR_DIAMETER_COS + 0.00002, cosTheta);
+
+    vec3 radiance = (inscatter + ambient) * 0.04 + NIGHT_SKY;
+    vec3 mapped = uncharted2Tonemap(radiance) / uncharted2Tonemap(vec3(WHITE_POINT));
+    vec3 color = pow(mapped, vec3(1.0 / (1.2 + 1.2 * sunfade)));
+
+    // Ночь: звёзды проступают по мере того, как солнце уходит под горизонт
+    float night = smoothstep(0.05, -0.15, sunDirection.y);
+    float horizonFade = smoothstep(0.0, 0.15, direction.y);
+    color += vec3(0.85, 0.9, 1.0) * starField(uStarRotation * direction) * night * horizonFade;
+
+    // Луна: освещённая часть - полусфера, обращённая к солнцу, отсюда фазы
+    vec3 moonDirection = normalize(uMoonDirection);
+    float cosMoon = dot(direction, moonDirection);
+    vec3 offset = (direction - moonDirection * cosMoon) / sin(MOON_ANGULAR_RADIUS);
+    float r = length(offset);
+    if (cosMoon > 0.0 && r < 1.0) {
+        vec3 normal = offset - moonDirection * sqrt(1.0 - r * r);
+        float lit = smoothstep(-0.05, 0.05, dot(normal, sunDirection));
+        float mare = 0.85 + 0.15 * hash(floor(normal * 6.0));
+        vec3 moonColor = vec3(0.95, 0.93, 0.88) * mare * (lit + 0.02);
+        float visibility = mix(0.35, 1.0, night) * smoothstep(1.0, 0.9, r) * horizonFade;
+        color = mix(color, max(color, moonColor), visibility);
+    }
+
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,12 @@
+varying vec3 vDirection;
+
+void main() {
+    // Купол сдвигается вместе с камерой, поэтому направление взгляда - позиция вершины
+    vDirection = position;
+
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+
+    // Прижимаем к дальней плоскости: купол не обрезается ни дальней, ни косой ближней плоскостью отражений
+    gl_Position.z = gl_Position.w;
+}
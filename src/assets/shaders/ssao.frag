@@ -0,0 +1,73 @@
+// SSAO по буферу глубины: AO_SAMPLE - затенение, AO_BLUR - размытие 4x4, AO_COMPOSITE - умножение кадра
+uniform sampler2D uInput;
+uniform sampler2D uDepth;
+uniform sampler2D uOcclusion;
+uniform mat4 uProjection;
+uniform mat4 uInverseProjection;
+uniform vec3 uKernel[16]; // Точки в полусфере вокруг +z, ближе к центру гуще
+uniform vec2 uTexelSize;
+uniform float uRadius;
+uniform float uIntensity;
+
+varying vec2 vUv;
+
+const int KERNEL_SIZE = 16;
+const float FADE_START = 200.0; // Дальше креасы меньше пикселя, а точности глубины не хватает
+const float FADE_END = 400.0;
+
+vec3 getViewPosition(vec2 uv) {
+    float depth = texture2D(uDepth, uv).x;
+    vec4 view = uInverseProjection * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+    return view.xyz / view.w;
+}
+
+float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+#if defined(AO_SAMPLE)
+    if (texture2D(uDepth, vUv).x >= 1.0) {
+        gl_FragColor = vec4(1.0);
+        return;
+    }
+
+    vec3 position = getViewPosition(vUv);
+    vec3 normal = normalize(cross(dFdx(position), dFdy(position)));
+
+    // Ядро поворачивается вокруг нормали на случайный угол, шум убирает размытие
+    float angle = hash(gl_FragCoord.xy) * 6.2831853;
+    vec3 random = vec3(cos(angle), sin(angle), 0.0);
+    vec3 tangent = normalize(random - normal * dot(random, normal));
+    mat3 tbn = mat3(tangent, cross(normal, tangent), normal);
+
+    // Погрешность глубины растёт с квадратом расстояния - смещение растёт вместе с ней
+    float bias = 0.02 + -position.z * 0.002;
+    float occlusion = 0.0;
+    for (int i = 0; i < KERNEL_SIZE; i++) {
+        vec3 samplePosition = position + tbn * uKernel[i] * uRadius;
+        vec4 clip = uProjection * vec4(samplePosition, 1.0);
+        vec2 sampleUv = clip.xy / clip.w * 0.5 + 0.5;
+        float sceneZ = getViewPosition(sampleUv).z;
+
+        // Обрыв глубины дальше радиуса - силуэт перед поверхностью, а не складка
+        float range = smoothstep(0.0, 1.0, uRadius / abs(position.z - sceneZ));
+        occlusion += step(samplePosition.z + bias, sceneZ) * range;
+    }
+
+    float ao = 1.0 - occlusion / float(KERNEL_SIZE) * uIntensity;
+    ao = mix(ao, 1.0, smoothstep(FADE_START, FADE_END, -position.z));
+    gl_FragColor = vec4(vec3(clamp(ao, 0.0, 1.0)), 1.0);
+#elif defined(AO_BLUR)
+    float sum = 0.0;
+    for (int x = -2; x < 2; x++) {
+        for (int y = -2; y < 2; y++) {
+            sum += texture2D(uOcclusion, vUv + (vec2(x, y) + 0.5) * uTexelSize).r;
+        }
+    }
+    gl_FragColor = vec4(vec3(sum / 16.0), 1.0);
+#else
+    vec3 color = texture2D(uInput, vUv).rgb;
+    gl_FragColor = vec4(color * texture2D(uOcclusion, vUv).r, 1.0);
+#endif
+}
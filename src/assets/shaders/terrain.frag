@@ -5,27 +5,126 @@ uniform vec3 uAmbientColor;
 uniform float uAmbientIntensity;
 uniform vec3 uFogColor;
 
+// Текстуры биомов (TerrainTextures): слой на биом набора, средний цвет слоя - uBiomeColors
+uniform sampler2DArray uAlbedoMaps;
+uniform sampler2DArray uNormalMaps;
+uniform vec3 uBiomeColors[BIOME_COUNT];
+uniform float uTextureScale; // Метров на повтор текстуры
+uniform float uDetailFadeStart;
+uniform float uDetailFadeEnd;
+
+#include <cascaded_shadows>
+
 varying vec3 vColor;
 varying vec3 vNormal;
 varying vec3 vWorldPosition;
 varying float vFogFactor;
+varying float vViewDistance;
+varying vec4 vBiomeWeights0;
+varying vec4 vBiomeWeights1;
+varying vec4 vBiomeWeights2;
+
+const float MIN_WEIGHT = 0.01; // Слои и проекции слабее не читаются
+// Пока |normal.y| больше START, хватает проекции сверху; к END боковые проекции включаются полностью
+const float TRIPLANAR_START = 0.9;
+const float TRIPLANAR_END = 0.75;
+
+float getBiomeWeight(int biome) {
+    if (biome < 4) return vBiomeWeights0[biome];
+    return biome < 8 ? vBiomeWeights1[biome - 4] : vBiomeWeights2[biome - 8];
+}
+
+// Смесь слоёв биомов в одной проекции: цвет и нормаль в пространстве касательных проекции.
+// Производные UV передаются снаружи: внутри ветвлений по весам свои производные не определены
+void sampleBiomes(
+    vec2 uv,
+    vec2 uvDx,
+    vec2 uvDy,
+    float weights[BIOME_COUNT],
+    out vec3 albedo,
+    out vec3 tangentNormal
+) {
+    albedo = vec3(0.0);
+    tangentNormal = vec3(0.0);
+    for (int i = 0; i < BIOME_COUNT; i++) {
+        if (weights[i] < MIN_WEIGHT) continue;
+        vec3 coord = vec3(uv, float(i));
+        albedo += textureGrad(uAlbedoMaps, coord, uvDx, uvDy).rgb * weights[i];
+        tangentNormal += (textureGrad(uNormalMaps, coord, uvDx, uvDy).xyz * 2.0 - 1.0) * weights[i];
+    }
+}
 
 void main() {
-    // Базовый цвет из вертексных цветов (биомы)
-    vec3 baseColor = vColor;
-    
-    // Нормализуем нормаль
     vec3 normal = normalize(vNormal);
+
+    // Доли биомов после интерполяции и квантования в байты - нормируем заново
+    float weights[BIOME_COUNT];
+    float weightSum = 0.0;
+    for (int i = 0; i < BIOME_COUNT; i++) {
+        weights[i] = getBiomeWeight(i);
+        weightSum += weights[i];
+    }
+    vec3 meanColor = vec3(0.0);
+    for (int i = 0; i < BIOME_COUNT; i++) {
+        weights[i] /= max(weightSum, 1e-4);
+        meanColor += uBiomeColors[i] * weights[i];
+    }
+
+    // Вдали детали мельче пикселя: текстуры плавно уступают среднему цвету слоёв и нормали сетки
+    float detail = 1.0 - smoothstep(uDetailFadeStart, uDetailFadeEnd, vViewDistance);
+    vec3 albedo = meanColor;
+    vec3 surfaceNormal = normal;
+    vec3 position = vWorldPosition / uTextureScale;
+    vec3 positionDx = dFdx(position);
+    vec3 positionDy = dFdy(position);
+
+    if (detail > 0.0) {
+        // Трипланарные веса; на пологих склонах остаётся одна проекция сверху
+        vec3 blend = pow(abs(normal), vec3(4.0));
+        blend.xz *= 1.0 - smoothstep(TRIPLANAR_END, TRIPLANAR_START, abs(normal.y));
+        blend /= dot(blend, vec3(1.0));
+
+        vec3 textureAlbedo = vec3(0.0);
+        vec3 detailNormal = vec3(0.0);
+        vec3 projectedAlbedo;
+        vec3 tangentNormal;
+
+        // Нормали проекций переводятся в мир смешиванием whiteout (Golus, "Normal Mapping for a Triplanar Shader")
+        if (blend.x > MIN_WEIGHT) {
+            sampleBiomes(position.zy, positionDx.zy, positionDy.zy, weights, projectedAlbedo, tangentNormal);
+            textureAlbedo += projectedAlbedo * blend.x;
+            tangentNormal = vec3(tangentNormal.xy + normal.zy, abs(tangentNormal.z) * normal.x);
+            detailNormal += tangentNormal.zyx * blend.x;
+        }
+        if (blend.y > MIN_WEIGHT) {
+            sampleBiomes(position.xz, positionDx.xz, positionDy.xz, weights, projectedAlbedo, tangentNormal);
+            textureAlbedo += projectedAlbedo * blend.y;
+            tangentNormal = vec3(tangentNormal.xy + normal.xz, abs(tangentNormal.z) * normal.y);
+            detailNormal += tangentNormal.xzy * blend.y;
+        }
+        if (blend.z > MIN_WEIGHT) {
+            sampleBiomes(position.xy, positionDx.xy, positionDy.xy, weights, projectedAlbedo, tangentNormal);
+            textureAlbedo += projectedAlbedo * blend.z;
+            tangentNormal = vec3(tangentNormal.xy + normal.xy, abs(tangentNormal.z) * normal.z);
+            detailNormal += tangentNormal.xyz * blend.z;
+        }
+
+        albedo = mix(meanColor, textureAlbedo, detail);
+        surfaceNormal = normalize(mix(normal, normalize(detailNormal), detail));
+    }
+
+    // Цвет вершин несёт то, чего нет в текстурах: следы эрозии и вариации биомов по высоте
+    vec3 baseColor = albedo * (vColor / max(meanColor, vec3(0.02)));
     
     // Диффузное освещение от солнца
-    float ndotl = max(dot(normal, normalize(uSunDirection)), 0.0);
-    vec3 diffuse = uSunColor * uSunIntensity * ndotl;
+    float ndotl = max(dot(surfaceNormal, normalize(uSunDirection)), 0.0);
+    vec3 diffuse = uSunColor * uSunIntensity * ndotl * getCascadedShadow(vWorldPosition);
     
     // Ambient освещение
     vec3 ambient = uAmbientColor * uAmbientIntensity;
     
     // Простое "sky lighting" - дополнительное освещение сверху
-    float skyFactor = max(dot(normal, vec3(0.0, 1.0, 0.0)), 0.0);
+    float skyFactor = max(dot(surfaceNormal, vec3(0.0, 1.0, 0.0)), 0.0);
     vec3 skyLight = mix(uAmbientColor, vec3(0.4, 0.6, 1.0), 0.3) * 0.2 * skyFactor;
     
     // Комбинируем освещение
@@ -7,14 +7,28 @@ uniform vec3 uFogColor;
 uniform float uFogNear;
 uniform float uFogFar;
 
+// Доли биомов вершины (биомы набора 0..3, 4..7 и 8..11) - веса слоёв текстур
+attribute vec4 biomeWeights0;
+attribute vec4 biomeWeights1;
+attribute vec4 biomeWeights2;
+
 varying vec3 vColor;
 varying vec3 vNormal;
 varying vec3 vWorldPosition;
 varying float vFogFactor;
+varying float vViewDistance;
+varying vec4 vBiomeWeights0;
+varying vec4 vBiomeWeights1;
+varying vec4 vBiomeWeights2;
 
 void main() {
     vColor = color;
-    vNormal = normalize(normalMatrix * normal);
+    vBiomeWeights0 = biomeWeights0;
+    vBiomeWeights1 = biomeWeights1;
+    vBiomeWeights2 = biomeWeights2;
+
+    // Нормаль в мировых координатах: в них солнце и трипланарные проекции
+    vNormal = normalize(mat3(modelMatrix) * normal);
     
     // Мировая позиция для освещения
     vec4 worldPosition = modelMatrix * vec4(position, 1.0);
@@ -24,6 +38,7 @@ void main() {
     vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
     float distance = length(mvPosition.xyz);
     vFogFactor = smoothstep(uFogNear, uFogFar, distance);
+    vViewDistance = distance;
     
     gl_Position = projectionMatrix * mvPosition;
 }
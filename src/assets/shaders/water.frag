@@ -9,11 +9,39 @@ uniform float uFogNear;
 uniform float uFogFar;
 uniform vec3 uCameraPosition;
 
+// Предпроход сцены без воды (WaterDepthPass) и настройки воды из UI
+uniform sampler2D uSceneColor;
+uniform sampler2D uSceneDepth;
+uniform vec2 uResolution;
+uniform float uCameraNear;
+uniform float uCameraFar;
+uniform bool uDepthEffects;
+uniform bool uRefraction;
+uniform float uRefractionStrength;
+uniform float uClarity;
+uniform float uFoam;
+uniform float uFoamWidth;
+uniform float uSoftEdge;
+
+// Зеркальный проход (WaterReflectionPass): мировая точка на плоскости зеркала -> UV текстуры отражения
+uniform sampler2D uReflection;
+uniform mat4 uReflectionMatrix;
+uniform bool uReflectionEnabled;
+uniform float uReflectionPlane;
+
+#include <packing>
+#include <cascaded_shadows>
+
 varying vec3 vPosition;
 varying vec3 vWorldPosition;
 varying vec3 vViewPosition;
 varying vec2 vUv;
 
+// Расстояние вдоль взгляда до ближайшей поверхности под водой
+float sceneViewDistance(vec2 uv) {
+    return -perspectiveDepthToViewZ(texture2D(uSceneDepth, uv).x, uCameraNear, uCameraFar);
+}
+
 void main() {
     // Более глубокий и насыщенный цвет воды
     vec3 deepWaterColor = vec3(0.1, 0.2, 0.4);
@@ -31,14 +59,15 @@ void main() {
     // Направление к камере
     vec3 viewDir = normalize(uCameraPosition - vWorldPosition);
     
-    // Диффузное освещение
+    // Диффузное освещение; в тени гаснут и диффуз, и блик
+    float shadow = getCascadedShadow(vWorldPosition);
     float ndotl = max(dot(normal, normalize(uSunDirection)), 0.0);
-    vec3 diffuse = uSunColor * uSunIntensity * ndotl * 0.6;
+    vec3 diffuse = uSunColor * uSunIntensity * ndotl * 0.6 * shadow;
     
     // Спекулярное отражение (Blinn-Phong)
     vec3 halfVector = normalize(normalize(uSunDirection) + viewDir);
     float specular = pow(max(dot(normal, halfVector), 0.0), 64.0);
-    vec3 specularColor = uSunColor * specular * 0.8;
+    vec3 specularColor = uSunColor * specular * 0.8 * shadow;
     
     // Ambient освещение
     vec3 ambient = uAmbientColor * uAmbientIntensity;
@@ -59,8 +88,51 @@ void main() {
     // Комбинируем освещение
     vec3 finalColor = (waterColor + ambient + diffuse + specularColor) * caustics + underwaterGlow;
     
+    // Отражение неба, гор и солнца - только у глади на уровне плоскости зеркала: у других озёр оно
+    // было бы отражением из чужой плоскости
+    if (uReflectionEnabled) {
+        vec4 reflectionCoord = uReflectionMatrix * vec4(vWorldPosition.x, uReflectionPlane, vWorldPosition.z, 1.0);
+        vec2 reflectionUv = reflectionCoord.xy / reflectionCoord.w + normal.xz * 0.5;
+        vec3 reflectedColor = texture2D(uReflection, reflectionUv).rgb;
+        float planeMatch = 1.0 - step(0.01, abs(vWorldPosition.y - uReflectionPlane));
+        finalColor = mix(finalColor, reflectedColor + specularColor, planeMatch * mix(0.15, 0.85, fresnel));
+    }
+
     // Альфа-канал для прозрачности (более прозрачная на мелководье)
     float alpha = mix(0.8, 0.95, fresnel);
+
+    if (uDepthEffects) {
+        vec2 screenUv = gl_FragCoord.xy / uResolution;
+        float waterDistance = vViewPosition.z;
+        float thickness = max(sceneViewDistance(screenUv) - waterDistance, 0.0);
+
+        // Поглощение по толщине слоя: красный гаснет быстрее синего, к clarity дно почти не видно
+        vec3 transmittance = exp(-thickness / uClarity * vec3(4.5, 3.0, 2.2));
+        float opacity = max(1.0 - dot(transmittance, vec3(1.0 / 3.0)), fresnel * 0.5);
+        float edge = smoothstep(0.0, uSoftEdge, thickness);
+
+        // Пена: полосы, набегающие на берег, разбитые шумом по мировым координатам
+        float shore = 1.0 - smoothstep(0.0, uFoamWidth, thickness);
+        float bands = sin(thickness / uFoamWidth * 10.0 - uTime * 2.0 + sin(vWorldPosition.x * 0.3) * 2.0);
+        float breakup = sin(vWorldPosition.x * 0.7 + uTime) * sin(vWorldPosition.z * 0.9 - uTime * 0.8);
+        float foam = shore * smoothstep(0.2, 0.9, bands * 0.5 + 0.5 + breakup * 0.3) * uFoam;
+        vec3 foamColor = vec3(0.95) * (ambient + diffuse + 0.3);
+
+        if (uRefraction) {
+            // Дно смещается волнами тем сильнее, чем толще слой; пиксели перед водой не берём
+            vec2 refractedUv = screenUv + normal.xz * uRefractionStrength * clamp(thickness, 0.0, 1.0);
+            if (sceneViewDistance(refractedUv) < waterDistance) refractedUv = screenUv;
+            vec3 floorColor = texture2D(uSceneColor, refractedUv).rgb;
+
+            finalColor = mix(floorColor * transmittance, finalColor, opacity * edge);
+            alpha = 1.0;
+        } else {
+            alpha = opacity * edge;
+        }
+
+        finalColor = mix(finalColor, foamColor, foam);
+        alpha = max(alpha, foam * edge);
+    }
     
     // Fog calculation
     float distance = length(vViewPosition);
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { Color } from 'three'
+import { BiomeManager } from './BiomeManager'
+import { defaultBiomePack, type BiomePack } from './BiomePack'
+import { BIOME_WEIGHT_STRIDE } from '@/terrain/BiomeClassifier'
+
+const biomeIndex = (id: string) => defaultBiomePack.biomes.findIndex(biome => biome.id === id)
+
+describe('BiomeManager.getBiomeColor', () => {
+    const biomeManager = new BiomeManager()
+
+    it('returns grey for unknown biomes', () => {
+        expect(biomeManager.getBiomeColor('lava', 10).getHex()).toBe(0x808080)
+    })
+
+    it('uses the base colour at the ends of the height range and variations in between', () => {
+        const base = new Color(0x4d7c0f)
+
+        expect(biomeManager.getBiomeColor('forest', -10).getHex()).toBe(base.getHex())
+        expect(biomeManager.getBiomeColor('forest', 100).getHex()).toBe(base.getHex())
+        expect(biomeManager.getBiomeColor('forest', 5).getHex()).not.toBe(base.getHex())
+    })
+
+    it('is deterministic and returns independent colour instances', () => {
+        const a = biomeManager.getBiomeColor('rocks', 12)
+        const b = biomeManager.getBiomeColor('rocks', 12)
+
+        expect(a.equals(b)).toBe(true)
+        a.set(0xffffff)
+        expect(biomeManager.getBiomeColor('rocks', 12).equals(b)).toBe(true)
+    })
+})
+
+describe('BiomeManager erosion colours', () => {
+    const biomeManager = new BiomeManager()
+
+    it('darkens riverbeds and greys scree but leaves water and untouched ground alone', () => {
+        const fields = biomeManager.getBiomeColor('fields', 5)
+        const riverbed = biomeManager.tintErosion(fields.clone(), 'fields', 0, 1)
+        const scree = biomeManager.tintErosion(fields.clone(), 'fields', 5, 0)
+
+        expect(biomeManager.tintErosion(fields.clone(), 'fields', 0, 0).equals(fields)).toBe(true)
+        expect(biomeManager.tintErosion(fields.clone(), 'water', 5, 1).equals(fields)).toBe(true)
+        expect(riverbed.getHSL({ h: 0, s: 0, l: 0 }).l).toBeLessThan(fields.getHSL({ h: 0, s: 0, l: 0 }).l)
+        expect(scree.getHSL({ h: 0, s: 0, l: 0 }).s).toBeLessThan(fields.getHSL({ h: 0, s: 0, l: 0 }).s)
+    })
+
+    it('tints chunk colour buffers in place, skipping water vertices', () => {
+        const colors = new Float32Array([0.5, 0.8, 0.1, 0.2, 0.5, 0.9])
+        const biomeWeights = new Uint8Array(2 * BIOME_WEIGHT_STRIDE)
+        biomeWeights[biomeIndex('fields')] = 255
+        biomeWeights[BIOME_WEIGHT_STRIDE + biomeIndex('water')] = 255
+        biomeManager.applyErosionColors(colors, biomeWeights, new Float32Array([0, 5]), new Float32Array([1, 1]))
+
+        expect(Array.from(colors.subarray(0, 3))).not.toEqual([0.5, 0.8, 0.1].map(Math.fround))
+        expect(Array.from(colors.subarray(3))).toEqual([0.2, 0.5, 0.9].map(Math.fround))
+    })
+})
+
+describe('BiomeManager biome packs', () => {
+    it('swaps colours and scatter objects with the pack', () => {
+        const biomeManager = new BiomeManager()
+        const pack: BiomePack = {
+            ...defaultBiomePack,
+            biomes: defaultBiomePack.biomes.map(biome =>
+                biome.id === 'forest' ? { ...biome, color: '#ff0000', variations: [], scatter: [] } : biome
+            ),
+        }
+
+        expect(biomeManager.getScatterObjects('forest').map(object => object.type)).toEqual(['tree', 'bush'])
+        biomeManager.setBiomePack(pack)
+
+        expect(biomeManager.getBiomeColor('forest', 5).getHex()).toBe(0xff0000)
+        expect(biomeManager.getScatterObjects('forest')).toEqual([])
+        expect(biomeManager.getBiomeId(biomeIndex('forest'))).toBe('forest')
+    })
+})
@@ -7,33 +7,51 @@ import {
     SphereGeometry,
     PlaneGeometry,
     Object3D,
+    BufferGeometry,
+    Material,
+    DoubleSide,
 } from 'three'
 import { globalProfiler } from '@/utils/Profiler'
-
-export const BiomeType = {
-    FOREST: 'forest',
-    ROCKS: 'rocks',
-    FIELDS: 'fields',
-    SAND: 'sand',
-    WATER: 'water',
-} as const
-
-export type BiomeTypeValue = (typeof BiomeType)[keyof typeof BiomeType]
+import { createSeededRandom, hashSeed } from '@/utils/SeededRandom'
+import { getDominantBiome } from '@/terrain/BiomeClassifier'
+import { encodeDisplayOutput } from '@/postfx/DisplayOutput'
+import { defaultBiomePack, type BiomePack, type BiomeScatterObject } from './BiomePack'
 
 interface BiomeConfig {
     baseColor: Color
     variations: Color[]
-    objectTypes: string[]
+    scatter: BiomeScatterObject[]
+    erosion: boolean // Окрашивать ли следы эрозии
+}
+
+// Цвета следов эрозии поверх биомов
+const riverbedColor = new Color(0x6b5a45) // Влажный грунт русел
+const screeColor = new Color(0x8f8a80) // Щебень осыпей и наносов
+const erosionColor = new Color()
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+    const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)))
+    return t * t * (3 - 2 * t)
 }
 
+// Часть объекта для InstancedMesh: геометрия с запечённым локальным трансформом и материал
+export interface InstancedObjectPart {
+    geometry: BufferGeometry
+    material: Material
+}
+
+// Цвета и объекты биомов из набора (BiomePack); биом - id из набора, номер доли - его место в наборе
 export class BiomeManager {
+    private biomePack: BiomePack
     private biomeConfigs: Map<string, BiomeConfig> = new Map()
     private treeMaterial!: MeshLambertMaterial
     private rockMaterial!: MeshLambertMaterial
     private grassMaterial!: MeshLambertMaterial
     private wireframeEnabled = false
+    private instancedParts: Map<string, InstancedObjectPart[]> = new Map()
 
-    constructor() {
+    constructor(biomePack: BiomePack = defaultBiomePack) {
+        this.biomePack = biomePack
         this.initializeBiomes()
         this.createMaterials()
     }
@@ -48,60 +66,59 @@ export class BiomeManager {
     }
 
     private initializeMaterials(): void {
-        this.treeMaterial = new MeshLambertMaterial({ color: 0x4d7c0f })
-        this.rockMaterial = new MeshLambertMaterial({ color: 0xa8a29e })
-        this.grassMaterial = new MeshLambertMaterial({ color: 0x84cc16 })
+        this.treeMaterial = encodeDisplayOutput(new MeshLambertMaterial({ color: 0x4d7c0f }))
+        this.rockMaterial = encodeDisplayOutput(new MeshLambertMaterial({ color: 0xa8a29e }))
+        this.grassMaterial = encodeDisplayOutput(new MeshLambertMaterial({ color: 0x84cc16, side: DoubleSide }))
     }
 
     private initializeBiomes(): void {
-        this.biomeConfigs.set(BiomeType.FOREST, {
-            baseColor: new Color(0x4d7c0f), // Более яркий зелёный
-            variations: [new Color(0x22c55e), new Color(0x16a34a), new Color(0x15803d)],
-            objectTypes: ['tree', 'bush'],
-        })
-
-        this.biomeConfigs.set(BiomeType.ROCKS, {
-            baseColor: new Color(0xa8a29e), // Более светлый серый
-            variations: [new Color(0xd6d3d1), new Color(0x78716c), new Color(0x57534e)],
-            objectTypes: ['rock', 'boulder'],
-        })
-
-        this.biomeConfigs.set(BiomeType.FIELDS, {
-            baseColor: new Color(0x84cc16), // Ярче салатовый
-            variations: [new Color(0xa3e635), new Color(0x65a30d), new Color(0x4d7c0f)],
-            objectTypes: ['grass', 'flower'],
-        })
+        this.biomeConfigs.clear()
+        for (const biome of this.biomePack.biomes) {
+            this.biomeConfigs.set(biome.id, {
+                baseColor: new Color(biome.color),
+                variations: biome.variations.map(variation => new Color(variation)),
+                scatter: biome.scatter,
+                erosion: biome.ground.erosion ?? true,
+            })
+        }
+    }
 
-        this.biomeConfigs.set(BiomeType.SAND, {
-            baseColor: new Color(0xfde68a), // Ярче жёлтый
-            variations: [new Color(0xfef3c7), new Color(0xfcd34d), new Color(0xf59e0b)],
-            objectTypes: ['driftwood', 'shell'],
-        })
+    // Набор должен быть проверен (validateBiomePack); прототипы объектов не зависят от набора и остаются
+    setBiomePack(biomePack: BiomePack): void {
+        this.biomePack = biomePack
+        this.initializeBiomes()
+    }
 
-        this.biomeConfigs.set(BiomeType.WATER, {
-            baseColor: new Color(0x3b82f6), // Ярче синий
-            variations: [new Color(0x60a5fa), new Color(0x2563eb), new Color(0x1d4ed8)],
-            objectTypes: [],
-        })
+    // id биома по номеру доли в biomeWeights
+    getBiomeId(index: number): string {
+        return this.biomePack.biomes[index]?.id ?? this.biomePack.fallback
     }
 
     private createMaterials(): void {
-        this.treeMaterial = new MeshLambertMaterial({
-            color: 0x8b4513, // Коричневый ствол
-        })
-
-        this.rockMaterial = new MeshLambertMaterial({
-            color: 0xa8a29e, // Светло-серый камень
-        })
-
-        this.grassMaterial = new MeshLambertMaterial({
-            color: 0x22c55e, // Ярко-зелёная трава
-        })
+        this.treeMaterial = encodeDisplayOutput(
+            new MeshLambertMaterial({
+                color: 0x8b4513, // Коричневый ствол
+            })
+        )
+
+        this.rockMaterial = encodeDisplayOutput(
+            new MeshLambertMaterial({
+                color: 0xa8a29e, // Светло-серый камень
+            })
+        )
+
+        this.grassMaterial = encodeDisplayOutput(
+            new MeshLambertMaterial({
+                color: 0x22c55e, // Ярко-зелёная трава
+                side: DoubleSide,
+            })
+        )
     }
 
     getBiomeColor(biome: string, height: number): Color {
         const config = this.biomeConfigs.get(biome)
         if (!config) return new Color(0x808080)
+        if (config.variations.length === 0) return config.baseColor.clone()
 
         const heightFactor = Math.max(0, Math.min(1, (height + 10) / 40))
         const variationIndex = Math.floor(heightFactor * config.variations.length)
@@ -111,19 +128,47 @@ export class BiomeManager {
         return config.baseColor.clone().lerp(selectedVariation, mixFactor)
     }
 
-    createBiomeObject(biome: string, height: number): Object3D | null {
-        const config = this.biomeConfigs.get(biome)
-        if (!config || config.objectTypes.length === 0) return null
+    // Русла (сильный сток) темнеют до влажного грунта, наносы и осыпи у подножий - до щебня.
+    // Меняет color на месте; биомы с ground.erosion = false (дно водоёмов) не окрашиваются
+    tintErosion(color: Color, biome: string, sediment: number, flow: number): Color {
+        return this.biomeConfigs.get(biome)?.erosion === false ? color : this.blendErosion(color, sediment, flow)
+    }
+
+    // То же для буферов чанка из воркера: biomeWeights - доли биомов (BIOME_WEIGHT_STRIDE на вершину),
+    // остальные массивы по одному значению на вершину
+    applyErosionColors(
+        colors: Float32Array,
+        biomeWeights: Uint8Array,
+        sediment: Float32Array,
+        flow: Float32Array
+    ): void {
+        for (let i = 0; i < sediment.length; i++) {
+            if (sediment[i] === 0 && flow[i] === 0) continue
+            if (this.biomeConfigs.get(this.getBiomeId(getDominantBiome(biomeWeights, i)))?.erosion === false) continue
+
+            erosionColor.fromArray(colors, i * 3)
+            this.blendErosion(erosionColor, sediment[i], flow[i]).toArray(colors, i * 3)
+        }
+    }
 
-        const objectType = config.objectTypes[Math.floor(Math.random() * config.objectTypes.length)]
+    private blendErosion(color: Color, sediment: number, flow: number): Color {
+        color.lerp(screeColor, smoothstep(0.3, 3, sediment) * 0.7)
+        return color.lerp(riverbedColor, smoothstep(0.35, 0.9, flow) * 0.6)
+    }
+
+    // Объекты расстановки биома; пусто - биом без объектов или не из набора
+    getScatterObjects(biome: string): readonly BiomeScatterObject[] {
+        return this.biomeConfigs.get(biome)?.scatter ?? []
+    }
 
+    private createObjectOfType(objectType: string, height: number, random: () => number): Object3D | null {
         switch (objectType) {
             case 'tree':
-                return this.createTree(height)
+                return this.createTree(height, random)
             case 'rock':
-                return this.createRock(height)
+                return this.createRock(height, random)
             case 'boulder':
-                return this.createBoulder(height)
+                return this.createBoulder(height, random)
             case 'grass':
                 return this.createGrass()
             case 'bush':
@@ -133,13 +178,43 @@ export class BiomeManager {
         }
     }
 
-    private createTree(height: number = 0): Object3D {
+    // Общие геометрии и материалы типа объекта для InstancedMesh. Прототип строится один раз
+    // с детерминированным генератором, вариативность экземплярам даёт трансформ.
+    // Пустой массив - у типа нет реализации
+    getInstancedParts(objectType: string): InstancedObjectPart[] {
+        const cached = this.instancedParts.get(objectType)
+        if (cached) return cached
+
+        const parts: InstancedObjectPart[] = []
+        let typeHash = 0
+        for (let i = 0; i < objectType.length; i++) {
+            typeHash = hashSeed(typeHash, objectType.charCodeAt(i))
+        }
+        const prototype = this.createObjectOfType(objectType, 0, createSeededRandom(typeHash))
+
+        if (prototype) {
+            prototype.updateMatrixWorld(true)
+            prototype.traverse(child => {
+                if (!(child instanceof Mesh)) return
+
+                const geometry = (child.geometry as BufferGeometry).clone()
+                geometry.applyMatrix4(child.matrixWorld)
+                child.geometry.dispose()
+                parts.push({ geometry, material: child.material as Material })
+            })
+        }
+
+        this.instancedParts.set(objectType, parts)
+        return parts
+    }
+
+    private createTree(height: number = 0, random: () => number = Math.random): Object3D {
         const tree = new Group()
 
         // Размер дерева зависит от высоты - на высоких местах деревья меньше
         const sizeFactor = Math.max(0.5, 1 - height * 0.02)
-        const trunkHeight = (3 + Math.random() * 2) * sizeFactor
-        const trunkRadius = (0.2 + Math.random() * 0.2) * sizeFactor
+        const trunkHeight = (3 + random() * 2) * sizeFactor
+        const trunkRadius = (0.2 + random() * 0.2) * sizeFactor
 
         // Trunk
         const trunkGeometry = new CylinderGeometry(trunkRadius, trunkRadius * 1.2, trunkHeight, 8)
@@ -148,10 +223,10 @@ export class BiomeManager {
         tree.add(trunk)
 
         // Leaves - варьируем цвет листвы
-        const leavesSize = (1.5 + Math.random() * 1) * sizeFactor
+        const leavesSize = (1.5 + random() * 1) * sizeFactor
         const leavesGeometry = new SphereGeometry(leavesSize, 8, 6)
-        const leafColor = new Color().setHSL(0.25 + Math.random() * 0.1, 0.6, 0.3 + Math.random() * 0.2)
-        const leavesMaterial = new MeshLambertMaterial({ color: leafColor })
+        const leafColor = new Color().setHSL(0.25 + random() * 0.1, 0.6, 0.3 + random() * 0.2)
+        const leavesMaterial = encodeDisplayOutput(new MeshLambertMaterial({ color: leafColor }))
         leavesMaterial.wireframe = this.wireframeEnabled
         const leaves = new Mesh(leavesGeometry, leavesMaterial)
         leaves.position.y = trunkHeight + leavesSize * 0.7
@@ -160,36 +235,36 @@ export class BiomeManager {
         return tree
     }
 
-    private createRock(height: number = 0): Object3D {
+    private createRock(height: number = 0, random: () => number = Math.random): Object3D {
         // На больших высотах камни более остроугольные
         const sharpness = Math.min(1, height * 0.05)
-        const size = 0.3 + Math.random() * 0.4
+        const size = 0.3 + random() * 0.4
         const rockGeometry = new SphereGeometry(size, Math.max(4, 8 - sharpness * 4), Math.max(3, 6 - sharpness * 3))
         const rock = new Mesh(rockGeometry, this.rockMaterial)
-        rock.scale.y = 0.4 + Math.random() * 0.6
-        rock.rotation.y = Math.random() * Math.PI * 2
+        rock.scale.y = 0.4 + random() * 0.6
+        rock.rotation.y = random() * Math.PI * 2
         return rock
     }
 
-    private createBoulder(height: number = 0): Object3D {
-        const size = 0.8 + Math.random() * 0.7
+    private createBoulder(height: number = 0, random: () => number = Math.random): Object3D {
+        const size = 0.8 + random() * 0.7
         const boulderGeometry = new SphereGeometry(size, 8, 6)
         const boulder = new Mesh(boulderGeometry, this.rockMaterial)
-        boulder.scale.y = 0.6 + Math.random() * 0.4
-        boulder.rotation.y = Math.random() * Math.PI * 2
+        boulder.scale.y = 0.6 + random() * 0.4
+        boulder.rotation.y = random() * Math.PI * 2
         return boulder
     }
 
     private createGrass(): Object3D {
         const grassGeometry = new PlaneGeometry(0.5, 1)
         const grass = new Mesh(grassGeometry, this.grassMaterial)
-        grass.rotation.x = Math.PI / 2
+        grass.position.y = 0.5 // Стоит вертикально, нижним краем на земле
         return grass
     }
 
     private createBush(): Object3D {
         const bushGeometry = new SphereGeometry(0.8, 6, 4)
-        const bushMaterial = new MeshLambertMaterial({ color: 0x228b22 })
+        const bushMaterial = encodeDisplayOutput(new MeshLambertMaterial({ color: 0x228b22 }))
         bushMaterial.wireframe = this.wireframeEnabled
         const bush = new Mesh(bushGeometry, bushMaterial)
         bush.scale.y = 0.6
@@ -201,5 +276,28 @@ export class BiomeManager {
         this.treeMaterial.wireframe = enabled
         this.rockMaterial.wireframe = enabled
         this.grassMaterial.wireframe = enabled
+
+        // Материалы прототипов (листва, кусты) живут отдельно от общих
+        this.instancedParts.forEach(parts => {
+            parts.forEach(part => {
+                ;(part.material as MeshLambertMaterial).wireframe = enabled
+            })
+        })
+    }
+
+    dispose(): void {
+        this.instancedParts.forEach(parts => {
+            parts.forEach(part => {
+                part.geometry.dispose()
+                if (
+                    part.material !== this.treeMaterial &&
+                    part.material !== this.rockMaterial &&
+                    part.material !== this.grassMaterial
+                ) {
+                    part.material.dispose()
+                }
+            })
+        })
+        this.instancedParts.clear()
     }
 }
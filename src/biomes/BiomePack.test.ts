@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { defaultBiomePack, getBiomePackKey, parseBiomePack, validateBiomePack } from './BiomePack'
+import { getTerrainHeightConfigKey } from '@/terrain/TerrainHeightFunction'
+
+const clonePack = () => JSON.parse(JSON.stringify(defaultBiomePack))
+
+describe('BiomePack', () => {
+    it('accepts the default pack', () => {
+        expect(validateBiomePack(clonePack())).toEqual(defaultBiomePack)
+        expect(defaultBiomePack.biomes.map(biome => biome.id)).toContain(defaultBiomePack.fallback)
+    })
+
+    it('reports each invalid field with its path', () => {
+        const pack = clonePack()
+        pack.version = 2
+        pack.biomes[1].scatter[0].type = 'shell'
+        pack.biomes[2].color = 'green'
+        pack.biomes[3].climate.moisture = { min: 0.8, max: 0.6 }
+        pack.biomes[4].ground.pattern = 'lava'
+        pack.biomes[5].id = 'water'
+
+        expect(() => validateBiomePack(pack)).toThrow(
+            'Invalid biome pack: version must be 1, got 2; ' +
+                'biomes[1].scatter[0].type must be one of tree, bush, rock, boulder, grass, got "shell"; ' +
+                'biomes[2].color must be a #rrggbb colour, got "green"; ' +
+                'biomes[3].climate.moisture must have min below max, got {"min":0.8,"max":0.6}; ' +
+                'biomes[4].ground.pattern must be one of silt, sand, meadow, leaf-litter, rock, moss, snow, ' +
+                'dry-grass, mud, dunes, got "lava"; ' +
+                'biomes[5].id must be unique, got "water"'
+        )
+    })
+
+    it('checks densities, the fallback and the biome count', () => {
+        const pack = clonePack()
+        pack.fallback = 'jungle'
+        pack.biomes[3].scatter[0].density = 0.9
+        pack.biomes[3].scatter[1].scale = [1.2, 0.8]
+
+        expect(() => validateBiomePack(pack)).toThrow(
+            'Invalid biome pack: biomes[3].scatter[1].scale must be [min, max] with 0 < min <= max, got [1.2,0.8]; ' +
+                'biomes[3].scatter must have densities summing to at most 1, got 1.15; ' +
+                'fallback must be the id of a biome in the pack, got "jungle"'
+        )
+
+        const crowded = clonePack()
+        crowded.biomes = [...crowded.biomes, ...crowded.biomes]
+        expect(() => validateBiomePack(crowded)).toThrow('biomes must be an array of 1 to 12 biomes, got "20 biomes"')
+        expect(() => validateBiomePack([])).toThrow('Invalid biome pack: expected an object, got []')
+    })
+
+    it('parses JSON text and reports syntax errors in the same format', () => {
+        expect(parseBiomePack(JSON.stringify(defaultBiomePack))).toEqual(defaultBiomePack)
+        expect(() => parseBiomePack('{ "version": 1,')).toThrow('Invalid biome pack: not valid JSON')
+    })
+
+    it('changes the height function key so workers pick up a new pack', () => {
+        const pack = clonePack()
+        pack.biomes[0].color = '#000000'
+
+        expect(getBiomePackKey(pack)).not.toBe(getBiomePackKey(defaultBiomePack))
+        expect(getTerrainHeightConfigKey({ seed: 1, biomes: pack })).not.toBe(getTerrainHeightConfigKey({ seed: 1 }))
+    })
+})
@@ -0,0 +1,260 @@
+// Набор биомов в JSON: цвета, климатические диапазоны, объекты расстановки и материал грунта.
+// Набор читают воркеры (классификация), BiomeManager (цвета и объекты) и ShaderManager (текстуры),
+// поэтому модуль не зависит от three.js и DOM
+import defaultPackJson from './packs/default.json'
+
+export const BIOME_PACK_VERSION = 1
+// Доли биомов вершины - три vec4-атрибута шейдера, больше биомов в набор не помещается
+export const MAX_BIOMES = 12
+
+export const SCATTER_OBJECT_TYPES = ['tree', 'bush', 'rock', 'boulder', 'grass'] as const
+export type ScatterObjectType = (typeof SCATTER_OBJECT_TYPES)[number]
+
+// Рисунки слоёв текстур рельефа (TerrainTextures)
+export const GROUND_PATTERNS = [
+    'silt',
+    'sand',
+    'meadow',
+    'leaf-litter',
+    'rock',
+    'moss',
+    'snow',
+    'dry-grass',
+    'mud',
+    'dunes',
+] as const
+export type GroundPattern = (typeof GROUND_PATTERNS)[number]
+
+// Диапазон климата: принадлежность плавно растёт около min и падает около max, blend - полуширина перехода.
+// Без min или max диапазон открыт с этой стороны
+export interface ClimateRange {
+    min?: number
+    max?: number
+    blend?: number
+}
+
+export interface BiomeClimate {
+    temperature?: ClimateRange // °C
+    moisture?: ClimateRange // 0..1
+    elevation?: ClimateRange // Метры над уровнем моря
+}
+
+export interface BiomeScatterObject {
+    type: ScatterObjectType
+    density: number // Доля точек Poisson-выборки с этим объектом; сумма по биому не больше 1
+    scale: [number, number] // Случайный масштаб экземпляра от и до
+    maxSlope: number // Максимальный уклон поверхности в градусах
+}
+
+export interface BiomeGround {
+    pattern: GroundPattern
+    normalStrength?: number // Рельефность карты нормалей; по умолчанию - своя у каждого рисунка
+    erosion?: boolean // false - следы эрозии (русла, осыпи) не окрашивают биом, как дно водоёмов
+}
+
+export interface BiomeDefinition {
+    id: string
+    name: string
+    color: string // #rrggbb - средний цвет слоя текстур и цвет вершин
+    variations: string[] // Оттенки по высоте для CPU раскраски
+    priority: number // Меньше - раньше забирает свою долю; биомы с равным приоритетом делят остаток
+    climate: BiomeClimate
+    ground: BiomeGround
+    scatter: BiomeScatterObject[]
+}
+
+export interface BiomePack {
+    version: typeof BIOME_PACK_VERSION
+    name: string
+    fallback: string // Биом для доли, которую не забрал ни один диапазон
+    biomes: BiomeDefinition[]
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/
+const CLIMATE_AXES = ['temperature', 'moisture', 'elevation'] as const
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const formatValue = (value: unknown) => (value === undefined ? 'nothing' : JSON.stringify(value))
+
+type Check = (condition: boolean, path: string, requirement: string, value: unknown) => boolean
+
+// Проверяет набор целиком и перечисляет все ошибки с путями, например
+// biomes[2].scatter[0].type must be one of tree, bush, rock, boulder, grass, got "flower"
+export function validateBiomePack(pack: unknown): BiomePack {
+    const errors: string[] = []
+    const check: Check = (condition, path, requirement, value) => {
+        if (!condition) errors.push(`${path} must ${requirement}, got ${formatValue(value)}`)
+        return condition
+    }
+
+    if (!isObject(pack)) {
+        throw new Error(`Invalid biome pack: expected an object, got ${formatValue(pack)}`)
+    }
+
+    check(pack.version === BIOME_PACK_VERSION, 'version', `be ${BIOME_PACK_VERSION}`, pack.version)
+    check(typeof pack.name === 'string' && pack.name !== '', 'name', 'be a non-empty string', pack.name)
+
+    const biomes = pack.biomes
+    const ids = new Set<string>()
+    if (
+        check(
+            Array.isArray(biomes) && biomes.length > 0 && biomes.length <= MAX_BIOMES,
+            'biomes',
+            `be an array of 1 to ${MAX_BIOMES} biomes`,
+            Array.isArray(biomes) ? `${biomes.length} biomes` : biomes
+        )
+    ) {
+        ;(biomes as unknown[]).forEach((biome, index) => validateBiome(biome, `biomes[${index}]`, ids, check))
+    }
+
+    check(
+        typeof pack.fallback === 'string' && ids.has(pack.fallback),
+        'fallback',
+        'be the id of a biome in the pack',
+        pack.fallback
+    )
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid biome pack: ${errors.join('; ')}`)
+    }
+    return pack as unknown as BiomePack
+}
+
+function validateBiome(biome: unknown, path: string, ids: Set<string>, check: Check): void {
+    if (!check(isObject(biome), path, 'be an object', biome)) return
+    const { id, name, color, variations, priority, climate, ground, scatter } = biome as JsonObject
+
+    if (check(typeof id === 'string' && /^[a-z0-9-]+$/.test(id), `${path}.id`, 'be a lowercase slug', id)) {
+        check(!ids.has(id as string), `${path}.id`, 'be unique', id)
+        ids.add(id as string)
+    }
+    check(typeof name === 'string' && name !== '', `${path}.name`, 'be a non-empty string', name)
+    check(typeof color === 'string' && HEX_COLOR.test(color), `${path}.color`, 'be a #rrggbb colour', color)
+    if (check(Array.isArray(variations), `${path}.variations`, 'be an array of colours', variations)) {
+        ;(variations as unknown[]).forEach((variation, index) =>
+            check(
+                typeof variation === 'string' && HEX_COLOR.test(variation),
+                `${path}.variations[${index}]`,
+                'be a #rrggbb colour',
+                variation
+            )
+        )
+    }
+    check(isNumber(priority), `${path}.priority`, 'be a number', priority)
+
+    if (check(isObject(climate), `${path}.climate`, 'be an object', climate)) {
+        for (const key of Object.keys(climate as JsonObject)) {
+            check(
+                (CLIMATE_AXES as readonly string[]).includes(key),
+                `${path}.climate.${key}`,
+                `be one of ${CLIMATE_AXES.join(', ')}`,
+                key
+            )
+        }
+        for (const axis of CLIMATE_AXES) {
+            const range = (climate as JsonObject)[axis]
+            if (range !== undefined) validateRange(range, `${path}.climate.${axis}`, check)
+        }
+    }
+
+    if (check(isObject(ground), `${path}.ground`, 'be an object', ground)) {
+        const { pattern, normalStrength, erosion } = ground as JsonObject
+        check(
+            (GROUND_PATTERNS as readonly unknown[]).includes(pattern),
+            `${path}.ground.pattern`,
+            `be one of ${GROUND_PATTERNS.join(', ')}`,
+            pattern
+        )
+        check(
+            normalStrength === undefined || (isNumber(normalStrength) && normalStrength >= 0),
+            `${path}.ground.normalStrength`,
+            'be a non-negative number',
+            normalStrength
+        )
+        check(erosion === undefined || typeof erosion === 'boolean', `${path}.ground.erosion`, 'be a boolean', erosion)
+    }
+
+    if (check(Array.isArray(scatter), `${path}.scatter`, 'be an array', scatter)) {
+        let totalDensity = 0
+        ;(scatter as unknown[]).forEach((object, index) => {
+            totalDensity += validateScatterObject(object, `${path}.scatter[${index}]`, check)
+        })
+        check(totalDensity <= 1, `${path}.scatter`, 'have densities summing to at most 1', totalDensity)
+    }
+}
+
+function validateRange(range: unknown, path: string, check: Check): void {
+    if (!check(isObject(range), path, 'be an object with min, max or blend', range)) return
+    const { min, max, blend } = range as JsonObject
+
+    check(min === undefined || isNumber(min), `${path}.min`, 'be a number', min)
+    check(max === undefined || isNumber(max), `${path}.max`, 'be a number', max)
+    check(blend === undefined || (isNumber(blend) && blend > 0), `${path}.blend`, 'be a positive number', blend)
+    if (isNumber(min) && isNumber(max)) {
+        check(min < max, path, 'have min below max', range)
+    }
+}
+
+// Возвращает плотность объекта, чтобы проверить сумму по биому
+function validateScatterObject(object: unknown, path: string, check: Check): number {
+    if (!check(isObject(object), path, 'be an object', object)) return 0
+    const { type, density, scale, maxSlope } = object as JsonObject
+
+    check(
+        (SCATTER_OBJECT_TYPES as readonly unknown[]).includes(type),
+        `${path}.type`,
+        `be one of ${SCATTER_OBJECT_TYPES.join(', ')}`,
+        type
+    )
+    check(
+        isNumber(maxSlope) && maxSlope >= 0 && maxSlope <= 90,
+        `${path}.maxSlope`,
+        'be between 0 and 90 degrees',
+        maxSlope
+    )
+    check(
+        Array.isArray(scale) && scale.length === 2 && scale.every(isNumber) && scale[0] > 0 && scale[0] <= scale[1],
+        `${path}.scale`,
+        'be [min, max] with 0 < min <= max',
+        scale
+    )
+    if (!check(isNumber(density) && density >= 0 && density <= 1, `${path}.density`, 'be between 0 and 1', density)) {
+        return 0
+    }
+    return density as number
+}
+
+// Текст файла набора -> проверенный набор; синтаксические ошибки JSON в том же формате
+export function parseBiomePack(text: string): BiomePack {
+    let pack: unknown
+    try {
+        pack = JSON.parse(text)
+    } catch (error) {
+        throw new Error(`Invalid biome pack: not valid JSON (${error instanceof Error ? error.message : error})`)
+    }
+    return validateBiomePack(pack)
+}
+
+// #rrggbb -> [r, g, b] в 0..1
+export function parseHexColor(color: string): [number, number, number] {
+    const value = parseInt(color.slice(1), 16)
+    return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+// Ключ набора для кэшей функции высоты и переконфигурации воркеров; считается один раз на объект
+const packKeys = new WeakMap<BiomePack, string>()
+
+export function getBiomePackKey(pack: BiomePack): string {
+    let key = packKeys.get(pack)
+    if (key === undefined) {
+        key = JSON.stringify(pack)
+        packKeys.set(pack, key)
+    }
+    return key
+}
+
+export const defaultBiomePack: BiomePack = validateBiomePack(defaultPackJson)
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { samplePoissonDisk } from './PoissonDiskSampler'
+import { createSeededRandom, hashSeed } from '@/utils/SeededRandom'
+
+describe('samplePoissonDisk', () => {
+    it('is deterministic for the same chunk seed', () => {
+        const a = samplePoissonDisk(100, 100, 4, createSeededRandom(hashSeed(1337, 2, -3)))
+        const b = samplePoissonDisk(100, 100, 4, createSeededRandom(hashSeed(1337, 2, -3)))
+        const c = samplePoissonDisk(100, 100, 4, createSeededRandom(hashSeed(1337, 3, -3)))
+
+        expect(a).toEqual(b)
+        expect(a).not.toEqual(c)
+    })
+
+    it('keeps points inside the area and at least radius apart', () => {
+        const radius = 5
+        const points = samplePoissonDisk(60, 40, radius, createSeededRandom(42))
+
+        expect(points.length).toBeGreaterThan(20)
+        for (let i = 0; i < points.length; i++) {
+            const [x, y] = points[i]
+            expect(x >= 0 && x < 60 && y >= 0 && y < 40).toBe(true)
+            for (let j = i + 1; j < points.length; j++) {
+                expect(Math.hypot(points[j][0] - x, points[j][1] - y)).toBeGreaterThanOrEqual(radius)
+            }
+        }
+    })
+})
@@ -0,0 +1,73 @@
+// Poisson-disk выборка (алгоритм Бридсона): точки не ближе radius друг к другу.
+// Результат полностью определяется переданным генератором random
+export function samplePoissonDisk(
+    width: number,
+    height: number,
+    radius: number,
+    random: () => number,
+    maxAttempts: number = 30
+): Array<[number, number]> {
+    const cellSize = radius / Math.SQRT2
+    const gridWidth = Math.ceil(width / cellSize)
+    const gridHeight = Math.ceil(height / cellSize)
+    const grid = new Int32Array(gridWidth * gridHeight).fill(-1)
+    const points: Array<[number, number]> = []
+    const active: number[] = []
+    const radiusSq = radius * radius
+
+    const addPoint = (x: number, y: number) => {
+        const index = points.length
+        points.push([x, y])
+        active.push(index)
+        grid[Math.floor(y / cellSize) * gridWidth + Math.floor(x / cellSize)] = index
+    }
+
+    const isFarEnough = (x: number, y: number): boolean => {
+        const cellX = Math.floor(x / cellSize)
+        const cellY = Math.floor(y / cellSize)
+
+        // Соседние ячейки в радиусе двух клеток покрывают весь круг radius
+        for (let gy = Math.max(0, cellY - 2); gy <= Math.min(gridHeight - 1, cellY + 2); gy++) {
+            for (let gx = Math.max(0, cellX - 2); gx <= Math.min(gridWidth - 1, cellX + 2); gx++) {
+                const pointIndex = grid[gy * gridWidth + gx]
+                if (pointIndex === -1) continue
+
+                const dx = points[pointIndex][0] - x
+                const dy = points[pointIndex][1] - y
+                if (dx * dx + dy * dy < radiusSq) return false
+            }
+        }
+        return true
+    }
+
+    addPoint(random() * width, random() * height)
+
+    while (active.length > 0) {
+        const activeIndex = Math.floor(random() * active.length)
+        const [px, py] = points[active[activeIndex]]
+        let found = false
+
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            // Кандидат в кольце [radius, 2 * radius] вокруг активной точки
+            const angle = random() * Math.PI * 2
+            const distance = radius * (1 + random())
+            const x = px + Math.cos(angle) * distance
+            const y = py + Math.sin(angle) * distance
+
+            if (x < 0 || x >= width || y < 0 || y >= height) continue
+            if (!isFarEnough(x, y)) continue
+
+            addPoint(x, y)
+            found = true
+            break
+        }
+
+        if (!found) {
+            // Точка исчерпала попытки - убираем её из активного списка (swap-remove)
+            active[activeIndex] = active[active.length - 1]
+            active.pop()
+        }
+    }
+
+    return points
+}
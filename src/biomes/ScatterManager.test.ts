@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { InstancedMesh, Matrix4, Scene, Vector3 } from 'three'
+import { ScatterManager, type ScatterChunk } from './ScatterManager'
+import { BiomeManager } from './BiomeManager'
+import { defaultBiomePack } from './BiomePack'
+import { HeightGenerator } from '@/terrain/HeightGenerator'
+import { BIOME_WEIGHT_STRIDE } from '@/terrain/BiomeClassifier'
+
+describe('ScatterManager', () => {
+    it('places objects on the triangles of the chunk mesh', () => {
+        const chunkSize = 32
+        // Один квад: вершины a, b, c на высоте 10, d поднята до 18 - треугольник (b, c, d) наклонён
+        const vertices = new Float32Array([-16, 10, -16, 16, 10, -16, -16, 10, 16, 16, 18, 16])
+        const normals = new Float32Array([0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0])
+        const biomeWeights = new Uint8Array(4 * BIOME_WEIGHT_STRIDE)
+        const forest = defaultBiomePack.biomes.findIndex(biome => biome.id === 'forest')
+        for (let vertex = 0; vertex < 4; vertex++) biomeWeights[vertex * BIOME_WEIGHT_STRIDE + forest] = 255
+        const chunk: ScatterChunk = {
+            chunkX: 0,
+            chunkZ: 0,
+            lodLevel: 0,
+            chunkResolution: 1,
+            vertices,
+            normals,
+            biomeWeights,
+            water: [],
+        }
+
+        const scene = new Scene()
+        new ScatterManager(scene, new BiomeManager(), new HeightGenerator(undefined, 1)).createChunkObjects(
+            '0,0',
+            chunk,
+            chunkSize
+        )
+
+        const matrix = new Matrix4()
+        const position = new Vector3()
+        let upperTriangle = 0
+        let lowerTriangle = 0
+        for (const mesh of scene.children) {
+            if (!(mesh instanceof InstancedMesh)) continue
+            for (let index = 0; index < mesh.count; index++) {
+                mesh.getMatrixAt(index, matrix)
+                position.setFromMatrixPosition(matrix)
+                const u = (position.x + chunkSize / 2) / chunkSize
+                const v = (position.z + chunkSize / 2) / chunkSize
+
+                // Билинейная интерполяция дала бы 10 + 8uv - над или под гранями меша
+                if (u + v <= 1) {
+                    expect(position.y).toBeCloseTo(10, 4)
+                    upperTriangle++
+                } else {
+                    expect(position.y).toBeCloseTo(10 + 8 * (u + v - 1), 4)
+                    lowerTriangle++
+                }
+            }
+        }
+
+        expect(upperTriangle).toBeGreaterThan(0)
+        expect(lowerTriangle).toBeGreaterThan(0)
+    })
+})
@@ -0,0 +1,163 @@
+import { Scene, InstancedMesh, Matrix4, Quaternion, Vector3, Euler } from 'three'
+import { BiomeManager } from './BiomeManager'
+import { samplePoissonDisk } from './PoissonDiskSampler'
+import type { BiomeScatterObject } from './BiomePack'
+import { HeightGenerator } from '@/terrain/HeightGenerator'
+import { getDominantBiome } from '@/terrain/BiomeClassifier'
+import type { ChunkGenerationResult } from '@/terrain/ChunkGeometryGenerator'
+import { WaterLevelGrid } from '@/terrain/WaterBasins'
+import { createSeededRandom, hashSeed } from '@/utils/SeededRandom'
+
+// Объекты биома делят отрезок [0, 1) по своим плотностям; roll за их суммой - точка остаётся пустой
+export function pickScatterObject(objects: readonly BiomeScatterObject[], roll: number): BiomeScatterObject | null {
+    let threshold = 0
+    for (const object of objects) {
+        threshold += object.density
+        if (roll < threshold) return object
+    }
+    return null
+}
+
+// Данные чанка, по которым расставляются объекты: результат воркера или сетка CPU fallback
+export type ScatterChunk = Pick<
+    ChunkGenerationResult,
+    'chunkX' | 'chunkZ' | 'lodLevel' | 'chunkResolution' | 'vertices' | 'normals' | 'biomeWeights' | 'water'
+>
+
+interface ScatterTransform {
+    position: Vector3
+    rotationY: number
+    scale: number
+}
+
+// Расставляет объекты биомов (деревья, камни, траву) по чанкам через InstancedMesh
+export class ScatterManager {
+    private scene: Scene
+    private biomeManager: BiomeManager
+    private heightGenerator: HeightGenerator
+    private chunkObjects: Map<string, InstancedMesh[]> = new Map()
+    private sampleRadius = 4 // Минимальное расстояние между объектами
+    private maxLodLevel = 1 // На дальних LOD объекты не расставляем
+
+    constructor(scene: Scene, biomeManager: BiomeManager, heightGenerator: HeightGenerator) {
+        this.scene = scene
+        this.biomeManager = biomeManager
+        this.heightGenerator = heightGenerator
+    }
+
+    createChunkObjects(chunkKey: string, result: ScatterChunk, chunkSize: number): void {
+        this.removeChunkObjects(chunkKey)
+        if (result.lodLevel > this.maxLodLevel) return
+
+        const transformsByType = this.sampleChunk(result, chunkSize)
+        const meshes: InstancedMesh[] = []
+        const matrix = new Matrix4()
+        const quaternion = new Quaternion()
+        const scale = new Vector3()
+        const euler = new Euler()
+
+        transformsByType.forEach((transforms, objectType) => {
+            const parts = this.biomeManager.getInstancedParts(objectType)
+
+            parts.forEach(part => {
+                const mesh = new InstancedMesh(part.geometry, part.material, transforms.length)
+                transforms.forEach((transform, index) => {
+                    quaternion.setFromEuler(euler.set(0, transform.rotationY, 0))
+                    scale.setScalar(transform.scale)
+                    matrix.compose(transform.position, quaternion, scale)
+                    mesh.setMatrixAt(index, matrix)
+                })
+                mesh.instanceMatrix.needsUpdate = true
+                mesh.computeBoundingSphere()
+                mesh.position.set(result.chunkX * chunkSize, 0, result.chunkZ * chunkSize)
+                mesh.castShadow = true
+                mesh.receiveShadow = true
+
+                this.scene.add(mesh)
+                meshes.push(mesh)
+            })
+        })
+
+        if (meshes.length > 0) {
+            this.chunkObjects.set(chunkKey, meshes)
+        }
+    }
+
+    removeChunkObjects(chunkKey: string): void {
+        const meshes = this.chunkObjects.get(chunkKey)
+        if (!meshes) return
+
+        // Геометрии и материалы общие (BiomeManager) - освобождаем только буферы экземпляров
+        meshes.forEach(mesh => {
+            this.scene.remove(mesh)
+            mesh.dispose()
+        })
+        this.chunkObjects.delete(chunkKey)
+    }
+
+    // Детерминированная расстановка: Poisson-выборка с seed от мира и координат чанка,
+    // затем выбор объекта по плотностям биома в ближайшей вершине сетки и проверка уклона
+    private sampleChunk(result: ScatterChunk, chunkSize: number): Map<string, ScatterTransform[]> {
+        const transformsByType: Map<string, ScatterTransform[]> = new Map()
+        const random = createSeededRandom(hashSeed(this.heightGenerator.getSeed(), result.chunkX, result.chunkZ))
+        const points = samplePoissonDisk(chunkSize, chunkSize, this.sampleRadius, random)
+        const resolution = result.chunkResolution
+        const row = resolution + 1
+        const minX = result.chunkX * chunkSize - chunkSize / 2
+        const minZ = result.chunkZ * chunkSize - chunkSize / 2
+        const waterLevels = new WaterLevelGrid(result.water, minX, minZ, minX + chunkSize, minZ + chunkSize)
+
+        for (const [px, pz] of points) {
+            const gridX = (px / chunkSize) * resolution
+            const gridZ = (pz / chunkSize) * resolution
+            const nearestIndex = Math.round(gridZ) * row + Math.round(gridX)
+
+            const biome = this.biomeManager.getBiomeId(getDominantBiome(result.biomeWeights, nearestIndex))
+            const object = pickScatterObject(this.biomeManager.getScatterObjects(biome), random())
+            if (!object) continue
+
+            const slope = (Math.acos(Math.min(1, result.normals[nearestIndex * 3 + 1])) * 180) / Math.PI
+            if (slope > object.maxSlope) continue
+
+            // Под водой моря и горных озёр ничего не ставим
+            const height = this.interpolateHeight(result, gridX, gridZ)
+            const waterLevel = waterLevels.getWaterLevel(minX + px, minZ + pz)
+            if (height < 0 || (waterLevel !== null && height < waterLevel)) continue
+
+            const [minScale, maxScale] = object.scale
+            const transforms = transformsByType.get(object.type) ?? []
+            transforms.push({
+                position: new Vector3(px - chunkSize / 2, height, pz - chunkSize / 2),
+                rotationY: random() * Math.PI * 2,
+                scale: minScale + random() * (maxScale - minScale),
+            })
+            transformsByType.set(object.type, transforms)
+        }
+
+        return transformsByType
+    }
+
+    // Высота поверхности меша: квад (a, b, c, d) разбит на треугольники (a, c, b) / (b, c, d),
+    // внутри треугольника - барицентрическая интерполяция, как в MeshExporter
+    private interpolateHeight(result: ScatterChunk, gridX: number, gridZ: number): number {
+        const resolution = result.chunkResolution
+        const row = resolution + 1
+        const x0 = Math.min(Math.floor(gridX), resolution - 1)
+        const z0 = Math.min(Math.floor(gridZ), resolution - 1)
+        const fx = gridX - x0
+        const fz = gridZ - z0
+
+        const a = z0 * row + x0
+        const b = a + 1
+        const c = a + row
+        const d = c + 1
+        const h = (index: number) => result.vertices[index * 3 + 1]
+
+        if (fx + fz <= 1) return h(a) * (1 - fx - fz) + h(b) * fx + h(c) * fz
+        return h(d) * (fx + fz - 1) + h(b) * (1 - fz) + h(c) * (1 - fx)
+    }
+
+    dispose(): void {
+        Array.from(this.chunkObjects.keys()).forEach(key => this.removeChunkObjects(key))
+    }
+}
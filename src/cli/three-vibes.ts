@@ -0,0 +1,139 @@
+// CLI для пакетной генерации тайлов без браузера и GPU:
+// three-vibes generate --seed X --from -5,-5 --to 5,5 --format png16|glb|json --out dir [--preset alpine]
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { TerrainBaker, type TileFormat } from '../terrain/TerrainBaker'
+import { WorldSeed } from '../terrain/WorldSeed'
+import { terrainPresets, type TerrainPresetName } from '../terrain/TerrainConfig'
+
+const usage = `Usage: three-vibes generate --seed <seed> --from <x,z> --to <x,z> --format <png16|glb|json> --out <dir>
+
+Options:
+  --seed        World seed (text or integer), same as ?seed= in the browser
+  --from, --to  Inclusive chunk range, e.g. --from -5,-5 --to 5,5
+  --format      png16 (heightmap + JSON sidecar), glb (mesh with water) or json (heights and biomes)
+  --out         Output directory, created if missing
+  --resolution  Grid resolution per chunk (default 64)
+  --preset      Terrain preset: ${Object.keys(terrainPresets).join(', ')} (default "default")`
+
+const tileFormats: TileFormat[] = ['png16', 'glb', 'json']
+
+function parseChunkCoords(value: string | undefined, option: string): [number, number] {
+    const match = value?.match(/^\s*(-?\d+)\s*,\s*(-?\d+)\s*$/)
+    if (!match) throw new Error(`--${option} must be "x,z" chunk coordinates, got "${value ?? ''}"`)
+    return [Number(match[1]), Number(match[2])]
+}
+
+// parseArgs считает "-5,-5" отдельным флагом - склеиваем такие значения с опцией: --from=-5,-5
+function joinNegativeValues(args: string[]): string[] {
+    const result: string[] = []
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--') && !args[i].includes('=') && /^-\d/.test(args[i + 1] ?? '')) {
+            result.push(`${args[i]}=${args[i + 1]}`)
+            i++
+        } else {
+            result.push(args[i])
+        }
+    }
+    return result
+}
+
+async function generate(args: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: joinNegativeValues(args),
+        options: {
+            seed: { type: 'string' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            format: { type: 'string', default: 'png16' },
+            out: { type: 'string' },
+            resolution: { type: 'string', default: '64' },
+            preset: { type: 'string', default: 'default' },
+        },
+    })
+
+    if (!values.seed) throw new Error('--seed is required')
+    if (!values.out) throw new Error('--out is required')
+
+    const format = values.format as TileFormat
+    if (!tileFormats.includes(format)) {
+        throw new Error(`--format must be one of ${tileFormats.join(', ')}, got "${values.format}"`)
+    }
+
+    const resolution = Number(values.resolution)
+    if (!Number.isInteger(resolution) || resolution < 1) {
+        throw new Error(`--resolution must be a positive integer, got "${values.resolution}"`)
+    }
+
+    const preset = values.preset as TerrainPresetName
+    if (!Object.hasOwn(terrainPresets, preset)) {
+        throw new Error(`--preset must be one of ${Object.keys(terrainPresets).join(', ')}, got "${values.preset}"`)
+    }
+
+    const [fromX, fromZ] = parseChunkCoords(values.from, 'from')
+    const [toX, toZ] = parseChunkCoords(values.to, 'to')
+    const range = {
+        fromX: Math.min(fromX, toX),
+        fromZ: Math.min(fromZ, toZ),
+        toX: Math.max(fromX, toX),
+        toZ: Math.max(fromZ, toZ),
+    }
+
+    const seed = WorldSeed.from(values.seed)
+    const baker = new TerrainBaker({ seed, chunkResolution: resolution, terrain: terrainPresets[preset] })
+    const tiles: Array<{ chunkX: number; chunkZ: number; files: string[] }> = []
+    const tileCount = (range.toX - range.fromX + 1) * (range.toZ - range.fromZ + 1)
+    const startTime = performance.now()
+
+    await mkdir(values.out, { recursive: true })
+
+    // Тайлы пишем по одному, чтобы большие диапазоны не держать в памяти
+    for (let chunkZ = range.fromZ; chunkZ <= range.toZ; chunkZ++) {
+        for (let chunkX = range.fromX; chunkX <= range.toX; chunkX++) {
+            const files = baker.bakeTile(chunkX, chunkZ, format)
+            for (const file of files) {
+                await writeFile(join(values.out, file.name), file.data)
+            }
+            tiles.push({ chunkX, chunkZ, files: files.map(file => file.name) })
+            process.stdout.write(`\r🗺️ ${tiles.length}/${tileCount} tiles`)
+        }
+    }
+
+    const manifest = {
+        version: 1,
+        seed: { input: seed.input, value: seed.value },
+        preset,
+        format,
+        chunkSize: baker.getChunkSize(),
+        resolution,
+        range,
+        tiles,
+    }
+    await writeFile(join(values.out, 'manifest.json'), JSON.stringify(manifest, null, 4))
+
+    const seconds = ((performance.now() - startTime) / 1000).toFixed(1)
+    process.stdout.write(`\n✅ ${tileCount} ${format} tiles written to ${values.out} in ${seconds}s\n`)
+}
+
+async function main(argv: string[]): Promise<void> {
+    const [command, ...args] = argv
+
+    switch (command) {
+        case 'generate':
+            await generate(args)
+            break
+        case undefined:
+        case '--help':
+        case '-h':
+            console.log(usage)
+            break
+        default:
+            throw new Error(`Unknown command "${command}"\n\n${usage}`)
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+})
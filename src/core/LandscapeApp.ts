@@ -1,19 +1,21 @@
-import {
-    Scene,
-    WebGLRenderer,
-    PerspectiveCamera,
-    Color,
-    Fog,
-    PCFSoftShadowMap,
-    SRGBColorSpace,
-    ACESFilmicToneMapping,
-} from 'three'
+import { Scene, WebGLRenderer, PerspectiveCamera, Fog, SRGBColorSpace, MathUtils, Vector2, Vector3 } from 'three'
 import { TerrainGenerator } from '../terrain/TerrainGenerator'
+import { WorldSeed } from '../terrain/WorldSeed'
 import { CameraController } from '../camera/CameraController'
 import { LightingSystem } from '../lighting/LightingSystem'
+import { SimulationClock } from '../lighting/SimulationClock'
+import { CascadedShadowMaps } from '../lighting/CascadedShadowMaps'
+import { WaterDepthPass, WATER_LAYER } from '../shaders/WaterDepthPass'
+import { WaterReflectionPass } from '../shaders/WaterReflectionPass'
+import { PostFX } from '../postfx/PostFX'
 import { UIControls } from '../utils/UIControls'
 import { defaultSettings } from '../types/UISettings'
 import { globalProfiler } from '../utils/Profiler'
+import { downloadFile } from '../utils/FileDownload'
+import { parseBiomePack } from '../biomes/BiomePack'
+import type { HeightmapFormat } from '../terrain/HeightmapExporter'
+import type { HeightmapProgress } from '../terrain/HeightmapSampler'
+import type { MeshExportRequest } from '../types/UISettings'
 
 export class LandscapeApp {
     private scene: Scene
@@ -25,6 +27,16 @@ export class LandscapeApp {
     private uiControls: UIControls
     private canvas: HTMLCanvasElement | null = null
     private isInitialized = false
+    private viewDirection = new Vector3()
+    private waterDepthPass = new WaterDepthPass(1, 1)
+    private waterDepthEffects = defaultSettings.water.depthEffects
+    private waterReflectionPass = new WaterReflectionPass(defaultSettings.water.reflections)
+    private drawingBufferSize = new Vector2()
+    private shadows = new CascadedShadowMaps(defaultSettings.shadows)
+    private postFX = new PostFX(defaultSettings.postFX)
+    private clock = new SimulationClock(defaultSettings.timeOfDay, defaultSettings.dayOfYear, defaultSettings.timeScale)
+    private lastUpdateTime = 0
+    private displayedTimeOfDay = defaultSettings.timeOfDay // Последнее значение, отправленное в слайдер
 
     // FPS tracking variables
     private lastTime = 0
@@ -36,16 +48,24 @@ export class LandscapeApp {
 
     constructor() {
         this.scene = new Scene()
+        // Сглаживание холста не нужно: сцена рисуется в цель постобработки, MSAA/FXAA/SMAA - там
         this.renderer = new WebGLRenderer({
-            antialias: true,
+            antialias: false,
             powerPreference: 'high-performance',
         })
         this.camera = new PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 2000)
+        this.camera.layers.enable(WATER_LAYER)
 
-        this.terrainGenerator = new TerrainGenerator(this.scene, this.renderer)
+        // Seed мира берём из ?seed=, чтобы ссылкой можно было поделиться конкретным ландшафтом
+        const seed = WorldSeed.fromURL() ?? WorldSeed.random()
+        this.terrainGenerator = new TerrainGenerator(this.scene, this.renderer, seed)
         this.cameraController = new CameraController(this.camera)
         this.lightingSystem = new LightingSystem(this.scene)
-        this.uiControls = new UIControls(this.onSettingsChange.bind(this))
+        this.uiControls = new UIControls(this.onSettingsChange.bind(this), {
+            onExportHeightmap: this.exportHeightmap.bind(this),
+            onExportMesh: this.exportMesh.bind(this),
+            onLoadBiomePack: this.loadBiomePack.bind(this),
+        })
     }
 
     async init(): Promise<void> {
@@ -91,12 +111,11 @@ export class LandscapeApp {
     private setupRenderer(): void {
         this.renderer.setSize(window.innerWidth, window.innerHeight)
         this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
-        // Включаем тени обратно для красивого ландшафта
-        this.renderer.shadowMap.enabled = true
-        this.renderer.shadowMap.type = PCFSoftShadowMap
+        this.resizeRenderPasses()
+        // Встроенные карты теней three.js не нужны: тени солнца рисует CascadedShadowMaps
+        this.renderer.shadowMap.enabled = false
         this.renderer.outputColorSpace = SRGBColorSpace
-        this.renderer.toneMapping = ACESFilmicToneMapping
-        this.renderer.toneMappingExposure = 1.2
+        // Экспозиция и тональная компрессия - в проходе цветокоррекции PostFX
 
         // Clear color as fallback
         this.renderer.setClearColor(0x87ceeb, 1.0)
@@ -108,7 +127,7 @@ export class LandscapeApp {
     }
 
     private setupScene(): void {
-        this.scene.background = new Color(0x87ceeb) // Sky blue
+        // Фон рисует купол неба (SkySystem), цвет тумана LightingSystem берёт из цвета горизонта
         // Увеличиваем дальность тумана для лучшей видимости ландшафта
         this.scene.fog = new Fog(0x87ceeb, 150, 1000)
 
@@ -131,8 +150,9 @@ export class LandscapeApp {
     private setupLighting(): void {
         // Возвращаем профессиональную систему освещения
         this.lightingSystem.setupDayLighting()
-        // Устанавливаем время по умолчанию из настроек
-        this.lightingSystem.setTimeOfDay(defaultSettings.timeOfDay)
+        // Время, день года и широта - из настроек по умолчанию, дальше время ведут часы симуляции
+        this.lightingSystem.setLatitude(defaultSettings.latitude)
+        this.syncLightingWithClock()
 
         // Связываем систему освещения с шейдерами
         const shaderManager = this.terrainGenerator.getShaderManager()
@@ -143,6 +163,11 @@ export class LandscapeApp {
         this.cameraController.init(this.renderer.domElement)
         this.uiControls.init()
 
+        // Синхронизируем seed с URL и полем в панели
+        const seed = this.terrainGenerator.getSeed()
+        seed.writeToURL()
+        this.uiControls.updateSetting('seed', seed.input)
+
         // Force camera update after initialization
         setTimeout(() => {
             this.cameraController.update()
@@ -166,17 +191,90 @@ export class LandscapeApp {
         this.camera.aspect = window.innerWidth / window.innerHeight
         this.camera.updateProjectionMatrix()
         this.renderer.setSize(window.innerWidth, window.innerHeight)
+        this.resizeRenderPasses()
     }
+
+    private resizeRenderPasses(): void {
+        this.renderer.getDrawingBufferSize(this.drawingBufferSize)
+        this.waterDepthPass.setSize(this.drawingBufferSize.x, this.drawingBufferSize.y)
+        this.waterReflectionPass.setSize(this.drawingBufferSize.x, this.drawingBufferSize.y)
+        this.postFX.setSize(this.drawingBufferSize.x, this.drawingBufferSize.y)
+    }
+
     private async onSettingsChange(settings: any): Promise<void> {
+        if (settings.seed !== undefined) {
+            const seed = WorldSeed.from(settings.seed)
+            seed.writeToURL()
+            this.terrainGenerator.setSeed(seed)
+        }
+        if (settings.terrain !== undefined) {
+            try {
+                this.terrainGenerator.setTerrainConfig(settings.terrain)
+            } catch (error) {
+                console.error('❌ Terrain config rejected:', error)
+            }
+        }
         if (settings.renderDistance !== undefined) {
             this.terrainGenerator.updateRenderDistance(settings.renderDistance)
         }
         if (settings.timeOfDay !== undefined) {
-            this.lightingSystem.setTimeOfDay(settings.timeOfDay)
+            this.clock.setTimeOfDay(settings.timeOfDay)
+            this.displayedTimeOfDay = settings.timeOfDay
+        }
+        if (settings.timeScale !== undefined) {
+            this.clock.setTimeScale(settings.timeScale)
+        }
+        if (settings.dayOfYear !== undefined) {
+            this.clock.setDayOfYear(settings.dayOfYear)
+        }
+        if (settings.latitude !== undefined) {
+            this.lightingSystem.setLatitude(settings.latitude)
+        }
+        if (settings.timeOfDay !== undefined || settings.dayOfYear !== undefined || settings.latitude !== undefined) {
+            this.syncLightingWithClock()
         }
         if (settings.showWireframe !== undefined) {
             this.terrainGenerator.setWireframe(settings.showWireframe)
         }
+        if (settings.shadows !== undefined) {
+            this.shadows.setQuality(settings.shadows)
+        }
+        if (settings.water !== undefined) {
+            this.waterDepthEffects = settings.water.depthEffects
+            this.waterReflectionPass.setQuality(settings.water.reflections)
+            this.terrainGenerator.getShaderManager().updateWaterSettings(settings.water)
+        }
+        if (settings.postFX !== undefined) {
+            this.postFX.applySettings(settings.postFX)
+        }
+    }
+
+    // Карта высот чанков вокруг камеры с разрешением сетки чанка LOD 0; ошибки уходят в панель
+    private async exportHeightmap(format: HeightmapFormat, onProgress: HeightmapProgress): Promise<void> {
+        const bounds = this.terrainGenerator.getBoundsAround(this.camera.position)
+        const samplesPerChunk = 64
+        const resolution =
+            Math.round(((bounds.maxX - bounds.minX) / this.terrainGenerator.getChunkSize()) * samplesPerChunk) + 1
+
+        const files = await this.terrainGenerator.exportHeightmap(bounds, resolution, format, onProgress)
+        files.forEach(downloadFile)
+    }
+
+    // Квадрат загруженных чанков вокруг камеры; ошибки (например, чанки ещё грузятся) уходят в панель
+    private exportMesh(request: MeshExportRequest): void {
+        const range = this.terrainGenerator.getChunkRangeAround(this.camera.position, request.chunkRadius)
+
+        this.terrainGenerator
+            .exportMesh({ range, format: request.format, verticalScale: request.verticalScale })
+            .forEach(downloadFile)
+    }
+
+    // Набор биомов из файла: ошибки проверки не трогают мир и уходят в панель
+    private loadBiomePack(json: string): string {
+        const pack = parseBiomePack(json)
+        this.terrainGenerator.setBiomePack(pack)
+        console.log(`🌿 Biome pack "${pack.name}" applied`)
+        return pack.name
     }
 
     private startRenderLoop(): void {
@@ -237,8 +335,20 @@ export class LandscapeApp {
         shaderManager.updateTime(currentTime)
         shaderManager.updateCameraPosition(this.camera.position)
 
-        this.terrainGenerator.update(this.camera.position)
-        this.lightingSystem.update()
+        // Конус обзора для приоритета генерации: горизонтальный FOV из вертикального и aspect
+        this.camera.getWorldDirection(this.viewDirection)
+        const halfAngle = Math.atan(Math.tan(MathUtils.degToRad(this.camera.fov / 2)) * this.camera.aspect)
+        this.terrainGenerator.update(this.camera.position, {
+            directionX: this.viewDirection.x,
+            directionZ: this.viewDirection.z,
+            halfAngle,
+        })
+
+        const deltaTime = this.lastUpdateTime > 0 ? currentTime - this.lastUpdateTime : 0
+        this.lastUpdateTime = currentTime
+        this.clock.advance(deltaTime)
+        this.syncLightingWithClock()
+        this.syncTimeControls()
 
         // Update triangle count periodically (less frequently than FPS)
         if (this.frameCount % 30 === 0) {
@@ -247,6 +357,27 @@ export class LandscapeApp {
         }
     }
 
+    // Часы симуляции ведут освещение: календарь применяется вместе с временем суток
+    private syncLightingWithClock(): void {
+        this.lightingSystem.setDayOfYear(this.clock.getDayOfYear())
+        this.lightingSystem.setMoonPhase(this.clock.getMoonPhase())
+        this.lightingSystem.setTimeOfDay(this.clock.getTimeOfDay())
+    }
+
+    // Слайдер времени и день года следуют за часами; чаще раза в игровую минуту панель не трогаем
+    private syncTimeControls(): void {
+        if (this.clock.isPaused()) return
+
+        const timeOfDay = this.clock.getTimeOfDay()
+        if (Math.abs(timeOfDay - this.displayedTimeOfDay) < 1 / 1440) return
+
+        this.displayedTimeOfDay = timeOfDay
+        this.uiControls.updateSetting('timeOfDay', timeOfDay)
+        if (this.uiControls.getSettings().dayOfYear !== this.clock.getDayOfYear()) {
+            this.uiControls.updateSetting('dayOfYear', this.clock.getDayOfYear())
+        }
+    }
+
     private updateTriangleCount(): void {
         let totalTriangles = 0
 
@@ -266,7 +397,31 @@ export class LandscapeApp {
     }
 
     private render(): void {
-        this.renderer.render(this.scene, this.camera)
+        const shaderManager = this.terrainGenerator.getShaderManager()
+        // Проходы до основного рендера читают matrixWorld камеры, а сам рендер обновит её только в конце
+        this.camera.updateMatrixWorld()
+
+        // Каскады теней - один раз за кадр, до всех проходов: ими пользуются и отражение, и основной рендер
+        const sunDirection = this.lightingSystem.getSunDirection()
+        this.shadows.update(this.renderer, this.scene, this.camera, sunDirection)
+        shaderManager.updateShadows(this.shadows, sunDirection)
+
+        // Зеркало - на уровне водоёма, который больше всего виден в кадре; гладь других уровней не отражает
+        const reflectionLevel = this.terrainGenerator.getReflectionLevel(this.camera)
+        if (reflectionLevel !== null) this.waterReflectionPass.setPlaneHeight(reflectionLevel)
+        this.waterReflectionPass.render(this.renderer, this.scene, this.camera)
+        shaderManager.updateWaterReflection(this.waterReflectionPass)
+
+        // Сцена без воды - вода берёт из неё глубину и цвет дна
+        if (this.waterDepthEffects) {
+            this.waterDepthPass.render(this.renderer, this.scene, this.camera)
+            shaderManager.updateWaterDepthPass(this.waterDepthPass, this.camera)
+        } else {
+            shaderManager.updateWaterDepthPass(null, this.camera)
+        }
+
+        this.postFX.setAtmosphere(this.lightingSystem.getFogColor(), this.lightingSystem.getSunColor(), sunDirection)
+        this.postFX.render(this.renderer, this.scene, this.camera)
     }
 
     private pauseRendering(): void {
@@ -326,6 +481,9 @@ export class LandscapeApp {
     dispose(): void {
         this.cameraController.dispose()
         this.terrainGenerator.dispose()
+        this.waterDepthPass.dispose()
+        this.waterReflectionPass.dispose()
+        this.postFX.dispose()
         this.renderer.dispose()
         window.removeEventListener('resize', this.onWindowResize.bind(this))
     }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { PerspectiveCamera, Scene, Vector3, type WebGLRenderer } from 'three'
+import { CascadedShadowMaps } from './CascadedShadowMaps'
+
+// Рендерер нужен только для переключения цели: проверяется раскладка каскадов
+const renderer = {
+    autoClear: true,
+    getRenderTarget: () => null,
+    setRenderTarget: () => {},
+    clear: () => {},
+    render: () => {},
+} as unknown as WebGLRenderer
+
+const sun = new Vector3(0.4, 0.7, -0.3).normalize()
+
+function createCamera(x: number, z: number): PerspectiveCamera {
+    const camera = new PerspectiveCamera(60, 16 / 9, 0.1, 2000)
+    camera.position.set(x, 40, z)
+    camera.lookAt(x + 100, 20, z + 30)
+    camera.updateMatrixWorld()
+    return camera
+}
+
+function project(shadows: CascadedShadowMaps, cascade: number, point: Vector3): Vector3 {
+    return point.clone().applyMatrix4(shadows.getShadowMatrix(cascade))
+}
+
+describe('CascadedShadowMaps', () => {
+    it('splits the view into growing cascades that cover what the camera sees', () => {
+        const shadows = new CascadedShadowMaps('high')
+        const camera = createCamera(0, 0)
+        shadows.update(renderer, new Scene(), camera, sun)
+        expect(shadows.isActive()).toBe(true)
+        expect(shadows.getCascadeCount()).toBe(4)
+
+        const splits = shadows.getSplits().toArray()
+        for (let i = 1; i < 4; i++) {
+            expect(splits[i]).toBeGreaterThan(splits[i - 1])
+            expect(shadows.getTexelWorldSize(i)).toBeGreaterThan(shadows.getTexelWorldSize(i - 1))
+        }
+
+        // Точка на оси взгляда внутри каждого среза попадает в тайл своего каскада
+        const forward = camera.getWorldDirection(new Vector3())
+        let near = camera.near
+        splits.forEach((far, i) => {
+            const point = camera.position.clone().addScaledVector(forward, (near + far) / 2)
+            const coord = project(shadows, i, point)
+            expect(coord.x).toBeGreaterThan(0)
+            expect(coord.x).toBeLessThan(1)
+            expect(coord.y).toBeGreaterThan(0)
+            expect(coord.y).toBeLessThan(1)
+            expect(coord.z).toBeGreaterThan(0)
+            expect(coord.z).toBeLessThan(1)
+            near = far
+        })
+    })
+
+    it('moves cascades by whole texels so shadow edges do not shimmer', () => {
+        const shadows = new CascadedShadowMaps('medium')
+        const texelsPerUnit = 1536
+        const anchor = new Vector3(120, 15, 40)
+
+        shadows.update(renderer, new Scene(), createCamera(0, 0), sun)
+        const before = project(shadows, 1, anchor)
+        shadows.update(renderer, new Scene(), createCamera(3.37, -1.81), sun)
+        const after = project(shadows, 1, anchor)
+
+        const shiftX = (after.x - before.x) * texelsPerUnit
+        const shiftY = (after.y - before.y) * texelsPerUnit
+        expect(Math.abs(shiftX - Math.round(shiftX))).toBeLessThan(1e-3)
+        expect(Math.abs(shiftY - Math.round(shiftY))).toBeLessThan(1e-3)
+    })
+
+    it('stays inactive when off or when the sun is below the horizon', () => {
+        const off = new CascadedShadowMaps('off')
+        off.update(renderer, new Scene(), createCamera(0, 0), sun)
+        expect(off.isActive()).toBe(false)
+
+        const night = new CascadedShadowMaps('low')
+        night.update(renderer, new Scene(), createCamera(0, 0), new Vector3(0.2, -0.5, 0.1))
+        expect(night.isActive()).toBe(false)
+    })
+})
@@ -0,0 +1,238 @@
+import {
+    DepthTexture,
+    Matrix4,
+    MeshBasicMaterial,
+    OrthographicCamera,
+    PerspectiveCamera,
+    RedFormat,
+    Scene,
+    Vector3,
+    Vector4,
+    WebGLRenderTarget,
+    WebGLRenderer,
+} from 'three'
+
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high'
+
+interface CascadePreset {
+    cascades: number
+    resolution: number // Сторона тайла одного каскада в атласе 2x2
+}
+
+const QUALITY_PRESETS: Record<ShadowQuality, CascadePreset> = {
+    off: { cascades: 0, resolution: 1 },
+    low: { cascades: 2, resolution: 1024 },
+    medium: { cascades: 3, resolution: 1536 },
+    high: { cascades: 4, resolution: 2048 },
+}
+
+export const MAX_CASCADES = 4
+const SHADOW_DISTANCE = 600 // Дальше теней нет, их скрывает туман
+const SPLIT_LAMBDA = 0.75 // Доля логарифмического разбиения в практической схеме разбиения
+const CASTER_MARGIN = 400 // Запас за срезом в сторону света: горы, отбрасывающие тень внутрь каскада
+
+interface Cascade {
+    camera: OrthographicCamera
+    matrix: Matrix4 // Мир -> [0,1]^3 тайла каскада
+    texelWorldSize: number
+}
+
+// Каскадные тени от солнца: срезы пирамиды видимости вписываются в сферы, поэтому размер каскада
+// не зависит от поворота камеры, а центр привязан к сетке текселей - края теней не мерцают.
+// Все каскады лежат в одном атласе глубины 2x2, шейдеры выбирают каскад по попаданию в тайл.
+// В атлас попадает всё со слоя 0 - рельеф и растительность; вода на своём слое тени не отбрасывает
+export class CascadedShadowMaps {
+    private quality: ShadowQuality
+    private target: WebGLRenderTarget | null = null
+    private cascades: Cascade[] = []
+    private splits = new Vector4()
+    private active = false
+    private depthMaterial = new MeshBasicMaterial({ colorWrite: false })
+
+    private corners = Array.from({ length: 8 }, () => new Vector3())
+    private center = new Vector3()
+    private lightRotation = new Matrix4()
+    private lightRotationInverse = new Matrix4()
+    private up = new Vector3()
+    private origin = new Vector3()
+    private bias = new Matrix4().set(0.5, 0, 0, 0.5, 0, 0.5, 0, 0.5, 0, 0, 0.5, 0.5, 0, 0, 0, 1)
+
+    constructor(quality: ShadowQuality) {
+        this.quality = quality
+        this.createCascades()
+    }
+
+    setQuality(quality: ShadowQuality): void {
+        if (quality === this.quality) return
+        this.quality = quality
+        this.createCascades()
+    }
+
+    getQuality(): ShadowQuality {
+        return this.quality
+    }
+
+    // false - тени выключены или солнце под горизонтом
+    isActive(): boolean {
+        return this.active
+    }
+
+    update(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera, lightDirection: Vector3): void {
+        this.active = false
+        if (!this.target || this.cascades.length === 0 || lightDirection.y <= 0) return
+
+        this.fitCascades(camera, lightDirection)
+
+        const resolution = QUALITY_PRESETS[this.quality].resolution
+        const previousTarget = renderer.getRenderTarget()
+        const previousOverride = scene.overrideMaterial
+        const previousAutoClear = renderer.autoClear
+        scene.overrideMaterial = this.depthMaterial
+        renderer.autoClear = false
+
+        this.target.viewport.set(0, 0, resolution * 2, resolution * 2)
+        this.target.scissorTest = false
+        renderer.setRenderTarget(this.target)
+        renderer.clear(false, true, false)
+
+        this.target.scissorTest = true
+        this.cascades.forEach((cascade, i) => {
+            const x = (i % 2) * resolution
+            const y = Math.floor(i / 2) * resolution
+            this.target!.viewport.set(x, y, resolution, resolution)
+            this.target!.scissor.set(x, y, resolution, resolution)
+            renderer.setRenderTarget(this.target)
+            renderer.render(scene, cascade.camera)
+        })
+
+        scene.overrideMaterial = previousOverride
+        renderer.autoClear = previousAutoClear
+        renderer.setRenderTarget(previousTarget)
+        this.active = true
+    }
+
+    getDepthTexture(): DepthTexture | null {
+        return this.target?.depthTexture ?? null
+    }
+
+    getCascadeCount(): number {
+        return this.cascades.length
+    }
+
+    // Мир -> координаты тайла каскада; z - глубина в текстуре
+    getShadowMatrix(cascade: number): Matrix4 {
+        return this.cascades[cascade].matrix
+    }
+
+    // Размер текселя каскада в метрах - от него зависит смещение против акне
+    getTexelWorldSize(cascade: number): number {
+        return this.cascades[cascade].texelWorldSize
+    }
+
+    // Дальние границы каскадов по глубине вдоль взгляда
+    getSplits(): Vector4 {
+        return this.splits
+    }
+
+    getTexelSize(): number {
+        return 1 / (QUALITY_PRESETS[this.quality].resolution * 2)
+    }
+
+    dispose(): void {
+        this.target?.dispose()
+        this.depthMaterial.dispose()
+    }
+
+    private createCascades(): void {
+        this.target?.dispose()
+        this.target = null
+        this.cascades = []
+        this.active = false
+
+        const preset = QUALITY_PRESETS[this.quality]
+        if (preset.cascades === 0) return
+
+        const size = preset.resolution * 2
+        this.target = new WebGLRenderTarget(size, size, {
+            format: RedFormat, // Цвет не пишется, но без него цель неполная; красный канал - минимум памяти
+            depthTexture: new DepthTexture(size, size),
+        })
+
+        for (let i = 0; i < preset.cascades; i++) {
+            this.cascades.push({ camera: new OrthographicCamera(), matrix: new Matrix4(), texelWorldSize: 0 })
+        }
+    }
+
+    private fitCascades(camera: PerspectiveCamera, lightDirection: Vector3): void {
+        const count = this.cascades.length
+        const near = Math.max(camera.near, 1)
+        const far = Math.min(camera.far, SHADOW_DISTANCE)
+        const resolution = QUALITY_PRESETS[this.quality].resolution
+
+        // Поворот света: локальная -z смотрит от солнца на сцену
+        this.up.set(0, 1, 0)
+        if (Math.abs(lightDirection.y) > 0.99) this.up.set(0, 0, 1)
+        this.lightRotation.lookAt(lightDirection, this.origin, this.up)
+        this.lightRotationInverse.copy(this.lightRotation).invert()
+
+        let splitNear = camera.near
+        for (let i = 0; i < count; i++) {
+            const t = (i + 1) / count
+            const logarithmic = near * Math.pow(far / near, t)
+            const uniform = near + (far - near) * t
+            const splitFar = i === count - 1 ? far : SPLIT_LAMBDA * logarithmic + (1 - SPLIT_LAMBDA) * uniform
+            this.splits.setComponent(i, splitFar)
+
+            // Сфера вокруг среза; радиус зависит только от границ среза и угла обзора
+            this.getFrustumCorners(camera, splitNear, splitFar)
+            this.center.set(0, 0, 0)
+            this.corners.forEach(corner => this.center.add(corner))
+            this.center.multiplyScalar(1 / 8)
+            let radius = 0
+            this.corners.forEach(corner => (radius = Math.max(radius, corner.distanceTo(this.center))))
+            radius = Math.ceil(radius)
+
+            // Центр сдвигается только на целое число текселей в плоскости света
+            const texel = (radius * 2) / resolution
+            this.center.applyMatrix4(this.lightRotationInverse)
+            this.center.x = Math.floor(this.center.x / texel) * texel
+            this.center.y = Math.floor(this.center.y / texel) * texel
+            this.center.applyMatrix4(this.lightRotation)
+
+            const cascade = this.cascades[i]
+            const shadowCamera = cascade.camera
+            shadowCamera.left = -radius
+            shadowCamera.right = radius
+            shadowCamera.top = radius
+            shadowCamera.bottom = -radius
+            shadowCamera.near = 0
+            shadowCamera.far = radius * 2 + CASTER_MARGIN
+            shadowCamera.updateProjectionMatrix()
+            shadowCamera.position
+                .copy(lightDirection)
+                .multiplyScalar(radius + CASTER_MARGIN)
+                .add(this.center)
+            shadowCamera.quaternion.setFromRotationMatrix(this.lightRotation)
+            shadowCamera.updateMatrixWorld()
+
+            cascade.matrix.multiplyMatrices(this.bias, shadowCamera.projectionMatrix)
+            cascade.matrix.multiply(shadowCamera.matrixWorldInverse)
+            cascade.texelWorldSize = texel
+
+            splitNear = splitFar
+        }
+    }
+
+    private getFrustumCorners(camera: PerspectiveCamera, near: number, far: number): void {
+        const tanHalf = Math.tan((camera.fov * Math.PI) / 360) / camera.zoom
+        ;[near, far].forEach((distance, k) => {
+            const halfHeight = distance * tanHalf
+            const halfWidth = halfHeight * camera.aspect
+            for (let i = 0; i < 4; i++) {
+                this.corners[k * 4 + i]
+                    .set(i % 2 === 0 ? -halfWidth : halfWidth, i < 2 ? -halfHeight : halfHeight, -distance)
+                    .applyMatrix4(camera.matrixWorld)
+            }
+        })
+    }
+}
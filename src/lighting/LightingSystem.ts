@@ -1,6 +1,19 @@
-import { Scene, DirectionalLight, AmbientLight, HemisphereLight, Vector3, MathUtils, PointLight, Color } from 'three'
+import {
+    Scene,
+    DirectionalLight,
+    AmbientLight,
+    HemisphereLight,
+    Vector3,
+    MathUtils,
+    PointLight,
+    Color,
+    Fog,
+    FogExp2,
+} from 'three'
 import { ShaderManager, LightingUniforms } from '@/shaders/ShaderManager'
 import { globalProfiler } from '@/utils/Profiler'
+import { SkySystem } from './SkySystem'
+import { getCelestialPole, getMoonDirection, getSiderealAngle, getSunDirection } from './SolarPosition'
 
 export class LightingSystem {
     private scene: Scene
@@ -10,7 +23,14 @@ export class LightingSystem {
     private skyLight!: HemisphereLight
     private sunPosition: Vector3
     private moonPosition: Vector3
+    private sunDirection = new Vector3()
+    private moonDirection = new Vector3()
+    private celestialPole = new Vector3()
     private timeOfDay: number = 0.5 // 0 = midnight, 0.5 = noon, 1 = midnight
+    private dayOfYear: number = 172 // Летнее солнцестояние
+    private latitude: number = 45 // Градусы, положительные - северное полушарие
+    private moonPhase: number = 0.5 // 0 = новолуние, 0.5 = полнолуние
+    private sky: SkySystem
     private shaderManager: ShaderManager | null = null
 
     constructor(scene: Scene) {
@@ -18,6 +38,7 @@ export class LightingSystem {
         this.sunPosition = new Vector3()
         this.moonPosition = new Vector3()
         globalProfiler.measure('💡 Lighting Setup', () => this.createLights())
+        this.sky = new SkySystem(scene)
     }
 
     setShaderManager(shaderManager: ShaderManager): void {
@@ -33,16 +54,8 @@ export class LightingSystem {
             this.sunLight = new DirectionalLight(0xffffff, 3.0)
             this.sunLight.position.set(100, 100, 50)
             this.sunLight.target.position.set(0, 0, 0)
-            this.sunLight.castShadow = true
-            this.sunLight.shadow.mapSize.width = 4096
-            this.sunLight.shadow.mapSize.height = 4096
-            this.sunLight.shadow.camera.near = 0.5
-            this.sunLight.shadow.camera.far = 500
-            this.sunLight.shadow.camera.left = -100
-            this.sunLight.shadow.camera.right = 100
-            this.sunLight.shadow.camera.top = 100
-            this.sunLight.shadow.camera.bottom = -100
-            this.sunLight.shadow.bias = -0.0001
+            // Тени солнца - каскадные (CascadedShadowMaps), они следуют за камерой
+            this.sunLight.castShadow = false
             this.scene.add(this.sunLight)
             this.scene.add(this.sunLight.target)
         })
@@ -52,16 +65,7 @@ export class LightingSystem {
             this.moonLight = new DirectionalLight(0x88bbff, 0.3)
             this.moonLight.position.set(-100, 80, -50)
             this.moonLight.target.position.set(0, 0, 0)
-            this.moonLight.castShadow = true
-            this.moonLight.shadow.mapSize.width = 2048
-            this.moonLight.shadow.mapSize.height = 2048
-            this.moonLight.shadow.camera.near = 0.5
-            this.moonLight.shadow.camera.far = 500
-            this.moonLight.shadow.camera.left = -100
-            this.moonLight.shadow.camera.right = 100
-            this.moonLight.shadow.camera.top = 100
-            this.moonLight.shadow.camera.bottom = -100
-            this.moonLight.shadow.bias = -0.0001
+            this.moonLight.castShadow = false
             this.moonLight.visible = false // Изначально невидимый
             this.scene.add(this.moonLight)
             this.scene.add(this.moonLight.target)
@@ -112,27 +116,23 @@ export class LightingSystem {
     }
 
     update(): void {
-        // Animate time of day slowly (optional)
-        // this.timeOfDay += 0.0001
-        // if (this.timeOfDay > 1) this.timeOfDay = 0
-
         this.updateSunPosition()
         this.updateMoonPosition()
         this.updateLightColors()
         this.updateLightIntensity()
+        this.updateSky()
 
         // Обновляем шейдеры после всех изменений освещения
         this.updateShaderLighting()
     }
 
     private updateSunPosition(): void {
-        // Calculate sun position based on time of day
-        // timeOfDay: 0 = midnight, 0.25 = dawn, 0.5 = noon, 0.75 = sunset, 1 = midnight
-        const sunAngle = (this.timeOfDay - 0.25) * Math.PI * 2
-        const sunHeight = Math.sin(sunAngle)
-        const sunDistance = Math.cos(sunAngle)
+        // Высота и азимут солнца - по широте, дню года и времени суток
+        getSunDirection(this.timeOfDay, this.dayOfYear, this.latitude, this.sunDirection)
 
-        this.sunPosition.set(sunDistance * 100, Math.max(sunHeight * 100, -20), sunDistance * 50)
+        // Под горизонтом источник света не опускаем ниже -20, чтобы не светить снизу сквозь рельеф
+        this.sunPosition.copy(this.sunDirection).multiplyScalar(100)
+        this.sunPosition.y = Math.max(this.sunPosition.y, -20)
 
         this.sunLight.position.copy(this.sunPosition)
         this.sunLight.target.position.set(0, 0, 0)
@@ -140,12 +140,10 @@ export class LightingSystem {
     }
 
     private updateMoonPosition(): void {
-        // Луна движется противоположно солнцу
-        const moonAngle = (this.timeOfDay + 0.25) * Math.PI * 2
-        const moonHeight = Math.sin(moonAngle)
-        const moonDistance = Math.cos(moonAngle)
+        getMoonDirection(this.timeOfDay, this.dayOfYear, this.latitude, this.moonPhase, this.moonDirection)
 
-        this.moonPosition.set(moonDistance * 100, Math.max(moonHeight * 80, -20), moonDistance * 50)
+        this.moonPosition.copy(this.moonDirection).multiplyScalar(100)
+        this.moonPosition.y = Math.max(this.moonPosition.y, -20)
 
         this.moonLight.position.copy(this.moonPosition)
         this.moonLight.target.position.set(0, 0, 0)
@@ -153,8 +151,7 @@ export class LightingSystem {
     }
 
     private updateLightColors(): void {
-        const sunAngle = (this.timeOfDay - 0.25) * Math.PI * 2
-        const sunHeight = Math.sin(sunAngle)
+        const sunHeight = this.sunDirection.y
 
         // Плавные переходы цветов с помощью интерполяции
         const sunColor = new Color()
@@ -228,11 +225,12 @@ export class LightingSystem {
         this.ambientLight.color.copy(ambientColor)
 
         // Настройка лунного света
-        const moonHeight = Math.sin((this.timeOfDay + 0.25) * Math.PI * 2)
-        if (moonHeight > 0 && sunHeight < 0.1) {
-            // Луна видна и солнце низко
+        const moonHeight = this.moonDirection.y
+        const illumination = (1 - Math.cos(this.moonPhase * Math.PI * 2)) / 2
+        if (moonHeight > 0 && sunHeight < 0.1 && illumination > 0.05) {
+            // Луна видна и солнце низко; свет зависит от освещённой доли диска
             this.moonLight.visible = true
-            const moonIntensity = Math.max(0, moonHeight) * 0.4
+            const moonIntensity = Math.max(0, moonHeight) * 0.4 * illumination
             this.moonLight.intensity = moonIntensity
             this.moonLight.color.setHex(0x88bbff) // Холодный голубоватый свет
         } else {
@@ -241,8 +239,7 @@ export class LightingSystem {
     }
 
     private updateLightIntensity(): void {
-        const sunAngle = (this.timeOfDay - 0.25) * Math.PI * 2
-        const sunHeight = Math.sin(sunAngle)
+        const sunHeight = this.sunDirection.y
 
         // Плавные переходы интенсивности
         let sunIntensity = 0
@@ -289,12 +286,53 @@ export class LightingSystem {
         this.updateMoonPosition()
         this.updateLightColors()
         this.updateLightIntensity()
+        this.updateSky()
         // Обновляем шейдеры после изменения времени
         this.updateShaderLighting()
     }
 
+    // Календарь и широта применяются при следующем setTimeOfDay/update - часы симуляции
+    // вызывают setTimeOfDay каждый кадр, поэтому небо и свет пересчитываются один раз
+    setMoonPhase(phase: number): void {
+        this.moonPhase = phase - Math.floor(phase)
+    }
+
+    getMoonPhase(): number {
+        return this.moonPhase
+    }
+
+    // 1..365; от дня года зависят склонение солнца и длина дня
+    setDayOfYear(dayOfYear: number): void {
+        this.dayOfYear = dayOfYear
+    }
+
+    getDayOfYear(): number {
+        return this.dayOfYear
+    }
+
+    setLatitude(latitude: number): void {
+        this.latitude = MathUtils.clamp(latitude, -90, 90)
+    }
+
+    getLatitude(): number {
+        return this.latitude
+    }
+
     getSunDirection(): Vector3 {
-        return this.sunPosition.clone().normalize()
+        return this.sunDirection.clone()
+    }
+
+    getMoonDirection(): Vector3 {
+        return this.moonDirection.clone()
+    }
+
+    getSunColor(): Color {
+        return this.sunLight.color.clone()
+    }
+
+    // Цвет горизонта неба - им же окрашен туман сцены
+    getFogColor(): Color {
+        return this.sky.getHorizonColor().clone()
     }
 
     getTimeOfDay(): number {
@@ -315,16 +353,31 @@ export class LightingSystem {
         return pointLight
     }
 
+    // Небо и туман: цвет тумана - цвет горизонта, чтобы даль растворялась в небе
+    private updateSky(): void {
+        this.sky.update(
+            this.sunDirection,
+            this.moonDirection,
+            getCelestialPole(this.latitude, this.celestialPole),
+            getSiderealAngle(this.timeOfDay, this.dayOfYear),
+            performance.now() * 0.001
+        )
+
+        if (this.scene.fog instanceof Fog || this.scene.fog instanceof FogExp2) {
+            this.scene.fog.color.copy(this.sky.getHorizonColor())
+        }
+    }
+
     private updateShaderLighting(): void {
         if (!this.shaderManager) return
 
         const lightingData: Partial<LightingUniforms> = {
             sunColor: this.sunLight.color,
-            sunDirection: this.sunPosition.clone().normalize(),
+            sunDirection: this.sunDirection,
             sunIntensity: this.sunLight.intensity,
             ambientColor: this.ambientLight.color,
             ambientIntensity: this.ambientLight.intensity,
-            fogColor: this.scene.fog ? (this.scene.fog as any).color : new Color(0x87ceeb),
+            fogColor: this.sky.getHorizonColor(),
             fogNear: this.scene.fog ? (this.scene.fog as any).near : 150,
             fogFar: this.scene.fog ? (this.scene.fog as any).far : 1000,
         }
@@ -337,5 +390,6 @@ export class LightingSystem {
         this.scene.remove(this.moonLight)
         this.scene.remove(this.ambientLight)
         this.scene.remove(this.skyLight)
+        this.sky.dispose()
     }
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { SimulationClock } from './SimulationClock'
+
+describe('SimulationClock', () => {
+    it('advances game time by the time scale', () => {
+        const clock = new SimulationClock(0.5, 100, 3600)
+        for (let i = 0; i < 60; i++) clock.advance(0.1)
+
+        // 6 секунд при 3600x - шесть игровых часов
+        expect(clock.getTimeOfDay()).toBeCloseTo(0.75, 6)
+        expect(clock.getDayOfYear()).toBe(100)
+    })
+
+    it('stands still when paused and ignores long frame gaps', () => {
+        const clock = new SimulationClock(0.25, 10, 0)
+        clock.advance(1)
+        expect(clock.getTimeOfDay()).toBe(0.25)
+
+        clock.setTimeScale(60)
+        clock.advance(30)
+        expect(clock.getTimeOfDay()).toBeCloseTo(0.25 + (0.25 * 60) / 86400, 9)
+    })
+
+    it('rolls over into the next day and the next year', () => {
+        const clock = new SimulationClock(0.99, 365, 3600)
+        const phase = clock.getMoonPhase()
+        for (let i = 0; i < 3; i++) clock.advance(0.25)
+
+        expect(clock.getDayOfYear()).toBe(1)
+        expect(clock.getTimeOfDay()).toBeCloseTo(0.99 + 2700 / 86400 - 1, 6)
+        expect(clock.getMoonPhase()).toBeGreaterThan(phase)
+    })
+
+    it('keeps the day when the time of day is set from the slider', () => {
+        const clock = new SimulationClock(0.2, 50, 60)
+        clock.setTimeOfDay(1)
+        expect(clock.getDayOfYear()).toBe(50)
+        expect(clock.getTimeOfDay()).toBeLessThan(1)
+
+        clock.setDayOfYear(200)
+        expect(clock.getDayOfYear()).toBe(200)
+        expect(clock.getTimeOfDay()).toBeCloseTo(1, 5)
+    })
+})
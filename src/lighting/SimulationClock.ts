@@ -0,0 +1,64 @@
+// Часы симуляции: время суток, день года и ускорение. Время хранится одним числом - днями
+// от начала первого года, поэтому фаза луны не прыгает при смене года
+export type TimeScale = 0 | 1 | 60 | 3600 // 0 - пауза
+
+export const TIME_SCALES: TimeScale[] = [1, 60, 3600]
+export const DAYS_PER_YEAR = 365
+
+const SECONDS_PER_DAY = 86400
+const SYNODIC_MONTH = 29.530588 // Дней от новолуния до новолуния
+const MOON_PHASE_OFFSET = 0.3 // Фаза в первый день года
+const MAX_FRAME_DELTA = 0.25 // Секунд; после зависания вкладки время не перескакивает
+const LAST_MOMENT = 1 - 1e-6 // Конец слайдера - последняя секунда суток, а не полночь следующих
+
+export class SimulationClock {
+    private days: number
+    private timeScale: TimeScale
+
+    constructor(timeOfDay: number, dayOfYear: number, timeScale: TimeScale) {
+        this.days = dayOfYear - 1 + timeOfDay
+        this.timeScale = timeScale
+    }
+
+    advance(deltaSeconds: number): void {
+        const delta = Math.min(Math.max(deltaSeconds, 0), MAX_FRAME_DELTA)
+        this.days += (delta * this.timeScale) / SECONDS_PER_DAY
+    }
+
+    // 0 = полночь, 0.5 = полдень
+    getTimeOfDay(): number {
+        return this.days - Math.floor(this.days)
+    }
+
+    setTimeOfDay(timeOfDay: number): void {
+        this.days = Math.floor(this.days) + Math.min(Math.max(timeOfDay, 0), LAST_MOMENT)
+    }
+
+    // 1..365
+    getDayOfYear(): number {
+        return (Math.floor(this.days) % DAYS_PER_YEAR) + 1
+    }
+
+    setDayOfYear(dayOfYear: number): void {
+        const day = Math.min(Math.max(Math.round(dayOfYear), 1), DAYS_PER_YEAR)
+        this.days = day - 1 + this.getTimeOfDay()
+    }
+
+    // 0 = новолуние, 0.5 = полнолуние
+    getMoonPhase(): number {
+        const phase = this.days / SYNODIC_MONTH + MOON_PHASE_OFFSET
+        return phase - Math.floor(phase)
+    }
+
+    getTimeScale(): TimeScale {
+        return this.timeScale
+    }
+
+    setTimeScale(timeScale: TimeScale): void {
+        this.timeScale = timeScale
+    }
+
+    isPaused(): boolean {
+        return this.timeScale === 0
+    }
+}
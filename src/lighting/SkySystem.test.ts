@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { Vector3 } from 'three'
+import { computeHorizonColor, defaultSkyParameters, evaluateSky } from './SkySystem'
+
+const noon = new Vector3(0.3, 1, 0.2).normalize()
+const sunset = new Vector3(1, 0.02, 0.5).normalize()
+const midnight = new Vector3(0, -1, 0)
+
+describe('SkySystem', () => {
+    it('paints a blue sky at noon', () => {
+        const zenith = evaluateSky(new Vector3(0, 1, 0), noon, defaultSkyParameters)
+        expect(zenith.b).toBeGreaterThan(zenith.r)
+        expect(zenith.b).toBeGreaterThan(0.3)
+
+        // К горизонту небо светлеет
+        const horizon = computeHorizonColor(noon, defaultSkyParameters)
+        expect(horizon.r + horizon.g + horizon.b).toBeGreaterThan(zenith.r + zenith.g + zenith.b)
+    })
+
+    it('reddens the horizon towards the setting sun', () => {
+        const towardsSun = evaluateSky(new Vector3(sunset.x, 0, sunset.z).normalize(), sunset, defaultSkyParameters)
+        expect(towardsSun.r).toBeGreaterThan(towardsSun.b)
+    })
+
+    it('derives a dark fog colour at night', () => {
+        const day = computeHorizonColor(noon, defaultSkyParameters)
+        const night = computeHorizonColor(midnight, defaultSkyParameters)
+
+        expect(night.r + night.g + night.b).toBeLessThan((day.r + day.g + day.b) * 0.2)
+        expect(night.b).toBeGreaterThan(night.r)
+    })
+})
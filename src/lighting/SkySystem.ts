@@ -0,0 +1,176 @@
+import { BackSide, Color, Matrix3, Matrix4, Mesh, Scene, ShaderMaterial, SphereGeometry, Vector3 } from 'three'
+
+import skyVertexShader from '../assets/shaders/sky.vert?raw'
+import skyFragmentShader from '../assets/shaders/sky.frag?raw'
+
+export interface SkyParameters {
+    turbidity: number
+    rayleigh: number
+    mieCoefficient: number
+    mieDirectionalG: number
+}
+
+export const defaultSkyParameters: SkyParameters = {
+    turbidity: 8,
+    rayleigh: 2,
+    mieCoefficient: 0.005,
+    mieDirectionalG: 0.8,
+}
+
+const SKY_RADIUS = 1500 // Меньше дальней плоскости камеры
+const HORIZON_SAMPLES = 8
+
+// Константы модели - те же, что в sky.frag
+const TOTAL_RAYLEIGH = [5.804542996261093e-6, 1.3562911419845635e-5, 3.0265902468824876e-5]
+const MIE_CONST = [1.8399918514433978e14, 2.7798023919660528e14, 4.0790479543861094e14]
+const CUTOFF_ANGLE = 1.6110731556870734
+const STEEPNESS = 1.5
+const EE = 1000
+const RAYLEIGH_ZENITH_LENGTH = 8.4e3
+const MIE_ZENITH_LENGTH = 1.25e3
+const NIGHT_SKY = [0, 0.0003, 0.00075]
+const WHITE_POINT = 1000
+
+function uncharted2Tonemap(x: number): number {
+    return (x * (0.15 * x + 0.05) + 0.004) / (x * (0.15 * x + 0.5) + 0.06) - 0.02 / 0.3
+}
+
+// Небо: купол вокруг камеры с рассеянием по Preetham, солнцем, луной и звёздами.
+// Цвет горизонта считается на CPU той же моделью и служит цветом тумана
+export class SkySystem {
+    private scene: Scene
+    private mesh: Mesh<SphereGeometry, ShaderMaterial>
+    private parameters: SkyParameters = { ...defaultSkyParameters }
+    private horizonColor = new Color()
+    private starRotation = new Matrix4()
+
+    constructor(scene: Scene) {
+        this.scene = scene
+
+        const material = new ShaderMaterial({
+            uniforms: {
+                uSunDirection: { value: new Vector3(0, 1, 0) },
+                uMoonDirection: { value: new Vector3(0, -1, 0) },
+                uStarRotation: { value: new Matrix3() },
+                uTime: { value: 0 },
+                uTurbidity: { value: this.parameters.turbidity },
+                uRayleigh: { value: this.parameters.rayleigh },
+                uMieCoefficient: { value: this.parameters.mieCoefficient },
+                uMieDirectionalG: { value: this.parameters.mieDirectionalG },
+            },
+            vertexShader: skyVertexShader,
+            fragmentShader: skyFragmentShader,
+            side: BackSide,
+            depthWrite: false,
+        })
+
+        this.mesh = new Mesh(new SphereGeometry(SKY_RADIUS, 32, 16), material)
+        this.mesh.name = 'Sky'
+        this.mesh.renderOrder = -1
+        this.mesh.frustumCulled = false
+        // Купол центрируется на той камере, что рисует кадр: основной, зеркальной или камере глубины
+        this.mesh.onBeforeRender = (_renderer, _scene, camera) => {
+            this.mesh.position.setFromMatrixPosition(camera.matrixWorld)
+            this.mesh.updateMatrixWorld()
+        }
+        this.scene.add(this.mesh)
+
+        computeHorizonColor(material.uniforms.uSunDirection.value, this.parameters, this.horizonColor)
+    }
+
+    // Звёзды поворачиваются вокруг полюса мира на звёздное время siderealAngle
+    update(
+        sunDirection: Vector3,
+        moonDirection: Vector3,
+        celestialPole: Vector3,
+        siderealAngle: number,
+        time: number
+    ): void {
+        const uniforms = this.mesh.material.uniforms
+        uniforms.uSunDirection.value.copy(sunDirection).normalize()
+        uniforms.uMoonDirection.value.copy(moonDirection).normalize()
+        uniforms.uTime.value = time
+
+        this.starRotation.makeRotationAxis(celestialPole, siderealAngle)
+        uniforms.uStarRotation.value.setFromMatrix4(this.starRotation)
+
+        computeHorizonColor(uniforms.uSunDirection.value, this.parameters, this.horizonColor)
+    }
+
+    setParameters(parameters: Partial<SkyParameters>): void {
+        Object.assign(this.parameters, parameters)
+
+        const uniforms = this.mesh.material.uniforms
+        uniforms.uTurbidity.value = this.parameters.turbidity
+        uniforms.uRayleigh.value = this.parameters.rayleigh
+        uniforms.uMieCoefficient.value = this.parameters.mieCoefficient
+        uniforms.uMieDirectionalG.value = this.parameters.mieDirectionalG
+        computeHorizonColor(uniforms.uSunDirection.value, this.parameters, this.horizonColor)
+    }
+
+    getHorizonColor(): Color {
+        return this.horizonColor
+    }
+
+    dispose(): void {
+        this.scene.remove(this.mesh)
+        this.mesh.geometry.dispose()
+        this.mesh.material.dispose()
+    }
+}
+
+// Цвет неба в направлении взгляда без диска солнца, луны и звёзд - CPU-копия sky.frag
+export function evaluateSky(
+    direction: Vector3,
+    sunDirection: Vector3,
+    parameters: SkyParameters,
+    target: Color = new Color()
+): Color {
+    const sunCos = Math.min(1, Math.max(-1, sunDirection.y))
+    const sunE = EE * Math.max(0, 1 - Math.exp(-((CUTOFF_ANGLE - Math.acos(sunCos)) / STEEPNESS)))
+    const sunfade = Math.min(1, Math.exp(sunDirection.y * 0.9))
+
+    const zenithAngle = Math.acos(Math.max(0, direction.y))
+    const inverse = 1 / (Math.cos(zenithAngle) + 0.15 * Math.pow(93.885 - (zenithAngle * 180) / Math.PI, -1.253))
+
+    const cosTheta = direction.dot(sunDirection)
+    const rayleighPhase = (3 / (16 * Math.PI)) * (1 + (cosTheta * 0.5 + 0.5) ** 2)
+    const g = parameters.mieDirectionalG
+    const miePhase = (1 - g * g) / (4 * Math.PI * Math.pow(1 - 2 * g * cosTheta + g * g, 1.5))
+    const sunsetMix = Math.min(1, Math.max(0, Math.pow(1 - sunDirection.y, 5)))
+    const exponent = 1 / (1.2 + 1.2 * sunfade)
+
+    const channels = [0, 0, 0].map((_, i) => {
+        const betaR = TOTAL_RAYLEIGH[i] * (parameters.rayleigh - (1 - sunfade))
+        const betaM = 0.434 * (0.2 * parameters.turbidity) * 1e-17 * MIE_CONST[i] * parameters.mieCoefficient
+        const extinction = Math.exp(-(betaR * RAYLEIGH_ZENITH_LENGTH + betaM * MIE_ZENITH_LENGTH) * inverse)
+
+        const scattering = (sunE * (betaR * rayleighPhase + betaM * miePhase)) / (betaR + betaM)
+        let inscatter = Math.pow(scattering * (1 - extinction), 1.5)
+        inscatter *= 1 + (Math.sqrt(scattering * extinction) - 1) * sunsetMix
+
+        const radiance = (inscatter + 0.1 * extinction) * 0.04 + NIGHT_SKY[i]
+        return Math.pow(uncharted2Tonemap(radiance) / uncharted2Tonemap(WHITE_POINT), exponent)
+    })
+
+    return target.setRGB(channels[0], channels[1], channels[2])
+}
+
+// Средний цвет горизонта по азимутам: туман не зависит от направления, поэтому усредняем
+export function computeHorizonColor(
+    sunDirection: Vector3,
+    parameters: SkyParameters,
+    target: Color = new Color()
+): Color {
+    const direction = new Vector3()
+    const sample = new Color()
+    target.setRGB(0, 0, 0)
+
+    for (let i = 0; i < HORIZON_SAMPLES; i++) {
+        const azimuth = (i / HORIZON_SAMPLES) * Math.PI * 2
+        direction.set(Math.cos(azimuth), 0, Math.sin(azimuth))
+        target.add(evaluateSky(direction, sunDirection, parameters, sample))
+    }
+
+    return target.multiplyScalar(1 / HORIZON_SAMPLES)
+}
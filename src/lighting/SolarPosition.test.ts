@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { MathUtils } from 'three'
+import { getMoonDirection, getSunDirection } from './SolarPosition'
+
+const SUMMER = 172
+const WINTER = 355
+
+function elevation(timeOfDay: number, dayOfYear: number, latitude: number): number {
+    return MathUtils.radToDeg(Math.asin(getSunDirection(timeOfDay, dayOfYear, latitude).y))
+}
+
+describe('SolarPosition', () => {
+    it('raises the noon sun by latitude and season', () => {
+        expect(elevation(0.5, SUMMER, 45)).toBeCloseTo(90 - 45 + 23.44, 1)
+        expect(elevation(0.5, WINTER, 45)).toBeCloseTo(90 - 45 - 23.44, 1)
+        expect(elevation(0.5, 80, 0)).toBeGreaterThan(88)
+    })
+
+    it('rises in the east and culminates in the south of the northern hemisphere', () => {
+        const morning = getSunDirection(0.3, 80, 45)
+        expect(morning.x).toBeGreaterThan(0)
+        expect(morning.y).toBeGreaterThan(0)
+
+        expect(getSunDirection(0.5, 80, 45).z).toBeGreaterThan(0)
+        expect(getSunDirection(0.5, 80, -45).z).toBeLessThan(0)
+    })
+
+    it('makes summer days longer than winter days', () => {
+        const daylight = (dayOfYear: number) => {
+            let hours = 0
+            for (let hour = 0; hour < 24; hour += 0.25) {
+                if (elevation(hour / 24, dayOfYear, 55) > 0) hours += 0.25
+            }
+            return hours
+        }
+        expect(daylight(SUMMER)).toBeGreaterThan(16)
+        expect(daylight(WINTER)).toBeLessThan(8)
+    })
+
+    it('puts the full moon opposite the sun', () => {
+        const sun = getSunDirection(0, SUMMER, 45)
+        const moon = getMoonDirection(0, SUMMER, 45, 0.5)
+        expect(moon.dot(sun)).toBeLessThan(-0.99)
+        expect(moon.y).toBeGreaterThan(0)
+    })
+})
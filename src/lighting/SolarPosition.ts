@@ -0,0 +1,58 @@
+import { MathUtils, Vector3 } from 'three'
+
+// Положение солнца на небе по широте, дню года и местному солнечному времени.
+// Оси сцены: +x - восток, +y - зенит, -z - север
+const AXIAL_TILT = 23.44
+const DAYS_PER_YEAR = 365
+
+// Склонение солнца: -23.44° в зимнее солнцестояние (~21 декабря), +23.44° в летнее
+export function getSolarDeclination(dayOfYear: number): number {
+    return MathUtils.degToRad(-AXIAL_TILT) * Math.cos((2 * Math.PI * (dayOfYear + 10)) / DAYS_PER_YEAR)
+}
+
+// Направление на светило со склонением declination при часовом угле hourAngle (0 - полдень)
+export function getCelestialDirection(
+    hourAngle: number,
+    declination: number,
+    latitude: number,
+    target: Vector3 = new Vector3()
+): Vector3 {
+    const phi = MathUtils.degToRad(latitude)
+    const east = -Math.cos(declination) * Math.sin(hourAngle)
+    const north = Math.cos(phi) * Math.sin(declination) - Math.sin(phi) * Math.cos(declination) * Math.cos(hourAngle)
+    const up = Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+    return target.set(east, up, -north)
+}
+
+// timeOfDay: 0 = полночь, 0.5 = полдень
+export function getSunDirection(
+    timeOfDay: number,
+    dayOfYear: number,
+    latitude: number,
+    target: Vector3 = new Vector3()
+): Vector3 {
+    return getCelestialDirection((timeOfDay - 0.5) * Math.PI * 2, getSolarDeclination(dayOfYear), latitude, target)
+}
+
+// Луна идёт по эклиптике впереди солнца на долю лунного месяца: она там, где солнце было бы
+// на phase года позже, и кульминирует на phase суток позже. Наклон орбиты луны не учитывается
+export function getMoonDirection(
+    timeOfDay: number,
+    dayOfYear: number,
+    latitude: number,
+    phase: number,
+    target: Vector3 = new Vector3()
+): Vector3 {
+    return getSunDirection(timeOfDay - phase, dayOfYear + phase * DAYS_PER_YEAR, latitude, target)
+}
+
+// Северный полюс мира - ось суточного вращения неба
+export function getCelestialPole(latitude: number, target: Vector3 = new Vector3()): Vector3 {
+    const phi = MathUtils.degToRad(latitude)
+    return target.set(0, Math.sin(phi), -Math.cos(phi))
+}
+
+// Звёздное время как угол: небо поворачивается за сутки и ещё на оборот за год
+export function getSiderealAngle(timeOfDay: number, dayOfYear: number): number {
+    return (timeOfDay - 0.5 + dayOfYear / DAYS_PER_YEAR) * Math.PI * 2
+}
@@ -0,0 +1,43 @@
+import { WebGLRenderTarget } from 'three'
+import { FXAAPass } from 'three/examples/jsm/postprocessing/FXAAPass.js'
+import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js'
+import { PostProcessingPass, type PostProcessingFrame } from './PostProcessingPass'
+
+export type PostAntialiasingMode = 'fxaa' | 'smaa'
+
+// Сглаживание по готовому кадру - замена MSAA, когда он слишком дорог. Ставится последним:
+// края ищутся по яркости уже после тональной компрессии. Сами фильтры - готовые проходы three.js
+export class AntialiasPass extends PostProcessingPass {
+    private mode: PostAntialiasingMode = 'fxaa'
+    private fxaa = new FXAAPass()
+    private smaa = new SMAAPass()
+
+    constructor() {
+        super('antialias')
+    }
+
+    setMode(mode: PostAntialiasingMode): void {
+        this.mode = mode
+    }
+
+    getMode(): PostAntialiasingMode {
+        return this.mode
+    }
+
+    setSize(width: number, height: number): void {
+        this.fxaa.setSize(width, height)
+        this.smaa.setSize(width, height)
+    }
+
+    render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        const pass = this.mode === 'fxaa' ? this.fxaa : this.smaa
+        // На экран - renderToScreen, тогда цель записи проходу не нужна
+        pass.renderToScreen = output === null
+        pass.render(frame.renderer, output!, input, 0, false)
+    }
+
+    dispose(): void {
+        this.fxaa.dispose()
+        this.smaa.dispose()
+    }
+}
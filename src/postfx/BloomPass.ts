@@ -0,0 +1,100 @@
+import { AdditiveBlending, HalfFloatType, Vector2, WebGLRenderTarget } from 'three'
+import { FullscreenQuad, PostProcessingPass, createPassMaterial, type PostProcessingFrame } from './PostProcessingPass'
+
+import bloomFragmentShader from '../assets/shaders/bloom.frag?raw'
+
+const LEVELS = 5 // От половины до 1/32 кадра
+const KNEE = 0.2 // Ширина мягкого перехода вокруг порога
+
+// Свечение бликов: яркое выше порога уменьшается цепочкой уровней и собирается обратно,
+// каждый уровень добавляет размытие своей ширины. Блики солнца на воде расплываются мягким ореолом
+export class BloomPass extends PostProcessingPass {
+    private levels: WebGLRenderTarget[] = Array.from(
+        { length: LEVELS },
+        () => new WebGLRenderTarget(1, 1, { type: HalfFloatType, depthBuffer: false })
+    )
+    private quad = new FullscreenQuad()
+    private strength = 0.6
+
+    private prefilterMaterial = createPassMaterial(
+        bloomFragmentShader,
+        {
+            uInput: { value: null },
+            uTexelSize: { value: new Vector2() },
+            uThreshold: { value: 0.9 },
+            uKnee: { value: KNEE },
+        },
+        { BLOOM_PREFILTER: '' }
+    )
+    private downsampleMaterial = createPassMaterial(
+        bloomFragmentShader,
+        { uInput: { value: null }, uTexelSize: { value: new Vector2() } },
+        { BLOOM_DOWNSAMPLE: '' }
+    )
+    private upsampleMaterial = createPassMaterial(
+        bloomFragmentShader,
+        { uInput: { value: null }, uTexelSize: { value: new Vector2() }, uRadius: { value: 1 } },
+        { BLOOM_UPSAMPLE: '' }
+    )
+    private compositeMaterial = createPassMaterial(bloomFragmentShader, {
+        uInput: { value: null },
+        uBloom: { value: null },
+        uStrength: { value: 0.6 },
+    })
+
+    constructor() {
+        super('bloom')
+        this.upsampleMaterial.blending = AdditiveBlending
+    }
+
+    setParameters(threshold: number, strength: number, radius: number): void {
+        this.prefilterMaterial.uniforms.uThreshold.value = threshold
+        this.upsampleMaterial.uniforms.uRadius.value = radius
+        this.strength = strength
+    }
+
+    setSize(width: number, height: number): void {
+        this.levels.forEach((level, i) => {
+            const scale = 2 ** (i + 1)
+            level.setSize(Math.max(1, Math.round(width / scale)), Math.max(1, Math.round(height / scale)))
+        })
+    }
+
+    render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        const { renderer } = frame
+
+        this.prefilterMaterial.uniforms.uInput.value = input.texture
+        this.prefilterMaterial.uniforms.uTexelSize.value.set(1 / input.width, 1 / input.height)
+        this.quad.render(renderer, this.prefilterMaterial, this.levels[0])
+
+        for (let i = 1; i < LEVELS; i++) {
+            const source = this.levels[i - 1]
+            this.downsampleMaterial.uniforms.uInput.value = source.texture
+            this.downsampleMaterial.uniforms.uTexelSize.value.set(1 / source.width, 1 / source.height)
+            this.quad.render(renderer, this.downsampleMaterial, this.levels[i])
+        }
+
+        // Снизу вверх: каждый уровень прибавляет к себе увеличенный меньший
+        for (let i = LEVELS - 2; i >= 0; i--) {
+            const source = this.levels[i + 1]
+            this.upsampleMaterial.uniforms.uInput.value = source.texture
+            this.upsampleMaterial.uniforms.uTexelSize.value.set(1 / source.width, 1 / source.height)
+            this.quad.render(renderer, this.upsampleMaterial, this.levels[i])
+        }
+
+        const uniforms = this.compositeMaterial.uniforms
+        uniforms.uInput.value = input.texture
+        uniforms.uBloom.value = this.levels[0].texture
+        uniforms.uStrength.value = this.strength / LEVELS
+        this.quad.render(renderer, this.compositeMaterial, output)
+    }
+
+    dispose(): void {
+        this.levels.forEach(level => level.dispose())
+        this.prefilterMaterial.dispose()
+        this.downsampleMaterial.dispose()
+        this.upsampleMaterial.dispose()
+        this.compositeMaterial.dispose()
+        this.quad.dispose()
+    }
+}
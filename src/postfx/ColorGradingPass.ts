@@ -0,0 +1,68 @@
+import { ClampToEdgeWrapping, Data3DTexture, LinearFilter, WebGLRenderTarget } from 'three'
+import { FullscreenQuad, PostProcessingPass, createPassMaterial, type PostProcessingFrame } from './PostProcessingPass'
+import { GRADING_LUT_SIZE, buildGradingLut } from './GradingLut'
+import type { GradingLook, ToneMappingMode } from './PostFXSettings'
+
+import gradingFragmentShader from '../assets/shaders/grading.frag?raw'
+
+// Экспозиция, ACES и LUT цветокоррекции. Раньше экспозиция и ACES были зашиты в рендерер,
+// но при рисовании в цель three.js их не применяет - теперь это делает этот проход
+export class ColorGradingPass extends PostProcessingPass {
+    private quad = new FullscreenQuad()
+    private look: GradingLook | null = null
+    private lut: Data3DTexture
+    private material = createPassMaterial(gradingFragmentShader, {
+        uInput: { value: null },
+        uLut: { value: null },
+        uLutSize: { value: GRADING_LUT_SIZE },
+        uLutIntensity: { value: 1 },
+        uExposure: { value: 1 },
+    })
+
+    constructor() {
+        super('grading')
+        this.lut = new Data3DTexture(null, GRADING_LUT_SIZE, GRADING_LUT_SIZE, GRADING_LUT_SIZE)
+        this.lut.minFilter = LinearFilter
+        this.lut.magFilter = LinearFilter
+        this.lut.wrapS = ClampToEdgeWrapping
+        this.lut.wrapT = ClampToEdgeWrapping
+        this.lut.wrapR = ClampToEdgeWrapping
+        this.material.uniforms.uLut.value = this.lut
+        this.setLook('neutral')
+        this.setToneMapping('aces')
+    }
+
+    setExposure(exposure: number): void {
+        this.material.uniforms.uExposure.value = exposure
+    }
+
+    setToneMapping(mode: ToneMappingMode): void {
+        const aces = mode === 'aces'
+        if (aces === 'TONE_MAPPING_ACES' in this.material.defines) return
+
+        if (aces) this.material.defines.TONE_MAPPING_ACES = ''
+        else delete this.material.defines.TONE_MAPPING_ACES
+        this.material.needsUpdate = true
+    }
+
+    // LUT пересчитывается только при смене образа
+    setLook(look: GradingLook, intensity: number = this.material.uniforms.uLutIntensity.value): void {
+        this.material.uniforms.uLutIntensity.value = intensity
+        if (look === this.look) return
+
+        this.look = look
+        this.lut.image.data = buildGradingLut(look, GRADING_LUT_SIZE)
+        this.lut.needsUpdate = true
+    }
+
+    render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        this.material.uniforms.uInput.value = input.texture
+        this.quad.render(frame.renderer, this.material, output)
+    }
+
+    dispose(): void {
+        this.lut.dispose()
+        this.material.dispose()
+        this.quad.dispose()
+    }
+}
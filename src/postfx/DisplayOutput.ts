@@ -0,0 +1,15 @@
+import type { Material } from 'three'
+
+// Наши ShaderMaterial пишут цвет, готовый к выводу, и постобработка считает кадр таким же.
+// Встроенные материалы three.js при рисовании в цель выдают линейный цвет - такой материал
+// кодируется в sRGB сам, иначе растительность в кадре выходит заметно темнее рельефа
+export function encodeDisplayOutput<T extends Material>(material: T): T {
+    material.onBeforeCompile = shader => {
+        shader.fragmentShader = shader.fragmentShader.replace(
+            '#include <colorspace_fragment>',
+            'gl_FragColor = sRGBTransferOETF( gl_FragColor );'
+        )
+    }
+    material.customProgramCacheKey = () => 'display-output'
+    return material
+}
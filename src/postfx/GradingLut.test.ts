@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { buildGradingLut, gradeColor } from './GradingLut'
+
+describe('GradingLut', () => {
+    it('leaves colours unchanged with the neutral look', () => {
+        const size = 4
+        const lut = buildGradingLut('neutral', size)
+        expect(lut.length).toBe(size * size * size * 4)
+
+        // Ячейка (r=1, g=2, b=3): красный меняется быстрее всех
+        const i = ((3 * size + 2) * size + 1) * 4
+        expect([lut[i], lut[i + 1], lut[i + 2], lut[i + 3]]).toEqual([85, 170, 255, 255])
+    })
+
+    it('shifts grey towards red with the warm look and towards blue with the cool look', () => {
+        const [warmR, , warmB] = gradeColor([0.5, 0.5, 0.5], 'warm')
+        const [coolR, , coolB] = gradeColor([0.5, 0.5, 0.5], 'cool')
+        expect(warmR).toBeGreaterThan(warmB)
+        expect(coolB).toBeGreaterThan(coolR)
+    })
+})
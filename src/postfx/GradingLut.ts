@@ -0,0 +1,74 @@
+import type { GradingLook } from './PostFXSettings'
+
+// Параметры образа: из них строится 3D LUT, шейдер только читает таблицу
+interface GradingParameters {
+    contrast: number // Вокруг середины 0.5
+    saturation: number
+    temperature: number // > 0 - теплее (красный вверх, синий вниз)
+    shadowTint: [number, number, number] // Сдвиг цвета теней
+    highlightTint: [number, number, number] // Сдвиг цвета светов
+}
+
+const LOOKS: Record<GradingLook, GradingParameters> = {
+    neutral: { contrast: 1, saturation: 1, temperature: 0, shadowTint: [0, 0, 0], highlightTint: [0, 0, 0] },
+    warm: {
+        contrast: 1.05,
+        saturation: 1.05,
+        temperature: 0.08,
+        shadowTint: [0, 0, 0],
+        highlightTint: [0.02, 0.01, 0],
+    },
+    cool: { contrast: 1, saturation: 0.95, temperature: -0.08, shadowTint: [0, 0.01, 0.03], highlightTint: [0, 0, 0] },
+    // Плёночный: контраст, приглушённые цвета, тени в бирюзу, света в охру
+    filmic: {
+        contrast: 1.15,
+        saturation: 0.9,
+        temperature: 0.02,
+        shadowTint: [-0.02, 0.01, 0.03],
+        highlightTint: [0.03, 0.01, -0.02],
+    },
+}
+
+export const GRADING_LUT_SIZE = 32
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+// Цвет ячейки LUT: баланс белого, раздельное тонирование, насыщенность и контраст
+export function gradeColor(rgb: [number, number, number], look: GradingLook): [number, number, number] {
+    const { contrast, saturation, temperature, shadowTint, highlightTint } = LOOKS[look]
+    let [r, g, b] = rgb
+
+    r *= 1 + temperature
+    b *= 1 - temperature
+
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+    const shadows = 1 - luminance
+    r += shadowTint[0] * shadows + highlightTint[0] * luminance
+    g += shadowTint[1] * shadows + highlightTint[1] * luminance
+    b += shadowTint[2] * shadows + highlightTint[2] * luminance
+
+    const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b
+    r = gray + (r - gray) * saturation
+    g = gray + (g - gray) * saturation
+    b = gray + (b - gray) * saturation
+
+    return [r, g, b].map(channel => clamp01((channel - 0.5) * contrast + 0.5)) as [number, number, number]
+}
+
+// Таблица RGBA8 size^3: красный вдоль x, зелёный вдоль y, синий вдоль z - как читает Data3DTexture
+export function buildGradingLut(look: GradingLook, size: number = GRADING_LUT_SIZE): Uint8Array {
+    const data = new Uint8Array(size * size * size * 4)
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const graded = gradeColor([r / (size - 1), g / (size - 1), b / (size - 1)], look)
+                const i = ((b * size + g) * size + r) * 4
+                data[i] = Math.round(graded[0] * 255)
+                data[i + 1] = Math.round(graded[1] * 255)
+                data[i + 2] = Math.round(graded[2] * 255)
+                data[i + 3] = 255
+            }
+        }
+    }
+    return data
+}
@@ -0,0 +1,59 @@
+import { Color, Matrix4, Vector3, WebGLRenderTarget } from 'three'
+import { FullscreenQuad, PostProcessingPass, createPassMaterial, type PostProcessingFrame } from './PostProcessingPass'
+
+import heightFogFragmentShader from '../assets/shaders/heightfog.frag?raw'
+
+const MAX_DISTANCE = 1500 // Радиус купола неба: дальше сцены нет
+
+// Атмосферный туман, густеющий к низинам. Цвет - цвет горизонта неба, против солнца - подсветка его цветом
+export class HeightFogPass extends PostProcessingPass {
+    private quad = new FullscreenQuad()
+    private material = createPassMaterial(heightFogFragmentShader, {
+        uInput: { value: null },
+        uDepth: { value: null },
+        uInverseProjection: { value: new Matrix4() },
+        uCameraMatrixWorld: { value: new Matrix4() },
+        uCameraPosition: { value: new Vector3() },
+        uFogColor: { value: new Color() },
+        uSunColor: { value: new Color() },
+        uSunDirection: { value: new Vector3(0, 1, 0) },
+        uDensity: { value: 0.0015 },
+        uFalloff: { value: 0.03 },
+        uBaseHeight: { value: 0 },
+        uMaxDistance: { value: MAX_DISTANCE },
+    })
+
+    constructor() {
+        super('heightFog')
+    }
+
+    setParameters(density: number, falloff: number, baseHeight: number): void {
+        const uniforms = this.material.uniforms
+        uniforms.uDensity.value = density
+        uniforms.uFalloff.value = falloff
+        uniforms.uBaseHeight.value = baseHeight
+    }
+
+    setAtmosphere(fogColor: Color, sunColor: Color, sunDirection: Vector3): void {
+        const uniforms = this.material.uniforms
+        uniforms.uFogColor.value.copy(fogColor)
+        uniforms.uSunColor.value.copy(sunColor)
+        uniforms.uSunDirection.value.copy(sunDirection).normalize()
+    }
+
+    render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        const { camera } = frame
+        const uniforms = this.material.uniforms
+        uniforms.uInput.value = input.texture
+        uniforms.uDepth.value = frame.depthTexture
+        uniforms.uInverseProjection.value.copy(camera.projectionMatrixInverse)
+        uniforms.uCameraMatrixWorld.value.copy(camera.matrixWorld)
+        uniforms.uCameraPosition.value.setFromMatrixPosition(camera.matrixWorld)
+        this.quad.render(frame.renderer, this.material, output)
+    }
+
+    dispose(): void {
+        this.material.dispose()
+        this.quad.dispose()
+    }
+}
@@ -0,0 +1,68 @@
+import { Color, PerspectiveCamera, Scene, Vector3, WebGLRenderer } from 'three'
+import { PostProcessingPipeline } from './PostProcessingPipeline'
+import { SSAOPass } from './SSAOPass'
+import { HeightFogPass } from './HeightFogPass'
+import { BloomPass } from './BloomPass'
+import { ColorGradingPass } from './ColorGradingPass'
+import { AntialiasPass } from './AntialiasPass'
+import type { PostFXSettings } from './PostFXSettings'
+
+const MSAA_SAMPLES = 4
+
+// Постобработка ландшафта: порядок проходов фиксирован. AO - до тумана, чтобы дымка не темнела
+// в складках; туман - до свечения, чтобы блики за дымкой тускнели; FXAA/SMAA - после компрессии
+export class PostFX {
+    private pipeline: PostProcessingPipeline
+    private ssao = new SSAOPass()
+    private heightFog = new HeightFogPass()
+    private bloom = new BloomPass()
+    private grading = new ColorGradingPass()
+    private antialias = new AntialiasPass()
+
+    constructor(settings: PostFXSettings) {
+        this.pipeline = new PostProcessingPipeline(1, 1)
+        ;[this.ssao, this.heightFog, this.bloom, this.grading, this.antialias].forEach(pass =>
+            this.pipeline.addPass(pass)
+        )
+        this.applySettings(settings)
+    }
+
+    applySettings(settings: PostFXSettings): void {
+        this.ssao.enabled = settings.ssao
+        this.ssao.setParameters(settings.ssaoRadius, settings.ssaoIntensity)
+
+        this.heightFog.enabled = settings.heightFog
+        this.heightFog.setParameters(settings.heightFogDensity, settings.heightFogFalloff, settings.heightFogBase)
+
+        this.bloom.enabled = settings.bloom
+        this.bloom.setParameters(settings.bloomThreshold, settings.bloomStrength, settings.bloomRadius)
+
+        this.grading.enabled = settings.grading
+        this.grading.setExposure(settings.exposure)
+        this.grading.setToneMapping(settings.toneMapping)
+        this.grading.setLook(settings.lut, settings.lutIntensity)
+
+        // MSAA рендерера на холсте бесполезен: сцена рисуется в цель, поэтому выборки - у неё
+        const mode = settings.antialiasing
+        this.pipeline.setSamples(mode === 'msaa' ? MSAA_SAMPLES : 0)
+        this.antialias.enabled = mode === 'fxaa' || mode === 'smaa'
+        if (mode === 'fxaa' || mode === 'smaa') this.antialias.setMode(mode)
+    }
+
+    setAtmosphere(fogColor: Color, sunColor: Color, sunDirection: Vector3): void {
+        this.heightFog.setAtmosphere(fogColor, sunColor, sunDirection)
+    }
+
+    // Размер в пикселях буфера отрисовки (с учётом pixel ratio)
+    setSize(width: number, height: number): void {
+        this.pipeline.setSize(width, height)
+    }
+
+    render(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera): void {
+        this.pipeline.render(renderer, scene, camera)
+    }
+
+    dispose(): void {
+        this.pipeline.dispose()
+    }
+}
@@ -0,0 +1,44 @@
+// Настройки постобработки: у каждого прохода свой переключатель и параметры
+export type AntialiasingMode = 'off' | 'msaa' | 'fxaa' | 'smaa'
+export type ToneMappingMode = 'aces' | 'none'
+export type GradingLook = 'neutral' | 'warm' | 'cool' | 'filmic'
+
+export interface PostFXSettings {
+    ssao: boolean
+    ssaoRadius: number // Радиус выборок в метрах
+    ssaoIntensity: number // 0..1
+    heightFog: boolean
+    heightFogDensity: number // Плотность на базовой высоте, 1/м
+    heightFogFalloff: number // Убывание плотности с высотой, 1/м
+    heightFogBase: number // Базовая высота тумана, м
+    bloom: boolean
+    bloomThreshold: number // Яркость, с которой начинается свечение
+    bloomStrength: number
+    bloomRadius: number // Ширина фильтра при увеличении, в текселях уровня
+    grading: boolean
+    exposure: number
+    toneMapping: ToneMappingMode
+    lut: GradingLook
+    lutIntensity: number // 0 - без цветокоррекции, 1 - LUT целиком
+    antialiasing: AntialiasingMode // msaa - в цели сцены, fxaa и smaa - проход в конце
+}
+
+export const defaultPostFXSettings: PostFXSettings = {
+    ssao: true,
+    ssaoRadius: 3,
+    ssaoIntensity: 0.6,
+    heightFog: true,
+    heightFogDensity: 0.0015,
+    heightFogFalloff: 0.03,
+    heightFogBase: 0,
+    bloom: true,
+    bloomThreshold: 0.9,
+    bloomStrength: 0.6,
+    bloomRadius: 1,
+    grading: true,
+    exposure: 1,
+    toneMapping: 'aces',
+    lut: 'neutral',
+    lutIntensity: 1,
+    antialiasing: 'msaa',
+}
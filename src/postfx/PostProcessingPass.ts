@@ -0,0 +1,81 @@
+import {
+    BufferGeometry,
+    DepthTexture,
+    Float32BufferAttribute,
+    Mesh,
+    OrthographicCamera,
+    PerspectiveCamera,
+    ShaderMaterial,
+    WebGLRenderTarget,
+    WebGLRenderer,
+    type IUniform,
+} from 'three'
+
+import fullscreenVertexShader from '../assets/shaders/fullscreen.vert?raw'
+
+// Общее для всех проходов кадра: глубина сцены не меняется проходами и доступна каждому
+export interface PostProcessingFrame {
+    renderer: WebGLRenderer
+    camera: PerspectiveCamera
+    depthTexture: DepthTexture
+}
+
+// Проход постобработки: читает цвет из input и пишет в output; null - прямо на экран
+export abstract class PostProcessingPass {
+    readonly name: string
+    enabled = true
+
+    constructor(name: string) {
+        this.name = name
+    }
+
+    abstract render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void
+
+    // Размер в пикселях буфера отрисовки
+    setSize(_width: number, _height: number): void {}
+
+    dispose(): void {}
+}
+
+// Полноэкранный треугольник: без диагонального шва, который есть у квада из двух треугольников
+export class FullscreenQuad {
+    private mesh: Mesh<BufferGeometry, ShaderMaterial>
+    private camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1)
+
+    constructor() {
+        const geometry = new BufferGeometry()
+        geometry.setAttribute('position', new Float32BufferAttribute([-1, 3, 0, -1, -1, 0, 3, -1, 0], 3))
+        geometry.setAttribute('uv', new Float32BufferAttribute([0, 2, 0, 0, 2, 0], 2))
+        this.mesh = new Mesh(geometry)
+        this.mesh.frustumCulled = false
+    }
+
+    // Треугольник перекрывает всю цель, поэтому очистка не нужна; аддитивные проходы без неё и работают
+    render(renderer: WebGLRenderer, material: ShaderMaterial, target: WebGLRenderTarget | null): void {
+        const previousAutoClear = renderer.autoClear
+        renderer.autoClear = false
+        this.mesh.material = material
+        renderer.setRenderTarget(target)
+        renderer.render(this.mesh, this.camera)
+        renderer.autoClear = previousAutoClear
+    }
+
+    dispose(): void {
+        this.mesh.geometry.dispose()
+    }
+}
+
+export function createPassMaterial(
+    fragmentShader: string,
+    uniforms: Record<string, IUniform>,
+    defines: Record<string, string> = {}
+): ShaderMaterial {
+    return new ShaderMaterial({
+        uniforms,
+        defines,
+        vertexShader: fullscreenVertexShader,
+        fragmentShader,
+        depthTest: false,
+        depthWrite: false,
+    })
+}
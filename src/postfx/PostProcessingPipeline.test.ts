@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { PerspectiveCamera, Scene, WebGLRenderTarget, type WebGLRenderer } from 'three'
+import { PostProcessingPass, type PostProcessingFrame } from './PostProcessingPass'
+import { PostProcessingPipeline } from './PostProcessingPipeline'
+
+// Рендерер запоминает только, куда рисовали
+function createRenderer(targets: (WebGLRenderTarget | null)[]): WebGLRenderer {
+    let current: WebGLRenderTarget | null = null
+    return {
+        autoClear: true,
+        setRenderTarget: (target: WebGLRenderTarget | null) => (current = target),
+        render: () => targets.push(current),
+    } as unknown as WebGLRenderer
+}
+
+class RecordingPass extends PostProcessingPass {
+    calls: { input: WebGLRenderTarget; output: WebGLRenderTarget | null }[] = []
+
+    render(_frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        this.calls.push({ input, output })
+    }
+}
+
+describe('PostProcessingPipeline', () => {
+    it('chains enabled passes in order and sends the last one to the screen', () => {
+        const pipeline = new PostProcessingPipeline(4, 4)
+        const passes = ['first', 'skipped', 'second', 'last'].map(name => new RecordingPass(name))
+        passes.forEach(pass => pipeline.addPass(pass))
+        passes[1].enabled = false
+
+        const targets: (WebGLRenderTarget | null)[] = []
+        pipeline.render(createRenderer(targets), new Scene(), new PerspectiveCamera())
+
+        const [first, skipped, second, last] = passes
+        expect(skipped.calls).toHaveLength(0)
+        expect(first.calls[0].input).toBe(targets[0]) // Цель сцены
+        expect(second.calls[0].input).toBe(first.calls[0].output)
+        expect(last.calls[0].input).toBe(second.calls[0].output)
+        expect(last.calls[0].output).toBeNull()
+
+        // Промежуточные цели чередуются: проход никогда не пишет в то, что читает
+        passes.forEach(pass => pass.calls.forEach(call => expect(call.output).not.toBe(call.input)))
+    })
+
+    it('copies the scene to the screen when every pass is disabled', () => {
+        const pipeline = new PostProcessingPipeline(4, 4)
+        const pass = new RecordingPass('off')
+        pass.enabled = false
+        pipeline.addPass(pass)
+
+        const targets: (WebGLRenderTarget | null)[] = []
+        pipeline.render(createRenderer(targets), new Scene(), new PerspectiveCamera())
+
+        expect(pass.calls).toHaveLength(0)
+        expect(targets).toHaveLength(2)
+        expect(targets[0]).not.toBeNull()
+        expect(targets[1]).toBeNull()
+    })
+})
@@ -0,0 +1,94 @@
+import {
+    DepthTexture,
+    HalfFloatType,
+    PerspectiveCamera,
+    Scene,
+    WebGLRenderTarget,
+    WebGLRenderer,
+    type RenderTargetOptions,
+} from 'three'
+import { FullscreenQuad, createPassMaterial, type PostProcessingPass } from './PostProcessingPass'
+
+import copyFragmentShader from '../assets/shaders/copy.frag?raw'
+
+const TARGET_OPTIONS: RenderTargetOptions = { type: HalfFloatType, depthBuffer: false }
+
+// Постобработка: сцена рисуется в HDR-цель с глубиной, затем включённые проходы по порядку
+// передают кадр друг другу через пару промежуточных целей; последний пишет прямо на экран
+export class PostProcessingPipeline {
+    private sceneTarget: WebGLRenderTarget
+    private pingPong: [WebGLRenderTarget, WebGLRenderTarget]
+    private passes: PostProcessingPass[] = []
+    private quad = new FullscreenQuad()
+    private copyMaterial = createPassMaterial(copyFragmentShader, { uInput: { value: null } })
+
+    constructor(width: number, height: number) {
+        this.sceneTarget = new WebGLRenderTarget(width, height, {
+            type: HalfFloatType,
+            depthTexture: new DepthTexture(width, height),
+        })
+        this.pingPong = [
+            new WebGLRenderTarget(width, height, TARGET_OPTIONS),
+            new WebGLRenderTarget(width, height, TARGET_OPTIONS),
+        ]
+    }
+
+    // Проходы выполняются в порядке добавления
+    addPass(pass: PostProcessingPass): void {
+        this.passes.push(pass)
+    }
+
+    getPasses(): readonly PostProcessingPass[] {
+        return this.passes
+    }
+
+    // MSAA цели сцены; 0 - без сглаживания (или сглаживает проход FXAA/SMAA)
+    setSamples(samples: number): void {
+        if (this.sceneTarget.samples === samples) return
+        this.sceneTarget.samples = samples
+        this.sceneTarget.dispose() // Цель пересоздастся с новым числом выборок при следующем рендере
+    }
+
+    getSamples(): number {
+        return this.sceneTarget.samples
+    }
+
+    // Размер в пикселях буфера отрисовки (с учётом pixel ratio)
+    setSize(width: number, height: number): void {
+        this.sceneTarget.setSize(width, height)
+        this.pingPong.forEach(target => target.setSize(width, height))
+        this.passes.forEach(pass => pass.setSize(width, height))
+    }
+
+    render(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera): void {
+        renderer.setRenderTarget(this.sceneTarget)
+        renderer.render(scene, camera)
+
+        const frame = { renderer, camera, depthTexture: this.sceneTarget.depthTexture! }
+        const active = this.passes.filter(pass => pass.enabled)
+
+        if (active.length === 0) {
+            this.copyMaterial.uniforms.uInput.value = this.sceneTarget.texture
+            this.quad.render(renderer, this.copyMaterial, null)
+            return
+        }
+
+        let input = this.sceneTarget
+        active.forEach((pass, i) => {
+            const output =
+                i === active.length - 1 ? null : input === this.pingPong[0] ? this.pingPong[1] : this.pingPong[0]
+            pass.render(frame, input, output)
+            if (output) input = output
+        })
+        renderer.setRenderTarget(null)
+    }
+
+    dispose(): void {
+        this.sceneTarget.depthTexture?.dispose()
+        this.sceneTarget.dispose()
+        this.pingPong.forEach(target => target.dispose())
+        this.passes.forEach(pass => pass.dispose())
+        this.copyMaterial.dispose()
+        this.quad.dispose()
+    }
+}
@@ -0,0 +1,92 @@
+import { Matrix4, Vector2, Vector3, WebGLRenderTarget } from 'three'
+import { FullscreenQuad, PostProcessingPass, createPassMaterial, type PostProcessingFrame } from './PostProcessingPass'
+
+import ssaoFragmentShader from '../assets/shaders/ssao.frag?raw'
+
+const KERNEL_SIZE = 16 // Как в ssao.frag
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+// Затенение складок рельефа по буферу глубины. Считается в половинном разрешении и размывается -
+// складки крупнее пикселя, а шум поворота ядра уходит в размытие
+export class SSAOPass extends PostProcessingPass {
+    private occlusionTarget = new WebGLRenderTarget(1, 1, { depthBuffer: false })
+    private blurTarget = new WebGLRenderTarget(1, 1, { depthBuffer: false })
+    private quad = new FullscreenQuad()
+
+    private sampleMaterial = createPassMaterial(
+        ssaoFragmentShader,
+        {
+            uDepth: { value: null },
+            uProjection: { value: new Matrix4() },
+            uInverseProjection: { value: new Matrix4() },
+            uKernel: { value: createKernel() },
+            uRadius: { value: 3 },
+            uIntensity: { value: 0.6 },
+        },
+        { AO_SAMPLE: '' }
+    )
+    private blurMaterial = createPassMaterial(
+        ssaoFragmentShader,
+        { uOcclusion: { value: null }, uTexelSize: { value: new Vector2() } },
+        { AO_BLUR: '' }
+    )
+    private compositeMaterial = createPassMaterial(ssaoFragmentShader, {
+        uInput: { value: null },
+        uOcclusion: { value: null },
+    })
+
+    constructor() {
+        super('ssao')
+    }
+
+    setParameters(radius: number, intensity: number): void {
+        this.sampleMaterial.uniforms.uRadius.value = radius
+        this.sampleMaterial.uniforms.uIntensity.value = intensity
+    }
+
+    setSize(width: number, height: number): void {
+        const halfWidth = Math.max(1, Math.round(width / 2))
+        const halfHeight = Math.max(1, Math.round(height / 2))
+        this.occlusionTarget.setSize(halfWidth, halfHeight)
+        this.blurTarget.setSize(halfWidth, halfHeight)
+        this.blurMaterial.uniforms.uTexelSize.value.set(1 / halfWidth, 1 / halfHeight)
+    }
+
+    render(frame: PostProcessingFrame, input: WebGLRenderTarget, output: WebGLRenderTarget | null): void {
+        const { renderer, camera } = frame
+
+        const sampleUniforms = this.sampleMaterial.uniforms
+        sampleUniforms.uDepth.value = frame.depthTexture
+        sampleUniforms.uProjection.value.copy(camera.projectionMatrix)
+        sampleUniforms.uInverseProjection.value.copy(camera.projectionMatrixInverse)
+        this.quad.render(renderer, this.sampleMaterial, this.occlusionTarget)
+
+        this.blurMaterial.uniforms.uOcclusion.value = this.occlusionTarget.texture
+        this.quad.render(renderer, this.blurMaterial, this.blurTarget)
+
+        this.compositeMaterial.uniforms.uInput.value = input.texture
+        this.compositeMaterial.uniforms.uOcclusion.value = this.blurTarget.texture
+        this.quad.render(renderer, this.compositeMaterial, output)
+    }
+
+    dispose(): void {
+        this.occlusionTarget.dispose()
+        this.blurTarget.dispose()
+        this.sampleMaterial.dispose()
+        this.blurMaterial.dispose()
+        this.compositeMaterial.dispose()
+        this.quad.dispose()
+    }
+}
+
+// Точки полусферы по спирали золотого угла; длины растут квадратично - ближние выборки важнее
+function createKernel(): Vector3[] {
+    return Array.from({ length: KERNEL_SIZE }, (_, i) => {
+        const t = (i + 0.5) / KERNEL_SIZE
+        const z = 1 - t * 0.9 // Не у самой касательной плоскости - там выборки ловят свою же поверхность
+        const ring = Math.sqrt(1 - z * z)
+        const angle = i * GOLDEN_ANGLE
+        const scale = 0.1 + 0.9 * t * t
+        return new Vector3(Math.cos(angle) * ring, Math.sin(angle) * ring, z).multiplyScalar(scale)
+    })
+}
@@ -1,12 +1,34 @@
-import { ShaderMaterial, Vector3, Color, MeshBasicMaterial } from 'three'
+import {
+    ShaderMaterial,
+    ShaderChunk,
+    Vector2,
+    Vector3,
+    Vector4,
+    Color,
+    MeshBasicMaterial,
+    PerspectiveCamera,
+    Matrix4,
+} from 'three'
+import { defaultWaterSettings, type WaterSettings } from './WaterSettings'
+import type { WaterDepthPass } from './WaterDepthPass'
+import type { WaterReflectionPass } from './WaterReflectionPass'
+import { MAX_CASCADES, type CascadedShadowMaps } from '../lighting/CascadedShadowMaps'
+import { createTerrainTextures, type TerrainTextures } from './TerrainTextures'
+import { defaultBiomePack, parseHexColor, type BiomePack } from '../biomes/BiomePack'
 
 // Импортируем шейдеры из папки assets
 import terrainVertexShader from '../assets/shaders/terrain.vert?raw'
 import terrainFragmentShader from '../assets/shaders/terrain.frag?raw'
 import waterVertexShader from '../assets/shaders/water.vert?raw'
 import waterFragmentShader from '../assets/shaders/water.frag?raw'
+import riverVertexShader from '../assets/shaders/river.vert?raw'
+import riverFragmentShader from '../assets/shaders/river.frag?raw'
 import wireframeVertexShader from '../assets/shaders/wireframe.vert?raw'
 import wireframeFragmentShader from '../assets/shaders/wireframe.frag?raw'
+import cascadedShadowsChunk from '../assets/shaders/shadows.glsl?raw'
+
+// Общий для террейна и воды код теней подключается через #include <cascaded_shadows>
+;(ShaderChunk as Record<string, string>).cascaded_shadows = cascadedShadowsChunk
 
 export interface LightingUniforms {
     sunColor: Color
@@ -19,13 +41,21 @@ export interface LightingUniforms {
     fogFar: number
 }
 
+const TERRAIN_TEXTURE_SCALE = 8 // Метров на повтор текстуры биома
+const DETAIL_FADE_START = 150 // Дальше текстуры плавно уступают среднему цвету биома
+const DETAIL_FADE_END = 400
+
 export class ShaderManager {
+    private biomePack: BiomePack = defaultBiomePack
+    private terrainTextures: TerrainTextures
     private terrainMaterial: ShaderMaterial
     private waterMaterial: ShaderMaterial
     private lightingUniforms: LightingUniforms
     private allTerrainMaterials: Set<ShaderMaterial> = new Set()
     private allWaterMaterials: Set<ShaderMaterial> = new Set()
     private wireframeEnabled = false
+    private waterSettings: WaterSettings = { ...defaultWaterSettings }
+    private waterDepthPass: WaterDepthPass | null = null
     private terrainWireframeMaterial: ShaderMaterial
     private waterWireframeMaterial: ShaderMaterial
 
@@ -41,6 +71,8 @@ export class ShaderManager {
             fogFar: 1000,
         }
 
+        // Текстуры биомов общие для всех чанков: генерируются один раз на набор биомов
+        this.terrainTextures = createTerrainTextures(this.biomePack)
         this.terrainMaterial = this.createTerrainMaterial()
         this.waterMaterial = this.createWaterMaterial()
 
@@ -84,10 +116,21 @@ export class ShaderManager {
             // Animation uniforms
             uTime: { value: 0.0 },
             uCameraPosition: { value: new Vector3() },
+
+            // Текстуры биомов
+            uAlbedoMaps: { value: this.terrainTextures.albedo },
+            uNormalMaps: { value: this.terrainTextures.normal },
+            uBiomeColors: { value: this.createBiomeColors() },
+            uTextureScale: { value: TERRAIN_TEXTURE_SCALE },
+            uDetailFadeStart: { value: DETAIL_FADE_START },
+            uDetailFadeEnd: { value: DETAIL_FADE_END },
+
+            ...this.createShadowUniforms(),
         }
 
         return new ShaderMaterial({
             uniforms,
+            defines: { BIOME_COUNT: this.biomePack.biomes.length },
             vertexShader: terrainVertexShader,
             fragmentShader: terrainFragmentShader,
             vertexColors: true,
@@ -113,6 +156,30 @@ export class ShaderManager {
             // Animation uniforms
             uTime: { value: 0.0 },
             uCameraPosition: { value: new Vector3() },
+
+            // Предпроход сцены без воды: текстуры появляются после первого кадра
+            uSceneColor: { value: this.waterDepthPass?.getColorTexture() ?? null },
+            uSceneDepth: { value: this.waterDepthPass?.getDepthTexture() ?? null },
+            uResolution: { value: new Vector2(1, 1) },
+            uCameraNear: { value: 0.1 },
+            uCameraFar: { value: 2000 },
+
+            // Water settings uniforms
+            uDepthEffects: { value: false },
+            uRefraction: { value: false },
+            uRefractionStrength: { value: this.waterSettings.refractionStrength },
+            uClarity: { value: this.waterSettings.clarity },
+            uFoam: { value: this.waterSettings.foam },
+            uFoamWidth: { value: this.waterSettings.foamWidth },
+            uSoftEdge: { value: this.waterSettings.softEdge },
+
+            // Reflection uniforms
+            uReflection: { value: null },
+            uReflectionMatrix: { value: new Matrix4() },
+            uReflectionEnabled: { value: false },
+            uReflectionPlane: { value: 0 },
+
+            ...this.createShadowUniforms(),
         }
 
         return new ShaderMaterial({
@@ -125,6 +192,46 @@ export class ShaderManager {
         })
     }
 
+    // Каскады появляются после первого прохода теней; до него uShadowCascades = 0 и шейдер теней не ищет
+    private createShadowUniforms() {
+        return {
+            uShadowMap: { value: null },
+            uShadowMatrices: { value: Array.from({ length: MAX_CASCADES }, () => new Matrix4()) },
+            uShadowTexelWorldSize: { value: new Vector4() },
+            uShadowCascades: { value: 0 },
+            uShadowTexelSize: { value: 0 },
+            uShadowDirection: { value: new Vector3(0, 1, 0) },
+        }
+    }
+
+    private createBiomeColors(): Color[] {
+        return this.biomePack.biomes.map(biome => new Color().fromArray(parseHexColor(biome.color)))
+    }
+
+    // Новый набор биомов: текстуры пересобираются, число слоёв в шейдере меняется - материалы перекомпилируются
+    setBiomePack(biomePack: BiomePack): void {
+        this.biomePack = biomePack
+        this.terrainTextures.albedo.dispose()
+        this.terrainTextures.normal.dispose()
+        this.terrainTextures = createTerrainTextures(biomePack)
+
+        this.allTerrainMaterials.forEach(material => {
+            material.uniforms.uAlbedoMaps.value = this.terrainTextures.albedo
+            material.uniforms.uNormalMaps.value = this.terrainTextures.normal
+            material.uniforms.uBiomeColors.value = this.createBiomeColors()
+            material.defines.BIOME_COUNT = biomePack.biomes.length
+            material.needsUpdate = true
+        })
+    }
+
+    // Материал лент рек: те же uniforms освещения и времени, что у воды, но течение вдоль ленты
+    private createRiverMaterial(): ShaderMaterial {
+        const material = this.createWaterMaterial()
+        material.vertexShader = riverVertexShader
+        material.fragmentShader = riverFragmentShader
+        return material
+    }
+
     getTerrainMaterial(): ShaderMaterial {
         return this.terrainMaterial
     }
@@ -147,6 +254,13 @@ export class ShaderManager {
         return material
     }
 
+    createNewRiverMaterial(): ShaderMaterial {
+        const material = this.createRiverMaterial()
+        material.wireframe = this.wireframeEnabled
+        this.allWaterMaterials.add(material)
+        return material
+    }
+
     updateLighting(lightingData: Partial<LightingUniforms>): void {
         // Обновляем внутренние uniform значения
         Object.assign(this.lightingUniforms, lightingData)
@@ -189,6 +303,80 @@ export class ShaderManager {
         }
     }
 
+    updateWaterSettings(settings: Partial<WaterSettings>): void {
+        Object.assign(this.waterSettings, settings)
+        this.allWaterMaterials.forEach(material => this.applyWaterSettings(material))
+    }
+
+    getWaterSettings(): WaterSettings {
+        return { ...this.waterSettings }
+    }
+
+    // Текстуры предпрохода и параметры камеры для пересчёта глубины; вызывается каждый кадр после предпрохода.
+    // null - предпроход выключен, вода рисуется без эффектов глубины
+    updateWaterDepthPass(pass: WaterDepthPass | null, camera: PerspectiveCamera): void {
+        this.waterDepthPass = pass
+        this.allWaterMaterials.forEach(material => {
+            if (!material.uniforms.uSceneDepth) return
+
+            material.uniforms.uSceneColor.value = pass?.getColorTexture() ?? null
+            material.uniforms.uSceneDepth.value = pass?.getDepthTexture() ?? null
+            if (pass) material.uniforms.uResolution.value.copy(pass.getSize())
+            material.uniforms.uCameraNear.value = camera.near
+            material.uniforms.uCameraFar.value = camera.far
+            this.applyWaterSettings(material)
+        })
+    }
+
+    // Текстура и матрица зеркального прохода; вызывается каждый кадр после него
+    updateWaterReflection(pass: WaterReflectionPass): void {
+        const enabled = pass.isActive()
+        this.allWaterMaterials.forEach(material => {
+            if (!material.uniforms.uReflection) return
+
+            material.uniforms.uReflectionEnabled.value = enabled
+            if (!enabled) return
+            material.uniforms.uReflection.value = pass.getTexture()
+            material.uniforms.uReflectionMatrix.value.copy(pass.getTextureMatrix())
+            material.uniforms.uReflectionPlane.value = pass.getPlaneHeight()
+        })
+    }
+
+    // Атлас и матрицы каскадных теней; вызывается каждый кадр после прохода теней
+    updateShadows(shadows: CascadedShadowMaps, lightDirection: Vector3): void {
+        const cascades = shadows.isActive() ? shadows.getCascadeCount() : 0
+        const apply = (material: ShaderMaterial) => {
+            if (!material.uniforms.uShadowMap) return
+
+            material.uniforms.uShadowCascades.value = cascades
+            if (cascades === 0) return
+            material.uniforms.uShadowMap.value = shadows.getDepthTexture()
+            material.uniforms.uShadowTexelSize.value = shadows.getTexelSize()
+            material.uniforms.uShadowDirection.value.copy(lightDirection).normalize()
+            for (let i = 0; i < cascades; i++) {
+                material.uniforms.uShadowMatrices.value[i].copy(shadows.getShadowMatrix(i))
+                material.uniforms.uShadowTexelWorldSize.value.setComponent(i, shadows.getTexelWorldSize(i))
+            }
+        }
+
+        this.allTerrainMaterials.forEach(apply)
+        this.allWaterMaterials.forEach(apply)
+    }
+
+    private applyWaterSettings(material: ShaderMaterial): void {
+        if (!material.uniforms.uDepthEffects) return
+
+        // Без текстур предпрохода эффекты глубины невозможны, даже если включены в настройках
+        const depthEffects = this.waterSettings.depthEffects && this.waterDepthPass !== null
+        material.uniforms.uDepthEffects.value = depthEffects
+        material.uniforms.uRefraction.value = depthEffects && this.waterSettings.refraction
+        material.uniforms.uRefractionStrength.value = this.waterSettings.refractionStrength
+        material.uniforms.uClarity.value = this.waterSettings.clarity
+        material.uniforms.uFoam.value = this.waterSettings.foam
+        material.uniforms.uFoamWidth.value = this.waterSettings.foamWidth
+        material.uniforms.uSoftEdge.value = this.waterSettings.softEdge
+    }
+
     updateTime(time: number): void {
         this.allTerrainMaterials.forEach(material => {
             if (material.uniforms.uTime) {
@@ -220,6 +408,8 @@ export class ShaderManager {
         this.allWaterMaterials.forEach(material => material.dispose())
         this.allTerrainMaterials.clear()
         this.allWaterMaterials.clear()
+        this.terrainTextures.albedo.dispose()
+        this.terrainTextures.normal.dispose()
     }
 
     // Метод для удаления материала из отслеживания
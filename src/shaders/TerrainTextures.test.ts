@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { createTerrainTextures } from './TerrainTextures'
+import { defaultBiomePack, parseHexColor } from '../biomes/BiomePack'
+
+const SIZE = 32
+const BIOME_COUNT = defaultBiomePack.biomes.length
+
+describe('createTerrainTextures', () => {
+    const { albedo, normal } = createTerrainTextures(defaultBiomePack, SIZE)
+    const albedoData = albedo.image.data as Uint8Array
+    const normalData = normal.image.data as Uint8Array
+
+    it('keeps the mean colour of every layer at its biome colour', () => {
+        expect(albedo.image.depth).toBe(BIOME_COUNT)
+
+        for (let biome = 0; biome < BIOME_COUNT; biome++) {
+            const offset = biome * SIZE * SIZE * 4
+            const color = parseHexColor(defaultBiomePack.biomes[biome].color)
+            for (let channel = 0; channel < 3; channel++) {
+                let sum = 0
+                for (let i = 0; i < SIZE * SIZE; i++) sum += albedoData[offset + i * 4 + channel]
+                // Пятна warmth сдвигают красный и синий, поэтому допуск с запасом
+                expect(sum / (SIZE * SIZE) / 255).toBeCloseTo(color[channel], 1)
+            }
+        }
+    })
+
+    it('tiles without seams', () => {
+        // Соседние по переходу через край тексели отличаются не сильнее соседей внутри слоя
+        for (let biome = 0; biome < BIOME_COUNT; biome++) {
+            const offset = biome * SIZE * SIZE * 4
+            const texel = (x: number, y: number) => offset + (y * SIZE + x) * 4
+            let inner = 0
+            let seam = 0
+            for (let y = 0; y < SIZE; y++) {
+                for (let channel = 0; channel < 3; channel++) {
+                    inner = Math.max(
+                        inner,
+                        Math.abs(albedoData[texel(1, y) + channel] - albedoData[texel(0, y) + channel])
+                    )
+                    seam = Math.max(
+                        seam,
+                        Math.abs(albedoData[texel(SIZE - 1, y) + channel] - albedoData[texel(0, y) + channel])
+                    )
+                }
+            }
+            expect(seam).toBeLessThanOrEqual(Math.max(inner, 1) * 2)
+        }
+    })
+
+    it('stores normals facing away from the surface', () => {
+        for (let i = 0; i < normalData.length; i += 4) {
+            const n = [0, 1, 2].map(k => (normalData[i + k] / 255) * 2 - 1)
+            expect(n[2]).toBeGreaterThan(0)
+            expect(Math.hypot(n[0], n[1], n[2])).toBeCloseTo(1, 1)
+        }
+    })
+})
@@ -0,0 +1,288 @@
+import {
+    DataArrayTexture,
+    LinearFilter,
+    LinearMipmapLinearFilter,
+    RepeatWrapping,
+    RGBAFormat,
+    UnsignedByteType,
+} from 'three'
+import {
+    defaultBiomePack,
+    parseHexColor,
+    type BiomeDefinition,
+    type BiomePack,
+    type GroundPattern,
+} from '../biomes/BiomePack'
+
+export const TERRAIN_TEXTURE_SIZE = 256
+const NORMAL_SCALE = 8 // Перепад высоты на тексель -> наклон нормали
+
+// Рисунок слоя в точке текстуры (u, v) из [0, 1): высота для карты нормалей и множитель яркости
+interface LayerSample {
+    height: number
+    shade: number
+    warmth: number // > 0 - желтее, < 0 - зеленее/синее; пятна выгоревшей травы, мокрый песок
+}
+
+interface LayerRecipe {
+    sample: (u: number, v: number) => LayerSample
+    normalStrength: number // Если ground.normalStrength биома не задан
+}
+
+// Хеш узла решётки -> [0, 1)
+function hashLattice(x: number, y: number, salt: number): number {
+    let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(salt, 1274126177)
+    h = Math.imul(h ^ (h >>> 13), 1274126177)
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296
+}
+
+// Value noise с периодом period клеток по обеим осям - текстура повторяется без швов
+function tileableNoise(u: number, v: number, period: number, salt: number): number {
+    const x = u * period
+    const y = v * period
+    const x0 = Math.floor(x)
+    const y0 = Math.floor(y)
+    const fx = x - x0
+    const fy = y - y0
+    const sx = fx * fx * (3 - 2 * fx)
+    const sy = fy * fy * (3 - 2 * fy)
+
+    const wrap = (value: number) => ((value % period) + period) % period
+    const a = hashLattice(wrap(x0), wrap(y0), salt)
+    const b = hashLattice(wrap(x0 + 1), wrap(y0), salt)
+    const c = hashLattice(wrap(x0), wrap(y0 + 1), salt)
+    const d = hashLattice(wrap(x0 + 1), wrap(y0 + 1), salt)
+    return a + (b - a) * sx + (c - a) * sy + (a - b - c + d) * sx * sy
+}
+
+// Фрактальный шум 0..1: каждая октава вдвое чаще и вдвое слабее
+function fbm(u: number, v: number, period: number, octaves: number, salt: number): number {
+    let sum = 0
+    let amplitude = 0.5
+    let total = 0
+    for (let octave = 0; octave < octaves; octave++) {
+        sum += tileableNoise(u, v, period << octave, salt + octave) * amplitude
+        total += amplitude
+        amplitude *= 0.5
+    }
+    return sum / total
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)))
+    return t * t * (3 - 2 * t)
+}
+
+// Рисунки грунта, на которые ссылаются биомы набора (ground.pattern)
+const LAYER_RECIPES: Record<GroundPattern, LayerRecipe> = {
+    // Дно: ил с мягкими пятнами
+    silt: {
+        normalStrength: 1,
+        sample: (u, v) => {
+            const silt = fbm(u, v, 4, 4, 11)
+            return { height: silt, shade: 0.85 + 0.3 * silt, warmth: 0 }
+        },
+    },
+    // Песок: рябь, изогнутая шумом, и мелкое зерно
+    sand: {
+        normalStrength: 2,
+        sample: (u, v) => {
+            const ripple = Math.sin((v * 12 + fbm(u, v, 4, 3, 21) * 2) * Math.PI * 2) * 0.5 + 0.5
+            const grain = tileableNoise(u, v, 128, 23)
+            const patches = fbm(u, v, 4, 3, 25)
+            return {
+                height: ripple * 0.6 + grain * 0.4,
+                shade: 0.9 + 0.12 * ripple + 0.15 * (grain - 0.5),
+                warmth: (patches - 0.5) * 0.2,
+            }
+        },
+    },
+    // Луг: частые травинки и пятна выгоревшей травы
+    meadow: {
+        normalStrength: 1.5,
+        sample: (u, v) => {
+            const blades = fbm(u, v, 32, 3, 31)
+            const patches = fbm(u, v, 4, 3, 33)
+            return {
+                height: blades,
+                shade: 0.7 + 0.45 * blades + 0.2 * (patches - 0.5),
+                warmth: (patches - 0.5) * 0.5,
+            }
+        },
+    },
+    // Лесная подстилка: листва с тёмными проплешинами земли
+    'leaf-litter': {
+        normalStrength: 2,
+        sample: (u, v) => {
+            const litter = fbm(u, v, 16, 4, 41)
+            const soil = smoothstep(0.55, 0.7, fbm(u, v, 8, 3, 43))
+            return {
+                height: litter * 0.7 + (1 - soil) * 0.3,
+                shade: 0.75 + 0.45 * litter - 0.3 * soil,
+                warmth: soil * 0.4,
+            }
+        },
+    },
+    // Скала: крупные плиты с тёмными трещинами по гребням шума
+    rock: {
+        normalStrength: 3,
+        sample: (u, v) => {
+            const slabs = fbm(u, v, 8, 5, 51)
+            const ridge = 1 - Math.abs(2 * fbm(u, v, 4, 4, 53) - 1)
+            const cracks = smoothstep(0.9, 0.98, ridge)
+            return {
+                height: slabs * 0.7 + (1 - cracks) * 0.3,
+                shade: 1 + 0.5 * (slabs - 0.5) - 0.35 * cracks,
+                warmth: (slabs - 0.5) * 0.15,
+            }
+        },
+    },
+    // Тундра: кочки мха с серыми пятнами лишайника
+    moss: {
+        normalStrength: 2,
+        sample: (u, v) => {
+            const tussocks = fbm(u, v, 16, 3, 61)
+            const lichen = smoothstep(0.5, 0.65, fbm(u, v, 8, 4, 63))
+            return {
+                height: tussocks,
+                shade: 0.8 + 0.35 * tussocks + 0.15 * lichen,
+                warmth: (tussocks - 0.5) * 0.3 - lichen * 0.2,
+            }
+        },
+    },
+    // Снег: пологие заструги и лёгкий наст
+    snow: {
+        normalStrength: 0.8,
+        sample: (u, v) => {
+            const drifts = fbm(u, v, 4, 4, 71)
+            const crust = tileableNoise(u, v, 64, 73)
+            return {
+                height: drifts * 0.8 + crust * 0.2,
+                shade: 0.94 + 0.08 * drifts + 0.03 * (crust - 0.5),
+                warmth: -0.05 * drifts,
+            }
+        },
+    },
+    // Саванна: редкие пучки сухой травы на голой земле
+    'dry-grass': {
+        normalStrength: 1.5,
+        sample: (u, v) => {
+            const tufts = smoothstep(0.45, 0.7, fbm(u, v, 32, 2, 81))
+            const soil = fbm(u, v, 4, 3, 83)
+            return {
+                height: tufts * 0.7 + soil * 0.3,
+                shade: 0.85 + 0.25 * tufts + 0.15 * (soil - 0.5),
+                warmth: (soil - 0.5) * 0.4,
+            }
+        },
+    },
+    // Болото: тёмная топь с блестящими лужами и кочками осоки
+    mud: {
+        normalStrength: 1,
+        sample: (u, v) => {
+            const mud = fbm(u, v, 8, 4, 91)
+            const puddles = 1 - smoothstep(0.25, 0.35, mud)
+            const sedge = fbm(u, v, 32, 2, 93)
+            return {
+                height: mud * (1 - puddles),
+                shade: 0.8 + 0.4 * sedge * (1 - puddles) - 0.25 * puddles,
+                warmth: -0.3 * puddles + (sedge - 0.5) * 0.2,
+            }
+        },
+    },
+    // Пустыня: крупные дюны с мелкой рябью по склонам
+    dunes: {
+        normalStrength: 2.5,
+        sample: (u, v) => {
+            const dunes = Math.sin((u * 3 + fbm(u, v, 2, 3, 101) * 1.5) * Math.PI * 2) * 0.5 + 0.5
+            const ripple = Math.sin((u * 24 + v * 6 + fbm(u, v, 8, 2, 103)) * Math.PI * 2) * 0.5 + 0.5
+            return {
+                height: dunes * 0.75 + ripple * 0.25,
+                shade: 0.88 + 0.2 * dunes + 0.06 * ripple,
+                warmth: (dunes - 0.5) * 0.2,
+            }
+        },
+    },
+}
+
+export interface TerrainTextures {
+    albedo: DataArrayTexture // Слой на биом набора; средний цвет слоя - цвет биома
+    normal: DataArrayTexture // Нормали в пространстве касательных, z - от поверхности
+}
+
+// Процедурные бесшовные текстуры биомов: цвет и нормали, по слою на биом набора в его порядке
+export function createTerrainTextures(
+    pack: BiomePack = defaultBiomePack,
+    size: number = TERRAIN_TEXTURE_SIZE
+): TerrainTextures {
+    const layerSize = size * size * 4
+    const layers = pack.biomes.length
+    const albedo = new Uint8Array(layerSize * layers)
+    const normal = new Uint8Array(layerSize * layers)
+
+    pack.biomes.forEach((biome, layer) => {
+        const { albedoLayer, normalLayer } = buildLayer(biome, size)
+        albedo.set(albedoLayer, layer * layerSize)
+        normal.set(normalLayer, layer * layerSize)
+    })
+
+    return { albedo: createArrayTexture(albedo, size, layers), normal: createArrayTexture(normal, size, layers) }
+}
+
+function buildLayer(biome: BiomeDefinition, size: number): { albedoLayer: Uint8Array; normalLayer: Uint8Array } {
+    const recipe = LAYER_RECIPES[biome.ground.pattern]
+    const normalStrength = biome.ground.normalStrength ?? recipe.normalStrength
+    const samples: LayerSample[] = []
+    let shadeSum = 0
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const sample = recipe.sample(x / size, y / size)
+            samples.push(sample)
+            shadeSum += sample.shade
+        }
+    }
+
+    // Яркость нормируется к 1 - средний цвет слоя совпадает с цветом биома
+    const shadeScale = samples.length / shadeSum
+    const base = parseHexColor(biome.color)
+    const albedoLayer = new Uint8Array(size * size * 4)
+    const normalLayer = new Uint8Array(size * size * 4)
+    const toByte = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255)
+
+    samples.forEach((sample, i) => {
+        const shade = sample.shade * shadeScale
+        albedoLayer[i * 4] = toByte(base[0] * shade * (1 + sample.warmth * 0.5))
+        albedoLayer[i * 4 + 1] = toByte(base[1] * shade)
+        albedoLayer[i * 4 + 2] = toByte(base[2] * shade * (1 - sample.warmth))
+        albedoLayer[i * 4 + 3] = 255
+
+        // Центральные разности с переходом через край - нормали тоже бесшовные
+        const x = i % size
+        const y = Math.floor(i / size)
+        const heightAt = (sx: number, sy: number) => samples[((sy + size) % size) * size + ((sx + size) % size)].height
+        const dx = (heightAt(x + 1, y) - heightAt(x - 1, y)) * NORMAL_SCALE * normalStrength
+        const dy = (heightAt(x, y + 1) - heightAt(x, y - 1)) * NORMAL_SCALE * normalStrength
+        const length = Math.sqrt(dx * dx + dy * dy + 1)
+        normalLayer[i * 4] = toByte((-dx / length) * 0.5 + 0.5)
+        normalLayer[i * 4 + 1] = toByte((-dy / length) * 0.5 + 0.5)
+        normalLayer[i * 4 + 2] = toByte((1 / length) * 0.5 + 0.5)
+        normalLayer[i * 4 + 3] = 255
+    })
+
+    return { albedoLayer, normalLayer }
+}
+
+function createArrayTexture(data: Uint8Array, size: number, layers: number): DataArrayTexture {
+    const texture = new DataArrayTexture(data, size, size, layers)
+    texture.format = RGBAFormat
+    texture.type = UnsignedByteType
+    texture.wrapS = RepeatWrapping
+    texture.wrapT = RepeatWrapping
+    texture.magFilter = LinearFilter
+    texture.minFilter = LinearMipmapLinearFilter
+    texture.generateMipmaps = true
+    texture.anisotropy = 4
+    texture.needsUpdate = true
+    return texture
+}
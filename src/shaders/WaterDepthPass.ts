@@ -0,0 +1,47 @@
+import { DepthTexture, PerspectiveCamera, Scene, Texture, Vector2, WebGLRenderTarget, WebGLRenderer } from 'three'
+
+// Слой водных поверхностей (озёра, море, реки): предпроход рисует сцену без них
+export const WATER_LAYER = 1
+
+// Предпроход для воды: сцена без водных поверхностей в текстуры цвета и глубины.
+// По ним шейдер воды считает толщину слоя под гладью (поглощение, пена, мягкий край) и преломляет дно
+export class WaterDepthPass {
+    private target: WebGLRenderTarget
+    private size = new Vector2()
+
+    constructor(width: number, height: number) {
+        this.target = new WebGLRenderTarget(width, height, { depthTexture: new DepthTexture(width, height) })
+        this.size.set(width, height)
+    }
+
+    // Размер в пикселях буфера отрисовки (с учётом pixel ratio)
+    setSize(width: number, height: number): void {
+        this.target.setSize(width, height)
+        this.size.set(width, height)
+    }
+
+    render(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera): void {
+        camera.layers.disable(WATER_LAYER)
+        renderer.setRenderTarget(this.target)
+        renderer.render(scene, camera)
+        renderer.setRenderTarget(null)
+        camera.layers.enable(WATER_LAYER)
+    }
+
+    getColorTexture(): Texture {
+        return this.target.texture
+    }
+
+    getDepthTexture(): DepthTexture {
+        return this.target.depthTexture!
+    }
+
+    getSize(): Vector2 {
+        return this.size
+    }
+
+    dispose(): void {
+        this.target.depthTexture?.dispose()
+        this.target.dispose()
+    }
+}
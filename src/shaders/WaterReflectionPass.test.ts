@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { PerspectiveCamera, Scene, Vector3, Vector4, type WebGLRenderer } from 'three'
+import { WaterReflectionPass } from './WaterReflectionPass'
+
+// Рендерер нужен только для переключения цели: проверяется геометрия зеркальной камеры
+const renderer = { setRenderTarget: () => {}, render: () => {} } as unknown as WebGLRenderer
+
+function createCamera(x: number, y: number, z: number): PerspectiveCamera {
+    const camera = new PerspectiveCamera(60, 16 / 9, 0.1, 2000)
+    camera.position.set(x, y, z)
+    camera.lookAt(x + 100, 0, z + 40)
+    camera.updateMatrixWorld()
+    return camera
+}
+
+function project(pass: WaterReflectionPass, point: Vector3): [number, number] {
+    const coord = new Vector4(point.x, point.y, point.z, 1).applyMatrix4(pass.getTextureMatrix())
+    return [coord.x / coord.w, coord.y / coord.w]
+}
+
+describe('WaterReflectionPass', () => {
+    it('mirrors the camera across the water plane', () => {
+        const pass = new WaterReflectionPass('half')
+        pass.setPlaneHeight(12)
+        pass.render(renderer, new Scene(), createCamera(0, 40, 0))
+        expect(pass.isActive()).toBe(true)
+
+        // Точка над водой и место на глади, где видно её отражение, лежат на одном луче зеркальной камеры
+        const mirroredEye = new Vector3(0, 2 * 12 - 40, 0)
+        const peak = new Vector3(150, 70, 60)
+        const t = (12 - mirroredEye.y) / (peak.y - mirroredEye.y)
+        const onWater = mirroredEye.clone().lerp(peak, t)
+
+        const [peakU, peakV] = project(pass, peak)
+        const [waterU, waterV] = project(pass, onWater)
+        expect(waterU).toBeCloseTo(peakU, 6)
+        expect(waterV).toBeCloseTo(peakV, 6)
+    })
+
+    it('skips the pass when off or when the camera is below the plane', () => {
+        const off = new WaterReflectionPass('off')
+        off.render(renderer, new Scene(), createCamera(0, 40, 0))
+        expect(off.isActive()).toBe(false)
+
+        const underwater = new WaterReflectionPass('full')
+        underwater.setPlaneHeight(50)
+        underwater.render(renderer, new Scene(), createCamera(0, 40, 0))
+        expect(underwater.isActive()).toBe(false)
+    })
+})
@@ -0,0 +1,150 @@
+import {
+    Matrix4,
+    PerspectiveCamera,
+    Plane,
+    Scene,
+    Texture,
+    Vector3,
+    Vector4,
+    WebGLRenderTarget,
+    WebGLRenderer,
+} from 'three'
+import { WATER_LAYER } from './WaterDepthPass'
+
+export type ReflectionQuality = 'off' | 'half' | 'full'
+
+// Отражения на воде: сцена без воды из камеры, зеркальной относительно горизонтальной плоскости глади.
+// Косая ближняя плоскость отсекает всё, что под водой. Цель одна на все водоёмы: плоскость ставится
+// на уровень самого заметного в кадре (WaterManager.getReflectionLevel), у глади других уровней
+// шейдер отражение выключает
+export class WaterReflectionPass {
+    private target: WebGLRenderTarget
+    private mirrorCamera = new PerspectiveCamera()
+    private textureMatrix = new Matrix4()
+    private planeHeight = 0
+    private quality: ReflectionQuality
+    private width = 1
+    private height = 1
+    private rendered = false // false - камера под плоскостью, текстура с прошлого кадра недействительна
+
+    private cameraPosition = new Vector3()
+    private lookAtPosition = new Vector3()
+    private rotation = new Matrix4()
+    private normal = new Vector3(0, 1, 0)
+    private planePoint = new Vector3()
+    private clipPlane = new Plane()
+    private clipVector = new Vector4()
+    private q = new Vector4()
+
+    constructor(quality: ReflectionQuality) {
+        this.target = new WebGLRenderTarget(1, 1)
+        this.quality = quality
+    }
+
+    setQuality(quality: ReflectionQuality): void {
+        this.quality = quality
+        this.resizeTarget()
+    }
+
+    getQuality(): ReflectionQuality {
+        return this.quality
+    }
+
+    // Размер в пикселях буфера отрисовки; half - вдвое меньше по каждой оси
+    setSize(width: number, height: number): void {
+        this.width = width
+        this.height = height
+        this.resizeTarget()
+    }
+
+    setPlaneHeight(height: number): void {
+        this.planeHeight = height
+    }
+
+    getPlaneHeight(): number {
+        return this.planeHeight
+    }
+
+    isActive(): boolean {
+        return this.quality !== 'off' && this.rendered
+    }
+
+    render(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera): void {
+        this.rendered = false
+        if (this.quality === 'off') return
+
+        camera.getWorldPosition(this.cameraPosition)
+        if (this.cameraPosition.y <= this.planeHeight) return
+
+        // Зеркалим положение камеры и точку, на которую она смотрит; up отражается вместе с ними
+        this.rotation.extractRotation(camera.matrixWorld)
+        this.lookAtPosition.set(0, 0, -1).applyMatrix4(this.rotation).add(this.cameraPosition)
+        this.lookAtPosition.y = 2 * this.planeHeight - this.lookAtPosition.y
+
+        this.mirrorCamera.position.copy(this.cameraPosition)
+        this.mirrorCamera.position.y = 2 * this.planeHeight - this.cameraPosition.y
+        this.mirrorCamera.up.set(0, 1, 0).applyMatrix4(this.rotation).reflect(this.normal)
+        this.mirrorCamera.lookAt(this.lookAtPosition)
+        this.mirrorCamera.near = camera.near
+        this.mirrorCamera.far = camera.far
+        this.mirrorCamera.layers.mask = camera.layers.mask
+        this.mirrorCamera.layers.disable(WATER_LAYER)
+        this.mirrorCamera.updateMatrixWorld()
+        this.mirrorCamera.projectionMatrix.copy(camera.projectionMatrix)
+
+        // Мировая точка -> UV текстуры отражения
+        this.textureMatrix.set(0.5, 0, 0, 0.5, 0, 0.5, 0, 0.5, 0, 0, 0.5, 0.5, 0, 0, 0, 1)
+        this.textureMatrix.multiply(this.mirrorCamera.projectionMatrix)
+        this.textureMatrix.multiply(this.mirrorCamera.matrixWorldInverse)
+
+        this.applyObliqueClipPlane()
+
+        renderer.setRenderTarget(this.target)
+        renderer.render(scene, this.mirrorCamera)
+        renderer.setRenderTarget(null)
+        this.rendered = true
+    }
+
+    getTexture(): Texture {
+        return this.target.texture
+    }
+
+    getTextureMatrix(): Matrix4 {
+        return this.textureMatrix
+    }
+
+    dispose(): void {
+        this.target.dispose()
+    }
+
+    private resizeTarget(): void {
+        const scale = this.quality === 'half' ? 0.5 : 1
+        this.target.setSize(Math.max(1, Math.round(this.width * scale)), Math.max(1, Math.round(this.height * scale)))
+    }
+
+    // Ближняя плоскость проекции заменяется плоскостью воды (Lengyel, "Oblique View Frustum Depth Projection")
+    private applyObliqueClipPlane(): void {
+        this.clipPlane.setFromNormalAndCoplanarPoint(this.normal, this.planePoint.set(0, this.planeHeight, 0))
+        this.clipPlane.applyMatrix4(this.mirrorCamera.matrixWorldInverse)
+        this.clipVector.set(
+            this.clipPlane.normal.x,
+            this.clipPlane.normal.y,
+            this.clipPlane.normal.z,
+            this.clipPlane.constant
+        )
+
+        const projection = this.mirrorCamera.projectionMatrix.elements
+        this.q.set(
+            (Math.sign(this.clipVector.x) + projection[8]) / projection[0],
+            (Math.sign(this.clipVector.y) + projection[9]) / projection[5],
+            -1,
+            (1 + projection[10]) / projection[14]
+        )
+        this.clipVector.multiplyScalar(2 / this.clipVector.dot(this.q))
+
+        projection[2] = this.clipVector.x
+        projection[6] = this.clipVector.y
+        projection[10] = this.clipVector.z + 1
+        projection[14] = this.clipVector.w
+    }
+}
@@ -0,0 +1,24 @@
+import type { ReflectionQuality } from './WaterReflectionPass'
+
+// Настройки отрисовки воды: эффекты по толщине слоя под гладью, преломление дна и отражения
+export interface WaterSettings {
+    depthEffects: boolean // Предпроход глубины; без него вода - полупрозрачная гладь без учёта дна
+    clarity: number // Толщина слоя (м), на которой вода поглощает почти весь свет дна
+    foam: number // Яркость пены у берега 0..1
+    foamWidth: number // Глубина (м), до которой у берега держится пена
+    softEdge: number // Глубина (м), на которой край воды становится непрозрачным
+    refraction: boolean
+    refractionStrength: number // Смещение дна волнами в долях экрана
+    reflections: ReflectionQuality // Разрешение зеркального прохода; off - без отражений
+}
+
+export const defaultWaterSettings: WaterSettings = {
+    depthEffects: true,
+    clarity: 6,
+    foam: 0.7,
+    foamWidth: 1.2,
+    softEdge: 0.4,
+    refraction: true,
+    refractionStrength: 0.02,
+    reflections: 'half',
+}
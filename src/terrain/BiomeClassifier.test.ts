@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { BiomeClassifier, getDominantBiome } from './BiomeClassifier'
+import { defaultBiomePack, type BiomeDefinition, type BiomePack } from '../biomes/BiomePack'
+
+const classifier = new BiomeClassifier(defaultBiomePack)
+const getBiomeWeights = classifier.getWeights.bind(classifier)
+
+function dominant(temperature: number, moisture: number, height: number): string {
+    const weights = getBiomeWeights({ temperature, moisture }, height)
+    return defaultBiomePack.biomes[getDominantBiome(weights, 0, weights.length)].id
+}
+
+const biome = (id: string) => classifier.indexOf(id)
+
+describe('BiomeClassifier with the default pack', () => {
+    it('maps climate to biomes through the Whittaker table', () => {
+        expect(dominant(28, 0.1, 8)).toBe('desert')
+        expect(dominant(28, 0.4, 8)).toBe('savanna')
+        expect(dominant(12, 0.4, 8)).toBe('fields')
+        expect(dominant(12, 0.7, 8)).toBe('forest')
+        expect(dominant(0, 0.4, 8)).toBe('tundra')
+        expect(dominant(12, 0.95, 3)).toBe('swamp')
+        // Сырость выше низин - лес, а не болото
+        expect(dominant(12, 0.95, 12)).toBe('forest')
+    })
+
+    it('lets height and cold override the climate table', () => {
+        expect(dominant(28, 0.1, -3)).toBe('water')
+        expect(dominant(28, 0.1, 0.3)).toBe('sand')
+        expect(dominant(12, 0.4, 30)).toBe('rocks')
+        expect(dominant(-10, 0.4, 30)).toBe('snow')
+    })
+
+    it('blends neighbouring biomes across a threshold instead of switching', () => {
+        const below = getBiomeWeights({ temperature: 12, moisture: 0.4 }, 13)
+        const middle = getBiomeWeights({ temperature: 12, moisture: 0.4 }, 15)
+        const beyond = getBiomeWeights({ temperature: 12, moisture: 0.4 }, 17)
+
+        expect(below[biome('fields')]).toBeCloseTo(1, 6)
+        expect(middle[biome('rocks')]).toBeCloseTo(0.5, 6)
+        expect(middle[biome('fields')]).toBeCloseTo(0.5, 6)
+        expect(beyond[biome('rocks')]).toBeCloseTo(1, 6)
+
+        const savanna = getBiomeWeights({ temperature: 20, moisture: 0.4 }, 8)
+        expect(savanna[biome('fields')]).toBeCloseTo(0.5, 6)
+        expect(savanna[biome('savanna')]).toBeCloseTo(0.5, 6)
+    })
+
+    it('always sums the weights to one', () => {
+        for (let temperature = -15; temperature <= 35; temperature += 2.5) {
+            for (let moisture = 0; moisture <= 1; moisture += 0.05) {
+                for (const height of [-1, 0.8, 5.5, 14, 40]) {
+                    const weights = getBiomeWeights({ temperature, moisture }, height)
+                    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 6)
+                    expect(Math.min(...weights)).toBeGreaterThanOrEqual(0)
+                }
+            }
+        }
+    })
+})
+
+describe('BiomeClassifier with a custom pack', () => {
+    const define = (id: string, priority: number, climate: BiomeDefinition['climate']): BiomeDefinition => ({
+        id,
+        name: id,
+        color: '#808080',
+        variations: [],
+        priority,
+        climate,
+        ground: { pattern: 'rock' },
+        scatter: [],
+    })
+    const pack: BiomePack = {
+        version: 1,
+        name: 'Test',
+        fallback: 'plain',
+        biomes: [
+            define('plain', 1, { temperature: { min: 100 } }),
+            define('lava', 0, { elevation: { min: 50, blend: 5 } }),
+            define('ash', 1, { moisture: { max: 0.5 } }),
+            define('dust', 1, { temperature: { min: 10 }, moisture: { max: 0.5 } }),
+        ],
+    }
+    const custom = new BiomeClassifier(pack)
+
+    it('gives lower priorities first pick and the rest to the fallback', () => {
+        expect(Array.from(custom.getWeights({ temperature: 0, moisture: 0.9 }, 80))).toEqual([0, 1, 0, 0])
+        expect(Array.from(custom.getWeights({ temperature: 0, moisture: 0.9 }, 10))).toEqual([1, 0, 0, 0])
+    })
+
+    it('shares overlapping ranges of one priority by membership', () => {
+        const weights = custom.getWeights({ temperature: 20, moisture: 0.2 }, 50)
+        expect(weights[1]).toBeCloseTo(0.5, 6)
+        expect(weights[2]).toBeCloseTo(0.25, 6)
+        expect(weights[3]).toBeCloseTo(0.25, 6)
+    })
+})
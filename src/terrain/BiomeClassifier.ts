@@ -0,0 +1,157 @@
+// Классификация биомов по набору (BiomePack) - одна для воркеров, CPU fallback, расстановки объектов и экспорта.
+// Биомы забирают доли по приоритету, как цепочка if: каждый забирает свою долю от того, что не забрали
+// предыдущие, биомы с равным приоритетом делят остаток между собой, а несобранное уходит биому fallback.
+// Каждая граница диапазона размыта, поэтому соседние биомы плавно перетекают друг в друга без пятен в одну вершину
+import type { ClimateSample } from './ClimateModel'
+import type { TerrainHeightFunction } from './TerrainHeightFunction'
+import { SEA_LEVEL } from './PriorityFlood'
+import { MAX_BIOMES, parseHexColor, type BiomeClimate, type BiomePack } from '../biomes/BiomePack'
+
+// Доли вершины выровнены до трёх vec4-атрибутов шейдера - по слоту на каждый возможный биом набора
+export const BIOME_WEIGHT_STRIDE = MAX_BIOMES
+
+// Полуширина перехода, если диапазон набора её не задаёт: °C, доля влажности, метры
+const DEFAULT_BLEND: Record<keyof BiomeClimate, number> = { temperature: 2, moisture: 0.05, elevation: 1 }
+
+interface RangeRule {
+    axis: keyof BiomeClimate
+    min: number | undefined
+    max: number | undefined
+    blend: number
+}
+
+interface BiomeRule {
+    biome: number // Номер биома в наборе - номер доли и слоя текстур рельефа
+    ranges: RangeRule[]
+}
+
+const climateSample: ClimateSample = { temperature: 0, moisture: 0 }
+
+// 0 ниже threshold - width, 1 выше threshold + width
+function above(value: number, threshold: number, width: number): number {
+    const t = Math.min(1, Math.max(0, (value - threshold + width) / (2 * width)))
+    return t * t * (3 - 2 * t)
+}
+
+export class BiomeClassifier {
+    readonly pack: BiomePack
+    readonly biomeCount: number
+    readonly colors: number[][] // RGB 0..1 по номеру биома: средний цвет слоя текстур и цвет вершин
+    private groups: BiomeRule[][] // По возрастанию приоритета
+    private fallback: number
+    private memberships: Float32Array
+
+    constructor(pack: BiomePack) {
+        this.pack = pack
+        this.biomeCount = pack.biomes.length
+        this.colors = pack.biomes.map(biome => parseHexColor(biome.color))
+        this.fallback = this.indexOf(pack.fallback)
+        this.memberships = new Float32Array(this.biomeCount)
+
+        const groups: Map<number, BiomeRule[]> = new Map()
+        pack.biomes.forEach((definition, biome) => {
+            const ranges = (Object.keys(DEFAULT_BLEND) as (keyof BiomeClimate)[])
+                .filter(axis => definition.climate[axis])
+                .map(axis => {
+                    const { min, max, blend } = definition.climate[axis]!
+                    return { axis, min, max, blend: blend ?? DEFAULT_BLEND[axis] }
+                })
+            const group = groups.get(definition.priority) ?? []
+            group.push({ biome, ranges })
+            groups.set(definition.priority, group)
+        })
+        this.groups = Array.from(groups.keys())
+            .sort((a, b) => a - b)
+            .map(priority => groups.get(priority)!)
+    }
+
+    // Номер биома по id из набора; -1 - такого биома нет
+    indexOf(id: string): number {
+        return this.pack.biomes.findIndex(biome => biome.id === id)
+    }
+
+    // Доли биомов по климату и высоте точки, сумма - 1
+    getWeights(
+        climate: ClimateSample,
+        height: number,
+        target: Float32Array = new Float32Array(this.biomeCount)
+    ): Float32Array {
+        target.fill(0)
+        let remaining = 1
+
+        for (const group of this.groups) {
+            let total = 0
+            for (const rule of group) {
+                this.memberships[rule.biome] = this.getMembership(rule, climate, height)
+                total += this.memberships[rule.biome]
+            }
+            if (total === 0) continue
+
+            // Перекрывающиеся диапазоны одного приоритета делят долю пропорционально принадлежности
+            const taken = remaining * Math.min(1, total)
+            for (const rule of group) {
+                target[rule.biome] += (taken * this.memberships[rule.biome]) / total
+            }
+            remaining -= taken
+        }
+
+        target[this.fallback] += remaining
+        return target
+    }
+
+    private getMembership(rule: BiomeRule, climate: ClimateSample, height: number): number {
+        let membership = 1
+        for (const { axis, min, max, blend } of rule.ranges) {
+            const value = axis === 'elevation' ? height - SEA_LEVEL : climate[axis]
+            if (min !== undefined) membership *= above(value, min, blend)
+            if (max !== undefined) membership *= 1 - above(value, max, blend)
+        }
+        return membership
+    }
+}
+
+// Доли биомов в мировой точке: климат и набор берутся из функции высоты
+export function computeBiomeWeights(
+    heightFunction: TerrainHeightFunction,
+    worldX: number,
+    worldZ: number,
+    height: number,
+    target?: Float32Array
+): Float32Array {
+    const climate = heightFunction.getClimate(worldX, worldZ, height, climateSample)
+    return heightFunction.getBiomeClassifier().getWeights(climate, height, target)
+}
+
+// Преобладающий биом вершины по буферу долей (stride значений на вершину)
+export function getDominantBiome(
+    weights: ArrayLike<number>,
+    vertex: number,
+    stride: number = BIOME_WEIGHT_STRIDE
+): number {
+    let dominant = 0
+    for (let biome = 1; biome < stride; biome++) {
+        if (weights[vertex * stride + biome] > weights[vertex * stride + dominant]) dominant = biome
+    }
+    return dominant
+}
+
+// Доли вершины в байтах - так их читает шейдер рельефа (нормализованный атрибут)
+export function writeBiomeWeights(weights: Float32Array, biomeWeights: Uint8Array, vertex: number): void {
+    for (let biome = 0; biome < weights.length; biome++) {
+        biomeWeights[vertex * BIOME_WEIGHT_STRIDE + biome] = Math.round(weights[biome] * 255)
+    }
+}
+
+// Цвет вершины - смесь цветов биомов (BiomeClassifier.colors) по долям
+export function writeBiomeColor(
+    weights: Float32Array,
+    biomeColors: number[][],
+    colors: Float32Array,
+    vertex: number
+): void {
+    colors.fill(0, vertex * 3, vertex * 3 + 3)
+    for (let biome = 0; biome < weights.length; biome++) {
+        const color = biomeColors[biome]
+        for (let k = 0; k < 3; k++) colors[vertex * 3 + k] += color[k] * weights[biome]
+    }
+}
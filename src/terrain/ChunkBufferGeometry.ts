@@ -0,0 +1,28 @@
+import { BufferAttribute, BufferGeometry, InterleavedBuffer, InterleavedBufferAttribute } from 'three'
+import { BIOME_WEIGHT_STRIDE } from './BiomeClassifier'
+
+export interface ChunkGeometryBuffers {
+    vertices: Float32Array
+    normals: Float32Array
+    indices: Uint32Array
+    colors: Float32Array
+    biomeWeights: Uint8Array // BIOME_WEIGHT_STRIDE долей биомов на вершину
+}
+
+// Геометрия чанка поверх готовых типизированных массивов: атрибуты ссылаются на те же буферы,
+// что пришли из воркера, поэтому на главном потоке ничего не копируется
+export function createChunkBufferGeometry(data: ChunkGeometryBuffers): BufferGeometry {
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(data.vertices, 3))
+    geometry.setAttribute('normal', new BufferAttribute(data.normals, 3))
+    geometry.setAttribute('color', new BufferAttribute(data.colors, 3))
+
+    // Доли биомов - нормализованные vec4 biomeWeights0..2 в одном чередующемся буфере
+    const weights = new InterleavedBuffer(data.biomeWeights, BIOME_WEIGHT_STRIDE)
+    for (let offset = 0; offset < BIOME_WEIGHT_STRIDE; offset += 4) {
+        geometry.setAttribute(`biomeWeights${offset / 4}`, new InterleavedBufferAttribute(weights, 4, offset, true))
+    }
+
+    geometry.setIndex(new BufferAttribute(data.indices, 1))
+    return geometry
+}
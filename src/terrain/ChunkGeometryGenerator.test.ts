@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { generateChunkGeometry, type ChunkGenerationRequest } from './ChunkGeometryGenerator'
+import { BIOME_WEIGHT_STRIDE } from './BiomeClassifier'
+
+function createRequest(chunkX: number, chunkZ: number, chunkResolution = 8, lodLevel = 0): ChunkGenerationRequest {
+    return {
+        id: `${chunkX},${chunkZ}`,
+        chunkX,
+        chunkZ,
+        chunkSize: 100,
+        chunkResolution,
+        lodLevel,
+        heightGeneratorConfig: { seed: 1337 },
+    }
+}
+
+// Ненормированная нормаль треугольника по порядку обхода индексов
+function triangleNormal(vertices: Float32Array, a: number, b: number, c: number): number[] {
+    const ab = [0, 1, 2].map(k => vertices[b * 3 + k] - vertices[a * 3 + k])
+    const ac = [0, 1, 2].map(k => vertices[c * 3 + k] - vertices[a * 3 + k])
+    return [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]]
+}
+
+describe('generateChunkGeometry', () => {
+    it('returns grid and skirt buffers of the expected sizes', () => {
+        for (const resolution of [1, 4, 8]) {
+            const result = generateChunkGeometry(createRequest(0, 0, resolution))
+            const gridVertices = (resolution + 1) ** 2
+            const skirtVertices = 4 * (resolution + 1) * 2
+            const vertexCount = gridVertices + skirtVertices
+
+            expect(result.success).toBe(true)
+            expect(result.chunkResolution).toBe(resolution)
+            expect(result.vertices.length).toBe(vertexCount * 3)
+            expect(result.colors.length).toBe(vertexCount * 3)
+            expect(result.biomeWeights.length).toBe(vertexCount * BIOME_WEIGHT_STRIDE)
+            expect(result.indices.length).toBe(resolution * resolution * 6 + 4 * resolution * 6)
+            expect(Math.max(...result.indices)).toBe(vertexCount - 1)
+        }
+    })
+
+    it('winds surface triangles upwards and skirt triangles outwards', () => {
+        const resolution = 8
+        const result = generateChunkGeometry(createRequest(2, -1, resolution))
+        const surfaceIndices = resolution * resolution * 6
+
+        for (let i = 0; i < result.indices.length; i += 3) {
+            const [a, b, c] = [result.indices[i], result.indices[i + 1], result.indices[i + 2]]
+            const normal = triangleNormal(result.vertices, a, b, c)
+
+            if (i < surfaceIndices) {
+                expect(normal[1]).toBeGreaterThan(0)
+            } else {
+                // Центр чанка в локальных координатах - (0, 0): нормаль юбки направлена от него
+                const centerX = (result.vertices[a * 3] + result.vertices[b * 3] + result.vertices[c * 3]) / 3
+                const centerZ =
+                    (result.vertices[a * 3 + 2] + result.vertices[b * 3 + 2] + result.vertices[c * 3 + 2]) / 3
+                expect(normal[0] * centerX + normal[2] * centerZ).toBeGreaterThan(0)
+            }
+        }
+    })
+
+    it('returns identical normals on the shared edge of neighbouring chunks', () => {
+        const resolution = 8
+        const row = resolution + 1
+        const left = generateChunkGeometry(createRequest(0, 0, resolution))
+        const right = generateChunkGeometry(createRequest(1, 0, resolution))
+
+        for (let z = 0; z <= resolution; z++) {
+            const leftIndex = z * row + resolution
+            const rightIndex = z * row
+            for (let axis = 0; axis < 3; axis++) {
+                expect(left.normals[leftIndex * 3 + axis]).toBeCloseTo(right.normals[rightIndex * 3 + axis], 6)
+            }
+        }
+    })
+
+    it('returns unit normals for every vertex including the skirt', () => {
+        const result = generateChunkGeometry(createRequest(-2, 3))
+
+        expect(result.normals.length).toBe(result.vertices.length)
+        for (let i = 0; i < result.normals.length; i += 3) {
+            const length = Math.hypot(result.normals[i], result.normals[i + 1], result.normals[i + 2])
+            expect(length).toBeCloseTo(1, 5)
+            expect(result.normals[i + 1]).toBeGreaterThan(0)
+        }
+    })
+
+    it('stores per-vertex weights that sum to one', () => {
+        const result = generateChunkGeometry(createRequest(1, 1))
+        const vertexCount = result.vertices.length / 3
+
+        for (let vertex = 0; vertex < vertexCount; vertex++) {
+            let sum = 0
+            for (let biome = 0; biome < BIOME_WEIGHT_STRIDE; biome++) {
+                sum += result.biomeWeights[vertex * BIOME_WEIGHT_STRIDE + biome]
+            }
+            // Каждая доля округляется до байта отдельно
+            expect(Math.abs(sum - 255)).toBeLessThanOrEqual(BIOME_WEIGHT_STRIDE)
+        }
+    })
+})
@@ -0,0 +1,326 @@
+// Генерация геометрии чанка - чистая функция без зависимостей от DOM, выполняется в воркере
+import { TerrainHeightFunction, getTerrainHeightConfigKey, type TerrainHeightConfig } from './TerrainHeightFunction'
+import type { ErosionSample } from './TerrainErosion'
+import type { RiverSpline } from './RiverNetwork'
+import type { WaterCell } from './WaterBasins'
+import { BIOME_WEIGHT_STRIDE, computeBiomeWeights, writeBiomeColor, writeBiomeWeights } from './BiomeClassifier'
+
+export interface ChunkGenerationRequest {
+    id: string
+    chunkX: number
+    chunkZ: number
+    chunkSize: number
+    chunkResolution: number // Разрешение сетки с учётом LOD
+    lodLevel: number // 0 - полное разрешение, каждый следующий уровень вдвое грубее
+    heightGeneratorConfig: TerrainHeightConfig
+}
+
+export interface ChunkGenerationResult {
+    id: string
+    chunkX: number
+    chunkZ: number
+    lodLevel: number
+    chunkResolution: number
+    vertices: Float32Array // Сначала (chunkResolution + 1)^2 вершин сетки, затем вершины юбки
+    normals: Float32Array // Посчитаны по фартуку высот за краями чанка - без швов на границах
+    indices: Uint32Array
+    colors: Float32Array
+    biomeWeights: Uint8Array // BIOME_WEIGHT_STRIDE долей биомов на вершину, 0..255 - веса текстур рельефа
+    sediment: Float32Array // Карты эрозии по вершинам (нули, если эрозия выключена) - для раскраски в BiomeManager
+    flow: Float32Array
+    rivers: RiverSpline[] // Участки рек, начинающиеся в чанке, - по ним WaterManager строит ленты воды
+    water: WaterCell[] // Ячейки глади озёр и моря, принадлежащие чанку, каждая на уровне своего водоёма
+    success: boolean
+    error?: string
+}
+
+// Кэшируем функцию высоты - конфигурация меняется редко, а перестановка строится на каждый seed
+let cachedHeightFunction: TerrainHeightFunction | null = null
+let cachedHeightConfigKey = ''
+
+function getHeightFunction(config: TerrainHeightConfig): TerrainHeightFunction {
+    const key = getTerrainHeightConfigKey(config)
+    if (!cachedHeightFunction || cachedHeightConfigKey !== key) {
+        cachedHeightFunction = new TerrainHeightFunction(config)
+        cachedHeightConfigKey = key
+    }
+    return cachedHeightFunction
+}
+
+// Высоты сетки чанка с фартуком в один отсчёт за каждым краем: (chunkResolution + 3)^2 точек.
+// Соседние чанки с тем же LOD видят одни и те же точки, поэтому нормали на общем крае совпадают
+export function sampleApronHeights(
+    heightFunction: TerrainHeightFunction,
+    chunkX: number,
+    chunkZ: number,
+    chunkSize: number,
+    chunkResolution: number
+): Float64Array {
+    const heights = new Float64Array((chunkResolution + 3) ** 2)
+    runToCompletion(sampleApronRows(heightFunction, chunkX, chunkZ, chunkSize, chunkResolution, heights))
+    return heights
+}
+
+// Пошаговое заполнение фартука: управление возвращается после каждой строки
+function* sampleApronRows(
+    heightFunction: TerrainHeightFunction,
+    chunkX: number,
+    chunkZ: number,
+    chunkSize: number,
+    chunkResolution: number,
+    heights: Float64Array
+): Generator<void, void, void> {
+    const apronRow = chunkResolution + 3
+
+    for (let z = -1; z <= chunkResolution + 1; z++) {
+        for (let x = -1; x <= chunkResolution + 1; x++) {
+            const worldX = (x / chunkResolution - 0.5) * chunkSize + chunkX * chunkSize
+            const worldZ = (z / chunkResolution - 0.5) * chunkSize + chunkZ * chunkSize
+            heights[(z + 1) * apronRow + (x + 1)] = heightFunction.getHeight(worldX, worldZ)
+        }
+        yield
+    }
+}
+
+function runToCompletion<T>(steps: Generator<void, T, void>): T {
+    let step = steps.next()
+    while (!step.done) step = steps.next()
+    return step.value
+}
+
+// Число вершин и индексов чанка: сетка (chunkResolution + 1)^2, затем юбка - по две вершины
+// на каждую точку четырёх краёв. Буферы выделяются сразу нужного размера, без промежуточных number[]
+export function getChunkBufferLayout(chunkResolution: number): {
+    gridVertices: number
+    vertexCount: number
+    indexCount: number
+} {
+    const row = chunkResolution + 1
+    const gridVertices = row * row
+    return {
+        gridVertices,
+        vertexCount: gridVertices + 4 * row * 2,
+        indexCount: chunkResolution * chunkResolution * 6 + 4 * chunkResolution * 6,
+    }
+}
+
+// Нормали вершин сетки центральными разностями по фартуку высот.
+// Пишет в начало output, если он передан (вершины юбки идут после сетки)
+export function computeApronNormals(
+    heights: Float64Array,
+    chunkResolution: number,
+    cellSize: number,
+    output: Float32Array = new Float32Array((chunkResolution + 1) ** 2 * 3)
+): Float32Array {
+    const apronRow = chunkResolution + 3
+    let offset = 0
+
+    for (let z = 0; z <= chunkResolution; z++) {
+        for (let x = 0; x <= chunkResolution; x++) {
+            const i = (z + 1) * apronRow + (x + 1)
+            const nx = heights[i - 1] - heights[i + 1]
+            const ny = 2 * cellSize
+            const nz = heights[i - apronRow] - heights[i + apronRow]
+            const length = Math.sqrt(nx * nx + ny * ny + nz * nz)
+
+            output[offset++] = nx / length
+            output[offset++] = ny / length
+            output[offset++] = nz / length
+        }
+    }
+
+    return output
+}
+
+interface ChunkBuffers {
+    vertices: Float32Array
+    normals: Float32Array
+    indices: Uint32Array
+    colors: Float32Array
+    biomeWeights: Uint8Array
+    sediment: Float32Array
+    flow: Float32Array
+}
+
+// Юбка по краям чанка: вертикальная полоса вниз закрывает щели между чанками с разным LOD.
+// Края обходим так, чтобы треугольники смотрели наружу чанка. Пишет после сетки и её индексов
+function writeSkirt(chunkResolution: number, skirtDepth: number, buffers: ChunkBuffers): void {
+    const { vertices, normals, indices, colors, biomeWeights, sediment, flow } = buffers
+    const { gridVertices } = getChunkBufferLayout(chunkResolution)
+    const row = chunkResolution + 1
+    const last = chunkResolution
+    const edges: number[][] = [[], [], [], []]
+
+    for (let i = 0; i <= last; i++) {
+        edges[0].push(last - i) // z = 0, по -x
+        edges[1].push(last * row + i) // z = max, по +x
+        edges[2].push(i * row) // x = 0, по +z
+        edges[3].push((last - i) * row + last) // x = max, по -z
+    }
+
+    let vertex = gridVertices
+    let index = chunkResolution * chunkResolution * 6
+
+    for (const edge of edges) {
+        const base = vertex
+
+        for (const gridIndex of edge) {
+            // Верхняя вершина - копия краевой; нормали берём с края, чтобы юбка освещалась как поверхность
+            for (let k = 0; k < 2; k++) {
+                vertices.copyWithin(vertex * 3, gridIndex * 3, gridIndex * 3 + 3)
+                normals.copyWithin(vertex * 3, gridIndex * 3, gridIndex * 3 + 3)
+                colors.copyWithin(vertex * 3, gridIndex * 3, gridIndex * 3 + 3)
+                biomeWeights.copyWithin(
+                    vertex * BIOME_WEIGHT_STRIDE,
+                    gridIndex * BIOME_WEIGHT_STRIDE,
+                    (gridIndex + 1) * BIOME_WEIGHT_STRIDE
+                )
+                sediment[vertex] = sediment[gridIndex]
+                flow[vertex] = flow[gridIndex]
+                vertex++
+            }
+            vertices[(vertex - 1) * 3 + 1] -= skirtDepth
+        }
+
+        for (let i = 0; i < edge.length - 1; i++) {
+            const top0 = base + i * 2
+            const bottom0 = top0 + 1
+            const top1 = top0 + 2
+            const bottom1 = top0 + 3
+
+            indices[index++] = top0
+            indices[index++] = bottom0
+            indices[index++] = top1
+            indices[index++] = top1
+            indices[index++] = bottom0
+            indices[index++] = bottom1
+        }
+    }
+}
+
+// Генерация геометрии чанка
+export function generateChunkGeometry(request: ChunkGenerationRequest): ChunkGenerationResult {
+    return runToCompletion(createChunkGeometryTask(request))
+}
+
+// Та же генерация по шагам (строка фартука или сетки за шаг): воркер выполняет её квантами
+// и между ними обрабатывает сообщения - так отмена доходит до уже начатой генерации
+export function* createChunkGeometryTask(
+    request: ChunkGenerationRequest
+): Generator<void, ChunkGenerationResult, void> {
+    try {
+        const { chunkX, chunkZ, chunkSize, chunkResolution, lodLevel, heightGeneratorConfig, id } = request
+
+        // Общая функция высоты - та же, что у CPU fallback, воды и GPU
+        const heightFunction = getHeightFunction(heightGeneratorConfig)
+        const apronRow = chunkResolution + 3
+        const heights = new Float64Array(apronRow * apronRow)
+        yield* sampleApronRows(heightFunction, chunkX, chunkZ, chunkSize, chunkResolution, heights)
+        const row = chunkResolution + 1
+
+        const { vertexCount, indexCount } = getChunkBufferLayout(chunkResolution)
+        const buffers: ChunkBuffers = {
+            vertices: new Float32Array(vertexCount * 3),
+            normals: new Float32Array(vertexCount * 3),
+            indices: new Uint32Array(indexCount),
+            colors: new Float32Array(vertexCount * 3),
+            biomeWeights: new Uint8Array(vertexCount * BIOME_WEIGHT_STRIDE),
+            sediment: new Float32Array(vertexCount),
+            flow: new Float32Array(vertexCount),
+        }
+        const { vertices, indices, colors, biomeWeights, sediment, flow } = buffers
+        const erosion: ErosionSample = { delta: 0, sediment: 0, flow: 0 }
+        const classifier = heightFunction.getBiomeClassifier()
+        const weights = new Float32Array(classifier.biomeCount)
+
+        // Создаём vertices сетку
+        for (let z = 0; z <= chunkResolution; z++) {
+            for (let x = 0; x <= chunkResolution; x++) {
+                const vertex = z * row + x
+                const localX = (x / chunkResolution - 0.5) * chunkSize
+                const localZ = (z / chunkResolution - 0.5) * chunkSize
+
+                // Мировые координаты
+                const worldX = localX + chunkX * chunkSize
+                const worldZ = localZ + chunkZ * chunkSize
+
+                const height = heights[(z + 1) * apronRow + (x + 1)]
+
+                vertices[vertex * 3] = localX
+                vertices[vertex * 3 + 1] = height
+                vertices[vertex * 3 + 2] = localZ
+
+                // Доли биомов и цвет вершины
+                computeBiomeWeights(heightFunction, worldX, worldZ, height, weights)
+                writeBiomeWeights(weights, biomeWeights, vertex)
+                writeBiomeColor(weights, classifier.colors, colors, vertex)
+
+                heightFunction.getErosion(worldX, worldZ, erosion)
+                sediment[vertex] = erosion.sediment
+                flow[vertex] = erosion.flow
+            }
+            yield
+        }
+
+        // Создаём indices для треугольников
+        let index = 0
+        for (let z = 0; z < chunkResolution; z++) {
+            for (let x = 0; x < chunkResolution; x++) {
+                const a = z * row + x
+                const b = z * row + x + 1
+                const c = (z + 1) * row + x
+                const d = (z + 1) * row + x + 1
+
+                indices[index++] = a
+                indices[index++] = c
+                indices[index++] = b
+                indices[index++] = b
+                indices[index++] = c
+                indices[index++] = d
+            }
+        }
+
+        computeApronNormals(heights, chunkResolution, chunkSize / chunkResolution, buffers.normals)
+
+        // Глубина юбки - одна ячейка сетки: перекрывает разницу интерполяции соседних LOD
+        const skirtDepth = Math.max(1, chunkSize / chunkResolution)
+        writeSkirt(chunkResolution, skirtDepth, buffers)
+
+        const half = chunkSize / 2
+        const minX = chunkX * chunkSize - half
+        const minZ = chunkZ * chunkSize - half
+        const rivers = heightFunction.getRiverSplines(minX, minZ, minX + chunkSize, minZ + chunkSize)
+        const water = heightFunction.getWaterCells(minX, minZ, minX + chunkSize, minZ + chunkSize)
+
+        return {
+            id,
+            chunkX,
+            chunkZ,
+            lodLevel,
+            chunkResolution,
+            ...buffers,
+            rivers,
+            water,
+            success: true,
+        }
+    } catch (error) {
+        return {
+            id: request.id,
+            chunkX: request.chunkX,
+            chunkZ: request.chunkZ,
+            lodLevel: request.lodLevel,
+            chunkResolution: request.chunkResolution,
+            vertices: new Float32Array(),
+            normals: new Float32Array(),
+            indices: new Uint32Array(),
+            colors: new Float32Array(),
+            biomeWeights: new Uint8Array(),
+            sediment: new Float32Array(),
+            flow: new Float32Array(),
+            rivers: [],
+            water: [],
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        }
+    }
+}
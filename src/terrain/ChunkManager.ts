@@ -3,7 +3,6 @@ import {
     Mesh,
     MeshLambertMaterial,
     Vector3,
-    BufferAttribute,
     DoubleSide,
     BufferGeometry,
     ShaderMaterial,
@@ -11,30 +10,49 @@ import {
 } from 'three'
 import { HeightGenerator } from './HeightGenerator'
 import { WaterManager } from './WaterManager'
-import { BiomeType, BiomeTypeValue, BiomeManager } from '@/biomes/BiomeManager'
+import { BiomeManager } from '@/biomes/BiomeManager'
+import { ScatterManager } from '@/biomes/ScatterManager'
 import { ShaderManager } from '@/shaders/ShaderManager'
 import { globalProfiler } from '@/utils/Profiler'
-import { ChunkWorkerPool } from './ChunkWorkerPool'
-import { ChunkStateManager, ChunkState } from './ChunkStateManager'
-import { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkWorker'
+import { ChunkWorkerPool, type WorkerPoolHealth } from './ChunkWorkerPool'
+import { ChunkStateManager, ChunkState, type ViewCone } from './ChunkStateManager'
+import { globalIntervalTimer, type IntervalTimer } from '@/utils/IntervalTimer'
+import { computeApronNormals, sampleApronHeights } from './ChunkGeometryGenerator'
+import { BIOME_WEIGHT_STRIDE, computeBiomeWeights, getDominantBiome, writeBiomeWeights } from './BiomeClassifier'
+import type { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkGeometryGenerator'
+import type { ChunkRange, ChunkSurface } from './MeshExporter'
+import { createChunkBufferGeometry, type ChunkGeometryBuffers } from './ChunkBufferGeometry'
+import type { WaterCell } from './WaterBasins'
 
 interface TerrainChunk {
     mesh: Mesh
     position: { x: number; z: number }
+    lodLevel: number
+    resolution: number // Разрешение регулярной сетки (вершины юбки идут после неё)
     geometry: BufferGeometry
     material: ShaderMaterial
     wireframeMaterial: MeshBasicMaterial
 }
 
+// Внешние зависимости, которые подменяются в тестах и headless окружении
+export interface ChunkManagerOptions {
+    timer?: IntervalTimer
+    createWorker?: () => Worker
+}
+
+// Сетка CPU пути вместе с ячейками глади - как в результате воркера
+type ChunkGeometryData = ChunkGeometryBuffers & { water: WaterCell[] }
+
 export class ChunkManager {
     private scene: Scene
     private chunks: Map<string, TerrainChunk> = new Map()
     private heightGenerator: HeightGenerator
     private waterManager: WaterManager
     private biomeManager: BiomeManager
+    private scatterManager: ScatterManager
     private shaderManager: ShaderManager
     private chunkSize = 100
-    private chunkResolution = 64
+    private chunkResolution = 64 // Разрешение на LOD 0, каждый следующий уровень вдвое грубее
     private wireframeEnabled = false
 
     // Система воркеров
@@ -43,26 +61,37 @@ export class ChunkManager {
     private isWorkerSystemEnabled = true // Включаем обратно с исправленной реализацией
     private maxConcurrentGenerations = 2 // Уменьшаем для лучшей производительности
     private processingInterval: number | null = null
+    private timer: IntervalTimer
     private lastCameraUpdate = 0 // Для throttling обновлений камеры
+    private meshesBuilt = 0
+    private meshBuildTime = 0 // Суммарное время сборки мешей из результатов воркера на главном потоке, мс
 
     constructor(
         scene: Scene,
         heightGenerator: HeightGenerator,
         waterManager: WaterManager,
         biomeManager: BiomeManager,
-        shaderManager: ShaderManager
+        scatterManager: ScatterManager,
+        shaderManager: ShaderManager,
+        options: ChunkManagerOptions = {}
     ) {
         this.scene = scene
         this.heightGenerator = heightGenerator
         this.waterManager = waterManager
         this.biomeManager = biomeManager
+        this.scatterManager = scatterManager
         this.shaderManager = shaderManager
 
+        this.timer = options.timer ?? globalIntervalTimer
+
         // Инициализируем систему воркеров
-        this.stateManager = new ChunkStateManager()
+        this.stateManager = this.createStateManager()
         this.workerPool = new ChunkWorkerPool({
             maxWorkers: navigator.hardwareConcurrency || 4,
             workerScript: './ChunkWorker.ts',
+            createWorker: options.createWorker,
+            timer: this.timer,
+            onUnhealthy: reason => this.fallbackToCPU(reason),
         })
 
         // Инициализируем асинхронно, но не блокируем конструктор
@@ -83,7 +112,7 @@ export class ChunkManager {
             await this.workerPool.initialize()
 
             // Запускаем обработку чанков каждые 150мс для лучшей производительности
-            this.processingInterval = window.setInterval(() => {
+            this.processingInterval = this.timer.setInterval(() => {
                 this.processChunkQueue()
             }, 150)
 
@@ -94,10 +123,32 @@ export class ChunkManager {
             this.isWorkerSystemEnabled = false
 
             // Очищаем состояние менеджера если воркеры не работают
-            this.stateManager = new ChunkStateManager()
+            this.stateManager.dispose()
+            this.stateManager = this.createStateManager()
         }
     }
 
+    // Генерации, перезапрошенные на другом LOD, снимаются и с воркеров
+    private createStateManager(): ChunkStateManager {
+        return new ChunkStateManager(this.timer, generationId => this.workerPool.cancelTask(generationId))
+    }
+
+    // Воркеры падают при каждом перезапуске: переходим на генерацию на главном потоке.
+    // Незагруженные чанки TerrainGenerator.update запросит заново уже через CPU путь
+    private fallbackToCPU(reason: string): void {
+        if (!this.isWorkerSystemEnabled) return
+
+        console.warn(`⚠️ Chunk workers are unavailable (${reason}), falling back to CPU generation`)
+        this.isWorkerSystemEnabled = false
+        if (this.processingInterval !== null) {
+            this.timer.clearInterval(this.processingInterval)
+            this.processingInterval = null
+        }
+
+        this.stateManager.dispose()
+        this.stateManager = this.createStateManager()
+    }
+
     // Групповая генерация чанков с профайлингом
     generateChunks(chunks: Array<{ x: number; z: number }>): void {
         if (chunks.length === 0) return
@@ -143,7 +194,9 @@ export class ChunkManager {
         for (const chunk of chunks) {
             const chunkKey = `${chunk.x},${chunk.z}`
             if (this.chunks.has(chunkKey)) {
-                this.waterManager.createWaterSurface(chunk.x, chunk.z, this.chunkSize)
+                const water = generatedGeometry.get(chunkKey)?.data.water
+                this.waterManager.createWaterSurface(chunk.x, chunk.z, this.chunkSize, water)
+                this.waterManager.createRiverSurface(chunk.x, chunk.z, this.chunkSize)
                 waterChunks++
             }
         }
@@ -154,20 +207,32 @@ export class ChunkManager {
         )
     }
 
-    private generateChunkGeometry(
-        chunkX: number,
-        chunkZ: number
-    ): { vertices: Float32Array; indices: Uint32Array; colors: Float32Array } {
+    private generateChunkGeometry(chunkX: number, chunkZ: number): ChunkGeometryData {
         const chunkKey = `${chunkX},${chunkZ}`
 
         if (this.chunks.has(chunkKey)) {
-            return { vertices: new Float32Array(), indices: new Uint32Array(), colors: new Float32Array() }
+            return {
+                vertices: new Float32Array(),
+                normals: new Float32Array(),
+                indices: new Uint32Array(),
+                colors: new Float32Array(),
+                biomeWeights: new Uint8Array(),
+                water: [],
+            }
         }
 
+        // Высоты с фартуком за краями чанка - по ним считаются бесшовные нормали, как в воркере
+        const heightFunction = this.heightGenerator.getHeightFunction()
+        const heights = sampleApronHeights(heightFunction, chunkX, chunkZ, this.chunkSize, this.chunkResolution)
+        const apronRow = this.chunkResolution + 3
+
         // Создаём vertices и colors массивы с нуля
         const vertices: number[] = []
         const indices: number[] = []
         const colors: number[] = []
+        const row = this.chunkResolution + 1
+        const biomeWeights = new Uint8Array(row * row * BIOME_WEIGHT_STRIDE)
+        const weights = new Float32Array(heightFunction.getBiomeClassifier().biomeCount)
 
         // Создаём vertices сетку
         for (let z = 0; z <= this.chunkResolution; z++) {
@@ -180,15 +245,20 @@ export class ChunkManager {
                 const worldX = localX + chunkX * this.chunkSize
                 const worldZ = localZ + chunkZ * this.chunkSize
 
-                // Генерируем высоту используя шум
-                const height = this.heightGenerator.generateHeight(worldX, worldZ)
+                // Высота из общей функции (через фартук)
+                const height = heights[(z + 1) * apronRow + (x + 1)]
 
                 // Создаём vertices в правильной ориентации (Y вверх)
                 vertices.push(localX, height, localZ)
 
-                // Определяем биом и цвет
-                const biome = this.determineBiome(worldX, worldZ, height)
+                // Доли биомов - та же классификация, что в воркере; цвет - по преобладающему биому
+                computeBiomeWeights(heightFunction, worldX, worldZ, height, weights)
+                writeBiomeWeights(weights, biomeWeights, z * row + x)
+
+                const biome = this.biomeManager.getBiomeId(getDominantBiome(weights, 0, weights.length))
                 const color = this.biomeManager.getBiomeColor(biome, height)
+                const erosion = heightFunction.getErosion(worldX, worldZ)
+                this.biomeManager.tintErosion(color, biome, erosion.sediment, erosion.flow)
 
                 colors.push(color.r, color.g, color.b)
             }
@@ -208,18 +278,23 @@ export class ChunkManager {
             }
         }
 
+        const normals = computeApronNormals(heights, this.chunkResolution, this.chunkSize / this.chunkResolution)
+
+        const minX = (chunkX - 0.5) * this.chunkSize
+        const minZ = (chunkZ - 0.5) * this.chunkSize
+        const water = heightFunction.getWaterCells(minX, minZ, minX + this.chunkSize, minZ + this.chunkSize)
+
         return {
             vertices: new Float32Array(vertices),
+            normals,
             indices: new Uint32Array(indices),
             colors: new Float32Array(colors),
+            biomeWeights,
+            water,
         }
     }
 
-    private createChunkMesh(
-        chunkX: number,
-        chunkZ: number,
-        geometryData?: { vertices: Float32Array; indices: Uint32Array; colors: Float32Array }
-    ): void {
+    private createChunkMesh(chunkX: number, chunkZ: number, geometryData?: ChunkGeometryData): void {
         const chunkKey = `${chunkX},${chunkZ}`
 
         if (this.chunks.has(chunkKey)) return
@@ -228,11 +303,7 @@ export class ChunkManager {
         const data = geometryData || this.generateChunkGeometry(chunkX, chunkZ)
 
         // Создаём geometry с полными данными
-        const geometry = new BufferGeometry()
-        geometry.setAttribute('position', new BufferAttribute(data.vertices, 3))
-        geometry.setAttribute('color', new BufferAttribute(data.colors, 3))
-        geometry.setIndex(Array.from(data.indices))
-        geometry.computeVertexNormals()
+        const geometry = createChunkBufferGeometry(data)
 
         // Используем шейдерный материал вместо MeshLambertMaterial
         const material = this.shaderManager.createNewTerrainMaterial()
@@ -243,7 +314,7 @@ export class ChunkManager {
         const mesh = new Mesh(geometry, material)
         mesh.position.set(chunkX * this.chunkSize, 0, chunkZ * this.chunkSize)
         mesh.receiveShadow = true
-        mesh.castShadow = false
+        mesh.castShadow = true // Склоны и хребты затеняют долины в каскадных тенях
 
         this.scene.add(mesh)
 
@@ -261,33 +332,21 @@ export class ChunkManager {
         const chunk: TerrainChunk = {
             mesh,
             position: { x: chunkX, z: chunkZ },
+            lodLevel: 0,
+            resolution: this.chunkResolution,
             geometry,
             material,
             wireframeMaterial,
         }
 
         this.chunks.set(chunkKey, chunk)
-    }
 
-    private determineBiome(x: number, z: number, height: number): BiomeTypeValue {
-        // Используем heightGenerator для получения дополнительных шумов
-        const moisture = this.heightGenerator.getNoise2D(x * 0.01, z * 0.01)
-        const temperature = this.heightGenerator.getNoise2D((x + 1000) * 0.008, (z + 1000) * 0.008)
-
-        // Water - для точек ниже уровня воды (0)
-        if (height < 0) return BiomeType.WATER
-
-        // Beach/Sand - уменьшаем на 35% делая условия более строгими
-        if (height < 1 || (moisture > 0.3 && temperature > 0.1 && height < 3)) return BiomeType.SAND
-
-        // Mountain/Rocks - увеличиваем количество гор, снижаем порог
-        if (height > 15) return BiomeType.ROCKS
-
-        // Forest - делаем леса более частыми на средних высотах
-        if (moisture > -0.1 && temperature > -0.5 && height > 4 && height < 18) return BiomeType.FOREST
-
-        // Fields - основные равнины занимают большую часть ландшафта
-        return BiomeType.FIELDS
+        // Объекты биомов по той же сетке, что и у воркера: CPU fallback не остаётся без растительности
+        this.scatterManager.createChunkObjects(
+            chunkKey,
+            { chunkX, chunkZ, lodLevel: 0, chunkResolution: this.chunkResolution, ...data },
+            this.chunkSize
+        )
     }
 
     removeChunk(chunkKey: string): void {
@@ -297,7 +356,16 @@ export class ChunkManager {
         // Remove water surface
         this.waterManager.removeWaterSurface(chunkKey)
 
+        // Remove biome objects
+        this.scatterManager.removeChunkObjects(chunkKey)
+
         // Remove chunk mesh
+        this.disposeChunkMesh(chunk)
+
+        this.chunks.delete(chunkKey)
+    }
+
+    private disposeChunkMesh(chunk: TerrainChunk): void {
         this.scene.remove(chunk.mesh)
         chunk.geometry.dispose()
 
@@ -305,8 +373,18 @@ export class ChunkManager {
         this.shaderManager.removeMaterial(chunk.material)
         chunk.material.dispose()
         chunk.wireframeMaterial.dispose()
+    }
 
-        this.chunks.delete(chunkKey)
+    // Удаляет все чанки и сбрасывает очередь генерации - TerrainGenerator.update запросит их заново
+    clearChunks(): void {
+        if (this.isWorkerSystemEnabled && this.workerPool) {
+            this.workerPool.cancelAllTasks('cancelled - world regenerated')
+        }
+        this.stateManager.clear()
+
+        Array.from(this.chunks.keys()).forEach(key => {
+            this.removeChunk(key)
+        })
     }
 
     getChunks(): Map<string, TerrainChunk> {
@@ -342,13 +420,14 @@ export class ChunkManager {
     dispose(): void {
         // Останавливаем систему воркеров
         if (this.processingInterval) {
-            clearInterval(this.processingInterval)
+            this.timer.clearInterval(this.processingInterval)
             this.processingInterval = null
         }
 
         if (this.workerPool) {
             this.workerPool.dispose()
         }
+        this.stateManager.dispose()
 
         this.chunks.forEach((chunk, key) => {
             this.removeChunk(key)
@@ -358,7 +437,7 @@ export class ChunkManager {
 
     // Новые методы для работы с воркерами
 
-    updateCameraPosition(x: number, z: number): void {
+    updateCameraPosition(x: number, z: number, view?: ViewCone): void {
         const now = Date.now()
         if (now - this.lastCameraUpdate < 100) return // Throttle до 10 раз в секунду
 
@@ -367,6 +446,7 @@ export class ChunkManager {
         const chunkZ = Math.floor(z / this.chunkSize)
 
         // Обновляем центр в менеджере состояний (автоматически очищает чанки)
+        if (view) this.stateManager.updateView(view)
         this.stateManager.updateCenter(chunkX, chunkZ)
 
         // Отменяем задачи в пуле воркеров, которые вне радиуса видимости
@@ -378,6 +458,9 @@ export class ChunkManager {
             if (cancelledTasks > 5) {
                 console.log(`🚫 Cancelled ${cancelledTasks} out-of-range worker tasks`)
             }
+
+            // Очередь пула пересортировывается по тем же приоритетам, что и ожидающие чанки
+            this.workerPool.reprioritize(request => this.stateManager.calculatePriority(request.chunkX, request.chunkZ))
         }
     }
 
@@ -401,11 +484,25 @@ export class ChunkManager {
             if (!chunkInfo.geometryData) continue
 
             try {
+                const startTime = performance.now()
                 this.createChunkMeshFromWorkerData(chunkInfo.geometryData)
+                this.meshBuildTime += performance.now() - startTime
+                this.meshesBuilt++
                 this.stateManager.setChunkState(chunkInfo.x, chunkInfo.z, ChunkState.RENDERED)
 
-                // Создаём воду для чанка
-                this.waterManager.createWaterSurface(chunkInfo.x, chunkInfo.z, this.chunkSize)
+                // Создаём воду и реки для чанка
+                this.waterManager.createWaterSurface(
+                    chunkInfo.x,
+                    chunkInfo.z,
+                    this.chunkSize,
+                    chunkInfo.geometryData.water
+                )
+                this.waterManager.createRiverSurface(
+                    chunkInfo.x,
+                    chunkInfo.z,
+                    this.chunkSize,
+                    chunkInfo.geometryData.rivers
+                )
 
                 processedCount++
             } catch (error) {
@@ -423,36 +520,38 @@ export class ChunkManager {
         const chunksToGenerate = pendingChunks.slice(0, availableSlots)
 
         for (const chunkInfo of chunksToGenerate) {
-            try {
-                const generationId = `${chunkInfo.key}_${Date.now()}`
+            const generationId = `${chunkInfo.key}_${Date.now()}`
 
+            try {
                 const request: ChunkGenerationRequest = {
                     id: generationId,
                     chunkX: chunkInfo.x,
                     chunkZ: chunkInfo.z,
                     chunkSize: this.chunkSize,
-                    chunkResolution: this.chunkResolution,
+                    chunkResolution: Math.max(1, this.chunkResolution >> chunkInfo.lodLevel),
+                    lodLevel: chunkInfo.lodLevel,
                     heightGeneratorConfig: {
                         seed: this.heightGenerator.getSeed(),
-                        scale: this.heightGenerator.getScale(),
-                        heightScale: this.heightGenerator.getHeightScale(),
-                        octaves: 6,
-                        persistence: 0.5,
-                        lacunarity: 2.0,
+                        terrain: this.heightGenerator.getTerrainConfig(),
+                        biomes: this.heightGenerator.getBiomePack(),
                     },
                 }
 
                 this.stateManager.setChunkState(chunkInfo.x, chunkInfo.z, ChunkState.GENERATING, generationId)
 
                 // Запускаем генерацию в воркере
-                const result = await this.workerPool.generateChunk(request)
+                const result = await this.workerPool.generateChunk(request, chunkInfo.priority)
 
-                // Проверяем что чанк все еще нужен (мог быть удален пока генерировался)
+                // Проверяем что чанк все еще нужен (мог быть удален или перезапрошен пока генерировался)
                 const currentState = this.stateManager.getChunkState(chunkInfo.x, chunkInfo.z)
-                if (currentState === ChunkState.GENERATING) {
+                const currentGenerationId = this.stateManager.getGenerationId(chunkInfo.x, chunkInfo.z)
+                if (currentState === ChunkState.GENERATING && currentGenerationId === generationId) {
                     this.stateManager.setChunkState(chunkInfo.x, chunkInfo.z, ChunkState.READY, result)
                 }
             } catch (error) {
+                // Отменённые задачи (чанк удалён или мир пересоздан) не возвращаем в очередь
+                if (this.stateManager.getGenerationId(chunkInfo.x, chunkInfo.z) !== generationId) continue
+
                 console.error(`❌ Chunk generation failed for ${chunkInfo.key}:`, error)
                 this.stateManager.setChunkState(chunkInfo.x, chunkInfo.z, ChunkState.PENDING)
             }
@@ -462,51 +561,59 @@ export class ChunkManager {
     private createChunkMeshFromWorkerData(result: ChunkGenerationResult): void {
         const chunkKey = `${result.chunkX},${result.chunkZ}`
 
-        if (this.chunks.has(chunkKey)) {
-            return // Чанк уже существует
+        if (this.chunks.get(chunkKey)?.lodLevel === result.lodLevel) {
+            return // Чанк уже существует на этом LOD
         }
 
-        // Создаём geometry с данными от воркера
-        const geometry = new BufferGeometry()
-        geometry.setAttribute('position', new BufferAttribute(result.vertices, 3))
-        geometry.setAttribute('color', new BufferAttribute(result.colors, 3))
-        geometry.setIndex(Array.from(result.indices))
+        // Следы эрозии (русла, осыпи) докрашивает BiomeManager по картам из воркера
+        if (this.heightGenerator.getHeightFunction().hasErosion()) {
+            this.biomeManager.applyErosionColors(result.colors, result.biomeWeights, result.sediment, result.flow)
+        }
 
-        // Вычисляем нормали асинхронно для лучшей производительности
-        requestAnimationFrame(() => {
-            geometry.computeVertexNormals()
+        // Буферы переданы воркером без копирования - отдаём их атрибутам как есть
+        const geometry = createChunkBufferGeometry(result)
 
-            // Создаём материал
-            const material = this.shaderManager.createNewTerrainMaterial()
-            material.wireframe = this.wireframeEnabled
+        // Создаём материал
+        const material = this.shaderManager.createNewTerrainMaterial()
+        material.wireframe = this.wireframeEnabled
 
-            const mesh = new Mesh(geometry, material)
-            mesh.position.set(result.chunkX * this.chunkSize, 0, result.chunkZ * this.chunkSize)
-            mesh.receiveShadow = true
-            mesh.castShadow = false
+        const mesh = new Mesh(geometry, material)
+        mesh.position.set(result.chunkX * this.chunkSize, 0, result.chunkZ * this.chunkSize)
+        mesh.receiveShadow = true
+        mesh.castShadow = true // Склоны и хребты затеняют долины в каскадных тенях
 
-            this.scene.add(mesh)
+        this.scene.add(mesh)
 
-            // Создаем wireframe материал
-            const wireframeMaterial = new MeshBasicMaterial({
-                color: 0x000000,
-                wireframe: true,
-            })
+        // Создаем wireframe материал
+        const wireframeMaterial = new MeshBasicMaterial({
+            color: 0x000000,
+            wireframe: true,
+        })
 
-            if (this.wireframeEnabled) {
-                ;(mesh as any).material = wireframeMaterial
-            }
+        if (this.wireframeEnabled) {
+            ;(mesh as any).material = wireframeMaterial
+        }
 
-            const chunk: TerrainChunk = {
-                mesh,
-                position: { x: result.chunkX, z: result.chunkZ },
-                geometry,
-                material,
-                wireframeMaterial,
-            }
+        const chunk: TerrainChunk = {
+            mesh,
+            position: { x: result.chunkX, z: result.chunkZ },
+            lodLevel: result.lodLevel,
+            resolution: result.chunkResolution,
+            geometry,
+            material,
+            wireframeMaterial,
+        }
 
-            this.chunks.set(chunkKey, chunk)
-        })
+        // Меш с прежним LOD убираем только после добавления нового, чтобы не было дыр
+        const previousChunk = this.chunks.get(chunkKey)
+        if (previousChunk) {
+            this.disposeChunkMesh(previousChunk)
+        }
+
+        this.chunks.set(chunkKey, chunk)
+
+        // Объекты биомов пересоздаются вместе с мешем: на дальних LOD они убираются
+        this.scatterManager.createChunkObjects(chunkKey, result, this.chunkSize)
     }
 
     // Обновленный метод генерации для совместимости
@@ -531,17 +638,44 @@ export class ChunkManager {
         const geometryData = this.generateChunkGeometry(chunkX, chunkZ)
         this.createChunkMesh(chunkX, chunkZ, geometryData)
 
-        // Создаём поверхность воды для этого chunk
-        this.waterManager.createWaterSurface(chunkX, chunkZ, this.chunkSize)
+        // Создаём поверхность воды и реки для этого chunk
+        this.waterManager.createWaterSurface(chunkX, chunkZ, this.chunkSize, geometryData.water)
+        this.waterManager.createRiverSurface(chunkX, chunkZ, this.chunkSize)
+    }
+
+    // Сетки загруженных чанков диапазона для экспорта (незагруженные пропускаются)
+    getChunkSurfaces(range: ChunkRange): ChunkSurface[] {
+        const surfaces: ChunkSurface[] = []
+        this.chunks.forEach(chunk => {
+            const { x, z } = chunk.position
+            if (x < range.fromX || x > range.toX || z < range.fromZ || z > range.toZ) return
+
+            surfaces.push({
+                chunkX: x,
+                chunkZ: z,
+                chunkSize: this.chunkSize,
+                resolution: chunk.resolution,
+                vertices: chunk.geometry.getAttribute('position').array as Float32Array,
+                colors: chunk.geometry.getAttribute('color').array as Float32Array,
+            })
+        })
+        return surfaces
     }
 
     getWorkerStats(): {
         workerPool: any
+        health: WorkerPoolHealth | null
         stateManager: any
+        mainThread: { meshesBuilt: number; averageMeshBuildTime: number }
     } {
         return {
             workerPool: this.workerPool?.getStats() || null,
+            health: this.workerPool?.getHealthReport() || null,
             stateManager: this.stateManager?.getStats() || null,
+            mainThread: {
+                meshesBuilt: this.meshesBuilt,
+                averageMeshBuildTime: this.meshesBuilt > 0 ? this.meshBuildTime / this.meshesBuilt : 0,
+            },
         }
     }
 }
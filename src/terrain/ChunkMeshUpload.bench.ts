@@ -0,0 +1,52 @@
+// Время главного потока на один чанк LOD 0: приём результата воркера и сборка BufferGeometry.
+// Запуск: npm run bench
+import { bench, describe } from 'vitest'
+import { BufferAttribute, BufferGeometry } from 'three'
+import { generateChunkGeometry, type ChunkGenerationResult } from './ChunkGeometryGenerator'
+import { createChunkBufferGeometry } from './ChunkBufferGeometry'
+import { getResultTransferables } from './ChunkWorkerProtocol'
+
+const heightGeneratorConfig = { seed: 1 }
+
+function generateResult(): ChunkGenerationResult {
+    return generateChunkGeometry({
+        id: 'bench',
+        chunkX: 3,
+        chunkZ: -2,
+        chunkSize: 100,
+        chunkResolution: 64,
+        lodLevel: 0,
+        heightGeneratorConfig,
+    })
+}
+
+describe('receive worker result', () => {
+    const copied = generateResult()
+    let transferred = generateResult()
+
+    // postMessage без списка transfer: буферы сериализуются и копируются
+    bench('structured clone (copy)', () => {
+        structuredClone(copied)
+    })
+
+    // С transfer буферы меняют владельца без копирования: результат передаётся сам себе по кругу
+    bench('structured clone (transfer)', () => {
+        transferred = structuredClone(transferred, { transfer: getResultTransferables(transferred) })
+    })
+})
+
+describe('build chunk geometry', () => {
+    const result = generateResult()
+
+    bench('Array.from indices (previous)', () => {
+        const geometry = new BufferGeometry()
+        geometry.setAttribute('position', new BufferAttribute(result.vertices, 3))
+        geometry.setAttribute('normal', new BufferAttribute(result.normals, 3))
+        geometry.setAttribute('color', new BufferAttribute(result.colors, 3))
+        geometry.setIndex(Array.from(result.indices))
+    })
+
+    bench('typed index attribute', () => {
+        createChunkBufferGeometry(result)
+    })
+})
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChunkState, ChunkStateManager } from './ChunkStateManager'
+import type { IntervalTimer } from '@/utils/IntervalTimer'
+import type { ChunkGenerationResult } from './ChunkGeometryGenerator'
+
+// Таймер, интервалы которого запускаются вручную
+function createManualTimer() {
+    const callbacks = new Map<number, () => void>()
+    let nextId = 1
+    const timer: IntervalTimer = {
+        setInterval: callback => {
+            callbacks.set(nextId, callback)
+            return nextId++
+        },
+        clearInterval: id => callbacks.delete(id),
+    }
+    return { timer, callbacks, tick: () => callbacks.forEach(callback => callback()) }
+}
+
+describe('ChunkStateManager', () => {
+    let manual: ReturnType<typeof createManualTimer>
+    let manager: ChunkStateManager
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        manual = createManualTimer()
+        manager = new ChunkStateManager(manual.timer)
+    })
+
+    it('walks a chunk through pending, generating, ready and rendered', () => {
+        manager.addChunk(1, 0)
+        expect(manager.getChunkState(1, 0)).toBe(ChunkState.PENDING)
+        expect(manager.getPendingChunks().map(chunk => chunk.key)).toEqual(['1,0'])
+
+        manager.setChunkState(1, 0, ChunkState.GENERATING, 'gen-1')
+        expect(manager.isChunkGenerating(1, 0)).toBe(true)
+        expect(manager.getGenerationId(1, 0)).toBe('gen-1')
+        expect(manager.findChunkByGenerationId('gen-1')?.key).toBe('1,0')
+        expect(manager.getPendingChunks()).toEqual([])
+
+        const result = { id: 'gen-1' } as ChunkGenerationResult
+        manager.setChunkState(1, 0, ChunkState.READY, result)
+        expect(manager.getGenerationId(1, 0)).toBeNull()
+        expect(manager.getReadyChunks()[0].geometryData).toBe(result)
+
+        manager.setChunkState(1, 0, ChunkState.RENDERED)
+        expect(manager.getStats()).toMatchObject({ total: 1, pending: 0, generating: 0, ready: 0, rendered: 1 })
+
+        manager.removeChunk(1, 0)
+        expect(manager.getChunkState(1, 0)).toBeNull()
+        expect(manager.getStats().total).toBe(0)
+    })
+
+    it('ignores duplicate chunks and orders pending chunks by distance to the center', () => {
+        manager.addChunk(3, 0)
+        manager.addChunk(0, 1)
+        manager.addChunk(0, 1, ChunkState.READY)
+
+        expect(manager.getChunkState(0, 1)).toBe(ChunkState.PENDING)
+        expect(manager.getPendingChunks().map(chunk => chunk.key)).toEqual(['0,1', '3,0'])
+
+        manager.updateCenter(3, 0)
+        expect(manager.getPendingChunks().map(chunk => chunk.key)).toEqual(['3,0', '0,1'])
+    })
+
+    it('generates chunks inside the view cone before chunks behind the camera', () => {
+        manager.addChunk(-2, 0) // Ближе, но за спиной
+        manager.addChunk(4, 0) // Дальше, но в конусе обзора
+        manager.addChunk(0, 1) // Соседний с камерой - всегда первым
+        manager.addChunk(0, 4) // Сбоку, вне конуса
+
+        manager.updateView({ directionX: 1, directionZ: 0, halfAngle: Math.PI / 4 })
+        expect(manager.getPendingChunks().map(chunk => chunk.key)).toEqual(['0,1', '4,0', '-2,0', '0,4'])
+
+        // Разворот камеры пересортировывает очередь
+        manager.updateView({ directionX: -1, directionZ: 0, halfAngle: Math.PI / 4 })
+        expect(manager.getPendingChunks().map(chunk => chunk.key)).toEqual(['0,1', '-2,0', '4,0', '0,4'])
+    })
+
+    it('drops out-of-range chunks and cancels their generation', () => {
+        manager.setRenderRadius(2)
+        manager.addChunk(0, 0)
+        manager.addChunk(3, 0)
+        manager.addChunk(0, 4)
+        manager.setChunkState(0, 4, ChunkState.GENERATING, 'far')
+
+        manager.updateCenter(0, 0)
+
+        expect(manager.getChunkState(0, 0)).toBe(ChunkState.PENDING)
+        expect(manager.getChunkState(3, 0)).toBe(ChunkState.PENDING) // В пределах буфера radius + 1
+        expect(manager.getChunkState(0, 4)).toBeNull()
+        expect(manager.findChunkByGenerationId('far')).toBeNull()
+        expect(manager.getStats()).toMatchObject({ total: 2, pending: 2, generating: 0 })
+    })
+
+    it('requeues rendered chunks that cross an LOD ring', () => {
+        manager.addChunk(2, 0)
+        manager.setChunkState(2, 0, ChunkState.RENDERED)
+        expect(manager.getLodLevel(2, 0)).toBe(0)
+
+        manager.updateCenter(-1, 0)
+
+        expect(manager.getLodLevel(2, 0)).toBe(1)
+        expect(manager.getChunkState(2, 0)).toBe(ChunkState.PENDING)
+    })
+
+    it('cancels the generation of a chunk that crosses an LOD ring before requeueing it', () => {
+        const cancelled: string[] = []
+        manager = new ChunkStateManager(manual.timer, generationId => {
+            cancelled.push(generationId)
+            expect(manager.getChunkState(2, 0)).toBe(ChunkState.GENERATING) // Отмена - до возврата в очередь
+        })
+        manager.addChunk(2, 0)
+        manager.addChunk(1, 0)
+        manager.setChunkState(2, 0, ChunkState.GENERATING, 'gen-2')
+        manager.setChunkState(1, 0, ChunkState.GENERATING, 'gen-1')
+
+        manager.updateCenter(-1, 0)
+
+        // Чанк (1, 0) остался в кольце LOD 0 - его генерация продолжается
+        expect(cancelled).toEqual(['gen-2'])
+        expect(manager.getChunkState(2, 0)).toBe(ChunkState.PENDING)
+        expect(manager.getGenerationId(2, 0)).toBeNull()
+        expect(manager.findChunkByGenerationId('gen-2')).toBeNull()
+        expect(manager.getGenerationId(1, 0)).toBe('gen-1')
+    })
+
+    it('cleans up stale chunks from the injected interval and stops it on dispose', () => {
+        vi.useFakeTimers()
+        try {
+            manager.addChunk(0, 0)
+            manager.addChunk(1, 0)
+            manager.setChunkState(1, 0, ChunkState.RENDERED)
+
+            vi.advanceTimersByTime(6 * 60 * 1000)
+            manual.tick()
+
+            expect(manager.getChunkState(0, 0)).toBeNull()
+            expect(manager.getChunkState(1, 0)).toBe(ChunkState.RENDERED)
+        } finally {
+            vi.useRealTimers()
+        }
+
+        manager.dispose()
+        expect(manual.callbacks.size).toBe(0)
+    })
+})
@@ -1,4 +1,6 @@
-import { ChunkGenerationResult } from './ChunkWorker'
+import type { ChunkGenerationResult } from './ChunkGeometryGenerator'
+import { globalIntervalTimer, type IntervalTimer } from '@/utils/IntervalTimer'
+import { PriorityQueue } from '@/utils/PriorityQueue'
 
 export enum ChunkState {
     PENDING = 'pending', // Нужно сгенерировать
@@ -16,12 +18,20 @@ export interface ChunkInfo {
     generationId?: string
     geometryData?: ChunkGenerationResult
     priority: number
+    lodLevel: number // Уровень детализации, для которого чанк (пере)генерируется
     lastAccessed: number
 }
 
+// Горизонтальный конус обзора камеры: направление взгляда в плоскости XZ и половина угла
+export interface ViewCone {
+    directionX: number
+    directionZ: number
+    halfAngle: number
+}
+
 export class ChunkStateManager {
     private chunks: Map<string, ChunkInfo> = new Map()
-    private pendingChunks: Set<string> = new Set()
+    private pendingChunks: PriorityQueue<string> = new PriorityQueue() // Ключи чанков по приоритету
     private generatingChunks: Map<string, string> = new Map() // chunkKey -> generationId
     private readyChunks: Set<string> = new Set()
     private renderedChunks: Set<string> = new Set()
@@ -31,9 +41,24 @@ export class ChunkStateManager {
     private centerZ = 0
     private renderRadius = 6 // Будет обновляться из TerrainGenerator
 
-    constructor() {
+    // Горизонтальная проекция направления взгляда камеры; null - направление неизвестно
+    private viewDirection: { x: number; z: number } | null = null
+    private viewHalfAngle = Math.PI / 2
+
+    // Кольца LOD: внешние радиусы (в чанках) для уровней 0, 1, 2; дальше - последний уровень.
+    // При базовом разрешении 64 это даёт 64/32/16/8
+    private lodRingRadii = [2, 4, 6]
+
+    private timer: IntervalTimer
+    private cleanupInterval: number | null = null
+    private onGenerationCancelled: ((generationId: string) => void) | null // Отмена задачи в пуле воркеров
+
+    constructor(timer: IntervalTimer = globalIntervalTimer, onGenerationCancelled?: (generationId: string) => void) {
+        this.timer = timer
+        this.onGenerationCancelled = onGenerationCancelled ?? null
+
         // Периодически очищаем старые данные
-        setInterval(() => this.cleanup(), 30000) // каждые 30 секунд
+        this.cleanupInterval = this.timer.setInterval(() => this.cleanup(), 30000) // каждые 30 секунд
     }
 
     updateCenter(x: number, z: number): void {
@@ -41,6 +66,17 @@ export class ChunkStateManager {
         this.centerZ = z
         this.updatePriorities()
         this.cleanupOutOfRangeChunks() // Очищаем чанки вне радиуса видимости
+        this.updateLodLevels() // Перезапрашиваем чанки, пересёкшие границу кольца LOD
+    }
+
+    // Чанки в горизонтальном конусе обзора генерируются раньше чанков за спиной камеры
+    updateView(view: ViewCone): void {
+        const { directionX, directionZ } = view
+        const length = Math.sqrt(directionX * directionX + directionZ * directionZ)
+        // Взгляд строго вниз не задаёт направления - приоритет только по расстоянию
+        this.viewDirection = length > 1e-6 ? { x: directionX / length, z: directionZ / length } : null
+        this.viewHalfAngle = view.halfAngle
+        this.updatePriorities()
     }
 
     addChunk(x: number, z: number, state: ChunkState = ChunkState.PENDING): void {
@@ -57,6 +93,7 @@ export class ChunkStateManager {
             z,
             state,
             priority,
+            lodLevel: this.calculateLodLevel(x, z),
             lastAccessed: Date.now(),
         }
 
@@ -112,10 +149,10 @@ export class ChunkStateManager {
 
     // Получение чанков по состояниям
     getPendingChunks(): ChunkInfo[] {
-        return Array.from(this.pendingChunks)
+        return this.pendingChunks
+            .toSortedArray()
             .map(key => this.chunks.get(key)!)
             .filter(chunk => chunk)
-            .sort((a, b) => b.priority - a.priority) // Сортируем по приоритету
     }
 
     getGeneratingChunks(): ChunkInfo[] {
@@ -197,7 +234,7 @@ export class ChunkStateManager {
         if (oldState) {
             switch (oldState) {
                 case ChunkState.PENDING:
-                    this.pendingChunks.delete(key)
+                    this.pendingChunks.remove(key)
                     break
                 case ChunkState.GENERATING:
                     this.generatingChunks.delete(key)
@@ -215,7 +252,7 @@ export class ChunkStateManager {
         if (newState) {
             switch (newState) {
                 case ChunkState.PENDING:
-                    this.pendingChunks.add(key)
+                    this.pendingChunks.push(key, key, this.chunks.get(key)?.priority ?? 0)
                     break
                 case ChunkState.GENERATING:
                     // generationId добавляется отдельно
@@ -234,20 +271,69 @@ export class ChunkStateManager {
         return `${x},${z}`
     }
 
-    private calculatePriority(x: number, z: number): number {
+    calculatePriority(x: number, z: number): number {
+        const dx = x - this.centerX
+        const dz = z - this.centerZ
+        const distance = Math.sqrt(dx * dx + dz * dz)
+
+        // Чем ближе к центру, тем выше приоритет; всё в конусе обзора - раньше всего за спиной
+        const distancePriority = Math.max(0, 1000 - distance * 10)
+        return this.isInView(dx, dz, distance) ? 1000 + distancePriority : distancePriority
+    }
+
+    private isInView(dx: number, dz: number, distance: number): boolean {
+        // Чанк под камерой и соседние всегда нужны первыми
+        if (!this.viewDirection || distance <= 1.5) return true
+
+        const cos = (dx * this.viewDirection.x + dz * this.viewDirection.z) / distance
+        const angle = Math.acos(Math.max(-1, Math.min(1, cos)))
+        // Половина диагонали чанка расширяет конус, чтобы не отсекать чанки на его границе
+        return angle <= this.viewHalfAngle + Math.atan(Math.SQRT1_2 / distance)
+    }
+
+    private calculateLodLevel(x: number, z: number): number {
         const dx = x - this.centerX
         const dz = z - this.centerZ
         const distance = Math.sqrt(dx * dx + dz * dz)
 
-        // Чем ближе к центру, тем выше приоритет
-        return Math.max(0, 1000 - distance * 10)
+        const ring = this.lodRingRadii.findIndex(radius => distance <= radius)
+        return ring === -1 ? this.lodRingRadii.length : ring
+    }
+
+    private updateLodLevels(): void {
+        for (const chunk of this.chunks.values()) {
+            const lodLevel = this.calculateLodLevel(chunk.x, chunk.z)
+            if (lodLevel === chunk.lodLevel) continue
+
+            chunk.lodLevel = lodLevel
+
+            // Отрендеренный меш остаётся в сцене до готовности замены на новом LOD.
+            // Генерация на старом LOD отменяется в пуле, чтобы не занимать воркер ненужным результатом
+            if (chunk.state === ChunkState.GENERATING && chunk.generationId) {
+                this.onGenerationCancelled?.(chunk.generationId)
+                chunk.generationId = undefined
+            }
+            if (chunk.state !== ChunkState.PENDING && chunk.state !== ChunkState.REMOVING) {
+                chunk.geometryData = undefined
+                this.setChunkState(chunk.x, chunk.z, ChunkState.PENDING)
+            }
+        }
+    }
+
+    getLodLevel(x: number, z: number): number {
+        return this.chunks.get(this.getChunkKey(x, z))?.lodLevel ?? this.calculateLodLevel(x, z)
+    }
+
+    getMaxLodLevel(): number {
+        return this.lodRingRadii.length
     }
 
     private updatePriorities(): void {
-        // Обновляем приоритеты всех чанков на основе новой позиции центра
+        // Обновляем приоритеты всех чанков на основе новой позиции центра и направления взгляда
         for (const chunk of this.chunks.values()) {
             chunk.priority = this.calculatePriority(chunk.x, chunk.z)
         }
+        this.pendingChunks.reprioritize(key => this.chunks.get(key)?.priority ?? 0)
     }
 
     private cleanupOutOfRangeChunks(): void {
@@ -305,6 +391,23 @@ export class ChunkStateManager {
         }
     }
 
+    // Полный сброс состояний (например, при смене seed мира)
+    clear(): void {
+        this.chunks.clear()
+        this.pendingChunks.clear()
+        this.generatingChunks.clear()
+        this.readyChunks.clear()
+        this.renderedChunks.clear()
+    }
+
+    dispose(): void {
+        if (this.cleanupInterval !== null) {
+            this.timer.clearInterval(this.cleanupInterval)
+            this.cleanupInterval = null
+        }
+        this.clear()
+    }
+
     // Публичный метод для установки радиуса рендеринга
     setRenderRadius(radius: number): void {
         this.renderRadius = radius
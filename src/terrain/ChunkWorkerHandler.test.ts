@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { createChunkWorkerHandler } from './ChunkWorkerHandler'
+import { getTerrainHeightConfigKey } from './TerrainHeightFunction'
+import { createWorkerRequest, type ChunkTaskRequest, type ChunkWorkerResponse } from './ChunkWorkerProtocol'
+
+const task: ChunkTaskRequest = { id: 'chunk', chunkX: 0, chunkZ: 0, chunkSize: 100, chunkResolution: 8, lodLevel: 0 }
+const heightGeneratorConfig = { seed: 1 }
+
+// Обработчик с ручным планировщиком: кванты генерации запускаются через flush.
+// С sliceDuration = 0 каждый квант - ровно один шаг генерации
+function createHarness(sliceDuration?: number) {
+    const responses: Array<{ response: ChunkWorkerResponse; transfer: Transferable[] }> = []
+    const scheduled: Array<() => void> = []
+    const handle = createChunkWorkerHandler((response, transfer) => responses.push({ response, transfer }), {
+        schedule: callback => scheduled.push(callback),
+        sliceDuration,
+    })
+    const flush = () => {
+        while (scheduled.length > 0) scheduled.shift()!()
+    }
+    const runSlice = () => scheduled.shift()?.()
+    return { responses, handle, flush, runSlice }
+}
+
+describe('createChunkWorkerHandler', () => {
+    it('generates configured chunks and lists every result buffer for transfer', () => {
+        const { responses, handle, flush } = createHarness()
+        handle(createWorkerRequest({ type: 'configure', heightGeneratorConfig }))
+        handle(createWorkerRequest({ type: 'generate', task }))
+        flush()
+
+        expect(responses[0].response).toMatchObject({
+            type: 'configured',
+            configKey: getTerrainHeightConfigKey(heightGeneratorConfig),
+        })
+        const { response, transfer } = responses[1]
+        if (response.type !== 'result') throw new Error(`Unexpected response ${response.type}`)
+
+        const { result } = response
+        expect(result.success).toBe(true)
+        const arrays = [
+            result.vertices,
+            result.normals,
+            result.indices,
+            result.colors,
+            result.biomeWeights,
+            result.sediment,
+            result.flow,
+        ]
+        expect(transfer).toHaveLength(arrays.length)
+        for (const array of arrays) {
+            expect(transfer).toContain(array.buffer)
+        }
+    })
+
+    it('skips a scheduled generation cancelled before it started', () => {
+        const { responses, handle, flush } = createHarness()
+        handle(createWorkerRequest({ type: 'configure', heightGeneratorConfig }))
+        handle(createWorkerRequest({ type: 'generate', task }))
+        handle(createWorkerRequest({ type: 'cancel', id: 'chunk' }))
+        flush()
+
+        expect(responses.map(({ response }) => response.type)).toEqual(['configured', 'cancelled'])
+    })
+
+    it('stops a generation that is already running when cancelled between slices', () => {
+        const { responses, handle, flush, runSlice } = createHarness(0)
+        handle(createWorkerRequest({ type: 'configure', heightGeneratorConfig }))
+        handle(createWorkerRequest({ type: 'generate', task }))
+        runSlice()
+        runSlice()
+        handle(createWorkerRequest({ type: 'cancel', id: 'chunk' }))
+        flush()
+
+        expect(responses.map(({ response }) => response.type)).toEqual(['configured', 'cancelled'])
+    })
+
+    it('answers pings and rejects unconfigured or foreign-version requests', () => {
+        const { responses, handle, flush } = createHarness()
+        handle(createWorkerRequest({ type: 'ping', id: 7 }))
+        handle({ version: 99, type: 'generate', task })
+        handle(createWorkerRequest({ type: 'generate', task }))
+        flush()
+
+        expect(responses.map(({ response }) => response)).toMatchObject([
+            { type: 'pong', id: 7 },
+            { type: 'error', id: 'chunk', error: expect.stringContaining('version 99') },
+            { type: 'error', id: 'chunk', error: 'Worker is not configured' },
+        ])
+    })
+})
@@ -0,0 +1,94 @@
+// Обработчик сообщений ChunkWorker без привязки к self: сам воркер только подключает его к postMessage,
+// а тесты вызывают напрямую
+import { createChunkGeometryTask, type ChunkGenerationResult } from './ChunkGeometryGenerator'
+import {
+    CHUNK_WORKER_PROTOCOL_VERSION,
+    createWorkerResponse,
+    getResultTransferables,
+    type ChunkWorkerRequest,
+    type ChunkWorkerResponse,
+    type HeightGeneratorConfig,
+} from './ChunkWorkerProtocol'
+import { getTerrainHeightConfigKey } from './TerrainHeightFunction'
+
+export type PostWorkerResponse = (response: ChunkWorkerResponse, transfer: Transferable[]) => void
+
+export interface ChunkWorkerHandlerOptions {
+    schedule?: (callback: () => void) => void // Запуск следующего кванта после обработки входящих сообщений
+    now?: () => number
+    sliceDuration?: number // Длительность кванта генерации, мс
+}
+
+// Генерация идёт квантами: между ними воркер принимает сообщения, и cancel останавливает
+// даже начатую генерацию - её результат не считается до конца и не отправляется
+export function createChunkWorkerHandler(
+    post: PostWorkerResponse,
+    options: ChunkWorkerHandlerOptions = {}
+): (message: ChunkWorkerRequest) => void {
+    const schedule = options.schedule ?? (callback => setTimeout(callback, 0))
+    const now = options.now ?? (() => performance.now())
+    const sliceDuration = options.sliceDuration ?? 8
+
+    let heightGeneratorConfig: HeightGeneratorConfig | null = null
+    const activeTasks: Map<string, Generator<void, ChunkGenerationResult, void>> = new Map()
+
+    const runSlice = (id: string): void => {
+        const task = activeTasks.get(id)
+        if (!task) return // Отменена
+
+        const deadline = now() + sliceDuration
+        let step = task.next()
+        while (!step.done && now() < deadline) {
+            step = task.next()
+        }
+
+        if (!step.done) {
+            schedule(() => runSlice(id))
+            return
+        }
+
+        activeTasks.delete(id)
+        post(createWorkerResponse({ type: 'result', result: step.value }), getResultTransferables(step.value))
+    }
+
+    return message => {
+        if (message?.version !== CHUNK_WORKER_PROTOCOL_VERSION) {
+            const id = message?.type === 'generate' ? message.task?.id : undefined
+            const error = `Unsupported protocol version ${message?.version}, expected ${CHUNK_WORKER_PROTOCOL_VERSION}`
+            post(createWorkerResponse({ type: 'error', id, error }), [])
+            return
+        }
+
+        switch (message.type) {
+            case 'configure':
+                heightGeneratorConfig = message.heightGeneratorConfig
+                post(
+                    createWorkerResponse({
+                        type: 'configured',
+                        configKey: getTerrainHeightConfigKey(heightGeneratorConfig),
+                    }),
+                    []
+                )
+                break
+            case 'generate':
+                if (!heightGeneratorConfig) {
+                    post(
+                        createWorkerResponse({ type: 'error', id: message.task.id, error: 'Worker is not configured' }),
+                        []
+                    )
+                    break
+                }
+                activeTasks.set(message.task.id, createChunkGeometryTask({ ...message.task, heightGeneratorConfig }))
+                schedule(() => runSlice(message.task.id))
+                break
+            case 'cancel':
+                if (activeTasks.delete(message.id)) {
+                    post(createWorkerResponse({ type: 'cancelled', id: message.id }), [])
+                }
+                break
+            case 'ping':
+                post(createWorkerResponse({ type: 'pong', id: message.id }), [])
+                break
+        }
+    }
+}
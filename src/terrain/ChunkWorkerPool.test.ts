@@ -0,0 +1,407 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChunkWorkerPool } from './ChunkWorkerPool'
+import type { IntervalTimer } from '@/utils/IntervalTimer'
+import type { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkGeometryGenerator'
+import {
+    CHUNK_WORKER_PROTOCOL_VERSION,
+    createWorkerResponse,
+    type ChunkTaskRequest,
+    type ChunkWorkerRequest,
+    type ChunkWorkerResponse,
+} from './ChunkWorkerProtocol'
+
+// Воркер без потока: сообщения копятся в received, ответы отправляются вручную
+class FakeWorker {
+    onmessage: ((event: MessageEvent<ChunkWorkerResponse>) => void) | null = null
+    onerror: ((event: ErrorEvent) => void) | null = null
+    onmessageerror: ((event: MessageEvent) => void) | null = null
+    received: ChunkWorkerRequest[] = []
+    terminated = false
+
+    get tasks(): ChunkTaskRequest[] {
+        return this.received.flatMap(message => (message.type === 'generate' ? [message.task] : []))
+    }
+
+    postMessage(message: ChunkWorkerRequest): void {
+        this.received.push(message)
+    }
+
+    terminate(): void {
+        this.terminated = true
+    }
+
+    send(response: ChunkWorkerResponse): void {
+        this.onmessage?.({ data: response } as MessageEvent<ChunkWorkerResponse>)
+    }
+
+    crash(): void {
+        this.onerror?.({ message: 'crash' } as ErrorEvent)
+    }
+
+    respond(success = true): void {
+        const task = this.tasks[this.tasks.length - 1]
+        const result = {
+            id: task.id,
+            chunkX: task.chunkX,
+            chunkZ: task.chunkZ,
+            success,
+            error: success ? undefined : 'boom',
+        } as ChunkGenerationResult
+        this.send(createWorkerResponse({ type: 'result', result }))
+    }
+}
+
+function createRequest(chunkX: number, chunkZ = 0): ChunkGenerationRequest {
+    return {
+        id: `task-${chunkX},${chunkZ}`,
+        chunkX,
+        chunkZ,
+        chunkSize: 100,
+        chunkResolution: 8,
+        lodLevel: 0,
+        heightGeneratorConfig: { seed: 1 },
+    }
+}
+
+describe('ChunkWorkerPool', () => {
+    let workers: FakeWorker[]
+    let pool: ChunkWorkerPool
+    let clock: number
+    let watchdog: () => void
+
+    // Сдвигает часы и запускает проверку сторожа
+    const advance = (ms: number) => {
+        clock += ms
+        watchdog()
+    }
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        clock = 0
+        vi.spyOn(performance, 'now').mockImplementation(() => clock)
+        const timer: IntervalTimer = {
+            setInterval: callback => {
+                watchdog = callback
+                return 1
+            },
+            clearInterval: () => {},
+        }
+
+        workers = []
+        pool = new ChunkWorkerPool({
+            maxWorkers: 2,
+            workerScript: './ChunkWorker.ts',
+            createWorker: () => {
+                const worker = new FakeWorker()
+                workers.push(worker)
+                return worker as unknown as Worker
+            },
+            timer,
+            taskTimeout: 1000,
+            maxRetries: 1,
+            retryBaseDelay: 100,
+        })
+        await pool.initialize()
+    })
+
+    it('dispatches each queued task to exactly one free worker', async () => {
+        const first = pool.generateChunk(createRequest(0))
+        pool.generateChunk(createRequest(1))
+        pool.generateChunk(createRequest(2))
+
+        const dispatched = workers.flatMap(worker => worker.tasks.map(request => request.id))
+        expect(dispatched.sort()).toEqual(['task-0,0', 'task-1,0'])
+        expect(pool.getStats()).toMatchObject({
+            totalWorkers: 2,
+            availableWorkers: 0,
+            busyWorkers: 2,
+            queuedTasks: 1,
+            inFlightTasks: 2,
+        })
+
+        const firstWorker = workers.find(worker => worker.tasks[0].id === 'task-0,0')!
+        firstWorker.respond()
+
+        await expect(first).resolves.toMatchObject({ id: 'task-0,0', success: true })
+        expect(firstWorker.tasks.map(request => request.id)).toEqual(['task-0,0', 'task-2,0'])
+        expect(pool.getStats().queuedTasks).toBe(0)
+    })
+
+    it('dispatches queued tasks by priority and re-sorts them on demand', async () => {
+        pool.generateChunk(createRequest(0), 10)
+        pool.generateChunk(createRequest(1), 10)
+        for (const [chunkX, priority] of [
+            [5, 1],
+            [6, 3],
+            [7, 2],
+        ]) {
+            pool.generateChunk(createRequest(chunkX), priority)
+        }
+
+        expect(pool.getStats().nextTasks.map(task => task.chunkX)).toEqual([6, 7, 5])
+
+        // Камера повернулась: теперь важнее чанк 5
+        pool.reprioritize(request => (request.chunkX === 5 ? 100 : 0))
+        expect(pool.getStats().nextTasks.map(task => [task.chunkX, task.priority])).toEqual([
+            [5, 100],
+            [6, 0],
+            [7, 0],
+        ])
+
+        workers[0].respond()
+        workers[1].respond()
+        expect(workers.map(worker => worker.tasks[1].chunkX).sort()).toEqual([5, 6])
+        expect(pool.getStats()).toMatchObject({ queuedTasks: 1, inFlightTasks: 2, dispatchedTasks: 4 })
+    })
+
+    it('rejects tasks whose worker reports a failure', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        workers.find(worker => worker.tasks.length > 0)!.respond(false)
+
+        await expect(task).rejects.toThrow('boom')
+        expect(pool.getStats().availableWorkers).toBe(2)
+    })
+
+    it('cancels queued tasks by id, by range and all at once', async () => {
+        pool.generateChunk(createRequest(0)).catch(() => {})
+        pool.generateChunk(createRequest(1)).catch(() => {})
+        const queued = pool.generateChunk(createRequest(2))
+        const far = pool.generateChunk(createRequest(10))
+        const rest = [pool.generateChunk(createRequest(3)), pool.generateChunk(createRequest(4))]
+
+        expect(pool.cancelTask('task-2,0')).toBe(true)
+        await expect(queued).rejects.toThrow('cancelled')
+        expect(pool.cancelTask('missing')).toBe(false)
+
+        expect(pool.cancelOutOfRangeTasks(0, 0, 5)).toBe(1)
+        await expect(far).rejects.toThrow('out of range')
+
+        expect(pool.cancelAllTasks('reset')).toBe(4)
+        for (const task of rest) {
+            await expect(task).rejects.toThrow('reset')
+        }
+        expect(pool.getStats().queuedTasks).toBe(0)
+    })
+
+    it('configures each worker once per height config and sends tasks without it', () => {
+        pool.generateChunk(createRequest(0))
+        pool.generateChunk(createRequest(1))
+        workers[0].respond()
+        pool.generateChunk(createRequest(3))
+        workers[0].respond()
+
+        const otherSeed = createRequest(2)
+        otherSeed.heightGeneratorConfig = { ...otherSeed.heightGeneratorConfig, seed: 2 }
+        pool.generateChunk(otherSeed)
+
+        const configured = workers.flatMap(candidate =>
+            candidate.received.flatMap(message =>
+                message.type === 'configure' ? [message.heightGeneratorConfig.seed] : []
+            )
+        )
+        expect(configured.sort()).toEqual([1, 1, 2])
+        expect(workers.flatMap(candidate => candidate.tasks).every(task => !('heightGeneratorConfig' in task))).toBe(
+            true
+        )
+        expect(
+            workers
+                .flatMap(candidate => candidate.received)
+                .every(message => message.version === CHUNK_WORKER_PROTOCOL_VERSION)
+        ).toBe(true)
+    })
+
+    it('forwards cancellation of in-flight tasks and frees the worker on acknowledgement', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        const worker = workers.find(candidate => candidate.tasks.length > 0)!
+
+        expect(pool.cancelTask('task-0,0')).toBe(true)
+        await expect(task).rejects.toThrow('cancelled')
+        expect(worker.received[worker.received.length - 1]).toMatchObject({ type: 'cancel', id: 'task-0,0' })
+        expect(pool.getStats()).toMatchObject({ busyWorkers: 1, inFlightTasks: 0 })
+
+        worker.send(createWorkerResponse({ type: 'cancelled', id: 'task-0,0' }))
+        expect(pool.getStats()).toMatchObject({ busyWorkers: 0, availableWorkers: 2 })
+    })
+
+    it('measures worker round trips with ping', async () => {
+        const latencies = pool.ping()
+        for (const worker of workers) {
+            const ping = worker.received.find(message => message.type === 'ping')!
+            if (ping.type === 'ping') worker.send(createWorkerResponse({ type: 'pong', id: ping.id }))
+        }
+
+        expect(await latencies).toHaveLength(2)
+    })
+
+    it('rejects the task of a worker speaking another protocol version', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        const worker = workers.find(candidate => candidate.tasks.length > 0)!
+        worker.send({ version: 0, type: 'pong', id: 0 })
+
+        await expect(task).rejects.toThrow('version mismatch')
+    })
+
+    it('restarts only the crashed worker and retries its task after a backoff', async () => {
+        const crashed = pool.generateChunk(createRequest(0))
+        const survivor = pool.generateChunk(createRequest(1))
+        const [first, second] = workers
+        const crashing = first.tasks[0].id === 'task-0,0' ? first : second
+        const healthy = crashing === first ? second : first
+
+        crashing.crash()
+        expect(crashing.terminated).toBe(true)
+        expect(healthy.terminated).toBe(false)
+        expect(workers).toHaveLength(3)
+        expect(pool.getStats()).toMatchObject({ totalWorkers: 2, inFlightTasks: 1, retryingTasks: 1 })
+
+        // До истечения задержки задача не отправляется
+        advance(50)
+        expect(workers[2].tasks).toEqual([])
+        advance(60)
+        expect(workers[2].tasks.map(task => task.id)).toEqual(['task-0,0'])
+
+        workers[2].respond()
+        healthy.respond()
+        await expect(crashed).resolves.toMatchObject({ id: 'task-0,0' })
+        await expect(survivor).resolves.toMatchObject({ id: 'task-1,0' })
+        expect(pool.getHealthReport()).toMatchObject({ tasksCompleted: 2, tasksRetried: 1, workerRestarts: 1 })
+    })
+
+    it('times out stuck tasks, cancels them on the worker and fails after the last retry', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        const stuck = workers.find(worker => worker.tasks.length > 0)!
+
+        advance(1001)
+        expect(stuck.received[stuck.received.length - 1]).toMatchObject({ type: 'cancel', id: 'task-0,0' })
+        stuck.send(createWorkerResponse({ type: 'cancelled', id: 'task-0,0' }))
+
+        advance(100)
+        const retried = workers.find(worker => worker.tasks.length > 0 && worker !== stuck) ?? stuck
+        expect(retried.tasks[retried.tasks.length - 1].id).toBe('task-0,0')
+
+        advance(1001)
+        await expect(task).rejects.toThrow('failed after 2 attempts: timed out after 1000ms')
+        expect(pool.getHealthReport()).toMatchObject({ tasksTimedOut: 2, tasksRetried: 1, tasksFailed: 1 })
+    })
+
+    it('ignores a late answer from the worker of a timed out attempt', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        const stale = workers.find(worker => worker.tasks.length > 0)!
+        const retry = workers.find(worker => worker !== stale)!
+
+        // Таймаут: первый воркер ещё не подтвердил cancel, повтор уходит второму
+        advance(1001)
+        advance(100)
+        expect(retry.tasks.map(request => request.id)).toEqual(['task-0,0'])
+
+        stale.send(createWorkerResponse({ type: 'cancelled', id: 'task-0,0' }))
+        stale.respond(false)
+        expect(pool.getStats()).toMatchObject({ inFlightTasks: 1, busyWorkers: 1, availableWorkers: 1 })
+
+        clock += 30
+        retry.respond()
+        await expect(task).resolves.toMatchObject({ id: 'task-0,0', success: true })
+        expect(pool.getHealthReport()).toMatchObject({ tasksCompleted: 1, tasksFailed: 0, averageLatency: 30 })
+    })
+
+    it('rejects pings of restarted workers and of a disposed pool', async () => {
+        const restarted = pool.ping()
+        workers[0].crash()
+        await expect(restarted).rejects.toThrow('Worker restarted before answering ping: worker crashed')
+
+        const disposed = pool.ping()
+        pool.dispose()
+        await expect(disposed).rejects.toThrow('Worker pool disposed')
+    })
+
+    it('restarts a worker that never acknowledges a cancellation', () => {
+        pool.generateChunk(createRequest(0)).catch(() => {})
+        const hung = workers.find(worker => worker.tasks.length > 0)!
+        pool.cancelTask('task-0,0')
+
+        advance(1500)
+        expect(hung.terminated).toBe(false)
+        advance(600)
+        expect(hung.terminated).toBe(true)
+        expect(pool.getStats()).toMatchObject({ totalWorkers: 2, availableWorkers: 2, busyWorkers: 0 })
+    })
+
+    it('stops restarting workers that fail on load and reports the pool unhealthy', async () => {
+        let failingWatchdog = () => {}
+        const timer: IntervalTimer = {
+            setInterval: callback => {
+                failingWatchdog = callback
+                return 1
+            },
+            clearInterval: () => {},
+        }
+        const onUnhealthy = vi.fn()
+        let created = 0
+        const failing = new ChunkWorkerPool({
+            maxWorkers: 2,
+            workerScript: './ChunkWorker.ts',
+            // Скрипт воркера не загружается: каждый созданный воркер сразу сообщает об ошибке
+            createWorker: () => {
+                const worker = new FakeWorker()
+                created++
+                queueMicrotask(() => worker.crash())
+                return worker as unknown as Worker
+            },
+            timer,
+            maxRetries: 1,
+            retryBaseDelay: 100,
+            maxWorkerRestarts: 2,
+            restartBaseDelay: 100,
+            onUnhealthy,
+        })
+        const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+        await failing.initialize()
+        const task = failing.generateChunk(createRequest(0))
+        task.catch(() => {})
+
+        // Первый перезапуск - сразу, второй - после задержки
+        await flush()
+        expect(created).toBe(4)
+        clock += 50
+        failingWatchdog()
+        expect(created).toBe(4)
+        clock += 50
+        failingWatchdog()
+        expect(created).toBe(6)
+
+        await flush()
+        expect(onUnhealthy).toHaveBeenCalledTimes(1)
+        expect(onUnhealthy.mock.calls[0][0]).toContain('all workers failed after 2 restarts')
+        await expect(task).rejects.toThrow()
+        await expect(failing.generateChunk(createRequest(1))).rejects.toThrow('Worker pool is unhealthy')
+        expect(failing.getHealthReport()).toMatchObject({ healthy: false, workerRestarts: 4 })
+        expect(failing.getStats().totalWorkers).toBe(0)
+
+        clock += 10000
+        failingWatchdog()
+        expect(created).toBe(6)
+    })
+
+    it('reports average latency of completed tasks', async () => {
+        const task = pool.generateChunk(createRequest(0))
+        clock += 40
+        workers.find(worker => worker.tasks.length > 0)!.respond()
+        await task
+
+        expect(pool.getHealthReport()).toMatchObject({ tasksCompleted: 1, averageLatency: 40 })
+    })
+
+    it('terminates workers on dispose', () => {
+        pool.dispose()
+        expect(workers.every(worker => worker.terminated)).toBe(true)
+        expect(pool.getStats().totalWorkers).toBe(0)
+    })
+
+    it('requires Worker support when no factory is injected', async () => {
+        const browserPool = new ChunkWorkerPool({ maxWorkers: 1, workerScript: './ChunkWorker.ts' })
+        await expect(browserPool.initialize()).rejects.toThrow('Web Workers not supported')
+    })
+})
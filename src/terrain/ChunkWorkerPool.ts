@@ -1,30 +1,117 @@
-import { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkWorker'
+import type { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkGeometryGenerator'
+import { PriorityQueue } from '@/utils/PriorityQueue'
+import { globalIntervalTimer, type IntervalTimer } from '@/utils/IntervalTimer'
+import { CHUNK_WORKER_PROTOCOL_VERSION, createWorkerRequest, type ChunkWorkerResponse } from './ChunkWorkerProtocol'
+import { getTerrainHeightConfigKey } from './TerrainHeightFunction'
 
 export interface WorkerPoolConfig {
     maxWorkers: number
     workerScript: string
+    createWorker?: () => Worker // Фабрика воркеров; по умолчанию - модульный ChunkWorker.ts
+    timer?: IntervalTimer // Сторож таймаутов и повторов
+    taskTimeout?: number // Сколько задача может выполняться в воркере, мс
+    maxRetries?: number // Повторы после падения воркера или таймаута
+    retryBaseDelay?: number // Задержка первого повтора, мс; каждый следующий - вдвое дольше
+    maxWorkerRestarts?: number // Перезапуски воркера одного слота подряд, после них слот закрывается
+    restartBaseDelay?: number // Задержка второго перезапуска подряд, мс (первый - сразу); дальше - вдвое дольше
+    onUnhealthy?: (reason: string) => void // Все слоты закрыты - задачи больше не принимаются
+}
+
+interface WorkerTask {
+    request: ChunkGenerationRequest
+    resolve: (result: ChunkGenerationResult) => void
+    reject: (error: Error) => void
+    enqueuedAt: number
+    priority: number
+    attempts: number // Сколько раз задача отправлялась воркеру
+    dispatchedAt: number
+    worker: Worker | null // Воркер последней попытки; ответы воркеров прежних попыток устарели
+}
+
+interface PendingPing {
+    worker: Worker
+    resolve: (latency: number) => void
+    reject: (error: Error) => void
+}
+
+interface BusyWorker {
+    taskId: string // Задача может быть уже отменена - тогда воркер ждёт подтверждения cancel
+    since: number
+}
+
+// Счётчики с момента создания пула
+export interface WorkerPoolHealth {
+    tasksCompleted: number
+    tasksFailed: number
+    tasksTimedOut: number
+    tasksRetried: number
+    tasksCancelled: number
+    workerRestarts: number
+    averageLatency: number // От отправки воркеру до результата, мс
+    healthy: boolean // false - воркеры падают при каждом запуске, чанки строятся на CPU
+}
+
+// Элемент очереди в статистике - в порядке, в котором задачи уйдут воркерам
+export interface QueuedTaskStats {
+    id: string
+    chunkX: number
+    chunkZ: number
+    priority: number
 }
 
 export class ChunkWorkerPool {
     private workers: Worker[] = []
     private availableWorkers: Worker[] = []
-    private busyWorkers: Set<Worker> = new Set()
-    private taskQueue: Array<{
-        request: ChunkGenerationRequest
-        resolve: (result: ChunkGenerationResult) => void
-        reject: (error: Error) => void
-    }> = []
+    private busyWorkers: Map<Worker, BusyWorker> = new Map()
+    private workerConfigKeys: Map<Worker, string> = new Map() // Последняя отправленная воркеру конфигурация высот
+    private workerSlots: Map<Worker, number> = new Map() // Слот пула, который занимает воркер
+    private slotRestarts: number[] = [] // Перезапуски слота подряд - без успешной задачи между ними
+    private pendingRestarts: Map<number, number> = new Map() // Слот -> момент перезапуска его воркера
+    private unhealthyReason: string | null = null
+    private pendingPings: Map<number, PendingPing> = new Map()
+    private nextPingId = 0
+    private taskQueue: PriorityQueue<WorkerTask> = new PriorityQueue() // Ещё не отправленные задачи
+    private inFlightTasks: Map<string, WorkerTask> = new Map() // Отправленные воркерам, ждут ответа
+    private retryTasks: Map<string, { task: WorkerTask; retryAt: number }> = new Map() // Ждут повтора после сбоя
+    private dispatchedTasks = 0
+    private totalQueueWait = 0 // Суммарное время ожидания в очереди отправленных задач, мс
     private maxWorkers: number
     private workerScript: string
+    private workerFactory: (() => Worker) | null
+    private timer: IntervalTimer
+    private watchdogInterval: number | null = null
+    private taskTimeout: number
+    private maxRetries: number
+    private retryBaseDelay: number
+    private maxWorkerRestarts: number
+    private restartBaseDelay: number
+    private onUnhealthy: ((reason: string) => void) | null
+    private health = {
+        tasksCompleted: 0,
+        tasksFailed: 0,
+        tasksTimedOut: 0,
+        tasksRetried: 0,
+        tasksCancelled: 0,
+        workerRestarts: 0,
+        totalLatency: 0,
+    }
 
     constructor(config: WorkerPoolConfig) {
         this.maxWorkers = config.maxWorkers
         this.workerScript = config.workerScript
+        this.workerFactory = config.createWorker ?? null
+        this.timer = config.timer ?? globalIntervalTimer
+        this.taskTimeout = config.taskTimeout ?? 15000
+        this.maxRetries = config.maxRetries ?? 2
+        this.retryBaseDelay = config.retryBaseDelay ?? 500
+        this.maxWorkerRestarts = config.maxWorkerRestarts ?? 3
+        this.restartBaseDelay = config.restartBaseDelay ?? 1000
+        this.onUnhealthy = config.onUnhealthy ?? null
     }
 
     async initialize(): Promise<void> {
         // Проверяем поддержку Web Workers
-        if (typeof Worker === 'undefined') {
+        if (!this.workerFactory && typeof Worker === 'undefined') {
             throw new Error('Web Workers not supported in this environment')
         }
 
@@ -33,9 +120,7 @@ export class ChunkWorkerPool {
         // Создаем пул воркеров
         for (let i = 0; i < this.maxWorkers; i++) {
             try {
-                const worker = this.createWorker()
-                this.workers.push(worker)
-                this.availableWorkers.push(worker)
+                this.addWorker(this.createWorker(), i)
                 console.log(`✅ Worker ${i + 1}/${this.maxWorkers} created`)
             } catch (error) {
                 console.error(`❌ Failed to create worker ${i + 1}:`, error)
@@ -43,17 +128,24 @@ export class ChunkWorkerPool {
             }
         }
 
+        this.slotRestarts = new Array(this.maxWorkers).fill(0)
+
+        // Сторож проверяет таймауты и запускает повторы
+        this.watchdogInterval = this.timer.setInterval(() => this.checkTasks(), 250)
+
         console.log(`🔧 Initialized chunk worker pool with ${this.maxWorkers} workers`)
     }
 
     private createWorker(): Worker {
         try {
             console.log('🔄 Creating worker with script:', this.workerScript)
-            const worker = new Worker(new URL('./ChunkWorker.ts', import.meta.url), {
-                type: 'module',
-            })
+            const worker = this.workerFactory
+                ? this.workerFactory()
+                : new Worker(new URL('./ChunkWorker.ts', import.meta.url), {
+                      type: 'module',
+                  })
 
-            worker.onmessage = (e: MessageEvent<ChunkGenerationResult>) => {
+            worker.onmessage = (e: MessageEvent<ChunkWorkerResponse>) => {
                 this.handleWorkerMessage(worker, e.data)
             }
 
@@ -74,21 +166,78 @@ export class ChunkWorkerPool {
         }
     }
 
-    private handleWorkerMessage(worker: Worker, result: ChunkGenerationResult): void {
-        // Освобождаем воркер
-        this.busyWorkers.delete(worker)
+    private addWorker(worker: Worker, slot: number): void {
+        this.workers.push(worker)
         this.availableWorkers.push(worker)
+        this.workerSlots.set(worker, slot)
+    }
+
+    private handleWorkerMessage(worker: Worker, response: ChunkWorkerResponse): void {
+        if (response.version !== CHUNK_WORKER_PROTOCOL_VERSION) {
+            console.error(
+                `❌ Worker protocol version ${response.version} does not match pool version ${CHUNK_WORKER_PROTOCOL_VERSION}`
+            )
+            this.finishWorkerTask(worker, new Error('Worker protocol version mismatch'))
+            return
+        }
+
+        switch (response.type) {
+            case 'result':
+                if (response.result.success) {
+                    this.finishWorkerTask(worker, response.result)
+                } else {
+                    this.finishWorkerTask(worker, new Error(response.result.error || 'Chunk generation failed'))
+                }
+                break
+            case 'cancelled':
+                // Задача уже отклонена при отмене - воркер лишь подтвердил, что остановился
+                this.finishWorkerTask(worker, new Error(`Task ${response.id} was cancelled`))
+                break
+            case 'error':
+                console.error('❌ Worker reported an error:', response.error)
+                if (response.id !== undefined) {
+                    this.finishWorkerTask(worker, new Error(response.error))
+                }
+                break
+            case 'pong': {
+                const ping = this.pendingPings.get(response.id)
+                this.pendingPings.delete(response.id)
+                ping?.resolve(performance.now())
+                break
+            }
+            case 'configured':
+                break
+        }
+    }
+
+    // Задача, которую выполняет воркер. После таймаута задача повторяется под тем же id на другом воркере,
+    // а прежний воркер до подтверждения cancel остаётся занятым ею - его ответ к повтору не относится
+    private getWorkerTask(worker: Worker, busy: BusyWorker): WorkerTask | undefined {
+        const task = this.inFlightTasks.get(busy.taskId)
+        return task?.worker === worker ? task : undefined
+    }
 
-        // Находим соответствующую задачу и разрешаем промис
-        const taskIndex = this.taskQueue.findIndex(task => task.request.id === result.id)
+    // Воркер закончил свою задачу: разрешаем её промис (если задачу ещё не отменили) и берём следующую
+    private finishWorkerTask(worker: Worker, outcome: ChunkGenerationResult | Error): void {
+        const busy = this.busyWorkers.get(worker)
+        if (!busy) return
+
+        this.busyWorkers.delete(worker)
+        this.availableWorkers.push(worker)
 
-        if (taskIndex !== -1) {
-            const task = this.taskQueue.splice(taskIndex, 1)[0]
+        const task = this.getWorkerTask(worker, busy)
+        if (task) {
+            this.inFlightTasks.delete(busy.taskId)
 
-            if (result.success) {
-                task.resolve(result)
+            if (outcome instanceof Error) {
+                this.health.tasksFailed++
+                task.reject(outcome)
             } else {
-                task.reject(new Error(result.error || 'Chunk generation failed'))
+                // Воркер слота работает - следующий сбой снова начнёт счёт перезапусков с нуля
+                this.slotRestarts[this.workerSlots.get(worker)!] = 0
+                this.health.tasksCompleted++
+                this.health.totalLatency += performance.now() - task.dispatchedAt
+                task.resolve(outcome)
             }
         }
 
@@ -96,11 +245,33 @@ export class ChunkWorkerPool {
         this.processNextTask()
     }
 
+    // Упавший воркер заменяется новым; его задача повторяется с задержкой, остальные задачи не затрагиваются
     private handleWorkerError(worker: Worker, error: ErrorEvent): void {
+        if (!this.workerSlots.has(worker)) return // Воркер уже заменён
+
         console.error('Worker error:', error)
 
-        // Удаляем проблемный воркер из пула
+        const busy = this.busyWorkers.get(worker)
+        const reason = `worker crashed: ${error.message ?? 'unknown error'}`
+        this.restartWorker(worker, reason)
+
+        const task = busy && this.getWorkerTask(worker, busy)
+        if (task) {
+            this.inFlightTasks.delete(busy.taskId)
+            this.retryOrReject(task, reason)
+        }
+
+        this.processNextTask()
+    }
+
+    private restartWorker(worker: Worker, reason: string): void {
+        const slot = this.workerSlots.get(worker)!
+        worker.terminate()
+        this.rejectPings(`Worker restarted before answering ping: ${reason}`, worker)
         this.busyWorkers.delete(worker)
+        this.workerConfigKeys.delete(worker)
+        this.workerSlots.delete(worker)
+
         const availableIndex = this.availableWorkers.indexOf(worker)
         if (availableIndex !== -1) {
             this.availableWorkers.splice(availableIndex, 1)
@@ -111,84 +282,236 @@ export class ChunkWorkerPool {
             this.workers.splice(workerIndex, 1)
         }
 
-        // Создаем новый воркер взамен
-        const newWorker = this.createWorker()
-        this.workers.push(newWorker)
-        this.availableWorkers.push(newWorker)
+        this.scheduleRestart(slot, reason)
+    }
+
+    // Первый перезапуск слота - сразу, следующие подряд - с удвоением задержки. Воркер, который падает
+    // при загрузке (битый скрипт, ошибка модуля), исчерпывает maxWorkerRestarts, и слот закрывается
+    private scheduleRestart(slot: number, reason: string): void {
+        const restarts = this.slotRestarts[slot]
 
-        // Отклоняем все задачи, связанные с проблемным воркером
-        this.taskQueue.forEach(task => {
-            task.reject(new Error('Worker failed'))
-        })
-        this.taskQueue.length = 0
+        if (restarts >= this.maxWorkerRestarts) {
+            console.error(`❌ Worker slot ${slot} failed after ${restarts} restarts, closing it: ${reason}`)
+            if (this.workers.length === 0 && this.pendingRestarts.size === 0) {
+                this.markUnhealthy(`all workers failed after ${restarts} restarts: ${reason}`)
+            }
+            return
+        }
+
+        this.slotRestarts[slot]++
+        const delay = restarts === 0 ? 0 : this.restartBaseDelay * 2 ** (restarts - 1)
+        if (delay === 0) {
+            this.spawnWorker(slot)
+        } else {
+            console.warn(`🔁 Restarting worker slot ${slot} in ${delay}ms: ${reason}`)
+            this.pendingRestarts.set(slot, performance.now() + delay)
+        }
+    }
+
+    private spawnWorker(slot: number): void {
+        this.health.workerRestarts++
+        try {
+            this.addWorker(this.createWorker(), slot)
+        } catch (error) {
+            this.scheduleRestart(slot, `failed to create worker: ${error instanceof Error ? error.message : error}`)
+        }
     }
 
-    async generateChunk(request: ChunkGenerationRequest): Promise<ChunkGenerationResult> {
+    // Пул больше не принимает задач - ChunkManager переключается на генерацию на главном потоке
+    private markUnhealthy(reason: string): void {
+        this.unhealthyReason = reason
+        console.error(`❌ Chunk worker pool is unhealthy: ${reason}`)
+        this.rejectAll(`Worker pool is unhealthy: ${reason}`)
+        this.onUnhealthy?.(reason)
+    }
+
+    isHealthy(): boolean {
+        return this.unhealthyReason === null
+    }
+
+    // Повтор с экспоненциальной задержкой, пока не исчерпаны попытки
+    private retryOrReject(task: WorkerTask, reason: string): void {
+        const id = task.request.id
+
+        if (task.attempts > this.maxRetries) {
+            this.health.tasksFailed++
+            task.reject(new Error(`Task ${id} failed after ${task.attempts} attempts: ${reason}`))
+            return
+        }
+
+        const delay = this.retryBaseDelay * 2 ** (task.attempts - 1)
+        console.warn(`🔁 Retrying task ${id} in ${delay}ms: ${reason}`)
+        this.retryTasks.set(id, { task, retryAt: performance.now() + delay })
+        this.health.tasksRetried++
+    }
+
+    // Проверка сторожа: таймауты выполняемых задач, зависшие воркеры и наступившие повторы
+    private checkTasks(): void {
+        const now = performance.now()
+
+        for (const [worker, busy] of [...this.busyWorkers]) {
+            const task = this.getWorkerTask(worker, busy)
+
+            if (task && now - task.dispatchedAt > this.taskTimeout) {
+                this.health.tasksTimedOut++
+                this.cancelInFlightTask(busy.taskId)
+                this.retryOrReject(task, `timed out after ${this.taskTimeout}ms`)
+            } else if (!task && now - busy.since > this.taskTimeout * 2) {
+                // Задачу отменили, а воркер так и не ответил - считаем его зависшим
+                console.warn(`⚠️ Worker did not acknowledge cancellation of ${busy.taskId}, restarting it`)
+                this.restartWorker(worker, `did not acknowledge cancellation of ${busy.taskId}`)
+            }
+        }
+
+        for (const [slot, restartAt] of [...this.pendingRestarts]) {
+            if (restartAt <= now) {
+                this.pendingRestarts.delete(slot)
+                this.spawnWorker(slot)
+            }
+        }
+
+        for (const [id, retry] of [...this.retryTasks]) {
+            if (retry.retryAt <= now) {
+                this.retryTasks.delete(id)
+                this.taskQueue.push(id, retry.task, retry.task.priority)
+            }
+        }
+
+        this.processNextTask()
+    }
+
+    // Больший priority - раньше (ChunkStateManager: близкие чанки в конусе обзора)
+    async generateChunk(request: ChunkGenerationRequest, priority: number = 0): Promise<ChunkGenerationResult> {
         return new Promise((resolve, reject) => {
-            this.taskQueue.push({ request, resolve, reject })
+            if (this.unhealthyReason !== null) {
+                reject(new Error(`Worker pool is unhealthy: ${this.unhealthyReason}`))
+                return
+            }
+
+            const task = {
+                request,
+                resolve,
+                reject,
+                enqueuedAt: performance.now(),
+                priority,
+                attempts: 0,
+                dispatchedAt: 0,
+                worker: null,
+            }
+            this.taskQueue.push(request.id, task, priority)
             this.processNextTask()
         })
     }
 
+    // Пересчёт приоритетов очереди, например после движения камеры
+    reprioritize(getPriority: (request: ChunkGenerationRequest) => number): void {
+        const update = (task: WorkerTask) => (task.priority = getPriority(task.request))
+        this.taskQueue.reprioritize(update)
+        this.retryTasks.forEach(({ task }) => update(task))
+    }
+
     private processNextTask(): void {
-        if (this.taskQueue.length === 0 || this.availableWorkers.length === 0) {
-            return
+        while (this.taskQueue.size > 0 && this.availableWorkers.length > 0) {
+            const task = this.taskQueue.pop()!
+            const worker = this.availableWorkers.pop()!
+
+            const now = performance.now()
+            task.attempts++
+            task.dispatchedAt = now
+            task.worker = worker
+            this.busyWorkers.set(worker, { taskId: task.request.id, since: now })
+            this.inFlightTasks.set(task.request.id, task)
+            this.dispatchedTasks++
+            this.totalQueueWait += now - task.enqueuedAt
+
+            // Конфигурация высот отправляется только при смене (например, новый seed), а не с каждой задачей
+            const { heightGeneratorConfig, ...taskRequest } = task.request
+            const configKey = getTerrainHeightConfigKey(heightGeneratorConfig)
+            if (this.workerConfigKeys.get(worker) !== configKey) {
+                worker.postMessage(createWorkerRequest({ type: 'configure', heightGeneratorConfig }))
+                this.workerConfigKeys.set(worker, configKey)
+            }
+
+            worker.postMessage(createWorkerRequest({ type: 'generate', task: taskRequest }))
         }
+    }
 
-        const worker = this.availableWorkers.pop()!
-        const task = this.taskQueue.find(
-            t => !this.busyWorkers.has(worker) // Убеждаемся что воркер не занят
-        )
+    // Воркер, выполняющий задачу, получает cancel и останавливает генерацию между квантами.
+    // До подтверждения он остаётся занятым
+    private cancelInFlightTask(generationId: string): WorkerTask | undefined {
+        const task = this.inFlightTasks.get(generationId)
+        if (!task) return undefined
 
-        if (!task || !worker) return
+        this.inFlightTasks.delete(generationId)
+        task.worker?.postMessage(createWorkerRequest({ type: 'cancel', id: generationId }))
+        return task
+    }
 
-        this.busyWorkers.add(worker)
+    // Время ответа каждого воркера, мс. Занятый воркер ответит после текущей генерации;
+    // перезапуск воркера или dispose пула отклоняют ожидание
+    ping(): Promise<number[]> {
+        return Promise.all(
+            this.workers.map(
+                worker =>
+                    new Promise<number>((resolve, reject) => {
+                        const id = this.nextPingId++
+                        const sentAt = performance.now()
+                        this.pendingPings.set(id, { worker, resolve: now => resolve(now - sentAt), reject })
+                        worker.postMessage(createWorkerRequest({ type: 'ping', id }))
+                    })
+            )
+        )
+    }
 
-        // Отправляем задачу воркеру
-        worker.postMessage(task.request)
+    // Без worker - все ожидающие ping
+    private rejectPings(message: string, worker?: Worker): void {
+        for (const [id, ping] of [...this.pendingPings]) {
+            if (worker && ping.worker !== worker) continue
+            this.pendingPings.delete(id)
+            ping.reject(new Error(message))
+        }
     }
 
     cancelTask(generationId: string): boolean {
-        // Ищем задачу в очереди по ID
-        const taskIndex = this.taskQueue.findIndex(task => task.request.id === generationId)
-
-        if (taskIndex !== -1) {
-            const task = this.taskQueue.splice(taskIndex, 1)[0]
+        // Ищем задачу в очереди, среди ждущих повтора или отправленных по ID
+        const task =
+            this.taskQueue.remove(generationId) ??
+            this.removeRetryTask(generationId) ??
+            this.cancelInFlightTask(generationId)
+
+        if (task) {
+            this.health.tasksCancelled++
             task.reject(new Error(`Task ${generationId} was cancelled`))
             console.log(`❌ Cancelled queued task ${generationId}`)
             return true
         }
 
-        console.log(`⚠️ Task ${generationId} not found in queue (may already be processing)`)
+        console.log(`⚠️ Task ${generationId} not found (may already be finished)`)
         return false
     }
 
     cancelOutOfRangeTasks(centerX: number, centerZ: number, maxDistance: number): number {
         let cancelledCount = 0
-        const tasksToCancel: number[] = []
 
-        // Проверяем все задачи в очереди
-        for (let i = 0; i < this.taskQueue.length; i++) {
-            const task = this.taskQueue[i]
+        // Проверяем все задачи - и ожидающие, и уже отправленные воркерам
+        for (const task of this.getPendingTasks()) {
             const dx = task.request.chunkX - centerX
             const dz = task.request.chunkZ - centerZ
             const distance = Math.sqrt(dx * dx + dz * dz)
 
             if (distance > maxDistance) {
-                tasksToCancel.push(i)
+                const id = task.request.id
+                if (!this.taskQueue.remove(id) && !this.removeRetryTask(id)) this.cancelInFlightTask(id)
+                this.health.tasksCancelled++
+                task.reject(
+                    new Error(
+                        `Task for chunk (${task.request.chunkX}, ${task.request.chunkZ}) cancelled - out of range`
+                    )
+                )
+                cancelledCount++
             }
         }
 
-        // Удаляем задачи в обратном порядке чтобы не сбить индексы
-        for (let i = tasksToCancel.length - 1; i >= 0; i--) {
-            const taskIndex = tasksToCancel[i]
-            const task = this.taskQueue.splice(taskIndex, 1)[0]
-            task.reject(
-                new Error(`Task for chunk (${task.request.chunkX}, ${task.request.chunkZ}) cancelled - out of range`)
-            )
-            cancelledCount++
-        }
-
         // Логируем только если отменили много задач
         if (cancelledCount > 5) {
             console.log(`❌ Cancelled ${cancelledCount} out-of-range tasks from worker queue`)
@@ -197,21 +520,92 @@ export class ChunkWorkerPool {
         return cancelledCount
     }
 
+    cancelAllTasks(reason: string = 'cancelled'): number {
+        const tasks = this.getPendingTasks()
+
+        for (const task of tasks) {
+            if (this.inFlightTasks.has(task.request.id)) this.cancelInFlightTask(task.request.id)
+            task.reject(new Error(`Task for chunk (${task.request.chunkX}, ${task.request.chunkZ}) ${reason}`))
+        }
+        this.taskQueue.clear()
+        this.retryTasks.clear()
+        this.health.tasksCancelled += tasks.length
+
+        return tasks.length
+    }
+
+    private removeRetryTask(generationId: string): WorkerTask | undefined {
+        const retry = this.retryTasks.get(generationId)
+        this.retryTasks.delete(generationId)
+        return retry?.task
+    }
+
+    // Все незавершённые задачи: в очереди, ждущие повтора и выполняемые
+    private getPendingTasks(): WorkerTask[] {
+        return [
+            ...this.taskQueue.values(),
+            ...Array.from(this.retryTasks.values(), retry => retry.task),
+            ...this.inFlightTasks.values(),
+        ]
+    }
+
+    private rejectAll(message: string): void {
+        for (const task of this.getPendingTasks()) {
+            task.reject(new Error(message))
+        }
+        this.taskQueue.clear()
+        this.retryTasks.clear()
+        this.inFlightTasks.clear()
+    }
+
     getStats(): {
         totalWorkers: number
         availableWorkers: number
         busyWorkers: number
         queuedTasks: number
+        inFlightTasks: number
+        retryingTasks: number
+        dispatchedTasks: number
+        averageQueueWait: number
+        nextTasks: QueuedTaskStats[]
     } {
         return {
             totalWorkers: this.workers.length,
             availableWorkers: this.availableWorkers.length,
             busyWorkers: this.busyWorkers.size,
-            queuedTasks: this.taskQueue.length,
+            queuedTasks: this.taskQueue.size,
+            inFlightTasks: this.inFlightTasks.size,
+            retryingTasks: this.retryTasks.size,
+            dispatchedTasks: this.dispatchedTasks,
+            averageQueueWait: this.dispatchedTasks > 0 ? this.totalQueueWait / this.dispatchedTasks : 0,
+            // Первые задачи в порядке отправки воркерам
+            nextTasks: this.taskQueue
+                .toSortedArray()
+                .slice(0, 5)
+                .map(task => ({
+                    id: task.request.id,
+                    chunkX: task.request.chunkX,
+                    chunkZ: task.request.chunkZ,
+                    priority: task.priority,
+                })),
+        }
+    }
+
+    getHealthReport(): WorkerPoolHealth {
+        const { totalLatency, ...counters } = this.health
+        return {
+            ...counters,
+            averageLatency: this.health.tasksCompleted > 0 ? totalLatency / this.health.tasksCompleted : 0,
+            healthy: this.isHealthy(),
         }
     }
 
     dispose(): void {
+        if (this.watchdogInterval !== null) {
+            this.timer.clearInterval(this.watchdogInterval)
+            this.watchdogInterval = null
+        }
+
         // Завершаем все воркеры
         this.workers.forEach(worker => {
             worker.terminate()
@@ -220,12 +614,13 @@ export class ChunkWorkerPool {
         this.workers.length = 0
         this.availableWorkers.length = 0
         this.busyWorkers.clear()
+        this.workerConfigKeys.clear()
+        this.workerSlots.clear()
+        this.pendingRestarts.clear()
+        this.rejectPings('Worker pool disposed')
 
         // Отклоняем все оставшиеся задачи
-        this.taskQueue.forEach(task => {
-            task.reject(new Error('Worker pool disposed'))
-        })
-        this.taskQueue.length = 0
+        this.rejectAll('Worker pool disposed')
 
         console.log('🗑️ Chunk worker pool disposed')
     }
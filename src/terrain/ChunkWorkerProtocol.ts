@@ -0,0 +1,52 @@
+// Протокол сообщений между ChunkWorkerPool и ChunkWorker.
+// Версия увеличивается при любом несовместимом изменении формата сообщений
+import type { ChunkGenerationRequest, ChunkGenerationResult } from './ChunkGeometryGenerator'
+import type { TerrainHeightConfig } from './TerrainHeightFunction'
+
+export const CHUNK_WORKER_PROTOCOL_VERSION = 7
+
+export type HeightGeneratorConfig = TerrainHeightConfig
+
+// Задача генерации без конфигурации высот: она передаётся воркеру отдельно через configure
+export type ChunkTaskRequest = Omit<ChunkGenerationRequest, 'heightGeneratorConfig'>
+
+// Пул -> воркер
+export type ChunkWorkerRequest =
+    | { version: number; type: 'configure'; heightGeneratorConfig: HeightGeneratorConfig }
+    | { version: number; type: 'generate'; task: ChunkTaskRequest }
+    | { version: number; type: 'cancel'; id: string }
+    | { version: number; type: 'ping'; id: number }
+
+// Воркер -> пул
+export type ChunkWorkerResponse =
+    | { version: number; type: 'configured'; configKey: string }
+    | { version: number; type: 'result'; result: ChunkGenerationResult }
+    | { version: number; type: 'cancelled'; id: string }
+    | { version: number; type: 'pong'; id: number }
+    | { version: number; type: 'error'; id?: string; error: string }
+
+// Тело сообщения без версии: условный тип раскладывает объединение, обычный Omit его бы склеил
+type WithoutVersion<T> = T extends unknown ? Omit<T, 'version'> : never
+
+export function createWorkerRequest(body: WithoutVersion<ChunkWorkerRequest>): ChunkWorkerRequest {
+    return { ...body, version: CHUNK_WORKER_PROTOCOL_VERSION }
+}
+
+export function createWorkerResponse(body: WithoutVersion<ChunkWorkerResponse>): ChunkWorkerResponse {
+    return { ...body, version: CHUNK_WORKER_PROTOCOL_VERSION }
+}
+
+// Буферы результата передаются без копирования; после postMessage в воркере они отсоединены
+export function getResultTransferables(result: ChunkGenerationResult): ArrayBuffer[] {
+    const buffers = [
+        result.vertices,
+        result.normals,
+        result.indices,
+        result.colors,
+        result.biomeWeights,
+        result.sediment,
+        result.flow,
+    ].map(array => array.buffer as ArrayBuffer)
+    // Пустые массивы ошибочного результата могут делить буфер - дубли в списке передачи запрещены
+    return Array.from(new Set(buffers))
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { ClimateModel } from './ClimateModel'
+import { defaultTerrainConfig } from './TerrainConfig'
+
+// Море на западе, равнина и меридиональный хребет у x = 1500; ветер дует с запада
+function landscape(x: number): number {
+    if (x < 0) return -10
+    return 10 + 80 * Math.exp(-(((x - 1500) / 150) ** 2))
+}
+
+const flatNoise = () => 0
+
+describe('ClimateModel', () => {
+    const climate = new ClimateModel(landscape, flatNoise, defaultTerrainConfig.climate)
+
+    it('cools with altitude by the lapse rate', () => {
+        const { lapseRate, temperature } = defaultTerrainConfig.climate
+        expect(climate.getClimate(800, 0, 0).temperature).toBeCloseTo(temperature, 6)
+        expect(climate.getClimate(800, 0, 40).temperature).toBeCloseTo(temperature - 40 * lapseRate, 6)
+    })
+
+    it('is wetter near water and drier in the lee of a ridge', () => {
+        const coast = climate.getClimate(100, 0, 10).moisture
+        const inland = climate.getClimate(1000, 0, 10).moisture
+        const lee = climate.getClimate(1800, 0, 10).moisture
+        const farLee = climate.getClimate(2600, 0, 10).moisture
+
+        expect(coast).toBeGreaterThan(inland)
+        expect(lee).toBeLessThan(inland)
+        expect(farLee).toBeCloseTo(inland, 6)
+    })
+
+    it('interpolates moisture smoothly across region borders', () => {
+        // Граница регионов - каждые 64 узла по 32 м
+        let previous = climate.getClimate(2040, 10, 10).moisture
+        for (let x = 2041; x <= 2056; x++) {
+            const moisture = climate.getClimate(x, 10, 10).moisture
+            expect(Math.abs(moisture - previous)).toBeLessThan(0.01)
+            previous = moisture
+        }
+    })
+})
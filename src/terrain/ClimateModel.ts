@@ -0,0 +1,186 @@
+// Климат: температура и влажность в мировой точке - по ним таблица Уиттекера выбирает биомы.
+// Температура - широтный шум минус падение с высотой, влажность - близость воды и дождевая тень хребтов.
+// Близость воды и тень считаются на грубой сетке регионов с фартуком; узел принадлежит ровно одному
+// региону, а между узлами значения интерполируются - чанки, воркеры и главный поток видят один климат
+import type { TerrainConfig } from './TerrainConfig'
+import { SEA_LEVEL, priorityFlood } from './PriorityFlood'
+
+export type ClimateConfig = TerrainConfig['climate']
+
+export interface ClimateSample {
+    temperature: number // °C
+    moisture: number // 0 - пустыня, 1 - болото
+}
+
+interface ClimateRegion {
+    humidity: Float32Array // Поправка влажности в узлах ядра: плюс у воды, минус в дождевой тени
+}
+
+export const CLIMATE_CELL_SIZE = 32
+const REGION_CELLS = 64
+const REGION_APRON = 16 // Не меньше WATER_REACH и SHADOW_CELLS - иначе узлы у края региона ошибутся
+const MAX_CACHED_REGIONS = 8
+const LAKE_DEPTH = 0.5 // Впадина глубже этого на грубой сетке - озеро
+
+const WATER_REACH = 15 // В ячейках: дальше вода воздух не увлажняет
+const COAST_HUMIDITY = 0.25
+// Преобладающий ветер дует вдоль +x: наветренная сторона - меньшие x, строка сетки идёт по ветру
+const SHADOW_CELLS = 12 // Насколько далеко за хребтом ещё лежит его тень
+const SHADOW_HEIGHT = 30 // Превышение хребта над точкой, при котором тень полная
+const SHADOW_DRYING = 0.5 // Сколько влажности забирает полная тень при rainShadow = 1
+
+const LATITUDE_FREQUENCY = 0.0008
+const MOISTURE_FREQUENCY = 0.004
+const MOISTURE_VARIATION = 0.3
+const NOISE_RANGE = 0.5 // Типичный размах шума Перлина - растягиваем его до ±1
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+    const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)))
+    return t * t * (3 - 2 * t)
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+export class ClimateModel {
+    private getBaseHeight: (x: number, z: number) => number
+    private noise: (x: number, z: number) => number
+    private config: ClimateConfig
+    private regions: Map<string, ClimateRegion> = new Map() // LRU, как регионы водоёмов
+
+    constructor(
+        getBaseHeight: (x: number, z: number) => number,
+        noise: (x: number, z: number) => number,
+        config: ClimateConfig
+    ) {
+        this.getBaseHeight = getBaseHeight
+        this.noise = noise
+        this.config = config
+    }
+
+    // Климат точки на высоте height: высота передаётся явно, чтобы учесть эрозию и русла рек
+    getClimate(
+        x: number,
+        z: number,
+        height: number,
+        output: ClimateSample = { temperature: 0, moisture: 0 }
+    ): ClimateSample {
+        const { temperature, latitudeRange, lapseRate, moisture } = this.config
+
+        // Широта - шум настолько низкой частоты, что пояса тянутся на километры
+        const latitude = clamp(this.noise(x * LATITUDE_FREQUENCY, z * LATITUDE_FREQUENCY + 5000) / NOISE_RANGE, -1, 1)
+        output.temperature = temperature + latitudeRange * latitude - lapseRate * Math.max(0, height - SEA_LEVEL)
+
+        const variation = this.noise((x - 3000) * MOISTURE_FREQUENCY, (z + 3000) * MOISTURE_FREQUENCY) / NOISE_RANGE
+        output.moisture = clamp(moisture + this.getHumidity(x, z) + variation * MOISTURE_VARIATION, 0, 1)
+        return output
+    }
+
+    // Билинейная интерполяция поправки влажности между узлами сетки
+    private getHumidity(x: number, z: number): number {
+        const gridX = x / CLIMATE_CELL_SIZE
+        const gridZ = z / CLIMATE_CELL_SIZE
+        const x0 = Math.floor(gridX)
+        const z0 = Math.floor(gridZ)
+        const tx = gridX - x0
+        const tz = gridZ - z0
+
+        const top = this.getNode(x0, z0) + (this.getNode(x0 + 1, z0) - this.getNode(x0, z0)) * tx
+        const bottom = this.getNode(x0, z0 + 1) + (this.getNode(x0 + 1, z0 + 1) - this.getNode(x0, z0 + 1)) * tx
+        return top + (bottom - top) * tz
+    }
+
+    private getNode(nodeX: number, nodeZ: number): number {
+        const regionX = Math.floor(nodeX / REGION_CELLS)
+        const regionZ = Math.floor(nodeZ / REGION_CELLS)
+        const region = this.getRegion(regionX, regionZ)
+        return region.humidity[(nodeZ - regionZ * REGION_CELLS) * REGION_CELLS + (nodeX - regionX * REGION_CELLS)]
+    }
+
+    private getRegion(regionX: number, regionZ: number): ClimateRegion {
+        const key = `${regionX},${regionZ}`
+        let region = this.regions.get(key)
+
+        if (region) {
+            this.regions.delete(key)
+        } else {
+            region = this.buildRegion(regionX, regionZ)
+            if (this.regions.size >= MAX_CACHED_REGIONS) {
+                this.regions.delete(this.regions.keys().next().value!)
+            }
+        }
+
+        this.regions.set(key, region)
+        return region
+    }
+
+    // Вода - море и впадины, которые priority-flood заливает на грубой сетке; мелкие пруды климат не меняют
+    private buildRegion(regionX: number, regionZ: number): ClimateRegion {
+        const row = REGION_CELLS + REGION_APRON * 2
+        const originX = regionX * REGION_CELLS - REGION_APRON
+        const originZ = regionZ * REGION_CELLS - REGION_APRON
+
+        const heights = new Float64Array(row * row)
+        for (let z = 0; z < row; z++) {
+            for (let x = 0; x < row; x++) {
+                heights[z * row + x] = this.getBaseHeight(
+                    (originX + x) * CLIMATE_CELL_SIZE,
+                    (originZ + z) * CLIMATE_CELL_SIZE
+                )
+            }
+        }
+
+        const { filled } = priorityFlood(heights, row, 0)
+        const distance = new Float32Array(row * row)
+        for (let i = 0; i < distance.length; i++) {
+            distance[i] = heights[i] < SEA_LEVEL || filled[i] - heights[i] > LAKE_DEPTH ? 0 : Infinity
+        }
+        chamferDistance(distance, row)
+
+        const humidity = new Float32Array(REGION_CELLS * REGION_CELLS)
+        for (let z = 0; z < REGION_CELLS; z++) {
+            for (let x = 0; x < REGION_CELLS; x++) {
+                const i = (z + REGION_APRON) * row + x + REGION_APRON
+
+                // Тень - самый заметный хребет с наветренной стороны, дальние хребты слабее
+                let barrier = 0
+                for (let k = 1; k <= SHADOW_CELLS; k++) {
+                    barrier = Math.max(barrier, (heights[i - k] - heights[i]) * (1 - k / (SHADOW_CELLS + 1)))
+                }
+
+                const coast = 1 - smoothstep(0, WATER_REACH, distance[i])
+                const shadow = smoothstep(0, SHADOW_HEIGHT, barrier)
+                humidity[z * REGION_CELLS + x] =
+                    COAST_HUMIDITY * coast - this.config.rainShadow * SHADOW_DRYING * shadow
+            }
+        }
+
+        return { humidity }
+    }
+}
+
+const forwardNeighbours = [
+    [-1, -1, Math.SQRT2],
+    [0, -1, 1],
+    [1, -1, Math.SQRT2],
+    [-1, 0, 1],
+]
+
+// Расстояние в ячейках до ближайшего нуля: два прохода по восьми соседям (chamfer) - близко к евклидову
+function chamferDistance(distance: Float32Array, row: number): void {
+    const relax = (x: number, z: number, sign: number) => {
+        const i = z * row + x
+        for (const [dx, dz, length] of forwardNeighbours) {
+            const nx = x + dx * sign
+            const nz = z + dz * sign
+            if (nx < 0 || nz < 0 || nx >= row || nz >= row) continue
+            distance[i] = Math.min(distance[i], distance[nz * row + nx] + length)
+        }
+    }
+
+    for (let z = 0; z < row; z++) {
+        for (let x = 0; x < row; x++) relax(x, z, 1)
+    }
+    for (let z = row - 1; z >= 0; z--) {
+        for (let x = row - 1; x >= 0; x--) relax(x, z, -1)
+    }
+}
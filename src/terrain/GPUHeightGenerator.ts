@@ -1,4 +1,6 @@
 import * as THREE from 'three'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import type { TerrainConfig } from './TerrainConfig'
 
 // Импортируем шейдеры из папки assets
 import heightmapVertexShader from '../assets/shaders/heightmap.vert?raw'
@@ -7,11 +9,35 @@ import heightmapFragmentShader from '../assets/shaders/heightmap.frag?raw'
 export interface HeightmapConfig {
     chunkSize: number
     resolution: number
-    heightScale: number
-    noiseScale: number
+    terrain: TerrainConfig
     seed?: number
 }
 
+// Слои TerrainConfig упакованы в векторы - порядок компонент описан в heightmap.frag.
+// Недостающие uniforms создаются, существующие обновляются на месте
+function updateTerrainUniforms(
+    uniforms: Record<string, THREE.IUniform>,
+    terrain: TerrainConfig
+): Record<string, THREE.IUniform> {
+    const { base, mountains, lakes, hills, valleys } = terrain
+    const set = (name: string, value: unknown) => {
+        if (uniforms[name]) uniforms[name].value = value
+        else uniforms[name] = { value }
+    }
+
+    set('u_base', new THREE.Vector4(base.frequency, base.amplitude, base.persistence, base.lacunarity))
+    set('u_octaves', base.octaves)
+    set('u_offset', base.offset)
+    set(
+        'u_mountains',
+        new THREE.Vector4(mountains.frequency, mountains.threshold, mountains.amplitude, mountains.curve)
+    )
+    set('u_lakes', new THREE.Vector4(lakes.frequency, lakes.threshold, lakes.depth, lakes.curve))
+    set('u_hills', new THREE.Vector2(hills.frequency, hills.amplitude))
+    set('u_valleys', new THREE.Vector3(valleys.frequency, valleys.threshold, valleys.factor))
+    return uniforms
+}
+
 export class GPUHeightGenerator {
     private renderer: THREE.WebGLRenderer
     private initialized = false
@@ -23,6 +49,7 @@ export class GPUHeightGenerator {
     private computeGeometry: THREE.PlaneGeometry | null = null
     private computeMesh: THREE.Mesh | null = null
     private renderTarget: THREE.WebGLRenderTarget | null = null
+    private permutationTexture: THREE.DataTexture | null = null
 
     constructor(renderer: THREE.WebGLRenderer, config: HeightmapConfig) {
         this.renderer = renderer
@@ -105,10 +132,9 @@ export class GPUHeightGenerator {
                     u_chunkOffset: { value: new THREE.Vector2(0, 0) },
                     u_chunkSize: { value: new THREE.Vector2(this.config.chunkSize, this.config.chunkSize) },
                     u_resolution: { value: new THREE.Vector2(resolution, resolution) },
-                    u_heightScale: { value: this.config.heightScale },
-                    u_noiseScale: { value: this.config.noiseScale },
+                    ...updateTerrainUniforms({}, this.config.terrain),
                     u_time: { value: 0 },
-                    u_noiseSeeds: { value: this.generateNoiseSeeds() },
+                    u_permutation: { value: this.createPermutationTexture() },
                     u_useFloatTexture: { value: useFloatTexture ? 1.0 : 0.0 },
                 },
                 vertexShader: heightmapVertexShader,
@@ -131,6 +157,15 @@ export class GPUHeightGenerator {
         }
     }
 
+    // Сетка рендера: resolution x resolution точек на чанк chunkSize, края включительно.
+    // Меняем только при расхождении - setSize пересоздаёт текстуру render target
+    setGrid(chunkSize: number, resolution: number): void {
+        const changes: Partial<HeightmapConfig> = {}
+        if (chunkSize !== this.config.chunkSize) changes.chunkSize = chunkSize
+        if (resolution !== this.config.resolution) changes.resolution = resolution
+        if (Object.keys(changes).length > 0) this.updateConfig(changes)
+    }
+
     generateHeightmapGPU(chunkX: number, chunkZ: number): Promise<Float32Array> {
         return new Promise((resolve, reject) => {
             if (!this.initialized || !this.computeMaterial || !this.computeMesh || !this.renderTarget) {
@@ -141,7 +176,7 @@ export class GPUHeightGenerator {
             try {
                 const { chunkSize } = this.config
 
-                // Обновляем uniforms
+                // Обновляем uniforms - смещение указывает на центр чанка, как у CPU сетки
                 this.computeMaterial.uniforms.u_chunkOffset.value.set(chunkX * chunkSize, chunkZ * chunkSize)
                 this.computeMaterial.uniforms.u_time.value = performance.now() * 0.001
 
@@ -210,36 +245,46 @@ export class GPUHeightGenerator {
         })
     }
 
-    private generateNoiseSeeds(): THREE.Vector4 {
-        const seed = this.config.seed || Math.random()
+    // Таблица перестановок общей функции высоты - шейдер повторяет тот же Perlin noise, что и CPU
+    private createPermutationTexture(): THREE.DataTexture {
+        const heightFunction = new TerrainHeightFunction({ seed: this.config.seed ?? 0, terrain: this.config.terrain })
+        const permutation = heightFunction.getPermutation()
 
-        // Используем простой генератор на основе seed
-        const random = (s: number) => {
-            const x = Math.sin(s) * 10000
-            return x - Math.floor(x)
+        const data = new Uint8Array(256 * 4)
+        for (let i = 0; i < 256; i++) {
+            data[i * 4] = permutation[i]
         }
 
-        return new THREE.Vector4(
-            random(seed) * 1000,
-            random(seed * 2) * 1000,
-            random(seed * 3) * 1000,
-            random(seed * 4) * 1000
-        )
+        if (this.permutationTexture) {
+            this.permutationTexture.dispose()
+        }
+
+        this.permutationTexture = new THREE.DataTexture(data, 256, 1, THREE.RGBAFormat, THREE.UnsignedByteType)
+        this.permutationTexture.minFilter = THREE.NearestFilter
+        this.permutationTexture.magFilter = THREE.NearestFilter
+        this.permutationTexture.needsUpdate = true
+        return this.permutationTexture
     }
 
     updateConfig(newConfig: Partial<HeightmapConfig>): void {
         this.config = { ...this.config, ...newConfig }
 
         if (this.computeMaterial) {
-            if (newConfig.heightScale !== undefined) {
-                this.computeMaterial.uniforms.u_heightScale.value = newConfig.heightScale
-            }
-            if (newConfig.noiseScale !== undefined) {
-                this.computeMaterial.uniforms.u_noiseScale.value = newConfig.noiseScale
+            if (newConfig.terrain !== undefined) {
+                updateTerrainUniforms(this.computeMaterial.uniforms, newConfig.terrain)
             }
             if (newConfig.chunkSize !== undefined) {
                 this.computeMaterial.uniforms.u_chunkSize.value.set(newConfig.chunkSize, newConfig.chunkSize)
             }
+            if (newConfig.resolution !== undefined) {
+                const { resolution } = newConfig
+                this.computeMaterial.uniforms.u_resolution.value.set(resolution, resolution)
+                this.renderTarget?.setSize(resolution, resolution)
+                this.computeBuffer = new THREE.BufferAttribute(new Float32Array(resolution * resolution), 1)
+            }
+            if (newConfig.seed !== undefined) {
+                this.computeMaterial.uniforms.u_permutation.value = this.createPermutationTexture()
+            }
         }
     }
 
@@ -253,6 +298,9 @@ export class GPUHeightGenerator {
         if (this.computeGeometry) {
             this.computeGeometry.dispose()
         }
+        if (this.permutationTexture) {
+            this.permutationTexture.dispose()
+        }
         this.initialized = false
     }
 }
@@ -1,18 +1,26 @@
-import { Perlin } from 'ts-noise'
 import { GPUHeightGenerator, type HeightmapConfig } from './GPUHeightGenerator'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import { cloneTerrainConfig, defaultTerrainConfig, type TerrainConfig } from './TerrainConfig'
+import { WorldSeed } from './WorldSeed'
+import { defaultBiomePack, type BiomePack } from '../biomes/BiomePack'
 import * as THREE from 'three'
 
 export class HeightGenerator {
-    private perlin: Perlin
-    private heightScale = 30
-    private scale = 0.015
+    private heightFunction: TerrainHeightFunction
+    private terrainConfig: TerrainConfig
+    private biomePack: BiomePack = defaultBiomePack
     private gpuGenerator: GPUHeightGenerator | null = null
     private renderer: THREE.WebGLRenderer | null = null
-    private seed: number // Добавляем сохранение seed
-
-    constructor(renderer?: THREE.WebGLRenderer) {
-        this.seed = Math.random() // Сохраняем seed
-        this.perlin = new Perlin(this.seed)
+    private seed: number // Хэш WorldSeed, общий для CPU, воркеров и GPU
+
+    constructor(
+        renderer?: THREE.WebGLRenderer,
+        seed: number = WorldSeed.random().value,
+        terrainConfig: TerrainConfig = defaultTerrainConfig
+    ) {
+        this.seed = seed
+        this.terrainConfig = cloneTerrainConfig(terrainConfig)
+        this.heightFunction = this.createHeightFunction()
         if (renderer) {
             this.renderer = renderer
             this.initializeGPUGenerator()
@@ -27,9 +35,8 @@ export class HeightGenerator {
         const config: HeightmapConfig = {
             chunkSize: 64,
             resolution: 64,
-            heightScale: this.heightScale,
-            noiseScale: this.scale,
-            seed: Math.random(),
+            terrain: this.terrainConfig,
+            seed: this.seed,
         }
 
         this.gpuGenerator = new GPUHeightGenerator(this.renderer, config)
@@ -47,94 +54,80 @@ export class HeightGenerator {
         }
     }
 
-    // Метод для генерации heightmap для чанка
-    async generateHeightmapChunk(chunkX: number, chunkZ: number, size: number): Promise<Float32Array> {
+    // Метод для генерации heightmap для чанка: size x size точек на весь чанк, края включительно
+    async generateHeightmapChunk(
+        chunkX: number,
+        chunkZ: number,
+        size: number,
+        chunkSize: number = 100
+    ): Promise<Float32Array> {
         if (this.gpuGenerator) {
             try {
-                return await this.gpuGenerator.generateHeightmapGPU(chunkX, chunkZ)
+                // Генератор создан со своей сеткой (initializeGPUGenerator, enableGPUGeneration) -
+                // подгоняем её под запрос, иначе GPU и CPU вернули бы разные сетки для одних аргументов
+                this.gpuGenerator.setGrid(chunkSize, size)
+                const heights = await this.gpuGenerator.generateHeightmapGPU(chunkX, chunkZ)
+                return this.refineHeightmap(heights, chunkX * chunkSize, chunkZ * chunkSize, chunkSize)
             } catch (error) {
                 console.warn('GPU generation failed, falling back to CPU:', error)
             }
         }
 
-        // Fallback к CPU генерации
-        const heights = new Float32Array(size * size)
-        for (let z = 0; z < size; z++) {
-            for (let x = 0; x < size; x++) {
-                const worldX = chunkX * size + x
-                const worldZ = chunkZ * size + z
-                heights[z * size + x] = this.generateHeight(worldX, worldZ)
+        // Fallback к CPU генерации - та же сетка, что и у GPU
+        return this.heightFunction.sampleGrid(chunkX * chunkSize, chunkZ * chunkSize, chunkSize, size)
+    }
+
+    // Шейдер считает только шумы - эрозию и русла рек добавляем на CPU в тех же точках сетки
+    private refineHeightmap(heights: Float32Array, centerX: number, centerZ: number, size: number): Float32Array {
+        const resolution = Math.round(Math.sqrt(heights.length))
+        const step = resolution > 1 ? 1 / (resolution - 1) : 0
+
+        for (let z = 0; z < resolution; z++) {
+            for (let x = 0; x < resolution; x++) {
+                const worldX = (x * step - 0.5) * size + centerX
+                const worldZ = (z * step - 0.5) * size + centerZ
+                const i = z * resolution + x
+                heights[i] = this.heightFunction.refineHeight(worldX, worldZ, heights[i])
             }
         }
+
         return heights
     }
 
     generateHeight(x: number, z: number): number {
-        // Базовая высота terrain с несколькими октавами
-        let baseHeight = 0
-        let amplitude = 1
-        let frequency = this.scale
-
-        // Генерируем базовую высоту с multiple octaves
-        for (let i = 0; i < 6; i++) {
-            const noiseValue = this.perlin.get2([x * frequency, z * frequency])
-            baseHeight += noiseValue * amplitude
-            amplitude *= 0.5
-            frequency *= 2
-        }
-
-        // Добавляем крупномасштабные features (горы/равнины)
-        const mountainNoise = this.perlin.get2([x * 0.001, z * 0.001]) // Укрупняем горы (было 0.002)
-        const hillNoise = this.perlin.get2([x * 0.008, z * 0.008])
-
-        // Специальный шум для создания впадин/озер - оставляем крупные, убираем мелкие
-        const lakeNoise = this.perlin.get2([x * 0.002, z * 0.002]) // Еще крупнее озера (было 0.003)
-        const riverNoise = this.perlin.get2([x * 0.004, z * 0.004]) // Крупнее реки (было 0.006)
-
-        // Создаём более разнообразный ландшафт
-        let finalHeight = baseHeight * (this.heightScale * 0.8) // Увеличиваем общую высоту для лучших гор
-
-        // Создаём глубокие впадины для озер/рек - уменьшаем количество воды на 50%
-        if (lakeNoise < -0.75 || (riverNoise < -0.8 && lakeNoise < -0.5)) {
-            const lakeFactor = lakeNoise < -0.75 ? Math.pow(Math.abs(lakeNoise + 0.75) / 0.25, 1.5) : 0
-            const riverFactor =
-                riverNoise < -0.8 && lakeNoise < -0.5 ? Math.pow(Math.abs(riverNoise + 0.8) / 0.2, 2) : 0
-            const depthFactor = Math.max(lakeFactor, riverFactor)
-            finalHeight -= depthFactor * 8 // Сохраняем глубину для крупных водоемов
-        }
-
-        // Горы с более низким порогом и укрупненные
-        if (mountainNoise > 0.2) {
-            // Увеличиваем количество гор (было 0.3, стало 0.2)
-            const mountainFactor = Math.pow((mountainNoise - 0.2) / 0.8, 1.2) // Более плавный рост
-            finalHeight += mountainFactor * 60 // Увеличиваем высоту гор (было 50)
-        }
+        return this.heightFunction.getHeight(x, z)
+    }
 
-        // Увеличиваем влияние холмов для более разнообразного ландшафта
-        finalHeight += hillNoise * 12
+    private createHeightFunction(): TerrainHeightFunction {
+        return new TerrainHeightFunction({ seed: this.seed, terrain: this.terrainConfig, biomes: this.biomePack })
+    }
 
-        // Создаём мягкие долины
-        const valleyNoise = this.perlin.get2([x * 0.005, z * 0.005])
-        if (valleyNoise < -0.3) {
-            finalHeight *= 0.8 // Более мягкие долины
+    // Новая форма рельефа: пересоздаём функцию высоты и uniforms GPU генератора
+    setTerrainConfig(terrainConfig: TerrainConfig): void {
+        this.terrainConfig = cloneTerrainConfig(terrainConfig)
+        this.heightFunction = this.createHeightFunction()
+        if (this.gpuGenerator) {
+            this.gpuGenerator.updateConfig({ terrain: this.terrainConfig })
         }
+    }
 
-        // Поднимаем общий уровень равнин выше нуля
-        finalHeight += 5 // Больше подъем для преобладания равнин
-
-        return finalHeight
+    // Новый набор биомов: высоты не меняются, но классификатор живёт в функции высоты вместе с климатом
+    setBiomePack(biomePack: BiomePack): void {
+        this.biomePack = biomePack
+        this.heightFunction = this.createHeightFunction()
     }
 
-    updateHeightScale(newHeightScale: number): void {
-        this.heightScale = newHeightScale
+    // Смена seed мира: пересоздаём функцию высоты и таблицу перестановок GPU
+    setSeed(seed: number): void {
+        this.seed = seed
+        this.heightFunction = this.createHeightFunction()
         if (this.gpuGenerator) {
-            this.gpuGenerator.updateConfig({ heightScale: newHeightScale })
+            this.gpuGenerator.updateConfig({ seed })
         }
     }
 
-    // Публичный метод для доступа к шуму из других классов
-    getNoise2D(x: number, z: number): number {
-        return this.perlin.get2([x, z])
+    getHeightFunction(): TerrainHeightFunction {
+        return this.heightFunction
     }
 
     // Метод для включения GPU генерации с настройками
@@ -151,9 +144,8 @@ export class HeightGenerator {
         const config: HeightmapConfig = {
             chunkSize: chunkSize,
             resolution: resolution,
-            heightScale: this.heightScale,
-            noiseScale: this.scale,
-            seed: Math.random(),
+            terrain: this.terrainConfig,
+            seed: this.seed,
         }
 
         console.log('🔧 Creating GPU height generator with config:', config)
@@ -178,11 +170,11 @@ export class HeightGenerator {
         return this.seed
     }
 
-    getScale(): number {
-        return this.scale
+    getTerrainConfig(): TerrainConfig {
+        return this.terrainConfig
     }
 
-    getHeightScale(): number {
-        return this.heightScale
+    getBiomePack(): BiomePack {
+        return this.biomePack
     }
 }
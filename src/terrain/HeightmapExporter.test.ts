@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { inflateSync } from 'node:zlib'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import {
+    encodePng16,
+    encodeRaw16,
+    exportHeightmapFiles,
+    runHeightmapSampling,
+    sampleHeightmap,
+    type HeightmapSamplingResponse,
+} from './HeightmapExporter'
+import { sampleOnMainThread } from './HeightmapSampler'
+
+const heightFunction = new TerrainHeightFunction({ seed: 1337 })
+const bounds = { minX: -150, minZ: -50, maxX: 150, maxZ: 50 }
+
+describe('HeightmapExporter', () => {
+    it('samples the shared height function with inclusive edges and square pixels', () => {
+        const samples = sampleHeightmap(heightFunction, bounds, 31)
+
+        expect(samples.width).toBe(31)
+        expect(samples.height).toBe(11)
+        expect(samples.heights[0]).toBe(Math.fround(heightFunction.getHeight(-150, -50)))
+        expect(samples.heights[samples.heights.length - 1]).toBe(Math.fround(heightFunction.getHeight(150, 50)))
+        expect(samples.minHeight).toBeLessThanOrEqual(samples.maxHeight)
+        expect(() => sampleHeightmap(heightFunction, { ...bounds, maxX: -150 }, 31)).toThrow()
+    })
+
+    it('writes a valid 16-bit grayscale PNG', () => {
+        const samples = sampleHeightmap(heightFunction, bounds, 31)
+        const png = encodePng16(samples)
+        const view = new DataView(png.buffer)
+
+        expect(Array.from(png.subarray(1, 4))).toEqual([0x50, 0x4e, 0x47])
+        expect(view.getUint32(16)).toBe(samples.width)
+        expect(view.getUint32(20)).toBe(samples.height)
+        expect(png[24]).toBe(16)
+
+        // IDAT начинается сразу после IHDR (8 + 25 байт)
+        const idatLength = view.getUint32(33)
+        const pixels = inflateSync(png.subarray(41, 41 + idatLength))
+        const rowLength = 1 + samples.width * 2
+        expect(pixels.length).toBe(rowLength * samples.height)
+
+        // Пиксели PNG big-endian, RAW r16 - little-endian, значения совпадают
+        const raw = new DataView(encodeRaw16(samples).buffer)
+        for (const index of [0, 17, samples.width * samples.height - 1]) {
+            const y = Math.floor(index / samples.width)
+            const x = index % samples.width
+            const pngValue = (pixels[y * rowLength + 1 + x * 2] << 8) | pixels[y * rowLength + 2 + x * 2]
+            expect(pngValue).toBe(raw.getUint16(index * 2, true))
+        }
+    })
+
+    it('exports float32 heights with a JSON sidecar', () => {
+        const samples = sampleHeightmap(heightFunction, bounds, 31)
+        const [bin, sidecar] = exportHeightmapFiles(samples, 'float32', { input: '1337', value: 1337 }, 'map')
+
+        expect(bin.name).toBe('map.bin')
+        expect(Array.from(new Float32Array(bin.data.buffer))).toEqual(Array.from(samples.heights))
+
+        const metadata = JSON.parse(new TextDecoder().decode(sidecar.data))
+        expect(sidecar.name).toBe('map.json')
+        expect(metadata).toMatchObject({
+            format: 'float32',
+            width: 31,
+            height: 11,
+            minHeight: samples.minHeight,
+            maxHeight: samples.maxHeight,
+            bounds,
+            seed: { input: '1337', value: 1337 },
+        })
+    })
+
+    it('reports sampling progress from the worker body and hands over the same grid', () => {
+        const responses: HeightmapSamplingResponse[] = []
+        const transfers: Transferable[][] = []
+        runHeightmapSampling({ config: { seed: 1337 }, bounds, resolution: 31 }, (response, transfer) => {
+            responses.push(response)
+            transfers.push(transfer)
+        })
+
+        const progress = responses.flatMap(response => (response.type === 'progress' ? [response.progress] : []))
+        expect(progress.length).toBe(11)
+        expect(progress).toEqual([...progress].sort((a, b) => a - b))
+
+        const last = responses[responses.length - 1]
+        expect(last.type).toBe('result')
+        if (last.type !== 'result') return
+        expect(Array.from(last.samples.heights)).toEqual(
+            Array.from(sampleHeightmap(heightFunction, bounds, 31).heights)
+        )
+        expect(transfers[transfers.length - 1]).toEqual([last.samples.heights.buffer])
+
+        const failed: HeightmapSamplingResponse[] = []
+        runHeightmapSampling({ config: { seed: 1337 }, bounds, resolution: 1 }, response => failed.push(response))
+        expect(failed).toEqual([{ type: 'error', error: 'Heightmap resolution must be an integer >= 2, got 1' }])
+    })
+
+    it('yields to the event loop between slices without workers', async () => {
+        const progress: number[] = []
+        const samples = await sampleOnMainThread(
+            { config: { seed: 1337 }, bounds, resolution: 31 },
+            value => progress.push(value),
+            0
+        )
+
+        expect(progress.length).toBeGreaterThan(0)
+        expect(progress).toEqual([...progress].sort((a, b) => a - b))
+        expect(progress.every(value => value > 0 && value <= 1)).toBe(true)
+        expect(Array.from(samples.heights)).toEqual(Array.from(sampleHeightmap(heightFunction, bounds, 31).heights))
+    })
+})
@@ -0,0 +1,306 @@
+import { TerrainHeightFunction, type TerrainHeightConfig } from './TerrainHeightFunction'
+
+// Прямоугольник в мировых координатах (края включительно)
+export interface HeightmapBounds {
+    minX: number
+    minZ: number
+    maxX: number
+    maxZ: number
+}
+
+export type HeightmapFormat = 'png16' | 'r16' | 'float32'
+
+export interface HeightmapSamples {
+    heights: Float32Array
+    width: number
+    height: number
+    minHeight: number
+    maxHeight: number
+    bounds: HeightmapBounds
+}
+
+export interface ExportedFile {
+    name: string
+    mimeType: string
+    data: Uint8Array
+}
+
+// Описание карты высот для импорта в другие инструменты
+export interface HeightmapMetadata {
+    format: HeightmapFormat
+    width: number
+    height: number
+    minHeight: number
+    maxHeight: number
+    bounds: HeightmapBounds
+    seed: { input: string; value: number }
+}
+
+// Сетка высот по прямоугольнику bounds. resolution - число отсчётов вдоль длинной стороны,
+// вдоль короткой берётся столько, чтобы пиксели остались квадратными
+export function sampleHeightmap(
+    heightFunction: TerrainHeightFunction,
+    bounds: HeightmapBounds,
+    resolution: number
+): HeightmapSamples {
+    const task = createHeightmapSamplingTask(heightFunction, bounds, resolution)
+    let step = task.next()
+    while (!step.done) step = task.next()
+    return step.value
+}
+
+// Та же выборка по строкам: после каждой строки отдаёт долю готовых строк (0..1),
+// чтобы воркер экспорта сообщал прогресс, а выборка без воркера уступала поток интерфейсу
+export function* createHeightmapSamplingTask(
+    heightFunction: TerrainHeightFunction,
+    bounds: HeightmapBounds,
+    resolution: number
+): Generator<number, HeightmapSamples, void> {
+    const sizeX = bounds.maxX - bounds.minX
+    const sizeZ = bounds.maxZ - bounds.minZ
+    if (!(sizeX > 0 && sizeZ > 0)) {
+        throw new Error(`Invalid heightmap bounds: ${JSON.stringify(bounds)}`)
+    }
+    if (!Number.isInteger(resolution) || resolution < 2) {
+        throw new Error(`Heightmap resolution must be an integer >= 2, got ${resolution}`)
+    }
+
+    const step = Math.max(sizeX, sizeZ) / (resolution - 1)
+    const width = Math.max(2, Math.round(sizeX / step) + 1)
+    const height = Math.max(2, Math.round(sizeZ / step) + 1)
+    const heights = new Float32Array(width * height)
+    let minHeight = Infinity
+    let maxHeight = -Infinity
+
+    for (let z = 0; z < height; z++) {
+        const worldZ = bounds.minZ + (z / (height - 1)) * sizeZ
+        for (let x = 0; x < width; x++) {
+            const worldX = bounds.minX + (x / (width - 1)) * sizeX
+            const value = heightFunction.getHeight(worldX, worldZ)
+            heights[z * width + x] = value
+            minHeight = Math.min(minHeight, value)
+            maxHeight = Math.max(maxHeight, value)
+        }
+        yield (z + 1) / height
+    }
+
+    return { heights, width, height, minHeight, maxHeight, bounds: { ...bounds } }
+}
+
+// Выборка для экспорта из браузера идёт в HeightmapWorker - главный поток получает прогресс и готовую сетку
+export interface HeightmapSamplingRequest {
+    config: TerrainHeightConfig
+    bounds: HeightmapBounds
+    resolution: number
+}
+
+export type HeightmapSamplingResponse =
+    | { type: 'progress'; progress: number }
+    | { type: 'result'; samples: HeightmapSamples }
+    | { type: 'error'; error: string }
+
+// Тело HeightmapWorker без привязки к self. Прогресс отправляется не чаще раза на процент,
+// буфер высот передаётся без копирования
+export function runHeightmapSampling(
+    request: HeightmapSamplingRequest,
+    post: (response: HeightmapSamplingResponse, transfer: Transferable[]) => void
+): void {
+    try {
+        const heightFunction = new TerrainHeightFunction(request.config)
+        const task = createHeightmapSamplingTask(heightFunction, request.bounds, request.resolution)
+        let reported = 0
+        let step = task.next()
+        while (!step.done) {
+            if (step.value - reported >= 0.01) {
+                reported = step.value
+                post({ type: 'progress', progress: reported }, [])
+            }
+            step = task.next()
+        }
+        post({ type: 'result', samples: step.value }, [step.value.heights.buffer as ArrayBuffer])
+    } catch (error) {
+        post({ type: 'error', error: error instanceof Error ? error.message : String(error) }, [])
+    }
+}
+
+// Нормируем высоты в 0..65535 по диапазону min..max
+function quantize16(samples: HeightmapSamples): Uint16Array {
+    const range = samples.maxHeight - samples.minHeight
+    const result = new Uint16Array(samples.heights.length)
+    for (let i = 0; i < samples.heights.length; i++) {
+        const normalized = range > 0 ? (samples.heights[i] - samples.minHeight) / range : 0
+        result[i] = Math.round(normalized * 65535)
+    }
+    return result
+}
+
+// RAW r16: беззнаковые 16 бит, little-endian, строки по Z
+export function encodeRaw16(samples: HeightmapSamples): Uint8Array {
+    const values = quantize16(samples)
+    const bytes = new Uint8Array(values.length * 2)
+    const view = new DataView(bytes.buffer)
+    values.forEach((value, i) => view.setUint16(i * 2, value, true))
+    return bytes
+}
+
+// Float32 little-endian в мировых единицах, без нормализации
+export function encodeFloat32(samples: HeightmapSamples): Uint8Array {
+    const bytes = new Uint8Array(samples.heights.length * 4)
+    const view = new DataView(bytes.buffer)
+    samples.heights.forEach((value, i) => view.setFloat32(i * 4, value, true))
+    return bytes
+}
+
+// 16-битный grayscale PNG (big-endian пиксели по спецификации PNG)
+export function encodePng16(samples: HeightmapSamples): Uint8Array {
+    const { width, height } = samples
+    const values = quantize16(samples)
+
+    // Каждая строка начинается с байта фильтра (0 - без фильтра)
+    const rowLength = 1 + width * 2
+    const raw = new Uint8Array(rowLength * height)
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const value = values[y * width + x]
+            const offset = y * rowLength + 1 + x * 2
+            raw[offset] = value >> 8
+            raw[offset + 1] = value & 0xff
+        }
+    }
+
+    const header = new Uint8Array(13)
+    const headerView = new DataView(header.buffer)
+    headerView.setUint32(0, width)
+    headerView.setUint32(4, height)
+    header[8] = 16 // Глубина
+    header[9] = 0 // Grayscale
+    header[10] = 0 // Deflate
+    header[11] = 0 // Стандартные фильтры
+    header[12] = 0 // Без interlace
+
+    return concatBytes([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        createPngChunk('IHDR', header),
+        createPngChunk('IDAT', zlibStore(raw)),
+        createPngChunk('IEND', new Uint8Array()),
+    ])
+}
+
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length)
+    const view = new DataView(chunk.buffer)
+    view.setUint32(0, data.length)
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+    chunk.set(data, 8)
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+    return chunk
+}
+
+// zlib-поток из несжатых deflate блоков: синхронно и без зависимостей,
+// размер файла не критичен - его всё равно пережимают при импорте
+function zlibStore(data: Uint8Array): Uint8Array {
+    const maxBlock = 0xffff
+    const blockCount = Math.max(1, Math.ceil(data.length / maxBlock))
+    const output = new Uint8Array(2 + data.length + blockCount * 5 + 4)
+    const view = new DataView(output.buffer)
+    output[0] = 0x78
+    output[1] = 0x01
+
+    let offset = 2
+    for (let block = 0; block < blockCount; block++) {
+        const start = block * maxBlock
+        const length = Math.min(maxBlock, data.length - start)
+        output[offset] = block === blockCount - 1 ? 1 : 0
+        view.setUint16(offset + 1, length, true)
+        view.setUint16(offset + 3, ~length & 0xffff, true)
+        output.set(data.subarray(start, start + length), offset + 5)
+        offset += 5 + length
+    }
+
+    view.setUint32(offset, adler32(data))
+    return output
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256)
+        for (let n = 0; n < 256; n++) {
+            let c = n
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+            }
+            crcTable[n] = c >>> 0
+        }
+    }
+
+    let crc = 0xffffffff
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+function adler32(data: Uint8Array): number {
+    let a = 1
+    let b = 0
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521
+        b = (b + a) % 65521
+    }
+    return ((b << 16) | a) >>> 0
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+        result.set(part, offset)
+        offset += part.length
+    }
+    return result
+}
+
+// Файл карты высот и JSON с диапазоном высот, границами и seed.
+// Для png16/r16 без него не восстановить мировые высоты
+export function exportHeightmapFiles(
+    samples: HeightmapSamples,
+    format: HeightmapFormat,
+    seed: { input: string; value: number },
+    baseName: string
+): ExportedFile[] {
+    const metadata: HeightmapMetadata = {
+        format,
+        width: samples.width,
+        height: samples.height,
+        minHeight: samples.minHeight,
+        maxHeight: samples.maxHeight,
+        bounds: samples.bounds,
+        seed,
+    }
+
+    let file: ExportedFile
+    switch (format) {
+        case 'png16':
+            file = { name: `${baseName}.png`, mimeType: 'image/png', data: encodePng16(samples) }
+            break
+        case 'r16':
+            file = { name: `${baseName}.r16`, mimeType: 'application/octet-stream', data: encodeRaw16(samples) }
+            break
+        case 'float32':
+            file = { name: `${baseName}.bin`, mimeType: 'application/octet-stream', data: encodeFloat32(samples) }
+            break
+        default:
+            throw new Error(`Unsupported heightmap format: ${format}`)
+    }
+
+    return [
+        file,
+        {
+            name: `${baseName}.json`,
+            mimeType: 'application/json',
+            data: new TextEncoder().encode(JSON.stringify(metadata, null, 4)),
+        },
+    ]
+}
@@ -0,0 +1,71 @@
+// Выборка карты высот для экспорта без зависания интерфейса: сотни тысяч отсчётов с эрозией и руслами рек
+// считает отдельный воркер. Без воркеров (тесты, headless) выборка идёт квантами на главном потоке
+import {
+    createHeightmapSamplingTask,
+    type HeightmapSamples,
+    type HeightmapSamplingRequest,
+    type HeightmapSamplingResponse,
+} from './HeightmapExporter'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+
+export type HeightmapProgress = (progress: number) => void // Доля готовых строк, 0..1
+
+export function sampleHeightmapAsync(
+    request: HeightmapSamplingRequest,
+    onProgress?: HeightmapProgress
+): Promise<HeightmapSamples> {
+    if (typeof Worker === 'undefined') {
+        return sampleOnMainThread(request, onProgress)
+    }
+
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./HeightmapWorker.ts', import.meta.url), { type: 'module' })
+
+        worker.onmessage = (e: MessageEvent<HeightmapSamplingResponse>) => {
+            const response = e.data
+            switch (response.type) {
+                case 'progress':
+                    onProgress?.(response.progress)
+                    break
+                case 'result':
+                    worker.terminate()
+                    resolve(response.samples)
+                    break
+                case 'error':
+                    worker.terminate()
+                    reject(new Error(response.error))
+                    break
+            }
+        }
+
+        worker.onerror = error => {
+            worker.terminate()
+            reject(new Error(`Heightmap worker failed: ${error.message ?? 'unknown error'}`))
+        }
+
+        worker.postMessage(request)
+    })
+}
+
+// Кванты по sliceDuration мс, между ними поток отдаётся интерфейсу
+export async function sampleOnMainThread(
+    request: HeightmapSamplingRequest,
+    onProgress?: HeightmapProgress,
+    sliceDuration: number = 8
+): Promise<HeightmapSamples> {
+    const heightFunction = new TerrainHeightFunction(request.config)
+    const task = createHeightmapSamplingTask(heightFunction, request.bounds, request.resolution)
+
+    // Квант - минимум одна строка
+    for (;;) {
+        const deadline = performance.now() + sliceDuration
+        let step = task.next()
+        while (!step.done && performance.now() < deadline) {
+            step = task.next()
+        }
+        if (step.done) return step.value
+
+        onProgress?.(step.value)
+        await new Promise(resolve => setTimeout(resolve, 0))
+    }
+}
@@ -0,0 +1,6 @@
+// Веб-воркер выборки карты высот для экспорта
+import { runHeightmapSampling, type HeightmapSamplingRequest } from './HeightmapExporter'
+
+self.onmessage = function (e: MessageEvent<HeightmapSamplingRequest>) {
+    runHeightmapSampling(e.data, (response, transfer) => self.postMessage(response, { transfer }))
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { generateChunkGeometry } from './ChunkGeometryGenerator'
+import { buildTerrainGrid, encodeGlb, encodeStl, type ChunkRange, type ChunkSurface } from './MeshExporter'
+
+const chunkSize = 100
+const range: ChunkRange = { fromX: 0, fromZ: 0, toX: 1, toZ: 1 }
+
+// Чанки с разным LOD, как на границе колец
+function createSurfaces(): ChunkSurface[] {
+    const surfaces: ChunkSurface[] = []
+    for (const [chunkX, chunkZ, lodLevel] of [
+        [0, 0, 0],
+        [1, 0, 1],
+        [0, 1, 1],
+        [1, 1, 2],
+    ]) {
+        const resolution = 8 >> lodLevel
+        const result = generateChunkGeometry({
+            id: `${chunkX},${chunkZ}`,
+            chunkX,
+            chunkZ,
+            chunkSize,
+            chunkResolution: resolution,
+            lodLevel,
+            heightGeneratorConfig: { seed: 1337 },
+        })
+        surfaces.push({ chunkX, chunkZ, chunkSize, resolution, vertices: result.vertices, colors: result.colors })
+    }
+    return surfaces
+}
+
+describe('MeshExporter', () => {
+    it('welds chunks of different LOD into one grid at the finest resolution', () => {
+        const surfaces = createSurfaces()
+        const grid = buildTerrainGrid(surfaces, range, 2)
+
+        expect(grid.width).toBe(17)
+        expect(grid.depth).toBe(17)
+        expect(grid.mesh.positions.length).toBe(17 * 17 * 3)
+        expect(grid.mesh.indices.length).toBe(16 * 16 * 6)
+
+        // Внутренние вершины LOD 0 переносятся без изменений, с учётом вертикального масштаба
+        const inner = 3 * 17 + 5
+        expect(grid.mesh.positions[inner * 3]).toBe(-50 + 5 * 12.5)
+        expect(grid.mesh.positions[inner * 3 + 1]).toBeCloseTo(surfaces[0].vertices[(3 * 9 + 5) * 3 + 1] * 2, 4)
+
+        expect(() => buildTerrainGrid(surfaces.slice(1), range, 1)).toThrow(/0,0/)
+    })
+
+    it('writes a watertight STL', () => {
+        const stl = encodeStl(buildTerrainGrid(createSurfaces(), range, 1), 2)
+        const view = new DataView(stl.buffer)
+        const triangleCount = view.getUint32(80, true)
+        expect(stl.length).toBe(84 + triangleCount * 50)
+
+        // В замкнутой ориентированной сетке каждое ребро встречается ровно один раз в каждом направлении
+        const edges = new Map<string, number>()
+        const vertexKey = (offset: number) => [0, 4, 8].map(k => view.getFloat32(offset + k, true).toFixed(3)).join(',')
+        for (let t = 0; t < triangleCount; t++) {
+            const offset = 84 + t * 50 + 12
+            const keys = [vertexKey(offset), vertexKey(offset + 12), vertexKey(offset + 24)]
+            for (let k = 0; k < 3; k++) {
+                const edge = `${keys[k]}>${keys[(k + 1) % 3]}`
+                edges.set(edge, (edges.get(edge) ?? 0) + 1)
+            }
+        }
+        for (const [edge, count] of edges) {
+            const [from, to] = edge.split('>')
+            expect(count).toBe(1)
+            expect(edges.get(`${to}>${from}`)).toBe(1)
+        }
+    })
+
+    it('writes a binary glTF container with terrain and water nodes', () => {
+        const grid = buildTerrainGrid(createSurfaces(), range, 1)
+        const glb = encodeGlb(grid.mesh, grid.mesh)
+        const view = new DataView(glb.buffer)
+
+        expect(view.getUint32(0, true)).toBe(0x46546c67)
+        expect(view.getUint32(8, true)).toBe(glb.length)
+
+        const jsonLength = view.getUint32(12, true)
+        const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + jsonLength)))
+        expect(json.nodes.map((node: { name: string }) => node.name)).toEqual(['terrain', 'water'])
+        expect(json.meshes[0].primitives[0].attributes).toHaveProperty('COLOR_0')
+        expect(json.buffers[0].byteLength).toBeLessThanOrEqual(view.getUint32(20 + jsonLength, true))
+    })
+})
@@ -0,0 +1,505 @@
+import type { ExportedFile } from './HeightmapExporter'
+
+export type MeshExportFormat = 'glb' | 'obj' | 'stl'
+
+// Сетка одного отрендеренного чанка: первые (resolution + 1)^2 вершин - регулярная сетка
+// в локальных координатах чанка (юбка идёт после неё и в экспорт не попадает)
+export interface ChunkSurface {
+    chunkX: number
+    chunkZ: number
+    chunkSize: number
+    resolution: number
+    vertices: Float32Array
+    colors: Float32Array
+}
+
+// Произвольная треугольная сетка в мировых координатах (вода)
+export interface SurfaceMesh {
+    positions: Float32Array
+    indices: Uint32Array
+}
+
+export interface ChunkRange {
+    fromX: number
+    fromZ: number
+    toX: number
+    toZ: number
+}
+
+export interface MeshExportOptions {
+    range: ChunkRange
+    format: MeshExportFormat
+    verticalScale: number
+    baseThickness?: number // Толщина основания STL под минимальной высотой, в мировых единицах
+}
+
+export interface ExportMesh {
+    positions: Float32Array
+    normals: Float32Array
+    colors: Float32Array
+    indices: Uint32Array
+}
+
+// Единая сетка террейна в диапазоне: края чанков сварены, значения по краю усредняются
+export interface TerrainGrid {
+    width: number
+    depth: number
+    mesh: ExportMesh
+}
+
+const waterColor = [0.23, 0.51, 0.96]
+
+// Собирает чанки диапазона в одну регулярную сетку с разрешением самого детального чанка.
+// Грубые LOD досэмплируются по своим треугольникам, поэтому форма поверхности не меняется,
+// а общие вершины на границах чанков сливаются в одну
+export function buildTerrainGrid(surfaces: ChunkSurface[], range: ChunkRange, verticalScale: number): TerrainGrid {
+    const chunksX = range.toX - range.fromX + 1
+    const chunksZ = range.toZ - range.fromZ + 1
+    if (chunksX < 1 || chunksZ < 1) {
+        throw new Error(`Invalid chunk range: ${JSON.stringify(range)}`)
+    }
+
+    const byKey = new Map(surfaces.map(surface => [`${surface.chunkX},${surface.chunkZ}`, surface]))
+    const missing: string[] = []
+    for (let z = range.fromZ; z <= range.toZ; z++) {
+        for (let x = range.fromX; x <= range.toX; x++) {
+            if (!byKey.has(`${x},${z}`)) missing.push(`${x},${z}`)
+        }
+    }
+    if (missing.length > 0) {
+        throw new Error(
+            `Chunks not loaded for export yet: ${missing.join(' ')} - wait for the terrain to finish loading`
+        )
+    }
+
+    const chunkSize = surfaces[0].chunkSize
+    const resolution = Math.max(...surfaces.map(surface => surface.resolution))
+    const width = chunksX * resolution + 1
+    const depth = chunksZ * resolution + 1
+    const cellSize = chunkSize / resolution
+    const originX = (range.fromX - 0.5) * chunkSize
+    const originZ = (range.fromZ - 0.5) * chunkSize
+
+    const heightSum = new Float64Array(width * depth)
+    const colorSum = new Float64Array(width * depth * 3)
+    const weight = new Uint8Array(width * depth)
+    const sample = [0, 0, 0, 0]
+
+    for (let chunkZ = range.fromZ; chunkZ <= range.toZ; chunkZ++) {
+        for (let chunkX = range.fromX; chunkX <= range.toX; chunkX++) {
+            const surface = byKey.get(`${chunkX},${chunkZ}`)!
+            const offsetX = (chunkX - range.fromX) * resolution
+            const offsetZ = (chunkZ - range.fromZ) * resolution
+
+            for (let z = 0; z <= resolution; z++) {
+                for (let x = 0; x <= resolution; x++) {
+                    sampleSurface(surface, x / resolution, z / resolution, sample)
+                    const index = (offsetZ + z) * width + offsetX + x
+                    heightSum[index] += sample[0]
+                    colorSum[index * 3] += sample[1]
+                    colorSum[index * 3 + 1] += sample[2]
+                    colorSum[index * 3 + 2] += sample[3]
+                    weight[index]++
+                }
+            }
+        }
+    }
+
+    const positions = new Float32Array(width * depth * 3)
+    const colors = new Float32Array(width * depth * 3)
+    for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+            const index = z * width + x
+            positions[index * 3] = originX + x * cellSize
+            positions[index * 3 + 1] = (heightSum[index] / weight[index]) * verticalScale
+            positions[index * 3 + 2] = originZ + z * cellSize
+            for (let c = 0; c < 3; c++) {
+                colors[index * 3 + c] = colorSum[index * 3 + c] / weight[index]
+            }
+        }
+    }
+
+    // Та же триангуляция, что у чанков
+    const indices = new Uint32Array((width - 1) * (depth - 1) * 6)
+    let offset = 0
+    for (let z = 0; z < depth - 1; z++) {
+        for (let x = 0; x < width - 1; x++) {
+            const a = z * width + x
+            const b = a + 1
+            const c = a + width
+            const d = c + 1
+            indices.set([a, c, b, b, c, d], offset)
+            offset += 6
+        }
+    }
+
+    return {
+        width,
+        depth,
+        mesh: { positions, colors, indices, normals: computeVertexNormals(positions, indices) },
+    }
+}
+
+// Высота и цвет на поверхности чанка в точке (u, v) из [0, 1], по треугольникам (a, c, b) / (b, c, d)
+function sampleSurface(surface: ChunkSurface, u: number, v: number, out: number[]): void {
+    const resolution = surface.resolution
+    const row = resolution + 1
+    const gridX = u * resolution
+    const gridZ = v * resolution
+    const x0 = Math.min(Math.floor(gridX), resolution - 1)
+    const z0 = Math.min(Math.floor(gridZ), resolution - 1)
+    const fx = gridX - x0
+    const fz = gridZ - z0
+
+    const a = z0 * row + x0
+    const b = a + 1
+    const c = a + row
+    const d = c + 1
+
+    // Веса барицентрической интерполяции для вершин a, b, c, d
+    let wa = 0
+    let wb: number
+    let wc: number
+    let wd = 0
+    if (fx + fz <= 1) {
+        wa = 1 - fx - fz
+        wb = fx
+        wc = fz
+    } else {
+        wd = fx + fz - 1
+        wb = 1 - fz
+        wc = 1 - fx
+    }
+
+    out[0] =
+        surface.vertices[a * 3 + 1] * wa +
+        surface.vertices[b * 3 + 1] * wb +
+        surface.vertices[c * 3 + 1] * wc +
+        surface.vertices[d * 3 + 1] * wd
+    for (let channel = 0; channel < 3; channel++) {
+        out[channel + 1] =
+            surface.colors[a * 3 + channel] * wa +
+            surface.colors[b * 3 + channel] * wb +
+            surface.colors[c * 3 + channel] * wc +
+            surface.colors[d * 3 + channel] * wd
+    }
+}
+
+// Сливает меши воды в один, сваривая совпадающие вершины на стыках чанков
+export function buildWaterMesh(meshes: SurfaceMesh[], verticalScale: number): ExportMesh {
+    const positions: number[] = []
+    const indices: number[] = []
+    const vertexByKey = new Map<string, number>()
+
+    for (const mesh of meshes) {
+        const remap = new Uint32Array(mesh.positions.length / 3)
+        for (let i = 0; i < remap.length; i++) {
+            const x = mesh.positions[i * 3]
+            const y = mesh.positions[i * 3 + 1] * verticalScale
+            const z = mesh.positions[i * 3 + 2]
+            const key = `${x.toFixed(3)},${y.toFixed(3)},${z.toFixed(3)}`
+
+            let vertex = vertexByKey.get(key)
+            if (vertex === undefined) {
+                vertex = positions.length / 3
+                positions.push(x, y, z)
+                vertexByKey.set(key, vertex)
+            }
+            remap[i] = vertex
+        }
+        mesh.indices.forEach(index => indices.push(remap[index]))
+    }
+
+    const colors = new Float32Array(positions.length)
+    for (let i = 0; i < colors.length; i += 3) colors.set(waterColor, i)
+
+    const positionArray = new Float32Array(positions)
+    const indexArray = new Uint32Array(indices)
+    return {
+        positions: positionArray,
+        colors,
+        indices: indexArray,
+        normals: computeVertexNormals(positionArray, indexArray),
+    }
+}
+
+// Нормали вершин, взвешенные по площади треугольников
+function computeVertexNormals(positions: Float32Array, indices: Uint32Array): Float32Array {
+    const normals = new Float32Array(positions.length)
+    for (let i = 0; i < indices.length; i += 3) {
+        const [nx, ny, nz] = triangleNormal(positions, indices[i], indices[i + 1], indices[i + 2])
+        for (let k = 0; k < 3; k++) {
+            normals[indices[i + k] * 3] += nx
+            normals[indices[i + k] * 3 + 1] += ny
+            normals[indices[i + k] * 3 + 2] += nz
+        }
+    }
+    for (let i = 0; i < normals.length; i += 3) {
+        const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]) || 1
+        normals[i] /= length
+        normals[i + 1] /= length
+        normals[i + 2] /= length
+    }
+    return normals
+}
+
+// Ненормированная нормаль (длина равна удвоенной площади)
+function triangleNormal(positions: ArrayLike<number>, a: number, b: number, c: number): [number, number, number] {
+    const abx = positions[b * 3] - positions[a * 3]
+    const aby = positions[b * 3 + 1] - positions[a * 3 + 1]
+    const abz = positions[b * 3 + 2] - positions[a * 3 + 2]
+    const acx = positions[c * 3] - positions[a * 3]
+    const acy = positions[c * 3 + 1] - positions[a * 3 + 1]
+    const acz = positions[c * 3 + 2] - positions[a * 3 + 2]
+    return [aby * acz - abz * acy, abz * acx - abx * acz, abx * acy - aby * acx]
+}
+
+// Binary glTF 2.0: террейн и вода - отдельные узлы, цвета вершин в COLOR_0
+export function encodeGlb(terrain: ExportMesh, water: ExportMesh | null): Uint8Array {
+    const buffers: Uint8Array[] = []
+    const bufferViews: object[] = []
+    const accessors: object[] = []
+    let byteLength = 0
+
+    const addAccessor = (
+        data: Float32Array | Uint32Array,
+        type: 'VEC3' | 'SCALAR',
+        target: number,
+        withBounds = false
+    ): number => {
+        const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target })
+        buffers.push(bytes)
+        byteLength += bytes.length // Все данные 4-байтовые, выравнивание сохраняется
+
+        const accessor: Record<string, unknown> = {
+            bufferView: bufferViews.length - 1,
+            componentType: data instanceof Float32Array ? 5126 : 5125,
+            count: type === 'VEC3' ? data.length / 3 : data.length,
+            type,
+        }
+        if (withBounds) {
+            // POSITION обязан иметь min/max
+            const min = [Infinity, Infinity, Infinity]
+            const max = [-Infinity, -Infinity, -Infinity]
+            for (let i = 0; i < data.length; i += 3) {
+                for (let k = 0; k < 3; k++) {
+                    min[k] = Math.min(min[k], data[i + k])
+                    max[k] = Math.max(max[k], data[i + k])
+                }
+            }
+            accessor.min = min
+            accessor.max = max
+        }
+        accessors.push(accessor)
+        return accessors.length - 1
+    }
+
+    const meshes: object[] = []
+    const nodes: object[] = []
+    const addMesh = (name: string, mesh: ExportMesh, material: number) => {
+        const position = addAccessor(mesh.positions, 'VEC3', 34962, true)
+        const normal = addAccessor(mesh.normals, 'VEC3', 34962)
+        const color = addAccessor(mesh.colors, 'VEC3', 34962)
+        const indices = addAccessor(mesh.indices, 'SCALAR', 34963)
+        meshes.push({
+            name,
+            primitives: [{ attributes: { POSITION: position, NORMAL: normal, COLOR_0: color }, indices, material }],
+        })
+        nodes.push({ name, mesh: meshes.length - 1 })
+    }
+
+    addMesh('terrain', terrain, 0)
+    if (water && water.indices.length > 0) addMesh('water', water, 1)
+
+    const json = {
+        asset: { version: '2.0', generator: 'three-vibes' },
+        scene: 0,
+        scenes: [{ nodes: nodes.map((_, index) => index) }],
+        nodes,
+        meshes,
+        materials: [
+            { name: 'terrain', pbrMetallicRoughness: { metallicFactor: 0, roughnessFactor: 1 } },
+            {
+                name: 'water',
+                alphaMode: 'BLEND',
+                pbrMetallicRoughness: { baseColorFactor: [1, 1, 1, 0.7], metallicFactor: 0, roughnessFactor: 0.1 },
+            },
+        ],
+        accessors,
+        bufferViews,
+        buffers: [{ byteLength }],
+    }
+
+    // Чанк JSON дополняется пробелами, BIN - нулями до кратности 4
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json))
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4
+    const binLength = Math.ceil(byteLength / 4) * 4
+    const glb = new Uint8Array(12 + 8 + jsonLength + 8 + binLength)
+    const view = new DataView(glb.buffer)
+
+    view.setUint32(0, 0x46546c67, true) // 'glTF'
+    view.setUint32(4, 2, true)
+    view.setUint32(8, glb.length, true)
+    view.setUint32(12, jsonLength, true)
+    view.setUint32(16, 0x4e4f534a, true) // 'JSON'
+    glb.fill(0x20, 20, 20 + jsonLength)
+    glb.set(jsonBytes, 20)
+
+    const binOffset = 20 + jsonLength
+    view.setUint32(binOffset, binLength, true)
+    view.setUint32(binOffset + 4, 0x004e4942, true) // 'BIN'
+    let offset = binOffset + 8
+    for (const bytes of buffers) {
+        glb.set(bytes, offset)
+        offset += bytes.length
+    }
+
+    return glb
+}
+
+// Wavefront OBJ с цветами вершин в расширенной записи "v x y z r g b"
+export function encodeObj(terrain: ExportMesh, water: ExportMesh | null): Uint8Array {
+    const lines: string[] = ['# three-vibes terrain export']
+    let vertexOffset = 1
+
+    const writeMesh = (name: string, mesh: ExportMesh) => {
+        lines.push(`o ${name}`)
+        for (let i = 0; i < mesh.positions.length; i += 3) {
+            const p = mesh.positions
+            const c = mesh.colors
+            lines.push(
+                `v ${p[i].toFixed(4)} ${p[i + 1].toFixed(4)} ${p[i + 2].toFixed(4)} ${c[i].toFixed(4)} ${c[i + 1].toFixed(4)} ${c[i + 2].toFixed(4)}`
+            )
+        }
+        for (let i = 0; i < mesh.normals.length; i += 3) {
+            const n = mesh.normals
+            lines.push(`vn ${n[i].toFixed(4)} ${n[i + 1].toFixed(4)} ${n[i + 2].toFixed(4)}`)
+        }
+        for (let i = 0; i < mesh.indices.length; i += 3) {
+            const a = mesh.indices[i] + vertexOffset
+            const b = mesh.indices[i + 1] + vertexOffset
+            const c = mesh.indices[i + 2] + vertexOffset
+            lines.push(`f ${a}//${a} ${b}//${b} ${c}//${c}`)
+        }
+        vertexOffset += mesh.positions.length / 3
+    }
+
+    writeMesh('terrain', terrain)
+    if (water && water.indices.length > 0) writeMesh('water', water)
+
+    return new TextEncoder().encode(lines.join('\n') + '\n')
+}
+
+// Замкнутое тело для печати: поверхность, боковые стенки по периметру и плоское основание.
+// Вода не включается - отдельная оболочка нарушила бы герметичность.
+// Ось Y мира становится осью Z STL, как ожидают слайсеры
+export function encodeStl(grid: TerrainGrid, baseThickness: number): Uint8Array {
+    const { width, depth, mesh } = grid
+    const positions = Array.from(mesh.positions)
+    const triangles: number[] = Array.from(mesh.indices)
+
+    let minHeight = Infinity
+    for (let i = 1; i < positions.length; i += 3) minHeight = Math.min(minHeight, positions[i])
+    const baseY = minHeight - baseThickness
+
+    // Периметр в том же порядке обхода, что и юбки чанков: стенки смотрят наружу
+    const perimeter: number[] = []
+    for (let x = width - 1; x > 0; x--) perimeter.push(x) // z = 0, по -x
+    for (let z = 0; z < depth - 1; z++) perimeter.push(z * width) // x = 0, по +z
+    for (let x = 0; x < width - 1; x++) perimeter.push((depth - 1) * width + x) // z = max, по +x
+    for (let z = depth - 1; z > 0; z--) perimeter.push(z * width + width - 1) // x = max, по -z
+
+    const bottomStart = positions.length / 3
+    for (const top of perimeter) {
+        positions.push(positions[top * 3], baseY, positions[top * 3 + 2])
+    }
+
+    for (let i = 0; i < perimeter.length; i++) {
+        const next = (i + 1) % perimeter.length
+        const top0 = perimeter[i]
+        const top1 = perimeter[next]
+        const bottom0 = bottomStart + i
+        const bottom1 = bottomStart + next
+        triangles.push(top0, bottom0, top1, top1, bottom0, bottom1)
+    }
+
+    // Основание веером от центра: нормали вниз
+    const center = positions.length / 3
+    positions.push(
+        (positions[0] + positions[(width - 1) * 3]) / 2,
+        baseY,
+        (positions[2] + positions[(depth - 1) * width * 3 + 2]) / 2
+    )
+    for (let i = 0; i < perimeter.length; i++) {
+        triangles.push(center, bottomStart + ((i + 1) % perimeter.length), bottomStart + i)
+    }
+
+    const triangleCount = triangles.length / 3
+    const stl = new Uint8Array(84 + triangleCount * 50)
+    const view = new DataView(stl.buffer)
+    stl.set(new TextEncoder().encode('three-vibes terrain export'))
+    view.setUint32(80, triangleCount, true)
+
+    // (x, y, z) -> (x, -z, y): поворот вокруг X, ориентация треугольников сохраняется
+    const writeVector = (offset: number, x: number, y: number, z: number) => {
+        view.setFloat32(offset, x, true)
+        view.setFloat32(offset + 4, -z, true)
+        view.setFloat32(offset + 8, y, true)
+    }
+
+    for (let t = 0; t < triangleCount; t++) {
+        const offset = 84 + t * 50
+        const a = triangles[t * 3]
+        const b = triangles[t * 3 + 1]
+        const c = triangles[t * 3 + 2]
+        const [nx, ny, nz] = triangleNormal(positions, a, b, c)
+        const length = Math.hypot(nx, ny, nz) || 1
+
+        writeVector(offset, nx / length, ny / length, nz / length)
+        writeVector(offset + 12, positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2])
+        writeVector(offset + 24, positions[b * 3], positions[b * 3 + 1], positions[b * 3 + 2])
+        writeVector(offset + 36, positions[c * 3], positions[c * 3 + 1], positions[c * 3 + 2])
+    }
+
+    return stl
+}
+
+export function exportMeshFiles(
+    surfaces: ChunkSurface[],
+    water: SurfaceMesh[],
+    options: MeshExportOptions,
+    baseName: string
+): ExportedFile[] {
+    const { range, format, verticalScale } = options
+    const grid = buildTerrainGrid(surfaces, range, verticalScale)
+
+    switch (format) {
+        case 'glb':
+            return [
+                {
+                    name: `${baseName}.glb`,
+                    mimeType: 'model/gltf-binary',
+                    data: encodeGlb(grid.mesh, buildWaterMesh(water, verticalScale)),
+                },
+            ]
+        case 'obj':
+            return [
+                {
+                    name: `${baseName}.obj`,
+                    mimeType: 'model/obj',
+                    data: encodeObj(grid.mesh, buildWaterMesh(water, verticalScale)),
+                },
+            ]
+        case 'stl':
+            return [
+                {
+                    name: `${baseName}.stl`,
+                    mimeType: 'model/stl',
+                    data: encodeStl(grid, options.baseThickness ?? 2),
+                },
+            ]
+        default:
+            throw new Error(`Unsupported mesh format: ${format}`)
+    }
+}
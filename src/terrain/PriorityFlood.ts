@@ -0,0 +1,136 @@
+// Priority-flood (Barnes et al. 2014) на квадратной сетке высот - общий для сети рек и поиска водоёмов
+export const SEA_LEVEL = 0
+
+export interface FloodResult {
+    filled: Float64Array // Высота с залитыми впадинами: во впадине - высота её точки перелива; ниже моря - море
+    receivers: Int32Array // Ячейка, из которой до этой дошла заливка (куда она стекает); -1 у стоков
+    order: Int32Array // Порядок заливки: от стоков вверх по течению
+}
+
+const neighbourOffsets = [
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [-1, 0],
+    [1, 0],
+    [-1, 1],
+    [0, 1],
+    [1, 1],
+]
+
+// Ниже заливка - раньше; при равной высоте раньше добавленная ячейка
+function precedes(level: number, order: number, otherLevel: number, otherOrder: number): boolean {
+    return level < otherLevel || (level === otherLevel && order < otherOrder)
+}
+
+// Двоичная min-куча ячеек по высоте заливки. Каждая ячейка попадает в неё не больше одного раза,
+// поэтому ключи и изменение приоритета не нужны: хватает типизированных массивов на размер сетки.
+// При равной высоте раньше выходит ячейка, добавленная раньше, - заливка ровных участков идёт по порядку
+class CellHeap {
+    private cells: Int32Array
+    private levels: Float64Array
+    private orders: Int32Array
+    private insertions = 0
+    size = 0
+
+    constructor(capacity: number) {
+        this.cells = new Int32Array(capacity)
+        this.levels = new Float64Array(capacity)
+        this.orders = new Int32Array(capacity)
+    }
+
+    push(cell: number, level: number): void {
+        const order = this.insertions++
+        let index = this.size++
+        while (index > 0) {
+            const parent = (index - 1) >> 1
+            if (!precedes(level, order, this.levels[parent], this.orders[parent])) break
+            this.move(parent, index)
+            index = parent
+        }
+        this.set(index, cell, level, order)
+    }
+
+    pop(): number {
+        const top = this.cells[0]
+        const last = --this.size
+        if (last === 0) return top
+
+        const cell = this.cells[last]
+        const level = this.levels[last]
+        const order = this.orders[last]
+        let index = 0
+        for (;;) {
+            let child = index * 2 + 1
+            if (child >= last) break
+            const right = child + 1
+            if (
+                right < last &&
+                precedes(this.levels[right], this.orders[right], this.levels[child], this.orders[child])
+            ) {
+                child = right
+            }
+            if (!precedes(this.levels[child], this.orders[child], level, order)) break
+            this.move(child, index)
+            index = child
+        }
+        this.set(index, cell, level, order)
+        return top
+    }
+
+    private move(from: number, to: number): void {
+        this.set(to, this.cells[from], this.levels[from], this.orders[from])
+    }
+
+    private set(index: number, cell: number, level: number, order: number): void {
+        this.cells[index] = cell
+        this.levels[index] = level
+        this.orders[index] = order
+    }
+}
+
+// Заливка от краёв сетки по возрастанию высоты. Море - ячейки, до которых заливка дошла ниже SEA_LEVEL,
+// то есть связанные с краем; замкнутая впадина с дном ниже моря заливается до своего перелива, как любая.
+// epsilon > 0 даёт залитым впадинам слабый уклон к точке перелива, чтобы сток через них был однозначным;
+// 0 - ровная гладь озера
+export function priorityFlood(heights: Float64Array, row: number, epsilon: number): FloodResult {
+    const receivers = new Int32Array(heights.length).fill(-1)
+    const filled = new Float64Array(heights.length)
+    const queued = new Uint8Array(heights.length)
+    const order = new Int32Array(heights.length)
+    const queue = new CellHeap(heights.length)
+
+    for (let i = 0; i < heights.length; i++) {
+        const x = i % row
+        const z = Math.floor(i / row)
+        if (x === 0 || z === 0 || x === row - 1 || z === row - 1) {
+            filled[i] = heights[i]
+            queued[i] = 1
+            queue.push(i, filled[i])
+        }
+    }
+
+    let processed = 0
+    while (queue.size > 0) {
+        const cell = queue.pop()
+        order[processed++] = cell
+        const x = cell % row
+        const z = Math.floor(cell / row)
+
+        for (const [offsetX, offsetZ] of neighbourOffsets) {
+            const nx = x + offsetX
+            const nz = z + offsetZ
+            if (nx < 0 || nz < 0 || nx >= row || nz >= row) continue
+
+            const neighbour = nz * row + nx
+            if (queued[neighbour]) continue
+
+            queued[neighbour] = 1
+            filled[neighbour] = Math.max(heights[neighbour], filled[cell] + epsilon)
+            receivers[neighbour] = cell
+            queue.push(neighbour, filled[neighbour])
+        }
+    }
+
+    return { filled, receivers, order }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import { generateChunkGeometry } from './ChunkGeometryGenerator'
+import { buildRiverRibbon } from './RiverRibbon'
+
+const AREA = 2000
+
+describe('RiverNetwork', () => {
+    const terrain = new TerrainHeightFunction({ seed: 3 })
+    const splines = terrain.getRiverSplines(-AREA, -AREA, AREA, AREA)
+
+    it('derives rivers that never flow uphill', () => {
+        expect(splines.length).toBeGreaterThan(0)
+
+        for (const { points } of splines) {
+            expect(points.length).toBeGreaterThanOrEqual(2)
+            for (let i = 1; i < points.length; i++) {
+                expect(points[i].surface).toBeLessThanOrEqual(points[i - 1].surface)
+                expect(points[i].distance).toBeGreaterThan(points[i - 1].distance)
+            }
+        }
+    })
+
+    it('is deterministic and independent of query order', () => {
+        const other = new TerrainHeightFunction({ seed: 3 })
+        other.getRiverSplines(AREA, AREA, AREA * 2, AREA * 2)
+        expect(other.getRiverSplines(-AREA, -AREA, AREA, AREA)).toEqual(splines)
+    })
+
+    it('carves the channel below the water surface', () => {
+        const point = splines[0].points[1]
+        const carved = terrain.getHeight(point.x, point.z)
+
+        expect(carved).toBeLessThan(point.surface)
+        expect(carved).toBeLessThanOrEqual(terrain.getBaseHeight(point.x, point.z))
+    })
+
+    it('continues a spline across the chunk boundary', () => {
+        const chunkSize = 100
+        const chunkOf = (value: number) => Math.floor(value / chunkSize)
+        const chunkSplines = (x: number, z: number) =>
+            terrain.getRiverSplines(x * chunkSize, z * chunkSize, (x + 1) * chunkSize, (z + 1) * chunkSize)
+
+        // Отрезок, который выходит из чанка и продолжается дальше по течению
+        const { points } = splines.find(spline => spline.points.length > 4)!
+        const i = points.findIndex(
+            (point, k) =>
+                k < points.length - 2 &&
+                (chunkOf(point.x) !== chunkOf(points[k + 1].x) || chunkOf(point.z) !== chunkOf(points[k + 1].z))
+        )
+        expect(i).toBeGreaterThanOrEqual(0)
+        const exit = points[i + 1]
+
+        const own = chunkSplines(chunkOf(points[i].x), chunkOf(points[i].z))
+        const next = chunkSplines(chunkOf(exit.x), chunkOf(exit.z))
+        expect(own.some(spline => spline.points[spline.points.length - 1] === exit)).toBe(true)
+        expect(next.some(spline => spline.points[0] === exit)).toBe(true)
+    })
+
+    it('matches carved heights on the shared edge of neighbouring chunks', () => {
+        const point = splines[0].points[1]
+        const chunkSize = 64
+        const chunkX = Math.round(point.x / chunkSize)
+        const chunkZ = Math.round(point.z / chunkSize)
+        const request = { chunkSize, chunkResolution: 16, lodLevel: 0, heightGeneratorConfig: { seed: 3 } }
+        const left = generateChunkGeometry({ ...request, id: 'left', chunkX: chunkX - 1, chunkZ })
+        const right = generateChunkGeometry({ ...request, id: 'right', chunkX, chunkZ })
+        const row = 17
+
+        for (let z = 0; z < row; z++) {
+            expect(left.vertices[(z * row + row - 1) * 3 + 1]).toBe(right.vertices[z * row * 3 + 1])
+        }
+    })
+
+    it('builds an upward-facing ribbon two vertices wide per point', () => {
+        const ribbon = buildRiverRibbon(splines.slice(0, 3))
+        const points = splines.slice(0, 3).reduce((sum, spline) => sum + spline.points.length, 0)
+
+        expect(ribbon.positions.length).toBe(points * 6)
+        expect(ribbon.uvs.length).toBe(points * 4)
+        expect(ribbon.flowSpeeds.length).toBe(points * 2)
+        expect(ribbon.indices.length).toBe((points - 3) * 6)
+
+        for (let i = 0; i < ribbon.indices.length; i += 3) {
+            const [a, b, c] = [0, 1, 2].map(k => ribbon.indices[i + k] * 3)
+            const abX = ribbon.positions[b] - ribbon.positions[a]
+            const abZ = ribbon.positions[b + 2] - ribbon.positions[a + 2]
+            const acX = ribbon.positions[c] - ribbon.positions[a]
+            const acZ = ribbon.positions[c + 2] - ribbon.positions[a + 2]
+            // y-компонента нормали (AB x AC) положительна - треугольник смотрит вверх
+            expect(abZ * acX - abX * acZ).toBeGreaterThan(0)
+        }
+    })
+})
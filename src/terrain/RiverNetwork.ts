@@ -0,0 +1,348 @@
+// Сеть рек на грубой сетке регионов: priority-flood заполняет впадины и задаёт каждой ячейке сток,
+// накопление потока выделяет русла, из них строятся сглаженные пути до моря или до слияния.
+// Регион считается с фартуком, но каждый отрезок реки принадлежит ровно одному региону (по середине),
+// а врезка русла и выборка сплайнов - чистые функции мировой точки: чанки стыкуются без швов
+import type { TerrainConfig } from './TerrainConfig'
+import { SEA_LEVEL, priorityFlood } from './PriorityFlood'
+
+export type RiverConfig = TerrainConfig['rivers']
+
+// Точка осевой линии реки в мировых координатах
+export interface RiverPoint {
+    x: number
+    z: number
+    surface: number // Уровень воды; не растёт вниз по течению
+    width: number
+    depth: number
+    directionX: number // Касательная по течению, посчитана по всему пути - одинакова в соседних чанках
+    directionZ: number
+    distance: number // Длина пути от истока: непрерывная координата текстуры вдоль ленты
+}
+
+// Непрерывный участок реки внутри чанка: точки по течению, последняя может лежать в соседнем чанке
+export interface RiverSpline {
+    points: RiverPoint[]
+}
+
+interface RiverPath {
+    points: RiverPoint[]
+}
+
+interface RiverSegment {
+    path: RiverPath
+    index: number // Отрезок points[index] -> points[index + 1]
+    minX: number // Границы зоны влияния: отрезок, расширенный на русло и откос
+    minZ: number
+    maxX: number
+    maxZ: number
+}
+
+// Точка пути до расчёта уровня воды: центр ячейки грубой сетки, её водосбор и высота с залитыми впадинами
+interface FlowPoint {
+    x: number
+    z: number
+    flow: number
+    level: number
+}
+
+interface RiverRegion {
+    bins: Map<string, RiverSegment[]>
+}
+
+export const RIVER_CELL_SIZE = 32
+const REGION_CELLS = 128
+const REGION_APRON = 32 // Ячеек фартука: верховья соседнего региона частично учитываются в накоплении
+const REGION_SIZE = REGION_CELLS * RIVER_CELL_SIZE
+const BIN_SIZE = 64
+const BANK_REACH = 24 // Ширина откоса за краем русла, дальше рельеф не меняется
+const BANK_FADE = 8 // Последние метры откоса плавно возвращают исходную высоту
+const MAX_WIDTH_SCALE = 4
+const MAX_CACHED_REGIONS = 8
+const FLOOD_EPSILON = 1e-3
+const SMOOTHING_ITERATIONS = 2
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+    const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)))
+    return t * t * (3 - 2 * t)
+}
+
+export class RiverNetwork {
+    private getBaseHeight: (x: number, z: number) => number
+    private config: RiverConfig
+    private regions: Map<string, RiverRegion> = new Map() // LRU, как тайлы эрозии
+    private maxReach: number
+
+    constructor(getBaseHeight: (x: number, z: number) => number, config: RiverConfig) {
+        this.getBaseHeight = getBaseHeight
+        this.config = config
+        this.maxReach = (config.width * MAX_WIDTH_SCALE) / 2 + BANK_REACH
+    }
+
+    // Врезка русла: внутри ширины - параболическое дно на depth ниже воды, дальше - откос bankSlope
+    carve(x: number, z: number, height: number): number {
+        for (const segment of this.getSegmentsNear(x, z)) {
+            if (x < segment.minX || x > segment.maxX || z < segment.minZ || z > segment.maxZ) continue
+
+            const a = segment.path.points[segment.index]
+            const b = segment.path.points[segment.index + 1]
+            const dx = b.x - a.x
+            const dz = b.z - a.z
+            const lengthSq = dx * dx + dz * dz
+            const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (z - a.z) * dz) / lengthSq)) : 0
+            const distance = Math.hypot(x - (a.x + dx * t), z - (a.z + dz * t))
+
+            const halfWidth = (a.width + (b.width - a.width) * t) / 2
+            const reach = halfWidth + BANK_REACH
+            if (distance >= reach) continue
+
+            const surface = a.surface + (b.surface - a.surface) * t
+            const depth = a.depth + (b.depth - a.depth) * t
+            const target =
+                distance < halfWidth
+                    ? surface - depth * (1 - (distance / halfWidth) ** 2)
+                    : surface + (distance - halfWidth) * this.config.bankSlope
+            const carved = Math.min(height, target)
+            height = carved + (height - carved) * smoothstep(reach - BANK_FADE, reach, distance)
+        }
+        return height
+    }
+
+    // Участки рек, отрезки которых начинаются внутри прямоугольника (чанка). Каждый отрезок попадает
+    // ровно в один чанк, а последняя точка участка совпадает с первой точкой продолжения в соседнем
+    getSplines(minX: number, minZ: number, maxX: number, maxZ: number): RiverSpline[] {
+        const segments = new Set<RiverSegment>()
+        for (let bz = Math.floor(minZ / BIN_SIZE); bz <= Math.floor(maxZ / BIN_SIZE); bz++) {
+            for (let bx = Math.floor(minX / BIN_SIZE); bx <= Math.floor(maxX / BIN_SIZE); bx++) {
+                for (const region of this.getRegionsAround(bx * BIN_SIZE, bz * BIN_SIZE, BIN_SIZE)) {
+                    region.bins.get(`${bx},${bz}`)?.forEach(segment => {
+                        const start = segment.path.points[segment.index]
+                        if (start.x >= minX && start.x < maxX && start.z >= minZ && start.z < maxZ) {
+                            segments.add(segment)
+                        }
+                    })
+                }
+            }
+        }
+
+        // Соседние по индексу отрезки одного пути склеиваем в один участок
+        const byPath = new Map<RiverPath, number[]>()
+        segments.forEach(segment => {
+            const indices = byPath.get(segment.path) ?? []
+            indices.push(segment.index)
+            byPath.set(segment.path, indices)
+        })
+
+        const splines: RiverSpline[] = []
+        byPath.forEach((indices, path) => {
+            indices.sort((a, b) => a - b)
+            let start = indices[0]
+            for (let i = 1; i <= indices.length; i++) {
+                if (i < indices.length && indices[i] === indices[i - 1] + 1) continue
+                splines.push({ points: path.points.slice(start, indices[i - 1] + 2) })
+                start = indices[i]
+            }
+        })
+        return splines
+    }
+
+    private getSegmentsNear(x: number, z: number): RiverSegment[] {
+        const key = `${Math.floor(x / BIN_SIZE)},${Math.floor(z / BIN_SIZE)}`
+        const regions = this.getRegionsAround(x, z, 0)
+        if (regions.length === 1) return regions[0].bins.get(key) ?? []
+        return regions.flatMap(region => region.bins.get(key) ?? [])
+    }
+
+    // Регионы, отрезки которых могут влиять на квадрат [x, x + size] с учётом ширины откоса
+    private getRegionsAround(x: number, z: number, size: number): RiverRegion[] {
+        const margin = this.maxReach + BIN_SIZE
+        const regions: RiverRegion[] = []
+        for (
+            let rz = Math.floor((z - margin) / REGION_SIZE);
+            rz <= Math.floor((z + size + margin) / REGION_SIZE);
+            rz++
+        ) {
+            for (
+                let rx = Math.floor((x - margin) / REGION_SIZE);
+                rx <= Math.floor((x + size + margin) / REGION_SIZE);
+                rx++
+            ) {
+                regions.push(this.getRegion(rx, rz))
+            }
+        }
+        return regions
+    }
+
+    private getRegion(regionX: number, regionZ: number): RiverRegion {
+        const key = `${regionX},${regionZ}`
+        let region = this.regions.get(key)
+
+        if (region) {
+            this.regions.delete(key)
+        } else {
+            region = this.buildRegion(regionX, regionZ)
+            if (this.regions.size >= MAX_CACHED_REGIONS) {
+                this.regions.delete(this.regions.keys().next().value!)
+            }
+        }
+
+        this.regions.set(key, region)
+        return region
+    }
+
+    private buildRegion(regionX: number, regionZ: number): RiverRegion {
+        const row = REGION_CELLS + REGION_APRON * 2
+        const originX = regionX * REGION_SIZE - REGION_APRON * RIVER_CELL_SIZE
+        const originZ = regionZ * REGION_SIZE - REGION_APRON * RIVER_CELL_SIZE
+        const cellX = (i: number) => originX + ((i % row) + 0.5) * RIVER_CELL_SIZE
+        const cellZ = (i: number) => originZ + (Math.floor(i / row) + 0.5) * RIVER_CELL_SIZE
+
+        const heights = new Float64Array(row * row)
+        for (let i = 0; i < heights.length; i++) {
+            heights[i] = this.getBaseHeight(cellX(i), cellZ(i))
+        }
+
+        const { filled, receivers, order } = priorityFlood(heights, row, FLOOD_EPSILON)
+        const accumulation = accumulateFlow(receivers, order)
+        const paths = this.tracePaths(filled, receivers, accumulation).map(cells =>
+            this.createPath(cells.map(i => ({ x: cellX(i), z: cellZ(i), flow: accumulation[i], level: filled[i] })))
+        )
+
+        // Отрезок принадлежит региону, в ядре которого лежит его середина
+        const bins = new Map<string, RiverSegment[]>()
+        const coreMinX = regionX * REGION_SIZE
+        const coreMinZ = regionZ * REGION_SIZE
+        for (const path of paths) {
+            for (let index = 0; index < path.points.length - 1; index++) {
+                const a = path.points[index]
+                const b = path.points[index + 1]
+                const midX = (a.x + b.x) / 2
+                const midZ = (a.z + b.z) / 2
+                if (midX < coreMinX || midX >= coreMinX + REGION_SIZE) continue
+                if (midZ < coreMinZ || midZ >= coreMinZ + REGION_SIZE) continue
+
+                const reach = Math.max(a.width, b.width) / 2 + BANK_REACH
+                const segment: RiverSegment = {
+                    path,
+                    index,
+                    minX: Math.min(a.x, b.x) - reach,
+                    minZ: Math.min(a.z, b.z) - reach,
+                    maxX: Math.max(a.x, b.x) + reach,
+                    maxZ: Math.max(a.z, b.z) + reach,
+                }
+                for (let bz = Math.floor(segment.minZ / BIN_SIZE); bz <= Math.floor(segment.maxZ / BIN_SIZE); bz++) {
+                    for (
+                        let bx = Math.floor(segment.minX / BIN_SIZE);
+                        bx <= Math.floor(segment.maxX / BIN_SIZE);
+                        bx++
+                    ) {
+                        const key = `${bx},${bz}`
+                        const bin = bins.get(key)
+                        if (bin) bin.push(segment)
+                        else bins.set(key, [segment])
+                    }
+                }
+            }
+        }
+
+        return { bins }
+    }
+
+    // Пути от истоков (русловых ячеек без русловых притоков) вниз по стоку до моря, края сетки
+    // или уже пройденного русла - точка слияния входит в путь притока
+    private tracePaths(filled: Float64Array, receivers: Int32Array, accumulation: Float64Array): number[][] {
+        // Море - залитая высота ниже моря; впадина ниже моря без выхода к нему - озеро, река идёт через неё
+        const isSea = (i: number) => filled[i] < SEA_LEVEL
+        const isRiver = (i: number) => accumulation[i] >= this.config.threshold
+        const hasRiverInflow = new Uint8Array(filled.length)
+        for (let i = 0; i < filled.length; i++) {
+            if (isRiver(i) && !isSea(i) && receivers[i] >= 0) hasRiverInflow[receivers[i]] = 1
+        }
+
+        const visited = new Uint8Array(filled.length)
+        const paths: number[][] = []
+        for (let source = 0; source < filled.length; source++) {
+            if (!isRiver(source) || hasRiverInflow[source] || isSea(source)) continue
+
+            const cells: number[] = []
+            let cell = source
+            for (;;) {
+                cells.push(cell)
+                if (visited[cell] || isSea(cell) || receivers[cell] < 0) break
+                visited[cell] = 1
+                cell = receivers[cell]
+            }
+            if (cells.length > 1) paths.push(cells)
+        }
+        return paths
+    }
+
+    private createPath(cells: FlowPoint[]): RiverPath {
+        let points = cells
+        for (let iteration = 0; iteration < SMOOTHING_ITERATIONS; iteration++) {
+            points = smoothChaikin(points)
+        }
+
+        const { threshold, width, depth } = this.config
+        const result: RiverPoint[] = []
+        let surface = Infinity
+        let distance = 0
+
+        for (let i = 0; i < points.length; i++) {
+            const point = points[i]
+            const previous = points[Math.max(0, i - 1)]
+            const next = points[Math.min(points.length - 1, i + 1)]
+            const directionLength = Math.hypot(next.x - previous.x, next.z - previous.z) || 1
+            if (i > 0) distance += Math.hypot(point.x - previous.x, point.z - previous.z)
+
+            // Вода не поднимается вниз по течению и не опускается ниже моря, а через озеро идёт
+            // по его глади: залитая высота впадины - уровень перелива
+            const ground = Math.max(this.getBaseHeight(point.x, point.z), point.level)
+            surface = Math.max(SEA_LEVEL, Math.min(surface, ground))
+            const scale = Math.min(MAX_WIDTH_SCALE, Math.sqrt(point.flow / threshold))
+
+            result.push({
+                x: point.x,
+                z: point.z,
+                surface,
+                width: width * scale,
+                depth: depth * Math.sqrt(scale),
+                directionX: (next.x - previous.x) / directionLength,
+                directionZ: (next.z - previous.z) / directionLength,
+                distance,
+            })
+        }
+
+        return { points: result }
+    }
+}
+
+// Площадь водосбора в ячейках: обход от верховий к устьям в обратном порядке заливки
+function accumulateFlow(receivers: Int32Array, order: Int32Array): Float64Array {
+    const accumulation = new Float64Array(receivers.length).fill(1)
+    for (let i = order.length - 1; i >= 0; i--) {
+        const cell = order[i]
+        if (receivers[cell] >= 0) accumulation[receivers[cell]] += accumulation[cell]
+    }
+    return accumulation
+}
+
+// Сглаживание ломаной по ячейкам с сохранением концов (исток и слияние остаются на месте)
+function smoothChaikin(points: FlowPoint[]): FlowPoint[] {
+    if (points.length < 3) return points
+
+    const result = [points[0]]
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i]
+        const b = points[i + 1]
+        const mix = (t: number) => ({
+            x: a.x + (b.x - a.x) * t,
+            z: a.z + (b.z - a.z) * t,
+            flow: a.flow + (b.flow - a.flow) * t,
+            level: a.level + (b.level - a.level) * t,
+        })
+        if (i > 0) result.push(mix(0.25))
+        if (i < points.length - 2) result.push(mix(0.75))
+    }
+    result.push(points[points.length - 1])
+    return result
+}
@@ -0,0 +1,64 @@
+// Лента воды вдоль осевой линии реки - чистые буферы для WaterManager и headless экспорта
+import type { RiverSpline } from './RiverNetwork'
+
+export interface RiverRibbonData {
+    positions: Float32Array // Мировые координаты, по две вершины (левый и правый берег) на точку
+    uvs: Float32Array // u - поперёк (0..1), v - длина пути от истока
+    flowSpeeds: Float32Array // Скорость течения для анимации, растёт с уклоном воды
+    indices: Uint32Array
+}
+
+const BANK_OVERLAP = 0.5 // Лента заходит под берег, чтобы край воды не отрывался от откоса
+const SURFACE_LIFT = 0.05
+const MIN_FLOW_SPEED = 0.4
+const MAX_FLOW_SPEED = 3
+
+export function buildRiverRibbon(splines: RiverSpline[]): RiverRibbonData {
+    const vertexCount = splines.reduce((sum, spline) => sum + spline.points.length * 2, 0)
+    const indexCount = splines.reduce((sum, spline) => sum + (spline.points.length - 1) * 6, 0)
+    const positions = new Float32Array(vertexCount * 3)
+    const uvs = new Float32Array(vertexCount * 2)
+    const flowSpeeds = new Float32Array(vertexCount)
+    const indices = new Uint32Array(indexCount)
+
+    let vertex = 0
+    let index = 0
+    for (const { points } of splines) {
+        const first = vertex
+
+        for (let i = 0; i < points.length; i++) {
+            const point = points[i]
+            const previous = points[Math.max(0, i - 1)]
+            const next = points[Math.min(points.length - 1, i + 1)]
+            const run = next.distance - previous.distance
+            const slope = run > 0 ? (previous.surface - next.surface) / run : 0
+            const speed = Math.min(MAX_FLOW_SPEED, MIN_FLOW_SPEED + slope * 40)
+
+            // Левый берег - слева по течению, если смотреть сверху
+            const halfWidth = point.width / 2 + BANK_OVERLAP
+            for (const side of [1, -1]) {
+                positions[vertex * 3] = point.x - point.directionZ * halfWidth * side
+                positions[vertex * 3 + 1] = point.surface + SURFACE_LIFT
+                positions[vertex * 3 + 2] = point.z + point.directionX * halfWidth * side
+                uvs[vertex * 2] = side > 0 ? 0 : 1
+                uvs[vertex * 2 + 1] = point.distance
+                flowSpeeds[vertex] = speed
+                vertex++
+            }
+        }
+
+        // Треугольники смотрят вверх: (L_i, L_i+1, R_i) и (R_i, L_i+1, R_i+1)
+        for (let i = 0; i < points.length - 1; i++) {
+            const left = first + i * 2
+            const right = left + 1
+            indices[index++] = left
+            indices[index++] = left + 2
+            indices[index++] = right
+            indices[index++] = right
+            indices[index++] = left + 2
+            indices[index++] = right + 2
+        }
+    }
+
+    return { positions, uvs, flowSpeeds, indices }
+}
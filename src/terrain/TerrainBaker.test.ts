@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { TerrainBaker } from './TerrainBaker'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import { WorldSeed } from './WorldSeed'
+
+describe('TerrainBaker', () => {
+    const seed = WorldSeed.from('ci tiles')
+    const baker = new TerrainBaker({ seed, chunkResolution: 8 })
+
+    it('bakes json tiles from the shared height function', () => {
+        const [file] = baker.bakeTile(-1, 2, 'json')
+        const tile = JSON.parse(new TextDecoder().decode(file.data))
+        const heightFunction = new TerrainHeightFunction({ seed: seed.value })
+
+        expect(file.name).toBe('tile_-1_2.json')
+        expect(tile.heights.length).toBe(81)
+        expect(tile.biomes.length).toBe(81)
+        expect(tile.heights[0]).toBeCloseTo(heightFunction.getHeight(-150, 150), 2)
+        expect(tile.seed).toEqual({ input: 'ci tiles', value: seed.value })
+    })
+
+    it('bakes heightmap and mesh tiles with their companion files', () => {
+        expect(baker.bakeTile(0, 0, 'png16').map(file => file.name)).toEqual(['tile_0_0.png', 'tile_0_0.json'])
+        expect(baker.bakeTile(0, 0, 'glb').map(file => file.name)).toEqual(['tile_0_0.glb'])
+    })
+})
@@ -0,0 +1,160 @@
+// Headless генерация тайлов террейна: только чистые модули (функция высоты, биомы, геометрия чанка),
+// без three.js, DOM и воркеров - работает и в браузере, и под Node
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import { defaultTerrainConfig, type TerrainConfig } from './TerrainConfig'
+import { generateChunkGeometry, type ChunkGenerationResult } from './ChunkGeometryGenerator'
+import { getDominantBiome } from './BiomeClassifier'
+import { exportHeightmapFiles, sampleHeightmap, type ExportedFile } from './HeightmapExporter'
+import { exportMeshFiles, type ChunkRange, type SurfaceMesh } from './MeshExporter'
+import { buildRiverRibbon } from './RiverRibbon'
+import { buildWaterSurface } from './WaterBasins'
+import { WorldSeed } from './WorldSeed'
+
+export type TileFormat = 'png16' | 'glb' | 'json'
+
+export interface TerrainBakerOptions {
+    seed: WorldSeed
+    chunkSize?: number
+    chunkResolution?: number
+    terrain?: TerrainConfig
+}
+
+// Тайл в формате json: сетка высот и биомов одного чанка
+export interface ChunkTileData {
+    version: 1
+    seed: { input: string; value: number }
+    chunkX: number
+    chunkZ: number
+    chunkSize: number
+    resolution: number
+    heights: number[] // (resolution + 1)^2, строки по Z
+    biomes: number[] // Номер преобладающего биома набора (defaultBiomePack) для каждой вершины
+}
+
+export class TerrainBaker {
+    private seed: WorldSeed
+    private chunkSize: number
+    private chunkResolution: number
+    private terrain: TerrainConfig
+    private heightFunction: TerrainHeightFunction
+
+    constructor(options: TerrainBakerOptions) {
+        this.seed = options.seed
+        this.chunkSize = options.chunkSize ?? 100
+        this.chunkResolution = options.chunkResolution ?? 64
+        this.terrain = options.terrain ?? defaultTerrainConfig
+        this.heightFunction = new TerrainHeightFunction({ seed: this.seed.value, terrain: this.terrain })
+    }
+
+    // Та же генерация, что в воркере браузера, всегда на LOD 0
+    generateChunk(chunkX: number, chunkZ: number): ChunkGenerationResult {
+        const result = generateChunkGeometry({
+            id: `${chunkX},${chunkZ}`,
+            chunkX,
+            chunkZ,
+            chunkSize: this.chunkSize,
+            chunkResolution: this.chunkResolution,
+            lodLevel: 0,
+            heightGeneratorConfig: { seed: this.seed.value, terrain: this.terrain },
+        })
+
+        if (!result.success) {
+            throw new Error(`Chunk ${chunkX},${chunkZ} generation failed: ${result.error}`)
+        }
+        return result
+    }
+
+    bakeTile(chunkX: number, chunkZ: number, format: TileFormat): ExportedFile[] {
+        const baseName = `tile_${chunkX}_${chunkZ}`
+
+        switch (format) {
+            case 'png16':
+                return this.bakeHeightmapTile(chunkX, chunkZ, baseName)
+            case 'glb':
+                return this.bakeMeshTile(chunkX, chunkZ, baseName)
+            case 'json':
+                return [this.bakeJsonTile(chunkX, chunkZ, baseName)]
+            default:
+                throw new Error(`Unsupported tile format: ${format}`)
+        }
+    }
+
+    getSeed(): WorldSeed {
+        return this.seed
+    }
+
+    getChunkSize(): number {
+        return this.chunkSize
+    }
+
+    private bakeHeightmapTile(chunkX: number, chunkZ: number, baseName: string): ExportedFile[] {
+        const half = this.chunkSize / 2
+        const bounds = {
+            minX: chunkX * this.chunkSize - half,
+            minZ: chunkZ * this.chunkSize - half,
+            maxX: chunkX * this.chunkSize + half,
+            maxZ: chunkZ * this.chunkSize + half,
+        }
+        const samples = sampleHeightmap(this.heightFunction, bounds, this.chunkResolution + 1)
+        return exportHeightmapFiles(samples, 'png16', { input: this.seed.input, value: this.seed.value }, baseName)
+    }
+
+    private bakeMeshTile(chunkX: number, chunkZ: number, baseName: string): ExportedFile[] {
+        const result = this.generateChunk(chunkX, chunkZ)
+        const range: ChunkRange = { fromX: chunkX, fromZ: chunkZ, toX: chunkX, toZ: chunkZ }
+        const surface = {
+            chunkX,
+            chunkZ,
+            chunkSize: this.chunkSize,
+            resolution: this.chunkResolution,
+            vertices: result.vertices,
+            colors: result.colors,
+        }
+
+        return exportMeshFiles(
+            [surface],
+            this.createWaterSurfaces(result),
+            { range, format: 'glb', verticalScale: 1 },
+            baseName
+        )
+    }
+
+    // Гладь озёр и моря на уровнях своих бассейнов и ленты рек чанка
+    private createWaterSurfaces(result: ChunkGenerationResult): SurfaceMesh[] {
+        const surfaces: SurfaceMesh[] = []
+        if (result.water.length > 0) {
+            surfaces.push(buildWaterSurface(result.water))
+        }
+        if (result.rivers.length > 0) {
+            const ribbon = buildRiverRibbon(result.rivers)
+            surfaces.push({ positions: ribbon.positions, indices: ribbon.indices })
+        }
+        return surfaces
+    }
+
+    private bakeJsonTile(chunkX: number, chunkZ: number, baseName: string): ExportedFile {
+        const result = this.generateChunk(chunkX, chunkZ)
+        const gridVertices = (this.chunkResolution + 1) ** 2
+        const heights: number[] = []
+        for (let i = 0; i < gridVertices; i++) {
+            heights.push(Math.round(result.vertices[i * 3 + 1] * 1000) / 1000)
+        }
+
+        const tile: ChunkTileData = {
+            version: 1,
+            seed: { input: this.seed.input, value: this.seed.value },
+            chunkX,
+            chunkZ,
+            chunkSize: this.chunkSize,
+            resolution: this.chunkResolution,
+            heights,
+            biomes: Array.from({ length: gridVertices }, (_, i) => getDominantBiome(result.biomeWeights, i)),
+        }
+
+        return {
+            name: `${baseName}.json`,
+            mimeType: 'application/json',
+            data: new TextEncoder().encode(JSON.stringify(tile)),
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+    cloneTerrainConfig,
+    defaultTerrainConfig,
+    getTerrainConfigKey,
+    terrainConfigSchema,
+    terrainPresets,
+    validateTerrainConfig,
+} from './TerrainConfig'
+import { TerrainHeightFunction, getTerrainHeightConfigKey } from './TerrainHeightFunction'
+
+describe('TerrainConfig', () => {
+    it('describes every config field in the schema', () => {
+        for (const layer of terrainConfigSchema) {
+            expect(layer.parameters.map(parameter => parameter.key).sort()).toEqual(
+                Object.keys(defaultTerrainConfig[layer.layer]).sort()
+            )
+        }
+        expect(terrainConfigSchema.map(layer => layer.layer).sort()).toEqual(Object.keys(defaultTerrainConfig).sort())
+    })
+
+    it('accepts every preset', () => {
+        for (const preset of Object.values(terrainPresets)) {
+            expect(validateTerrainConfig(preset)).toBe(preset)
+        }
+    })
+
+    it('reports each invalid field with its path', () => {
+        const config = cloneTerrainConfig(defaultTerrainConfig) as any
+        config.base.octaves = 2.5
+        config.mountains.threshold = 1
+        config.lakes.depth = 'deep'
+        delete config.hills
+
+        expect(() => validateTerrainConfig(config)).toThrow(
+            'Invalid terrain config: base.octaves must be an integer, got 2.5; ' +
+                'mountains.threshold must be between -0.95 and 0.95, got 1; ' +
+                'lakes.depth must be a number, got "deep"; hills is missing'
+        )
+        expect(() => validateTerrainConfig(null)).toThrow('base is missing')
+    })
+
+    it('changes the height function and its key when a layer changes', () => {
+        const alpine = new TerrainHeightFunction({ seed: 7, terrain: terrainPresets.alpine })
+        const plains = new TerrainHeightFunction({ seed: 7, terrain: terrainPresets.plains })
+
+        let differs = false
+        for (let x = -500; x <= 500; x += 125) {
+            differs ||= alpine.getHeight(x, x * 0.5) !== plains.getHeight(x, x * 0.5)
+        }
+        expect(differs).toBe(true)
+
+        const edited = cloneTerrainConfig(defaultTerrainConfig)
+        edited.rivers.depth += 1
+        expect(getTerrainConfigKey(edited)).not.toBe(getTerrainConfigKey(defaultTerrainConfig))
+        expect(getTerrainHeightConfigKey({ seed: 7 })).toBe(
+            getTerrainHeightConfigKey({ seed: 7, terrain: defaultTerrainConfig })
+        )
+    })
+})
@@ -0,0 +1,246 @@
+// Параметры формы рельефа: слои шума функции высоты и их пороги.
+// Один и тот же объект используют CPU, воркеры, GPU шейдер и headless генерация
+
+export interface TerrainConfig {
+    base: {
+        frequency: number
+        amplitude: number
+        octaves: number
+        persistence: number // Множитель амплитуды на каждую октаву
+        lacunarity: number // Множитель частоты на каждую октаву
+        offset: number // Подъём всего рельефа над уровнем воды
+    }
+    mountains: { frequency: number; threshold: number; amplitude: number; curve: number }
+    lakes: { frequency: number; threshold: number; depth: number; curve: number }
+    rivers: {
+        threshold: number // Площадь водосбора в ячейках грубой сетки, с которой начинается река
+        width: number // Ширина у истока, растёт с корнем из водосбора
+        depth: number
+        bankSlope: number // Крутизна берегов: перепад высоты на единицу расстояния от края русла
+    }
+    hills: { frequency: number; amplitude: number }
+    valleys: { frequency: number; threshold: number; factor: number }
+    erosion: {
+        iterations: number // Капель гидравлической эрозии на тайл; 0 - эрозия выключена
+        erosionRate: number
+        depositionRate: number
+        thermalIterations: number // Проходов осыпания; 0 - без термической эрозии
+        talus: number // Устойчивый перепад высоты на единицу длины, круче - склон осыпается
+    }
+    climate: {
+        temperature: number // Средняя температура на уровне моря, °C
+        latitudeRange: number // Разброс температуры между холодными и жаркими широтами, ± °C
+        lapseRate: number // Падение температуры на метр высоты; рельеф ниже настоящего, поэтому градиент круче
+        moisture: number // Базовая влажность 0..1, к ней добавляются близость воды и дождевая тень
+        rainShadow: number // Насколько хребты сушат подветренные склоны: 0 - тени нет
+    }
+}
+
+export type TerrainLayerName = keyof TerrainConfig
+
+export type TerrainPresetName = 'default' | 'archipelago' | 'alpine' | 'plains' | 'canyon'
+
+// Исходный рельеф проекта
+export const defaultTerrainConfig: TerrainConfig = {
+    base: { frequency: 0.015, amplitude: 24, octaves: 6, persistence: 0.5, lacunarity: 2, offset: 5 },
+    mountains: { frequency: 0.001, threshold: 0.2, amplitude: 60, curve: 1.2 },
+    lakes: { frequency: 0.002, threshold: -0.75, depth: 8, curve: 1.5 },
+    rivers: { threshold: 10, width: 4, depth: 2.5, bankSlope: 0.5 },
+    hills: { frequency: 0.008, amplitude: 12 },
+    valleys: { frequency: 0.005, threshold: -0.3, factor: 0.8 },
+    erosion: { iterations: 0, erosionRate: 0.3, depositionRate: 0.3, thermalIterations: 0, talus: 1.2 },
+    climate: { temperature: 12, latitudeRange: 14, lapseRate: 0.25, moisture: 0.35, rainShadow: 0.6 },
+}
+
+export const terrainPresets: Record<TerrainPresetName, TerrainConfig> = {
+    default: defaultTerrainConfig,
+    // Тропические острова среди мелкого моря: рельеф опущен, горы редкие и невысокие
+    archipelago: {
+        base: { frequency: 0.012, amplitude: 22, octaves: 6, persistence: 0.5, lacunarity: 2, offset: -6 },
+        mountains: { frequency: 0.0015, threshold: 0.35, amplitude: 35, curve: 1.4 },
+        lakes: { frequency: 0.002, threshold: -0.8, depth: 4, curve: 1.5 },
+        rivers: { threshold: 10, width: 3, depth: 2, bankSlope: 0.4 },
+        hills: { frequency: 0.01, amplitude: 10 },
+        valleys: { frequency: 0.005, threshold: -0.3, factor: 0.9 },
+        erosion: { iterations: 0, erosionRate: 0.3, depositionRate: 0.3, thermalIterations: 0, talus: 1.2 },
+        climate: { temperature: 24, latitudeRange: 6, lapseRate: 0.25, moisture: 0.45, rainShadow: 0.4 },
+    },
+    // Высокие острые хребты под снегом и глубокие горные озёра, холодный климат
+    alpine: {
+        base: { frequency: 0.015, amplitude: 30, octaves: 7, persistence: 0.55, lacunarity: 2, offset: 10 },
+        mountains: { frequency: 0.0015, threshold: 0, amplitude: 110, curve: 1.6 },
+        lakes: { frequency: 0.003, threshold: -0.7, depth: 14, curve: 1.2 },
+        rivers: { threshold: 20, width: 3, depth: 3, bankSlope: 0.8 },
+        hills: { frequency: 0.008, amplitude: 18 },
+        valleys: { frequency: 0.005, threshold: -0.4, factor: 0.85 },
+        erosion: { iterations: 6000, erosionRate: 0.3, depositionRate: 0.3, thermalIterations: 20, talus: 1.2 },
+        climate: { temperature: 6, latitudeRange: 10, lapseRate: 0.3, moisture: 0.4, rainShadow: 0.7 },
+    },
+    // Пологие равнины с редкими холмами и озёрами
+    plains: {
+        base: { frequency: 0.01, amplitude: 8, octaves: 4, persistence: 0.4, lacunarity: 2, offset: 4 },
+        mountains: { frequency: 0.001, threshold: 0.6, amplitude: 25, curve: 1.5 },
+        lakes: { frequency: 0.002, threshold: -0.6, depth: 6, curve: 1.5 },
+        rivers: { threshold: 30, width: 6, depth: 2, bankSlope: 0.2 },
+        hills: { frequency: 0.006, amplitude: 6 },
+        valleys: { frequency: 0.005, threshold: -0.3, factor: 0.9 },
+        erosion: { iterations: 0, erosionRate: 0.3, depositionRate: 0.3, thermalIterations: 0, talus: 1.2 },
+        climate: { temperature: 16, latitudeRange: 16, lapseRate: 0.2, moisture: 0.3, rainShadow: 0.3 },
+    },
+    // Жаркое сухое плато (пологая кривая гор) с густой сетью рек в крутых ущельях
+    canyon: {
+        base: { frequency: 0.012, amplitude: 14, octaves: 5, persistence: 0.45, lacunarity: 2.2, offset: 20 },
+        mountains: { frequency: 0.002, threshold: -0.2, amplitude: 45, curve: 0.5 },
+        lakes: { frequency: 0.002, threshold: -0.85, depth: 10, curve: 1.5 },
+        rivers: { threshold: 40, width: 4, depth: 6, bankSlope: 2.5 },
+        hills: { frequency: 0.01, amplitude: 5 },
+        valleys: { frequency: 0.004, threshold: 0, factor: 0.9 },
+        erosion: { iterations: 4000, erosionRate: 0.4, depositionRate: 0.2, thermalIterations: 30, talus: 0.9 },
+        climate: { temperature: 26, latitudeRange: 8, lapseRate: 0.15, moisture: 0.15, rainShadow: 0.8 },
+    },
+}
+
+export interface TerrainParameterSchema<K extends string = string> {
+    key: K
+    label: string
+    min: number
+    max: number
+    step: number
+}
+
+// Описание слоя для панели и валидации; ключи параметров проверяются по TerrainConfig
+export type TerrainLayerSchema = {
+    [L in TerrainLayerName]: {
+        layer: L
+        label: string
+        parameters: TerrainParameterSchema<keyof TerrainConfig[L] & string>[]
+    }
+}[TerrainLayerName]
+
+// Пороги ограничены так, чтобы нормировка (1 ± threshold) не обращалась в ноль
+export const terrainConfigSchema: TerrainLayerSchema[] = [
+    {
+        layer: 'base',
+        label: 'Base',
+        parameters: [
+            { key: 'frequency', label: 'Frequency', min: 0.002, max: 0.05, step: 0.001 },
+            { key: 'amplitude', label: 'Amplitude', min: 0, max: 60, step: 1 },
+            { key: 'octaves', label: 'Octaves', min: 1, max: 8, step: 1 },
+            { key: 'persistence', label: 'Persistence', min: 0.1, max: 0.9, step: 0.05 },
+            { key: 'lacunarity', label: 'Lacunarity', min: 1.5, max: 3, step: 0.1 },
+            { key: 'offset', label: 'Offset', min: -20, max: 30, step: 1 },
+        ],
+    },
+    {
+        layer: 'mountains',
+        label: 'Mountains',
+        parameters: [
+            { key: 'frequency', label: 'Frequency', min: 0.0005, max: 0.01, step: 0.0005 },
+            { key: 'threshold', label: 'Threshold', min: -0.95, max: 0.95, step: 0.05 },
+            { key: 'amplitude', label: 'Amplitude', min: 0, max: 150, step: 5 },
+            { key: 'curve', label: 'Curve', min: 0.3, max: 3, step: 0.1 },
+        ],
+    },
+    {
+        layer: 'lakes',
+        label: 'Lakes',
+        parameters: [
+            { key: 'frequency', label: 'Frequency', min: 0.0005, max: 0.01, step: 0.0005 },
+            { key: 'threshold', label: 'Threshold', min: -0.95, max: 0, step: 0.05 },
+            { key: 'depth', label: 'Depth', min: 0, max: 40, step: 1 },
+            { key: 'curve', label: 'Curve', min: 0.3, max: 3, step: 0.1 },
+        ],
+    },
+    {
+        layer: 'rivers',
+        label: 'Rivers',
+        parameters: [
+            { key: 'threshold', label: 'Catchment', min: 5, max: 500, step: 5 },
+            { key: 'width', label: 'Width', min: 1, max: 20, step: 0.5 },
+            { key: 'depth', label: 'Depth', min: 0.5, max: 15, step: 0.5 },
+            { key: 'bankSlope', label: 'Bank Slope', min: 0.1, max: 3, step: 0.05 },
+        ],
+    },
+    {
+        layer: 'hills',
+        label: 'Hills',
+        parameters: [
+            { key: 'frequency', label: 'Frequency', min: 0.001, max: 0.03, step: 0.001 },
+            { key: 'amplitude', label: 'Amplitude', min: 0, max: 40, step: 1 },
+        ],
+    },
+    {
+        layer: 'valleys',
+        label: 'Valleys',
+        parameters: [
+            { key: 'frequency', label: 'Frequency', min: 0.001, max: 0.02, step: 0.001 },
+            { key: 'threshold', label: 'Threshold', min: -1, max: 1, step: 0.05 },
+            { key: 'factor', label: 'Factor', min: 0.3, max: 1, step: 0.05 },
+        ],
+    },
+    {
+        layer: 'erosion',
+        label: 'Erosion',
+        parameters: [
+            { key: 'iterations', label: 'Droplets', min: 0, max: 20000, step: 500 },
+            { key: 'erosionRate', label: 'Erosion Rate', min: 0, max: 1, step: 0.05 },
+            { key: 'depositionRate', label: 'Deposition Rate', min: 0, max: 1, step: 0.05 },
+            { key: 'thermalIterations', label: 'Thermal Passes', min: 0, max: 50, step: 1 },
+            { key: 'talus', label: 'Talus Slope', min: 0.3, max: 3, step: 0.05 },
+        ],
+    },
+    {
+        layer: 'climate',
+        label: 'Climate',
+        parameters: [
+            { key: 'temperature', label: 'Temperature', min: -20, max: 35, step: 1 },
+            { key: 'latitudeRange', label: 'Latitude Range', min: 0, max: 30, step: 1 },
+            { key: 'lapseRate', label: 'Lapse Rate', min: 0, max: 1, step: 0.01 },
+            { key: 'moisture', label: 'Moisture', min: 0, max: 1, step: 0.05 },
+            { key: 'rainShadow', label: 'Rain Shadow', min: 0, max: 1, step: 0.05 },
+        ],
+    },
+]
+
+export function cloneTerrainConfig(config: TerrainConfig): TerrainConfig {
+    return structuredClone(config)
+}
+
+// Проверка конфигурации из UI, пресета или файла: каждое поле схемы - конечное число в допустимом диапазоне
+export function validateTerrainConfig(config: unknown): TerrainConfig {
+    const errors: string[] = []
+
+    for (const layer of terrainConfigSchema) {
+        const values = (config as Record<string, Record<string, unknown> | undefined> | null)?.[layer.layer]
+        if (typeof values !== 'object' || values === null) {
+            errors.push(`${layer.layer} is missing`)
+            continue
+        }
+
+        for (const parameter of layer.parameters) {
+            const value = values[parameter.key]
+            const path = `${layer.layer}.${parameter.key}`
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                errors.push(`${path} must be a number, got ${JSON.stringify(value)}`)
+            } else if (parameter.step >= 1 && !Number.isInteger(value)) {
+                errors.push(`${path} must be an integer, got ${value}`)
+            } else if (value < parameter.min || value > parameter.max) {
+                errors.push(`${path} must be between ${parameter.min} and ${parameter.max}, got ${value}`)
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid terrain config: ${errors.join('; ')}`)
+    }
+    return config as TerrainConfig
+}
+
+// Ключ для кэшей и сравнения конфигураций: поля в порядке схемы
+export function getTerrainConfigKey(config: TerrainConfig): string {
+    return terrainConfigSchema
+        .flatMap(layer =>
+            layer.parameters.map(parameter => (config[layer.layer] as Record<string, number>)[parameter.key])
+        )
+        .join(':')
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { cloneTerrainConfig, defaultTerrainConfig, type TerrainConfig } from './TerrainConfig'
+import { TerrainHeightFunction } from './TerrainHeightFunction'
+import { generateChunkGeometry } from './ChunkGeometryGenerator'
+
+// Немного капель - тесты проверяют свойства, а не качество рельефа
+function createErodedTerrain(): TerrainConfig {
+    const terrain = cloneTerrainConfig(defaultTerrainConfig)
+    terrain.mountains.threshold = -0.2
+    terrain.erosion = { iterations: 1500, erosionRate: 0.4, depositionRate: 0.3, thermalIterations: 5, talus: 0.8 }
+    return terrain
+}
+
+describe('TerrainErosion', () => {
+    const terrain = createErodedTerrain()
+
+    it('is deterministic per seed and independent of sampling order', () => {
+        const a = new TerrainHeightFunction({ seed: 99, terrain })
+        const b = new TerrainHeightFunction({ seed: 99, terrain })
+        const points = [
+            [10, -20],
+            [300, 140],
+            [-129, 255],
+        ]
+
+        const forward = points.map(([x, z]) => a.getHeight(x, z))
+        const backward = [...points].reverse().map(([x, z]) => b.getHeight(x, z))
+        expect(forward).toEqual(backward.reverse())
+    })
+
+    it('changes the surface and reports sediment and flow', () => {
+        const eroded = new TerrainHeightFunction({ seed: 99, terrain })
+        let changed = 0
+        let sediment = 0
+        let flow = 0
+
+        for (let x = -120; x <= 120; x += 6) {
+            for (let z = -120; z <= 120; z += 6) {
+                const sample = eroded.getErosion(x, z)
+                if (Math.abs(sample.delta) > 1e-3) changed++
+                // Русла рек врезаются поверх эрозии и только понижают рельеф
+                expect(eroded.getHeight(x, z)).toBeLessThanOrEqual(eroded.getBaseHeight(x, z) + sample.delta + 1e-6)
+                sediment = Math.max(sediment, sample.sediment)
+                flow = Math.max(flow, sample.flow)
+            }
+        }
+
+        expect(changed).toBeGreaterThan(0)
+        expect(sediment).toBeGreaterThan(0)
+        expect(flow).toBeGreaterThan(0)
+        expect(flow).toBeLessThanOrEqual(1)
+    })
+
+    it('matches heights on the shared edge of neighbouring chunks', () => {
+        const request = { chunkSize: 100, chunkResolution: 8, lodLevel: 0, heightGeneratorConfig: { seed: 5, terrain } }
+        const left = generateChunkGeometry({ ...request, id: 'left', chunkX: 0, chunkZ: 0 })
+        const right = generateChunkGeometry({ ...request, id: 'right', chunkX: 1, chunkZ: 0 })
+        const row = 9
+
+        for (let z = 0; z < row; z++) {
+            expect(left.vertices[(z * row + row - 1) * 3 + 1]).toBe(right.vertices[z * row * 3 + 1])
+            expect(left.flow[z * row + row - 1]).toBe(right.flow[z * row])
+        }
+    })
+
+    it('is a no-op when disabled', () => {
+        const plain = new TerrainHeightFunction({ seed: 99 })
+        expect(plain.hasErosion()).toBe(false)
+        expect(plain.getHeight(42, 17)).toBe(plain.getBaseHeight(42, 17))
+        expect(plain.getErosion(42, 17)).toEqual({ delta: 0, sediment: 0, flow: 0 })
+    })
+})
@@ -0,0 +1,281 @@
+// Эрозия рельефа: гидравлическая (капли) и термическая (осыпание склонов).
+// Считается на тайлах мировой сетки: тайл - квадрат со стороной EROSION_TILE_STRIDE и фартуком такой же
+// ширины за каждым краем. Соседние тайлы перекрываются, и в точке их вклады смешиваются весами-«шатрами»
+// с суммой 1. Тайл зависит только от seed, конфигурации и своих координат, поэтому чанки, воркеры
+// и главный поток получают в общей точке одну и ту же высоту - на швах чанков нет разрывов
+import type { TerrainConfig } from './TerrainConfig'
+import { createSeededRandom, hashSeed } from '@/utils/SeededRandom'
+
+export type ErosionConfig = TerrainConfig['erosion']
+
+export interface ErosionSample {
+    delta: number // Изменение высоты относительно исходного рельефа
+    sediment: number // Нанесённый материал (отложения капель и осыпи), единицы высоты
+    flow: number // Интенсивность стока 0..1: русла рек и ручьёв близки к 1
+}
+
+interface ErosionTile {
+    delta: Float32Array
+    sediment: Float32Array
+    flow: Float32Array
+}
+
+export const EROSION_CELL_SIZE = 2
+const TILE_CELLS = 64 // Ячеек от центра тайла до края фартука; столько же - шаг между тайлами
+export const EROSION_TILE_STRIDE = TILE_CELLS * EROSION_CELL_SIZE
+const TILE_ROW = TILE_CELLS * 2 + 1
+const MAX_CACHED_TILES = 32
+
+// Параметры капли (Hans Theobald Beyer, "Implementation of a method for hydraulic erosion")
+const DROPLET_LIFETIME = 30
+const INERTIA = 0.05
+const SEDIMENT_CAPACITY = 4
+const MIN_CAPACITY = 0.01
+const EVAPORATION = 0.02
+const GRAVITY = 4
+const THERMAL_RATE = 0.2 // Доля избыточного перепада, сползающая к соседу за проход
+
+export function isErosionEnabled(config: ErosionConfig): boolean {
+    return config.iterations > 0 || config.thermalIterations > 0
+}
+
+export class TerrainErosion {
+    private getBaseHeight: (x: number, z: number) => number
+    private config: ErosionConfig
+    private seed: number
+    private tiles: Map<string, ErosionTile> = new Map() // Порядок вставки - порядок использования (LRU)
+
+    constructor(getBaseHeight: (x: number, z: number) => number, config: ErosionConfig, seed: number) {
+        this.getBaseHeight = getBaseHeight
+        this.config = config
+        this.seed = seed
+    }
+
+    // Смешивание двух соседних по каждой оси тайлов билинейной выборкой из их сеток
+    sample(x: number, z: number, output: ErosionSample = { delta: 0, sediment: 0, flow: 0 }): ErosionSample {
+        output.delta = 0
+        output.sediment = 0
+        output.flow = 0
+
+        const fx = x / EROSION_TILE_STRIDE
+        const fz = z / EROSION_TILE_STRIDE
+        const tileX = Math.floor(fx)
+        const tileZ = Math.floor(fz)
+        const tx = fx - tileX
+        const tz = fz - tileZ
+
+        for (let dz = 0; dz <= 1; dz++) {
+            const weightZ = dz === 0 ? 1 - tz : tz
+            if (weightZ === 0) continue
+
+            for (let dx = 0; dx <= 1; dx++) {
+                const weightX = dx === 0 ? 1 - tx : tx
+                if (weightX === 0) continue
+
+                const tile = this.getTile(tileX + dx, tileZ + dz)
+                const gridX = (x - (tileX + dx) * EROSION_TILE_STRIDE) / EROSION_CELL_SIZE + TILE_CELLS
+                const gridZ = (z - (tileZ + dz) * EROSION_TILE_STRIDE) / EROSION_CELL_SIZE + TILE_CELLS
+                const weight = weightX * weightZ
+
+                output.delta += sampleGrid(tile.delta, gridX, gridZ) * weight
+                output.sediment += sampleGrid(tile.sediment, gridX, gridZ) * weight
+                output.flow += sampleGrid(tile.flow, gridX, gridZ) * weight
+            }
+        }
+
+        return output
+    }
+
+    private getTile(tileX: number, tileZ: number): ErosionTile {
+        const key = `${tileX},${tileZ}`
+        let tile = this.tiles.get(key)
+
+        if (tile) {
+            this.tiles.delete(key)
+        } else {
+            tile = this.erodeTile(tileX, tileZ)
+            if (this.tiles.size >= MAX_CACHED_TILES) {
+                this.tiles.delete(this.tiles.keys().next().value!)
+            }
+        }
+
+        this.tiles.set(key, tile)
+        return tile
+    }
+
+    private erodeTile(tileX: number, tileZ: number): ErosionTile {
+        const originX = tileX * EROSION_TILE_STRIDE - TILE_CELLS * EROSION_CELL_SIZE
+        const originZ = tileZ * EROSION_TILE_STRIDE - TILE_CELLS * EROSION_CELL_SIZE
+        const heights = new Float64Array(TILE_ROW * TILE_ROW)
+
+        for (let z = 0; z < TILE_ROW; z++) {
+            for (let x = 0; x < TILE_ROW; x++) {
+                heights[z * TILE_ROW + x] = this.getBaseHeight(
+                    originX + x * EROSION_CELL_SIZE,
+                    originZ + z * EROSION_CELL_SIZE
+                )
+            }
+        }
+
+        const original = heights.slice()
+        const sediment = new Float32Array(heights.length)
+        const flow = new Float32Array(heights.length)
+
+        this.simulateDroplets(heights, sediment, flow, createSeededRandom(hashSeed(this.seed, tileX, tileZ)))
+        this.simulateThermal(heights, sediment)
+
+        // Число посещений узла переводим в 0..1 относительно равномерного стока по тайлу
+        const averageVisits = (this.config.iterations * DROPLET_LIFETIME) / heights.length
+        const delta = new Float32Array(heights.length)
+        for (let i = 0; i < heights.length; i++) {
+            delta[i] = heights[i] - original[i]
+            flow[i] = averageVisits > 0 ? 1 - Math.exp(-flow[i] / (averageVisits * 4)) : 0
+        }
+
+        return { delta, sediment, flow }
+    }
+
+    // Капли стартуют в случайных точках тайла, стекают по градиенту, размывают склоны
+    // пропорционально скорости и откладывают груз там, где поток замедляется
+    private simulateDroplets(
+        heights: Float64Array,
+        sediment: Float32Array,
+        flow: Float32Array,
+        random: () => number
+    ): void {
+        const { iterations, erosionRate, depositionRate } = this.config
+        const limit = TILE_ROW - 1
+
+        for (let i = 0; i < iterations; i++) {
+            let x = random() * limit
+            let z = random() * limit
+            let directionX = 0
+            let directionZ = 0
+            let speed = 1
+            let water = 1
+            let load = 0
+
+            for (let step = 0; step < DROPLET_LIFETIME; step++) {
+                const cellX = Math.floor(x)
+                const cellZ = Math.floor(z)
+                const u = x - cellX
+                const v = z - cellZ
+                const { height, gradientX, gradientZ } = sampleGradient(heights, cellX, cellZ, u, v)
+
+                flow[Math.round(z) * TILE_ROW + Math.round(x)] += water
+
+                directionX = directionX * INERTIA - gradientX * (1 - INERTIA)
+                directionZ = directionZ * INERTIA - gradientZ * (1 - INERTIA)
+                const length = Math.sqrt(directionX * directionX + directionZ * directionZ)
+                if (length === 0) break
+                directionX /= length
+                directionZ /= length
+
+                x += directionX
+                z += directionZ
+                if (x < 0 || z < 0 || x >= limit || z >= limit) break
+
+                const deltaHeight = sampleGradient(heights, Math.floor(x), Math.floor(z), x % 1, z % 1).height - height
+                const capacity = Math.max(-deltaHeight * speed * water * SEDIMENT_CAPACITY, MIN_CAPACITY)
+
+                if (load > capacity || deltaHeight > 0) {
+                    // В гору - заполняем яму не выше её края, иначе сбрасываем излишек груза
+                    const amount = deltaHeight > 0 ? Math.min(deltaHeight, load) : (load - capacity) * depositionRate
+                    load -= amount
+                    distribute(heights, sediment, cellX, cellZ, u, v, amount)
+                } else {
+                    const amount = Math.min((capacity - load) * erosionRate, -deltaHeight)
+                    load += amount
+                    distribute(heights, null, cellX, cellZ, u, v, -amount)
+                }
+
+                speed = Math.sqrt(Math.max(0, speed * speed + deltaHeight * GRAVITY))
+                water *= 1 - EVAPORATION
+            }
+        }
+    }
+
+    // Осыпание: перепад к соседу сверх устойчивого сползает вниз и копится у подножия (осыпи)
+    private simulateThermal(heights: Float64Array, sediment: Float32Array): void {
+        const { thermalIterations, talus } = this.config
+        const maxDifference = talus * EROSION_CELL_SIZE
+        const changes = new Float64Array(heights.length)
+        const neighbours = [-1, 1, -TILE_ROW, TILE_ROW]
+
+        for (let pass = 0; pass < thermalIterations; pass++) {
+            changes.fill(0)
+
+            for (let z = 1; z < TILE_ROW - 1; z++) {
+                for (let x = 1; x < TILE_ROW - 1; x++) {
+                    const i = z * TILE_ROW + x
+                    for (const offset of neighbours) {
+                        const excess = heights[i] - heights[i + offset] - maxDifference
+                        if (excess <= 0) continue
+
+                        const amount = excess * THERMAL_RATE
+                        changes[i] -= amount
+                        changes[i + offset] += amount
+                        sediment[i + offset] += amount
+                    }
+                }
+            }
+
+            for (let i = 0; i < heights.length; i++) {
+                heights[i] += changes[i]
+            }
+        }
+    }
+}
+
+function sampleGrid(grid: Float32Array, x: number, z: number): number {
+    const cellX = Math.min(Math.floor(x), TILE_ROW - 2)
+    const cellZ = Math.min(Math.floor(z), TILE_ROW - 2)
+    const u = x - cellX
+    const v = z - cellZ
+    const i = cellZ * TILE_ROW + cellX
+
+    return (
+        (grid[i] * (1 - u) + grid[i + 1] * u) * (1 - v) +
+        (grid[i + TILE_ROW] * (1 - u) + grid[i + TILE_ROW + 1] * u) * v
+    )
+}
+
+function sampleGradient(
+    heights: Float64Array,
+    cellX: number,
+    cellZ: number,
+    u: number,
+    v: number
+): { height: number; gradientX: number; gradientZ: number } {
+    const i = cellZ * TILE_ROW + cellX
+    const h00 = heights[i]
+    const h10 = heights[i + 1]
+    const h01 = heights[i + TILE_ROW]
+    const h11 = heights[i + TILE_ROW + 1]
+
+    return {
+        height: (h00 * (1 - u) + h10 * u) * (1 - v) + (h01 * (1 - u) + h11 * u) * v,
+        gradientX: (h10 - h00) * (1 - v) + (h11 - h01) * v,
+        gradientZ: (h01 - h00) * (1 - u) + (h11 - h10) * u,
+    }
+}
+
+// Изменение высоты в точке капли раскладывается по четырём углам ячейки билинейными весами
+function distribute(
+    heights: Float64Array,
+    sediment: Float32Array | null,
+    cellX: number,
+    cellZ: number,
+    u: number,
+    v: number,
+    amount: number
+): void {
+    const i = cellZ * TILE_ROW + cellX
+    const corners = [i, i + 1, i + TILE_ROW, i + TILE_ROW + 1]
+    const weights = [(1 - u) * (1 - v), u * (1 - v), (1 - u) * v, u * v]
+
+    for (let k = 0; k < 4; k++) {
+        heights[corners[k]] += amount * weights[k]
+        if (sediment) sediment[corners[k]] += amount * weights[k]
+    }
+}
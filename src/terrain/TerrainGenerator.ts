@@ -1,34 +1,49 @@
-import { Scene, Vector3, WebGLRenderer } from 'three'
+import { Camera, Scene, Vector3, WebGLRenderer } from 'three'
 import { BiomeManager } from '@/biomes/BiomeManager'
+import { ScatterManager } from '@/biomes/ScatterManager'
+import { getBiomePackKey, validateBiomePack, type BiomePack } from '@/biomes/BiomePack'
 import { HeightGenerator } from './HeightGenerator'
 import { WaterManager } from './WaterManager'
 import { ChunkManager } from './ChunkManager'
+import type { ViewCone } from './ChunkStateManager'
 import { ShaderManager } from '@/shaders/ShaderManager'
 import { globalProfiler } from '@/utils/Profiler'
+import { WorldSeed } from './WorldSeed'
+import { getTerrainConfigKey, validateTerrainConfig, type TerrainConfig } from './TerrainConfig'
+import { exportHeightmapFiles } from './HeightmapExporter'
+import { sampleHeightmapAsync, type HeightmapProgress } from './HeightmapSampler'
+import type { ExportedFile, HeightmapBounds, HeightmapFormat } from './HeightmapExporter'
+import { exportMeshFiles } from './MeshExporter'
+import type { ChunkRange, MeshExportOptions } from './MeshExporter'
 
 export class TerrainGenerator {
     private scene: Scene
     private biomeManager: BiomeManager
     private heightGenerator: HeightGenerator
     private waterManager: WaterManager
+    private scatterManager: ScatterManager
     private chunkManager: ChunkManager
     private shaderManager: ShaderManager
     private renderDistance = 6
     private chunkSize = 100
     private renderer: WebGLRenderer | null = null
+    private seed: WorldSeed
 
-    constructor(scene: Scene, renderer?: WebGLRenderer) {
+    constructor(scene: Scene, renderer?: WebGLRenderer, seed: WorldSeed = WorldSeed.random()) {
         this.scene = scene
         this.renderer = renderer || null
+        this.seed = seed
         this.biomeManager = new BiomeManager()
-        this.heightGenerator = new HeightGenerator(this.renderer || undefined)
+        this.heightGenerator = new HeightGenerator(this.renderer || undefined, this.seed.value)
         this.shaderManager = new ShaderManager()
         this.waterManager = new WaterManager(scene, this.heightGenerator, this.shaderManager)
+        this.scatterManager = new ScatterManager(scene, this.biomeManager, this.heightGenerator)
         this.chunkManager = new ChunkManager(
             scene,
             this.heightGenerator,
             this.waterManager,
             this.biomeManager,
+            this.scatterManager,
             this.shaderManager
         )
     }
@@ -79,12 +94,12 @@ export class TerrainGenerator {
         console.log(`✅ Generated ${chunksToGenerate.length} chunks out of ${totalChunks} possible`)
     }
 
-    update(cameraPosition: Vector3): void {
+    update(cameraPosition: Vector3, view?: ViewCone): void {
         const chunkX = Math.floor(cameraPosition.x / this.chunkSize)
         const chunkZ = Math.floor(cameraPosition.z / this.chunkSize)
 
         // Обновляем позицию центра для системы приоритетов
-        this.chunkManager.updateCameraPosition(cameraPosition.x, cameraPosition.z)
+        this.chunkManager.updateCameraPosition(cameraPosition.x, cameraPosition.z, view)
 
         // Генерируем новые чанки вокруг камеры в круговом радиусе
         for (let x = -this.renderDistance; x <= this.renderDistance; x++) {
@@ -127,17 +142,121 @@ export class TerrainGenerator {
         this.chunkManager.setRenderRadius(newDistance)
     }
 
-    // Убираем отдельные методы для chunk render radius
-    private regenerateAllChunks(): void {
-        const chunkPositions = Array.from(this.chunkManager.getChunks().keys())
-        chunkPositions.forEach(key => {
-            this.chunkManager.removeChunk(key)
+    setSeed(seed: WorldSeed): void {
+        if (seed.equals(this.seed)) return
+
+        this.seed = seed
+        this.heightGenerator.setSeed(seed.value)
+        this.regenerateAllChunks()
+        console.log(`🌱 World seed changed to "${seed.input}" (${seed.value})`)
+    }
+
+    getSeed(): WorldSeed {
+        return this.seed
+    }
+
+    // Новая форма рельефа из панели Terrain: некорректная конфигурация отклоняется до пересоздания чанков
+    setTerrainConfig(config: TerrainConfig): void {
+        const terrain = validateTerrainConfig(config)
+        if (getTerrainConfigKey(terrain) === getTerrainConfigKey(this.heightGenerator.getTerrainConfig())) return
+
+        this.heightGenerator.setTerrainConfig(terrain)
+        this.regenerateAllChunks()
+    }
+
+    getTerrainConfig(): TerrainConfig {
+        return this.heightGenerator.getTerrainConfig()
+    }
+
+    // Замена набора биомов на лету: набор проверяется до того, как его увидят воркеры и шейдеры,
+    // затем цвета, объекты и текстуры переключаются разом и загруженные чанки строятся заново
+    setBiomePack(pack: BiomePack): void {
+        const biomes = validateBiomePack(pack)
+        if (getBiomePackKey(biomes) === getBiomePackKey(this.heightGenerator.getBiomePack())) return
+
+        this.heightGenerator.setBiomePack(biomes)
+        this.biomeManager.setBiomePack(biomes)
+        this.shaderManager.setBiomePack(biomes)
+        this.regenerateAllChunks()
+    }
+
+    getBiomePack(): BiomePack {
+        return this.heightGenerator.getBiomePack()
+    }
+
+    // Выгрузка карты высот произвольного прямоугольника мира через общую функцию высоты.
+    // Выборка идёт в отдельном воркере с текущими seed, рельефом и набором биомов
+    async exportHeightmap(
+        bounds: HeightmapBounds,
+        resolution: number,
+        format: HeightmapFormat,
+        onProgress?: HeightmapProgress
+    ): Promise<ExportedFile[]> {
+        return globalProfiler.measureAsync(`🗺️ Heightmap Export (${format}, ${resolution}px)`, async () => {
+            const config = this.heightGenerator.getHeightFunction().getConfig()
+            const samples = await sampleHeightmapAsync({ config, bounds, resolution }, onProgress)
+            const baseName = this.getExportBaseName('heightmap')
+            return exportHeightmapFiles(samples, format, { input: this.seed.input, value: this.seed.value }, baseName)
+        })
+    }
+
+    // Выгрузка отрендеренных чанков диапазона (все должны быть загружены) вместе с водой
+    exportMesh(options: MeshExportOptions): ExportedFile[] {
+        return globalProfiler.measure(`🧊 Mesh Export (${options.format})`, () => {
+            const surfaces = this.chunkManager.getChunkSurfaces(options.range)
+            const water = this.waterManager.getWaterSurfaces(options.range)
+            return exportMeshFiles(surfaces, water, options, this.getExportBaseName('terrain'))
         })
-        this.generateInitialChunks()
+    }
+
+    // Квадрат чанков radius вокруг позиции. update() загружает только круг renderDistance,
+    // поэтому радиус ограничен так, чтобы углы квадрата лежали внутри круга
+    getChunkRangeAround(position: Vector3, radius: number): ChunkRange {
+        const chunkX = Math.floor(position.x / this.chunkSize)
+        const chunkZ = Math.floor(position.z / this.chunkSize)
+        const clamped = Math.min(radius, this.getMaxExportRadius())
+        return { fromX: chunkX - clamped, fromZ: chunkZ - clamped, toX: chunkX + clamped, toZ: chunkZ + clamped }
+    }
+
+    // Наибольший радиус квадрата чанков, целиком лежащего в загруженном круге
+    getMaxExportRadius(): number {
+        return Math.floor(this.renderDistance / Math.SQRT2)
+    }
+
+    private getExportBaseName(prefix: string): string {
+        return `${prefix}-${this.seed.input.replace(/[^\w-]+/g, '_')}`
+    }
+
+    // Границы чанков в радиусе рендеринга вокруг позиции (чанк x занимает [(x - 0.5), (x + 0.5)] * chunkSize)
+    getBoundsAround(position: Vector3): HeightmapBounds {
+        const chunkX = Math.floor(position.x / this.chunkSize)
+        const chunkZ = Math.floor(position.z / this.chunkSize)
+        return {
+            minX: (chunkX - this.renderDistance - 0.5) * this.chunkSize,
+            minZ: (chunkZ - this.renderDistance - 0.5) * this.chunkSize,
+            maxX: (chunkX + this.renderDistance + 0.5) * this.chunkSize,
+            maxZ: (chunkZ + this.renderDistance + 0.5) * this.chunkSize,
+        }
+    }
+
+    // Уровень водоёма, который больше всего виден камере, - плоскость зеркала отражений; null - воды в кадре нет
+    getReflectionLevel(camera: Camera): number | null {
+        return this.waterManager.getReflectionLevel(camera)
+    }
+
+    getChunkSize(): number {
+        return this.chunkSize
+    }
+
+    // Удаляем все чанки - update() пересоздаст их вокруг камеры
+    private regenerateAllChunks(): void {
+        this.chunkManager.clearChunks()
     }
 
     dispose(): void {
         this.chunkManager.dispose()
+        this.scatterManager.dispose()
+        this.biomeManager.dispose()
         this.waterManager.dispose()
         this.shaderManager.dispose()
         this.heightGenerator.dispose()
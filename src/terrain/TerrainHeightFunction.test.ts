@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { TerrainHeightFunction, normalizeSeed } from './TerrainHeightFunction'
+import { HeightGenerator } from './HeightGenerator'
+import { generateChunkGeometry, type ChunkGenerationRequest } from './ChunkGeometryGenerator'
+import { defaultTerrainConfig } from './TerrainConfig'
+import { BASIN_CELL_SIZE } from './WaterBasins'
+
+const chunkSize = 100
+const chunkResolution = 8
+
+function createRequest(heightGenerator: HeightGenerator, chunkX: number, chunkZ: number): ChunkGenerationRequest {
+    return {
+        id: `${chunkX},${chunkZ}`,
+        chunkX,
+        chunkZ,
+        chunkSize,
+        chunkResolution,
+        lodLevel: 0,
+        heightGeneratorConfig: {
+            seed: heightGenerator.getSeed(),
+            terrain: heightGenerator.getTerrainConfig(),
+        },
+    }
+}
+
+describe('TerrainHeightFunction', () => {
+    it('is deterministic for the same seed', () => {
+        const a = new TerrainHeightFunction({ seed: 1234 })
+        const b = new TerrainHeightFunction({ seed: 1234 })
+        const c = new TerrainHeightFunction({ seed: 4321 })
+
+        const samples = [-731.5, -12, 0, 48.25, 999]
+        let differs = false
+        for (const x of samples) {
+            for (const z of samples) {
+                expect(a.getHeight(x, z)).toBe(b.getHeight(x, z))
+                differs ||= a.getHeight(x, z) !== c.getHeight(x, z)
+            }
+        }
+        expect(differs).toBe(true)
+        expect(Array.from(a.getPermutation())).toEqual(Array.from(b.getPermutation()))
+    })
+
+    it('normalizes fractional seeds to uint32', () => {
+        expect(normalizeSeed(42)).toBe(42)
+        expect(normalizeSeed(-1)).toBe(0xffffffff)
+        expect(normalizeSeed(0.5)).toBe(0x80000000)
+    })
+
+    it('matches worker meshes, CPU fallback and water probes on a sample grid', () => {
+        const heightGenerator = new HeightGenerator()
+        const heightFunction = new TerrainHeightFunction({
+            seed: heightGenerator.getSeed(),
+            terrain: heightGenerator.getTerrainConfig(),
+        })
+
+        for (const [chunkX, chunkZ] of [
+            [0, 0],
+            [-3, 2],
+            [7, -5],
+        ]) {
+            const result = generateChunkGeometry(createRequest(heightGenerator, chunkX, chunkZ))
+            expect(result.success).toBe(true)
+
+            for (let z = 0; z <= chunkResolution; z++) {
+                for (let x = 0; x <= chunkResolution; x++) {
+                    const localX = (x / chunkResolution - 0.5) * chunkSize
+                    const localZ = (z / chunkResolution - 0.5) * chunkSize
+                    const worldX = localX + chunkX * chunkSize
+                    const worldZ = localZ + chunkZ * chunkSize
+
+                    const expected = heightFunction.getHeight(worldX, worldZ)
+                    const vertexIndex = z * (chunkResolution + 1) + x
+
+                    // Воркер хранит высоты во Float32Array
+                    expect(result.vertices[vertexIndex * 3 + 1]).toBe(Math.fround(expected))
+                    // CPU fallback (ChunkManager) и пробы воды (WaterManager) идут через HeightGenerator
+                    expect(heightGenerator.generateHeight(worldX, worldZ)).toBe(expected)
+                    expect(heightGenerator.getHeightFunction().getHeight(worldX, worldZ)).toBe(expected)
+                }
+            }
+        }
+    })
+
+    it('floods lakes on the eroded surface of chunk meshes', () => {
+        const terrain = {
+            ...defaultTerrainConfig,
+            erosion: { iterations: 1500, erosionRate: 0.4, depositionRate: 0.3, thermalIterations: 5, talus: 0.8 },
+        }
+        const heightFunction = new TerrainHeightFunction({ seed: 7, terrain })
+        const [minX, minZ, maxX, maxZ] = [350, 350, 450, 450] // Чанк (4, 4) в ядре региона водоёмов
+
+        // Высота сетки чанка - getHeight (см. тест выше); уровни - из ячеек глади вокруг чанка
+        const levels = new Map<string, number>()
+        for (const cell of heightFunction.getWaterCells(minX - 16, minZ - 16, maxX + 16, maxZ + 16)) {
+            levels.set(`${cell.x / BASIN_CELL_SIZE},${cell.z / BASIN_CELL_SIZE}`, cell.level)
+        }
+
+        let wet = 0
+        for (let z = Math.ceil(minZ / BASIN_CELL_SIZE); z < maxZ / BASIN_CELL_SIZE; z++) {
+            for (let x = Math.ceil(minX / BASIN_CELL_SIZE); x < maxX / BASIN_CELL_SIZE; x++) {
+                const level = levels.get(`${x},${z}`)
+                const ground = heightFunction.getHeight((x + 0.5) * BASIN_CELL_SIZE, (z + 0.5) * BASIN_CELL_SIZE)
+                // Берег под гладью кольца: сетка поднимается над водой
+                if (level === undefined || ground > level - 0.06) continue
+                wet++
+
+                // Ячейка под водой - часть озера: вокруг неё гладь того же уровня, а не размытый берег ниже
+                for (let dz = -1; dz <= 1; dz++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        expect(levels.get(`${x + dx},${z + dz}`)).toBeGreaterThan(level - 0.06)
+                    }
+                }
+            }
+        }
+        expect(wet).toBeGreaterThan(0)
+    }, 30000)
+
+    it('samples heightmap grids with inclusive chunk edges', async () => {
+        const heightGenerator = new HeightGenerator()
+        const heightFunction = heightGenerator.getHeightFunction()
+        const heights = await heightGenerator.generateHeightmapChunk(2, -1, 5, chunkSize)
+
+        expect(heights.length).toBe(25)
+        expect(heights[0]).toBe(Math.fround(heightFunction.getHeight(150, -150)))
+        expect(heights[24]).toBe(Math.fround(heightFunction.getHeight(250, -50)))
+    })
+})
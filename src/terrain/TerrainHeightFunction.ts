@@ -0,0 +1,277 @@
+// Единая чистая функция высоты террейна.
+// Используется воркерами, CPU fallback, водой и (через таблицу перестановок) GPU шейдером,
+// поэтому для одного seed все пути генерации дают одинаковую высоту.
+import { defaultTerrainConfig, getTerrainConfigKey, type TerrainConfig } from './TerrainConfig'
+import { TerrainErosion, isErosionEnabled, type ErosionSample } from './TerrainErosion'
+import { RiverNetwork, type RiverSpline } from './RiverNetwork'
+import { WaterBasins, type WaterCell } from './WaterBasins'
+import { ClimateModel, type ClimateSample } from './ClimateModel'
+import { BiomeClassifier } from './BiomeClassifier'
+import { defaultBiomePack, getBiomePackKey, type BiomePack } from '../biomes/BiomePack'
+
+export interface TerrainHeightConfig {
+    seed: number
+    terrain?: TerrainConfig // Форма рельефа; по умолчанию - defaultTerrainConfig
+    biomes?: BiomePack // Набор биомов для классификации вершин; по умолчанию - defaultBiomePack
+}
+
+// Ключ конфигурации: функцию высоты нужно пересоздать, только если он изменился
+export function getTerrainHeightConfigKey(config: TerrainHeightConfig): string {
+    const terrainKey = getTerrainConfigKey(config.terrain ?? defaultTerrainConfig)
+    return `${normalizeSeed(config.seed)}:${terrainKey}:${getBiomePackKey(config.biomes ?? defaultBiomePack)}`
+}
+
+// Perlin noise с перестановкой, перемешанной детерминированным LCG
+class PerlinNoise {
+    private gradients: number[][]
+    private permutation: number[]
+
+    constructor(seed: number) {
+        this.gradients = []
+        this.permutation = []
+        this.setupGradients()
+        this.setupPermutation(seed)
+    }
+
+    private setupGradients(): void {
+        // Градиенты равномерно по окружности - шейдер вычисляет их по той же формуле
+        for (let i = 0; i < 256; i++) {
+            const angle = (i / 256) * 2 * Math.PI
+            this.gradients[i] = [Math.cos(angle), Math.sin(angle)]
+        }
+    }
+
+    private setupPermutation(seed: number): void {
+        // Простой LCG для генерации последовательности
+        let rng = seed
+        const next = () => {
+            rng = (rng * 1664525 + 1013904223) % 0x100000000
+            return (rng >>> 0) / 0x100000000
+        }
+
+        for (let i = 0; i < 256; i++) {
+            this.permutation[i] = i
+        }
+
+        // Перемешиваем массив
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(next() * (i + 1))
+            const temp = this.permutation[i]
+            this.permutation[i] = this.permutation[j]
+            this.permutation[j] = temp
+        }
+
+        // Дублируем для избежания переполнения
+        for (let i = 0; i < 256; i++) {
+            this.permutation[i + 256] = this.permutation[i]
+        }
+    }
+
+    private fade(t: number): number {
+        return t * t * t * (t * (t * 6 - 15) + 10)
+    }
+
+    private lerp(a: number, b: number, t: number): number {
+        return a + t * (b - a)
+    }
+
+    private grad(hash: number, x: number, y: number): number {
+        const gradient = this.gradients[hash & 255]
+        return gradient[0] * x + gradient[1] * y
+    }
+
+    noise2D(x: number, y: number): number {
+        const X = Math.floor(x) & 255
+        const Y = Math.floor(y) & 255
+
+        x -= Math.floor(x)
+        y -= Math.floor(y)
+
+        const u = this.fade(x)
+        const v = this.fade(y)
+
+        const a = this.permutation[X] + Y
+        const aa = this.permutation[a]
+        const ab = this.permutation[a + 1]
+        const b = this.permutation[X + 1] + Y
+        const ba = this.permutation[b]
+        const bb = this.permutation[b + 1]
+
+        return this.lerp(
+            this.lerp(this.grad(this.permutation[aa], x, y), this.grad(this.permutation[ba], x - 1, y), u),
+            this.lerp(this.grad(this.permutation[ab], x, y - 1), this.grad(this.permutation[bb], x - 1, y - 1), u),
+            v
+        )
+    }
+
+    getPermutation(): Uint8Array {
+        return Uint8Array.from(this.permutation.slice(0, 256))
+    }
+}
+
+// Приводим seed к uint32: дробные значения в [0, 1) растягиваем на весь диапазон
+export function normalizeSeed(seed: number): number {
+    if (Number.isInteger(seed)) return seed >>> 0
+    return Math.floor(Math.abs(seed % 1) * 0x100000000) >>> 0
+}
+
+export class TerrainHeightFunction {
+    private noise: PerlinNoise
+    private config: Required<TerrainHeightConfig>
+    private erosion: TerrainErosion | null
+    private erosionSample: ErosionSample = { delta: 0, sediment: 0, flow: 0 }
+    private rivers: RiverNetwork
+    private basins: WaterBasins
+    private climate: ClimateModel
+    private biomes: BiomeClassifier
+
+    constructor(config: TerrainHeightConfig) {
+        this.config = {
+            seed: normalizeSeed(config.seed),
+            terrain: config.terrain ?? defaultTerrainConfig,
+            biomes: config.biomes ?? defaultBiomePack,
+        }
+        this.noise = new PerlinNoise(this.config.seed)
+        this.erosion = isErosionEnabled(this.config.terrain.erosion)
+            ? new TerrainErosion((x, z) => this.getBaseHeight(x, z), this.config.terrain.erosion, this.config.seed)
+            : null
+        this.rivers = new RiverNetwork((x, z) => this.getBaseHeight(x, z), this.config.terrain.rivers)
+        // Озёра заливаются по той же высоте, что у сеток чанков; дальний фартук - без эрозии
+        this.basins = new WaterBasins(
+            (x, z) => this.getHeight(x, z),
+            (x, z) => this.rivers.carve(x, z, this.getBaseHeight(x, z))
+        )
+        this.climate = new ClimateModel(
+            (x, z) => this.getBaseHeight(x, z),
+            (x, z) => this.noise.noise2D(x, z),
+            this.config.terrain.climate
+        )
+        this.biomes = new BiomeClassifier(this.config.biomes)
+    }
+
+    // Итоговая высота: шумы, эрозия и врезанные русла рек.
+    // Тайлы эрозии и регионы рек считаются при первом обращении и кэшируются
+    getHeight(x: number, z: number): number {
+        return this.refineHeight(x, z, this.getBaseHeight(x, z))
+    }
+
+    // Эрозия и реки поверх высоты из шумов - её может дать и GPU шейдер
+    refineHeight(x: number, z: number, baseHeight: number): number {
+        const height = this.erosion ? baseHeight + this.erosion.sample(x, z, this.erosionSample).delta : baseHeight
+        return this.rivers.carve(x, z, height)
+    }
+
+    // Осевые линии рек, отрезки которых начинаются в прямоугольнике мира (обычно - в чанке)
+    getRiverSplines(minX: number, minZ: number, maxX: number, maxZ: number): RiverSpline[] {
+        return this.rivers.getSplines(minX, minZ, maxX, maxZ)
+    }
+
+    // Ячейки глади водоёмов, углы которых лежат в прямоугольнике мира (обычно - в чанке)
+    getWaterCells(minX: number, minZ: number, maxX: number, maxZ: number): WaterCell[] {
+        return this.basins.getSurfaceCells(minX, minZ, maxX, maxZ)
+    }
+
+    // Карты эрозии в точке для раскраски русел и осыпей; без эрозии - нули
+    getErosion(x: number, z: number, output: ErosionSample = { delta: 0, sediment: 0, flow: 0 }): ErosionSample {
+        if (this.erosion) return this.erosion.sample(x, z, output)
+
+        output.delta = 0
+        output.sediment = 0
+        output.flow = 0
+        return output
+    }
+
+    hasErosion(): boolean {
+        return this.erosion !== null
+    }
+
+    // Высота из шумов до эрозии и рек - её же считает GPU шейдер
+    getBaseHeight(x: number, z: number): number {
+        const { base, mountains, lakes, hills, valleys } = this.config.terrain
+
+        // Базовая высота terrain с несколькими октавами
+        let baseHeight = 0
+        let amplitude = 1
+        let frequency = base.frequency
+
+        for (let i = 0; i < base.octaves; i++) {
+            const noiseValue = this.noise.noise2D(x * frequency, z * frequency)
+            baseHeight += noiseValue * amplitude
+            amplitude *= base.persistence
+            frequency *= base.lacunarity
+        }
+
+        // Добавляем крупномасштабные features (горы/равнины)
+        const mountainNoise = this.noise.noise2D(x * mountains.frequency, z * mountains.frequency)
+        const hillNoise = this.noise.noise2D(x * hills.frequency, z * hills.frequency)
+
+        // Специальный шум для создания впадин/озер
+        const lakeNoise = this.noise.noise2D(x * lakes.frequency, z * lakes.frequency)
+
+        // Создаём более разнообразный ландшафт
+        let height = baseHeight * base.amplitude
+
+        // Создаём глубокие впадины для озер: глубина растёт от порога к минимуму шума
+        if (lakeNoise < lakes.threshold) {
+            height -= Math.pow((lakes.threshold - lakeNoise) / (1 + lakes.threshold), lakes.curve) * lakes.depth
+        }
+
+        // Горы выше порога, нормированные к 0..1
+        if (mountainNoise > mountains.threshold) {
+            const mountainFactor = Math.pow(
+                (mountainNoise - mountains.threshold) / (1 - mountains.threshold),
+                mountains.curve
+            )
+            height += mountainFactor * mountains.amplitude
+        }
+
+        // Увеличиваем влияние холмов для более разнообразного ландшафта
+        height += hillNoise * hills.amplitude
+
+        // Создаём мягкие долины
+        const valleyNoise = this.noise.noise2D(x * valleys.frequency, z * valleys.frequency)
+        if (valleyNoise < valleys.threshold) {
+            height *= valleys.factor
+        }
+
+        // Поднимаем общий уровень равнин выше нуля
+        height += base.offset
+
+        return height
+    }
+
+    // Температура и влажность точки на высоте height - по ним классифицируются биомы
+    getClimate(x: number, z: number, height: number, output?: ClimateSample): ClimateSample {
+        return this.climate.getClimate(x, z, height, output)
+    }
+
+    // Классификатор набора биомов, с которым создана функция
+    getBiomeClassifier(): BiomeClassifier {
+        return this.biomes
+    }
+
+    // Сетка resolution x resolution высот, покрывающая квадрат size с центром (centerX, centerZ), края включительно
+    sampleGrid(centerX: number, centerZ: number, size: number, resolution: number): Float32Array {
+        const heights = new Float32Array(resolution * resolution)
+        const step = resolution > 1 ? 1 / (resolution - 1) : 0
+
+        for (let z = 0; z < resolution; z++) {
+            for (let x = 0; x < resolution; x++) {
+                const worldX = (x * step - 0.5) * size + centerX
+                const worldZ = (z * step - 0.5) * size + centerZ
+                heights[z * resolution + x] = this.getHeight(worldX, worldZ)
+            }
+        }
+
+        return heights
+    }
+
+    // Таблица перестановок для GPU шейдера
+    getPermutation(): Uint8Array {
+        return this.noise.getPermutation()
+    }
+
+    getConfig(): Required<TerrainHeightConfig> {
+        return { ...this.config }
+    }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { BASIN_CELL_SIZE, WaterBasins, WaterLevelGrid, buildWaterSurface } from './WaterBasins'
+
+// Море на западе, чаша на равнине и кратер на плато с озером выше равнины
+function landscape(x: number, z: number): number {
+    if (x < -300) return -5
+
+    const crater = Math.hypot(x - 600, z)
+    if (crater < 80) return 45
+    if (crater < 150) return 60
+
+    return 10 - 8 * Math.exp(-((x - 200) ** 2 + (z - 200) ** 2) / 60 ** 2)
+}
+
+describe('WaterBasins', () => {
+    const basins = new WaterBasins(landscape)
+
+    it('fills each depression to its own spill height next to the sea', () => {
+        expect(basins.getWaterLevel(-500, 0)).toBe(0)
+        expect(basins.getWaterLevel(600, 0)).toBe(60)
+        expect(basins.getWaterLevel(200, 200)).toBeCloseTo(10, 1)
+        expect(basins.getWaterLevel(200, -300)).toBeNull()
+    })
+
+    it('fills an inland depression below sea level to its spill height, not to the sea', () => {
+        // Котловина с дном на -20 за хребтом высотой 12 и море за краем сетки
+        const inland = new WaterBasins((x, z) => {
+            if (x < -300) return -5
+            const distance = Math.hypot(x - 300, z)
+            return distance < 100 ? -20 : distance < 160 ? 12 : 4
+        })
+
+        expect(inland.getWaterLevel(300, 0)).toBe(12)
+        expect(inland.getWaterLevel(-500, 0)).toBe(0)
+        expect(inland.getWaterLevel(0, 0)).toBeNull()
+    })
+
+    it('keeps dry areas free of water', () => {
+        expect(basins.getSurfaceCells(0, -400, 100, -300)).toEqual([])
+
+        // Вода есть только в мокрых ячейках и в кольце шириной в одну ячейку вокруг них
+        for (const cell of basins.getSurfaceCells(100, 100, 300, 300)) {
+            let nearWater = false
+            for (let dz = -1; dz <= 1; dz++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    nearWater ||=
+                        basins.getWaterLevel(
+                            cell.x + (dx + 0.5) * BASIN_CELL_SIZE,
+                            cell.z + (dz + 0.5) * BASIN_CELL_SIZE
+                        ) === cell.level
+                }
+            }
+            expect(nearWater).toBe(true)
+        }
+    })
+
+    it('assigns every surface cell to exactly one chunk', () => {
+        const whole = basins.getSurfaceCells(500, -100, 700, 100)
+        const parts = [
+            basins.getSurfaceCells(500, -100, 600, 0),
+            basins.getSurfaceCells(600, -100, 700, 0),
+            basins.getSurfaceCells(500, 0, 600, 100),
+            basins.getSurfaceCells(600, 0, 700, 100),
+        ].flat()
+
+        const key = (cell: { x: number; z: number }) => `${cell.x},${cell.z}`
+        expect(parts.length).toBe(whole.length)
+        expect(new Set(parts.map(key))).toEqual(new Set(whole.map(key)))
+    })
+
+    it('is independent of query order across regions', () => {
+        const other = new WaterBasins(landscape)
+        other.getSurfaceCells(-2000, -2000, -1900, -1900)
+        expect(other.getSurfaceCells(-400, -100, 100, 100)).toEqual(basins.getSurfaceCells(-400, -100, 100, 100))
+    })
+
+    it('answers level queries from the cells of a chunk without flooding', () => {
+        // Чанк 100x100 с центром в (600, 0): кратер с озером на уровне 60
+        const grid = new WaterLevelGrid(basins.getSurfaceCells(550, -50, 650, 50), 550, -50, 650, 50)
+
+        expect(grid.getWaterLevel(600, 0)).toBe(basins.getWaterLevel(600, 0))
+        // Полоса у края, ячейки которой принадлежат соседнему чанку, берёт ближайшую ячейку чанка
+        expect(grid.getWaterLevel(551, 0)).toBe(grid.getWaterLevel(553, 0))
+
+        const dry = new WaterLevelGrid(basins.getSurfaceCells(0, -400, 100, -300), 0, -400, 100, -300)
+        expect(dry.getWaterLevel(50, -350)).toBeNull()
+    })
+
+    it('builds one flat upward-facing quad per cell', () => {
+        const cells = basins.getSurfaceCells(550, -50, 650, 50)
+        const surface = buildWaterSurface(cells)
+
+        expect(surface.positions.length).toBe(cells.length * 12)
+        expect(surface.indices.length).toBe(cells.length * 6)
+        for (let i = 0; i < cells.length * 4; i++) {
+            expect(surface.positions[i * 3 + 1]).toBe(cells[Math.floor(i / 4)].level)
+        }
+
+        const [a, b, c] = [0, 1, 2].map(k => surface.indices[k] * 3)
+        const abX = surface.positions[b] - surface.positions[a]
+        const abZ = surface.positions[b + 2] - surface.positions[a + 2]
+        const acX = surface.positions[c] - surface.positions[a]
+        const acZ = surface.positions[c + 2] - surface.positions[a + 2]
+        expect(abZ * acX - abX * acZ).toBeGreaterThan(0)
+    })
+})
@@ -0,0 +1,217 @@
+// Водоёмы: впадины рельефа, залитые до высоты своего перелива, и море на уровне 0.
+// Считаются priority-flood на сетке регионов с фартуком; уровень ячейки берётся из региона, в ядре
+// которого она лежит, поэтому чанки, воркеры и главный поток получают одни и те же озёра без швов.
+// Заливается итоговая высота (после эрозии и врезки рек) - по ней строятся сетки чанков
+import { SEA_LEVEL, priorityFlood } from './PriorityFlood'
+import { EROSION_TILE_STRIDE } from './TerrainErosion'
+
+// Ячейка глади: квадрат BASIN_CELL_SIZE с углом в (x, z) на уровне своего водоёма
+export interface WaterCell {
+    x: number
+    z: number
+    level: number
+}
+
+export interface WaterSurfaceData {
+    positions: Float32Array
+    indices: Uint32Array
+}
+
+interface BasinRegion {
+    levels: Float32Array // Уровень воды ячеек ядра; NaN - суша
+}
+
+export const BASIN_CELL_SIZE = 8
+const REGION_CELLS = 32 // Ядро 256 м: регион с эрозией считается по 16 тайлам, а не по сотне
+const REGION_APRON = 64 // Озеро шире фартука соседние регионы могут залить до разных уровней
+// Полоса фартука вокруг ядра с итоговой высотой; дальше - приближённая (getApronHeight). Тайлы эрозии
+// на весь фартук стоили бы секунд на регион, а перелив озёр ядра почти всегда лежит ближе
+const REGION_EXACT_BAND = 16
+const SAMPLE_BLOCK = EROSION_TILE_STRIDE / BASIN_CELL_SIZE // Блок выборки высот - один шаг тайлов эрозии
+const REGION_SIZE = REGION_CELLS * BASIN_CELL_SIZE
+const MAX_CACHED_REGIONS = 32
+const MIN_DEPTH = 0.05 // Мельче - не водоём, а неровность сетки
+
+export class WaterBasins {
+    private getHeight: (x: number, z: number) => number
+    private getApronHeight: (x: number, z: number) => number
+    private regions: Map<string, BasinRegion> = new Map() // LRU, как регионы рек
+
+    // getApronHeight - дешёвое приближение getHeight для дальней части фартука (без эрозии)
+    constructor(
+        getHeight: (x: number, z: number) => number,
+        getApronHeight: (x: number, z: number) => number = getHeight
+    ) {
+        this.getHeight = getHeight
+        this.getApronHeight = getApronHeight
+    }
+
+    // Уровень водоёма над точкой или null, если ячейка - суша
+    getWaterLevel(x: number, z: number): number | null {
+        const level = this.getCellLevel(Math.floor(x / BASIN_CELL_SIZE), Math.floor(z / BASIN_CELL_SIZE))
+        return Number.isNaN(level) ? null : level
+    }
+
+    // Ячейки глади, углы которых лежат в прямоугольнике: каждая ячейка попадает ровно в один чанк.
+    // К мокрым добавляется кольцо сухих соседей на уровне самого высокого соседнего водоёма -
+    // граница воды проходит внутри ячейки, а лишнее закрывает рельеф
+    getSurfaceCells(minX: number, minZ: number, maxX: number, maxZ: number): WaterCell[] {
+        const cells: WaterCell[] = []
+        const fromX = Math.ceil(minX / BASIN_CELL_SIZE)
+        const fromZ = Math.ceil(minZ / BASIN_CELL_SIZE)
+        const toX = Math.ceil(maxX / BASIN_CELL_SIZE)
+        const toZ = Math.ceil(maxZ / BASIN_CELL_SIZE)
+
+        for (let cellZ = fromZ; cellZ < toZ; cellZ++) {
+            for (let cellX = fromX; cellX < toX; cellX++) {
+                let level = this.getCellLevel(cellX, cellZ)
+                if (Number.isNaN(level)) level = this.getShoreLevel(cellX, cellZ)
+
+                if (!Number.isNaN(level)) {
+                    cells.push({ x: cellX * BASIN_CELL_SIZE, z: cellZ * BASIN_CELL_SIZE, level })
+                }
+            }
+        }
+
+        return cells
+    }
+
+    // Самый высокий уровень мокрых соседей сухой ячейки; NaN, если вокруг суша
+    private getShoreLevel(cellX: number, cellZ: number): number {
+        let level = -Infinity
+        for (let dz = -1; dz <= 1; dz++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const neighbour = this.getCellLevel(cellX + dx, cellZ + dz)
+                if (neighbour > level) level = neighbour
+            }
+        }
+        return level === -Infinity ? NaN : level
+    }
+
+    private getCellLevel(cellX: number, cellZ: number): number {
+        const regionX = Math.floor(cellX / REGION_CELLS)
+        const regionZ = Math.floor(cellZ / REGION_CELLS)
+        const region = this.getRegion(regionX, regionZ)
+        return region.levels[(cellZ - regionZ * REGION_CELLS) * REGION_CELLS + (cellX - regionX * REGION_CELLS)]
+    }
+
+    private getRegion(regionX: number, regionZ: number): BasinRegion {
+        const key = `${regionX},${regionZ}`
+        let region = this.regions.get(key)
+
+        if (region) {
+            this.regions.delete(key)
+        } else {
+            region = this.buildRegion(regionX, regionZ)
+            if (this.regions.size >= MAX_CACHED_REGIONS) {
+                this.regions.delete(this.regions.keys().next().value!)
+            }
+        }
+
+        this.regions.set(key, region)
+        return region
+    }
+
+    // Впадины заливаются ровно (без уклона) до высоты перелива, всё ниже моря - до уровня моря
+    private buildRegion(regionX: number, regionZ: number): BasinRegion {
+        const row = REGION_CELLS + REGION_APRON * 2
+        const originX = regionX * REGION_SIZE - REGION_APRON * BASIN_CELL_SIZE
+        const originZ = regionZ * REGION_SIZE - REGION_APRON * BASIN_CELL_SIZE
+
+        const exactFrom = REGION_APRON - REGION_EXACT_BAND
+        const exactTo = REGION_APRON + REGION_CELLS + REGION_EXACT_BAND
+        const isExact = (cell: number) => cell >= exactFrom && cell < exactTo
+
+        // Высоты читаются блоками по шагу тайлов эрозии: соседние точки берут одни и те же тайлы из кэша,
+        // а не вычисляют их заново на каждой строке региона
+        const heights = new Float64Array(row * row)
+        for (let blockZ = 0; blockZ < row; blockZ += SAMPLE_BLOCK) {
+            for (let blockX = 0; blockX < row; blockX += SAMPLE_BLOCK) {
+                for (let z = blockZ; z < Math.min(row, blockZ + SAMPLE_BLOCK); z++) {
+                    for (let x = blockX; x < Math.min(row, blockX + SAMPLE_BLOCK); x++) {
+                        const getHeight = isExact(x) && isExact(z) ? this.getHeight : this.getApronHeight
+                        heights[z * row + x] = getHeight(
+                            originX + (x + 0.5) * BASIN_CELL_SIZE,
+                            originZ + (z + 0.5) * BASIN_CELL_SIZE
+                        )
+                    }
+                }
+            }
+        }
+
+        const { filled } = priorityFlood(heights, row, 0)
+        const levels = new Float32Array(REGION_CELLS * REGION_CELLS)
+        for (let z = 0; z < REGION_CELLS; z++) {
+            for (let x = 0; x < REGION_CELLS; x++) {
+                const i = (z + REGION_APRON) * row + x + REGION_APRON
+                const level = Math.max(SEA_LEVEL, filled[i])
+                levels[z * REGION_CELLS + x] = level - heights[i] > MIN_DEPTH ? level : NaN
+            }
+        }
+
+        return { levels }
+    }
+}
+
+// Уровни уже посчитанных ячеек глади чанка (WaterCell из воркера) для частых запросов:
+// расстановка объектов по точкам чанка. Регион priority-flood не строится
+export class WaterLevelGrid {
+    private fromX: number
+    private fromZ: number
+    private width: number
+    private depth: number
+    private levels: Float32Array // NaN - ячейки без глади
+
+    // Прямоугольник чанка, тот же, что у getSurfaceCells: сетка покрывает ровно его ячейки
+    constructor(cells: WaterCell[], minX: number, minZ: number, maxX: number, maxZ: number) {
+        this.fromX = Math.ceil(minX / BASIN_CELL_SIZE)
+        this.fromZ = Math.ceil(minZ / BASIN_CELL_SIZE)
+        this.width = Math.max(0, Math.ceil(maxX / BASIN_CELL_SIZE) - this.fromX)
+        this.depth = Math.max(0, Math.ceil(maxZ / BASIN_CELL_SIZE) - this.fromZ)
+        this.levels = new Float32Array(this.width * this.depth).fill(NaN)
+
+        for (const { x, z, level } of cells) {
+            const cellX = Math.round(x / BASIN_CELL_SIZE) - this.fromX
+            const cellZ = Math.round(z / BASIN_CELL_SIZE) - this.fromZ
+            this.levels[cellZ * this.width + cellX] = level
+        }
+    }
+
+    // Уровень глади над точкой, как её рисует buildWaterSurface; null - ячейка без воды.
+    // Точка у края чанка, чья ячейка принадлежит соседу, берёт ближайшую ячейку чанка
+    getWaterLevel(x: number, z: number): number | null {
+        if (this.levels.length === 0) return null
+
+        const cellX = Math.min(this.width - 1, Math.max(0, Math.floor(x / BASIN_CELL_SIZE) - this.fromX))
+        const cellZ = Math.min(this.depth - 1, Math.max(0, Math.floor(z / BASIN_CELL_SIZE) - this.fromZ))
+        const level = this.levels[cellZ * this.width + cellX]
+        return Number.isNaN(level) ? null : level
+    }
+}
+
+// Плоский квад на ячейку: у соседних ячеек одного водоёма общие рёбра на одной высоте,
+// а озеро рядом с морем не тянет к себе его гладь наклонными треугольниками
+export function buildWaterSurface(cells: WaterCell[]): WaterSurfaceData {
+    const positions = new Float32Array(cells.length * 12)
+    const indices = new Uint32Array(cells.length * 6)
+
+    cells.forEach(({ x, z, level }, i) => {
+        const corners = [
+            [x, z],
+            [x + BASIN_CELL_SIZE, z],
+            [x, z + BASIN_CELL_SIZE],
+            [x + BASIN_CELL_SIZE, z + BASIN_CELL_SIZE],
+        ]
+        corners.forEach(([cornerX, cornerZ], k) => {
+            positions.set([cornerX, level, cornerZ], (i * 4 + k) * 3)
+        })
+
+        // Треугольники смотрят вверх
+        indices.set(
+            [0, 2, 1, 1, 2, 3].map(k => i * 4 + k),
+            i * 6
+        )
+    })
+
+    return { positions, indices }
+}
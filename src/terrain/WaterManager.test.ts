@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { PerspectiveCamera, Scene } from 'three'
+import { WaterManager } from './WaterManager'
+import { HeightGenerator } from './HeightGenerator'
+import { BASIN_CELL_SIZE, type WaterCell } from './WaterBasins'
+import { ShaderManager } from '@/shaders/ShaderManager'
+
+const chunkSize = 100
+
+// Квадрат ячеек глади side x side в углу чанка
+function createCells(chunkX: number, chunkZ: number, side: number, level: number): WaterCell[] {
+    const cells: WaterCell[] = []
+    for (let z = 0; z < side; z++) {
+        for (let x = 0; x < side; x++) {
+            cells.push({
+                x: (chunkX - 0.5) * chunkSize + x * BASIN_CELL_SIZE,
+                z: (chunkZ - 0.5) * chunkSize + z * BASIN_CELL_SIZE,
+                level,
+            })
+        }
+    }
+    return cells
+}
+
+function createCamera(x: number, y: number, z: number, lookAtX: number): PerspectiveCamera {
+    const camera = new PerspectiveCamera(60, 16 / 9, 0.1, 2000)
+    camera.position.set(x, y, z)
+    camera.lookAt(lookAtX, 0, z)
+    camera.updateMatrixWorld()
+    return camera
+}
+
+describe('WaterManager', () => {
+    it('puts the reflection plane on the water that fills most of the view', () => {
+        const water = new WaterManager(new Scene(), new HeightGenerator(), new ShaderManager())
+        expect(water.getReflectionLevel(createCamera(0, 40, 0, 100))).toBeNull()
+
+        water.createWaterSurface(2, 0, chunkSize, createCells(2, 0, 3, 5)) // Пруд рядом
+        water.createWaterSurface(6, 0, chunkSize, createCells(6, 0, 12, 2)) // Озеро дальше, но крупнее
+        water.createWaterSurface(-4, 0, chunkSize, createCells(-4, 0, 12, 8)) // Озеро за спиной камеры
+        water.createWaterSurface(3, 1, chunkSize, createCells(3, 1, 12, 60)) // Горное озеро выше камеры
+
+        // Над сушей смотрим на восток: за спиной и выше камеры не отражаются, крупное озеро перевешивает пруд
+        expect(water.getReflectionLevel(createCamera(0, 40, 0, 600))).toBe(2)
+        // Перед самым прудом он ближе всех
+        expect(water.getReflectionLevel(createCamera(100, 20, -38, 600))).toBe(5)
+        // Развернулись на запад - видно только озеро за прежней спиной
+        expect(water.getReflectionLevel(createCamera(0, 40, 0, -600))).toBe(8)
+    })
+})
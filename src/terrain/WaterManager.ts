@@ -1,7 +1,25 @@
-import { Scene, Mesh, PlaneGeometry, MeshPhongMaterial, DoubleSide, ShaderMaterial, MeshBasicMaterial } from 'three'
+import {
+    Scene,
+    Mesh,
+    MeshPhongMaterial,
+    DoubleSide,
+    ShaderMaterial,
+    MeshBasicMaterial,
+    BufferGeometry,
+    BufferAttribute,
+    Camera,
+    Frustum,
+    Matrix4,
+    Vector3,
+} from 'three'
 import { HeightGenerator } from './HeightGenerator'
+import { buildRiverRibbon } from './RiverRibbon'
+import type { RiverSpline } from './RiverNetwork'
+import { buildWaterSurface, type WaterCell } from './WaterBasins'
 import { ShaderManager } from '@/shaders/ShaderManager'
+import { WATER_LAYER } from '@/shaders/WaterDepthPass'
 import { globalProfiler } from '@/utils/Profiler'
+import type { ChunkRange, SurfaceMesh } from './MeshExporter'
 
 interface WaterMeshData {
     mesh: Mesh
@@ -14,8 +32,12 @@ export class WaterManager {
     private heightGenerator: HeightGenerator
     private shaderManager: ShaderManager
     private waterMeshes: Map<string, WaterMeshData> = new Map()
-    private waterLevel = 0 // Единый уровень воды на высоте 0
+    private riverMeshes: Map<string, WaterMeshData> = new Map() // Ленты рек по чанкам, уже в мировых координатах
+    private waterLevelCells: Map<string, Map<number, number>> = new Map() // Уровень глади -> число ячеек чанка
     private wireframeEnabled = false
+    private frustum = new Frustum()
+    private viewProjection = new Matrix4()
+    private cameraPosition = new Vector3()
 
     constructor(scene: Scene, heightGenerator: HeightGenerator, shaderManager: ShaderManager) {
         this.scene = scene
@@ -23,7 +45,9 @@ export class WaterManager {
         this.shaderManager = shaderManager
     }
 
-    createWaterSurface(chunkX: number, chunkZ: number, chunkSize: number): void {
+    // Гладь озёр и моря чанка: ячейки водоёмов, каждая на уровне своего бассейна.
+    // Ячейки приходят из воркера вместе с геометрией; без них считаются из функции высот
+    createWaterSurface(chunkX: number, chunkZ: number, chunkSize: number, cells?: WaterCell[]): void {
         const chunkKey = `${chunkX},${chunkZ}`
 
         // Избегаем дублирования воды
@@ -31,118 +55,25 @@ export class WaterManager {
             return
         }
 
-        // Упрощённый и более надёжный алгоритм:
-        // Если в чанке есть хотя бы одна точка ниже уровня воды - создаём водную поверхность
-        let hasWaterPoints = false
-
-        // Проверяем сетку точек с хорошим разрешением
-        const testResolution = 16 // Увеличиваем для большей точности
-        for (let testX = 0; testX <= testResolution && !hasWaterPoints; testX++) {
-            for (let testZ = 0; testZ <= testResolution && !hasWaterPoints; testZ++) {
-                const worldX = (testX / testResolution - 0.5) * chunkSize + chunkX * chunkSize
-                const worldZ = (testZ / testResolution - 0.5) * chunkSize + chunkZ * chunkSize
-                const height = this.heightGenerator.generateHeight(worldX, worldZ)
-
-                if (height < this.waterLevel) {
-                    hasWaterPoints = true
-                }
-            }
-        }
-
-        // Дополнительная проверка краёв чанка для соединения с соседними водоёмами
-        if (!hasWaterPoints) {
-            hasWaterPoints = this.checkChunkEdgesForWater(chunkX, chunkZ, chunkSize)
-            // if (hasWaterPoints) {
-            //     console.log(`🌊 Water created via edge check for chunk (${chunkX}, ${chunkZ})`)
-            // }
-        }
-
-        // Финальная проверка - есть ли соседние чанки с водой
-        if (!hasWaterPoints) {
-            hasWaterPoints = this.hasAdjacentWaterChunks(chunkX, chunkZ)
-            // if (hasWaterPoints) {
-            //     console.log(`🔗 Water created via adjacent check for chunk (${chunkX}, ${chunkZ})`)
-            // }
-        }
-
-        if (hasWaterPoints) {
-            this.createWaterMesh(chunkX, chunkZ, chunkSize)
-            // Логируем только для отладки проблем с водой
-            // console.log(`💧 Water created for chunk (${chunkX}, ${chunkZ})`)
-        } else {
-            // console.log(`🏔️ No water needed for chunk (${chunkX}, ${chunkZ})`)
-        }
-    }
-
-    // Проверка краёв чанка для обеспечения непрерывности водоёмов
-    private checkChunkEdgesForWater(chunkX: number, chunkZ: number, chunkSize: number): boolean {
-        const edgePoints = []
-        const edgeResolution = 8
-
-        // Левый край
-        for (let i = 0; i <= edgeResolution; i++) {
-            const worldX = chunkX * chunkSize - chunkSize * 0.5
-            const worldZ = (i / edgeResolution - 0.5) * chunkSize + chunkZ * chunkSize
-            edgePoints.push([worldX, worldZ])
-        }
-
-        // Правый край
-        for (let i = 0; i <= edgeResolution; i++) {
-            const worldX = chunkX * chunkSize + chunkSize * 0.5
-            const worldZ = (i / edgeResolution - 0.5) * chunkSize + chunkZ * chunkSize
-            edgePoints.push([worldX, worldZ])
-        }
-
-        // Верхний край
-        for (let i = 0; i <= edgeResolution; i++) {
-            const worldX = (i / edgeResolution - 0.5) * chunkSize + chunkX * chunkSize
-            const worldZ = chunkZ * chunkSize - chunkSize * 0.5
-            edgePoints.push([worldX, worldZ])
-        }
-
-        // Нижний край
-        for (let i = 0; i <= edgeResolution; i++) {
-            const worldX = (i / edgeResolution - 0.5) * chunkSize + chunkX * chunkSize
-            const worldZ = chunkZ * chunkSize + chunkSize * 0.5
-            edgePoints.push([worldX, worldZ])
+        const half = chunkSize / 2
+        const minX = chunkX * chunkSize - half
+        const minZ = chunkZ * chunkSize - half
+        const waterCells =
+            cells ??
+            this.heightGenerator.getHeightFunction().getWaterCells(minX, minZ, minX + chunkSize, minZ + chunkSize)
+        if (waterCells.length === 0) {
+            return
         }
 
-        // Проверяем каждую точку края
-        for (const [x, z] of edgePoints) {
-            const height = this.heightGenerator.generateHeight(x, z)
-            if (height < this.waterLevel) {
-                return true
-            }
-        }
+        const levelCells = new Map<number, number>()
+        for (const { level } of waterCells) levelCells.set(level, (levelCells.get(level) ?? 0) + 1)
+        this.waterLevelCells.set(chunkKey, levelCells)
 
-        return false
-    }
-
-    private hasAdjacentWaterChunks(chunkX: number, chunkZ: number): boolean {
-        // Проверяем 8 соседних чанков
-        const adjacentChunks = [
-            [chunkX - 1, chunkZ - 1],
-            [chunkX, chunkZ - 1],
-            [chunkX + 1, chunkZ - 1],
-            [chunkX - 1, chunkZ],
-            /*[chunkX, chunkZ],*/ [chunkX + 1, chunkZ],
-            [chunkX - 1, chunkZ + 1],
-            [chunkX, chunkZ + 1],
-            [chunkX + 1, chunkZ + 1],
-        ]
-
-        for (const [adjX, adjZ] of adjacentChunks) {
-            const adjKey = `${adjX},${adjZ}`
-            if (this.waterMeshes.has(adjKey)) {
-                return true
-            }
-        }
-        return false
-    }
-
-    private createWaterMesh(chunkX: number, chunkZ: number, chunkSize: number): void {
-        // Простая геометрия для воды
-        const waterGeometry = new PlaneGeometry(chunkSize, chunkSize, 32, 32)
+        const surface = buildWaterSurface(waterCells)
+        const waterGeometry = new BufferGeometry()
+        waterGeometry.setAttribute('position', new BufferAttribute(surface.positions, 3))
+        waterGeometry.setIndex(new BufferAttribute(surface.indices, 1))
+        waterGeometry.computeBoundingSphere()
 
         // Используем шейдерный материал для воды
         const waterMaterial = this.shaderManager.createNewWaterMaterial()
@@ -155,21 +86,15 @@ export class WaterManager {
             opacity: 0.8,
         })
 
-        const waterMesh = new Mesh(waterGeometry, waterMaterial)
-        waterMesh.rotation.x = -Math.PI / 2
-        waterMesh.position.set(chunkX * chunkSize, this.waterLevel, chunkZ * chunkSize)
+        // Геометрия уже в мировых координатах
+        const waterMesh = new Mesh(waterGeometry, this.wireframeEnabled ? wireframeMaterial : waterMaterial)
         waterMesh.receiveShadow = true
         waterMesh.castShadow = false
-
-        // Если wireframe включен, используем wireframe материал
-        if (this.wireframeEnabled) {
-            ;(waterMesh as any).material = wireframeMaterial
-        }
+        waterMesh.layers.set(WATER_LAYER)
 
         this.scene.add(waterMesh)
 
         // Сохраняем reference
-        const chunkKey = `${chunkX},${chunkZ}`
         const waterData: WaterMeshData = {
             mesh: waterMesh,
             originalMaterial: waterMaterial,
@@ -178,31 +103,139 @@ export class WaterManager {
         this.waterMeshes.set(chunkKey, waterData)
     }
 
-    removeWaterSurface(chunkKey: string): void {
-        const waterData = this.waterMeshes.get(chunkKey)
-        if (waterData) {
-            this.scene.remove(waterData.mesh)
-            if (waterData.mesh.geometry) waterData.mesh.geometry.dispose()
+    // Реки чанка: лента вдоль сплайнов, повторяющая уклон поверхности воды.
+    // Сплайны приходят из воркера вместе с геометрией; без них считаются из функции высот
+    createRiverSurface(chunkX: number, chunkZ: number, chunkSize: number, splines?: RiverSpline[]): void {
+        const chunkKey = `${chunkX},${chunkZ}`
+        if (this.riverMeshes.has(chunkKey)) {
+            return
+        }
+
+        const half = chunkSize / 2
+        const centerX = chunkX * chunkSize
+        const centerZ = chunkZ * chunkSize
+        const riverSplines =
+            splines ??
+            this.heightGenerator
+                .getHeightFunction()
+                .getRiverSplines(centerX - half, centerZ - half, centerX + half, centerZ + half)
+        if (riverSplines.length === 0) {
+            return
+        }
+
+        const ribbon = buildRiverRibbon(riverSplines)
+        const geometry = new BufferGeometry()
+        geometry.setAttribute('position', new BufferAttribute(ribbon.positions, 3))
+        geometry.setAttribute('uv', new BufferAttribute(ribbon.uvs, 2))
+        geometry.setAttribute('aFlowSpeed', new BufferAttribute(ribbon.flowSpeeds, 1))
+        geometry.setIndex(new BufferAttribute(ribbon.indices, 1))
+        geometry.computeBoundingSphere()
+
+        const riverMaterial = this.shaderManager.createNewRiverMaterial()
+        const wireframeMaterial = new MeshBasicMaterial({
+            color: 0x00aaff,
+            wireframe: true,
+            transparent: true,
+            opacity: 0.8,
+        })
 
-            // Удаляем оба материала
-            this.shaderManager.removeMaterial(waterData.originalMaterial)
-            waterData.originalMaterial.dispose()
-            waterData.wireframeMaterial.dispose()
+        const riverMesh = new Mesh(geometry, this.wireframeEnabled ? wireframeMaterial : riverMaterial)
+        riverMesh.receiveShadow = true
+        riverMesh.castShadow = false
+        riverMesh.layers.set(WATER_LAYER)
+        this.scene.add(riverMesh)
+
+        this.riverMeshes.set(chunkKey, {
+            mesh: riverMesh,
+            originalMaterial: riverMaterial,
+            wireframeMaterial: wireframeMaterial,
+        })
+    }
 
-            this.waterMeshes.delete(chunkKey)
+    // Уровень плоскости зеркала для отражений: водоём, который занимает больше всего кадра. Вес уровня -
+    // число его ячеек в видимых чанках, делённое на квадрат расстояния до чанка, поэтому выигрывает
+    // ближнее или самое большое озеро. Водоёмы выше камеры не отражаются; null - воды в кадре нет
+    getReflectionLevel(camera: Camera): number | null {
+        this.viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+        this.frustum.setFromProjectionMatrix(this.viewProjection)
+        camera.getWorldPosition(this.cameraPosition)
+
+        const weights = new Map<number, number>()
+        this.waterMeshes.forEach((waterData, chunkKey) => {
+            const bounds = waterData.mesh.geometry.boundingSphere
+            if (!bounds || !this.frustum.intersectsSphere(bounds)) return
+
+            const distanceSq = Math.max(bounds.center.distanceToSquared(this.cameraPosition), bounds.radius ** 2)
+            this.waterLevelCells.get(chunkKey)?.forEach((cells, level) => {
+                if (level < this.cameraPosition.y) weights.set(level, (weights.get(level) ?? 0) + cells / distanceSq)
+            })
+        })
+
+        let reflectionLevel: number | null = null
+        let maxWeight = 0
+        weights.forEach((weight, level) => {
+            if (weight > maxWeight) {
+                maxWeight = weight
+                reflectionLevel = level
+            }
+        })
+        return reflectionLevel
+    }
+
+    removeWaterSurface(chunkKey: string): void {
+        this.waterLevelCells.delete(chunkKey)
+        for (const meshes of [this.waterMeshes, this.riverMeshes]) {
+            const waterData = meshes.get(chunkKey)
+            if (waterData) {
+                this.scene.remove(waterData.mesh)
+                if (waterData.mesh.geometry) waterData.mesh.geometry.dispose()
+
+                // Удаляем оба материала
+                this.shaderManager.removeMaterial(waterData.originalMaterial)
+                waterData.originalMaterial.dispose()
+                waterData.wireframeMaterial.dispose()
+
+                meshes.delete(chunkKey)
+            }
         }
     }
 
+    // Меши воды чанков диапазона в мировых координатах (для экспорта)
+    getWaterSurfaces(range: ChunkRange): SurfaceMesh[] {
+        const surfaces: SurfaceMesh[] = []
+        const collect = (waterData: WaterMeshData, chunkKey: string) => {
+            const [chunkX, chunkZ] = chunkKey.split(',').map(Number)
+            if (chunkX < range.fromX || chunkX > range.toX || chunkZ < range.fromZ || chunkZ > range.toZ) return
+
+            const geometry = waterData.mesh.geometry.clone()
+            waterData.mesh.updateMatrixWorld()
+            geometry.applyMatrix4(waterData.mesh.matrixWorld)
+
+            surfaces.push({
+                positions: new Float32Array(geometry.getAttribute('position').array),
+                indices: new Uint32Array(geometry.getIndex()!.array),
+            })
+            geometry.dispose()
+        }
+        this.waterMeshes.forEach(collect)
+        this.riverMeshes.forEach(collect)
+        return surfaces
+    }
+
     dispose(): void {
         this.waterMeshes.forEach((waterData, key) => {
             this.removeWaterSurface(key)
         })
+        this.riverMeshes.forEach((riverData, key) => {
+            this.removeWaterSurface(key)
+        })
         this.waterMeshes.clear()
+        this.riverMeshes.clear()
     }
 
     setWireframe(enabled: boolean): void {
         this.wireframeEnabled = enabled
-        this.waterMeshes.forEach(waterData => {
+        const toggle = (waterData: WaterMeshData) => {
             if (enabled) {
                 // Переключаем на wireframe материал
                 ;(waterData.mesh as any).material = waterData.wireframeMaterial
@@ -210,6 +243,8 @@ export class WaterManager {
                 // Возвращаем обычный материал
                 ;(waterData.mesh as any).material = waterData.originalMaterial
             }
-        })
+        }
+        this.waterMeshes.forEach(toggle)
+        this.riverMeshes.forEach(toggle)
     }
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { WorldSeed } from './WorldSeed'
+
+describe('WorldSeed', () => {
+    it('uses integers as-is and hashes strings deterministically', () => {
+        expect(WorldSeed.from(42).value).toBe(42)
+        expect(WorldSeed.from('42').value).toBe(42)
+        expect(WorldSeed.from(' 42 ').input).toBe('42')
+
+        const a = WorldSeed.from('mountain lakes')
+        const b = WorldSeed.from('mountain lakes')
+        expect(a.value).toBe(b.value)
+        expect(a.equals(b)).toBe(true)
+        expect(a.value).not.toBe(WorldSeed.from('mountain lake').value)
+        expect(Number.isInteger(a.value) && a.value >= 0 && a.value <= 0xffffffff).toBe(true)
+    })
+
+    it('hashes integers outside the uint32 range instead of wrapping them', () => {
+        expect(WorldSeed.from(0xffffffff).value).toBe(0xffffffff)
+        expect(WorldSeed.from('4294967296').value).not.toBe(0)
+        expect(WorldSeed.from('4294967338').value).not.toBe(42)
+        expect(WorldSeed.from('-1').value).not.toBe(0xffffffff)
+        expect(WorldSeed.from('-1').value).toBe(WorldSeed.from('-1').value)
+        expect(WorldSeed.from('-1').input).toBe('-1')
+    })
+
+    it('reads the seed from a query string', () => {
+        expect(WorldSeed.fromURL('?seed=hello')?.input).toBe('hello')
+        expect(WorldSeed.fromURL('?seed=7&x=1')?.value).toBe(7)
+        expect(WorldSeed.fromURL('?seed=')).toBeNull()
+        expect(WorldSeed.fromURL('')).toBeNull()
+    })
+
+    it('generates random seeds that round-trip through their input', () => {
+        const seed = WorldSeed.random()
+        expect(WorldSeed.from(seed.input).value).toBe(seed.value)
+    })
+})
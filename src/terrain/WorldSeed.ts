@@ -0,0 +1,57 @@
+// Seed мира: принимает строку или целое число и детерминированно превращает его в uint32
+export class WorldSeed {
+    static readonly URL_PARAM = 'seed'
+
+    // Исходное значение в том виде, в котором его ввёл пользователь (для UI и URL)
+    readonly input: string
+    // Хэш, который получают генераторы высоты
+    readonly value: number
+
+    private constructor(input: string, value: number) {
+        this.input = input
+        this.value = value
+    }
+
+    static from(input: string | number): WorldSeed {
+        const text = String(input).trim()
+
+        // Целые числа используем как есть, чтобы ?seed=42 и seed 42 давали один и тот же мир.
+        // Числа вне uint32 хэшируются как строки: обрезка по модулю 2^32 склеила бы разные seed
+        if (/^\d+$/.test(text) && Number(text) <= 0xffffffff) {
+            return new WorldSeed(text, Number(text))
+        }
+
+        return new WorldSeed(text, WorldSeed.hashString(text))
+    }
+
+    static random(): WorldSeed {
+        const value = Math.floor(Math.random() * 0x100000000) >>> 0
+        return new WorldSeed(String(value), value)
+    }
+
+    static fromURL(search: string = window.location.search): WorldSeed | null {
+        const input = new URLSearchParams(search).get(WorldSeed.URL_PARAM)
+        if (input === null || input.trim() === '') return null
+        return WorldSeed.from(input)
+    }
+
+    writeToURL(): void {
+        const url = new URL(window.location.href)
+        url.searchParams.set(WorldSeed.URL_PARAM, this.input)
+        window.history.replaceState(window.history.state, '', url)
+    }
+
+    equals(other: WorldSeed): boolean {
+        return this.value === other.value
+    }
+
+    // FNV-1a (32 бита) по UTF-16 кодам строки
+    private static hashString(text: string): number {
+        let hash = 0x811c9dc5
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i)
+            hash = Math.imul(hash, 0x01000193)
+        }
+        return hash >>> 0
+    }
+}
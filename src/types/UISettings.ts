@@ -1,7 +1,26 @@
+import type { HeightmapFormat } from '../terrain/HeightmapExporter'
+import type { HeightmapProgress } from '../terrain/HeightmapSampler'
+import type { MeshExportFormat } from '../terrain/MeshExporter'
+import { cloneTerrainConfig, defaultTerrainConfig } from '../terrain/TerrainConfig'
+import type { TerrainConfig, TerrainPresetName } from '../terrain/TerrainConfig'
+import { defaultWaterSettings, type WaterSettings } from '../shaders/WaterSettings'
+import type { TimeScale } from '../lighting/SimulationClock'
+import type { ShadowQuality } from '../lighting/CascadedShadowMaps'
+import { defaultPostFXSettings, type PostFXSettings } from '../postfx/PostFXSettings'
+
 export interface UISettings {
+    seed: string
+    terrainPreset: TerrainPresetName | 'custom' // 'custom' - параметры изменены вручную
+    terrain: TerrainConfig
     renderDistance: number
     timeOfDay: number
+    timeScale: TimeScale
+    dayOfYear: number // 1..365
+    latitude: number // Градусы, от неё и дня года зависят высота солнца и длина дня
     showWireframe: boolean
+    shadows: ShadowQuality
+    water: WaterSettings
+    postFX: PostFXSettings
     fogDensity: number
     fps: number
     triangles: number
@@ -9,11 +28,33 @@ export interface UISettings {
 }
 
 export const defaultSettings: UISettings = {
+    seed: '', // Заполняется из ?seed= или случайным значением при запуске
+    terrainPreset: 'default',
+    terrain: cloneTerrainConfig(defaultTerrainConfig),
     renderDistance: 6,
     timeOfDay: 0.583, // 14:00 (2 PM)
+    timeScale: 60, // Сутки за 24 минуты
+    dayOfYear: 172, // 21 июня
+    latitude: 45,
     showWireframe: false,
+    shadows: 'medium',
+    water: { ...defaultWaterSettings },
+    postFX: { ...defaultPostFXSettings },
     fogDensity: 0.01,
     fps: 0,
     triangles: 0,
     workerStats: null,
 }
+
+// Разовые действия из панели (в отличие от настроек, не хранят состояние)
+export interface UIActions {
+    onExportHeightmap?: (format: HeightmapFormat, onProgress: HeightmapProgress) => Promise<void> // Ошибка - отказ промиса
+    onExportMesh?: (request: MeshExportRequest) => void // Ошибка экспорта - исключение
+    onLoadBiomePack?: (json: string) => string // Имя применённого набора; некорректный набор - исключение
+}
+
+export interface MeshExportRequest {
+    format: MeshExportFormat
+    chunkRadius: number // Квадрат чанков вокруг камеры; ограничен кругом загрузки (renderDistance / √2)
+    verticalScale: number
+}
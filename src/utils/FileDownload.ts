@@ -0,0 +1,16 @@
+import type { ExportedFile } from '../terrain/HeightmapExporter'
+
+// Скачивание сгенерированного файла через временную ссылку
+export function downloadFile(file: ExportedFile): void {
+    const blob = new Blob([file.data], { type: file.mimeType })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.name
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+
+    // Даём браузеру начать загрузку до освобождения URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,10 @@
+// Абстракция над setInterval: в браузере - глобальные таймеры, в тестах и headless - подменяемая
+export interface IntervalTimer {
+    setInterval(callback: () => void, ms: number): number
+    clearInterval(id: number): void
+}
+
+export const globalIntervalTimer: IntervalTimer = {
+    setInterval: (callback, ms) => setInterval(callback, ms) as unknown as number,
+    clearInterval: id => clearInterval(id),
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { PriorityQueue } from './PriorityQueue'
+import { createSeededRandom } from './SeededRandom'
+
+describe('PriorityQueue', () => {
+    it('pops the highest priority first and keeps insertion order for ties', () => {
+        const queue = new PriorityQueue<string>()
+        queue.push('a', 'a', 1)
+        queue.push('b', 'b', 5)
+        queue.push('c', 'c', 5)
+        queue.push('d', 'd', 3)
+
+        expect(queue.toSortedArray()).toEqual(['b', 'c', 'd', 'a'])
+        expect([queue.pop(), queue.pop(), queue.pop(), queue.pop(), queue.pop()]).toEqual([
+            'b',
+            'c',
+            'd',
+            'a',
+            undefined,
+        ])
+    })
+
+    it('removes and reprioritizes entries by key', () => {
+        const queue = new PriorityQueue<number>()
+        const random = createSeededRandom(7)
+        for (let i = 0; i < 50; i++) queue.push(`k${i}`, i, random())
+
+        expect(queue.remove('k10')).toBe(10)
+        expect(queue.has('k10')).toBe(false)
+        expect(queue.updatePriority('k20', 10)).toBe(true)
+        expect(queue.peek()).toBe(20)
+
+        queue.reprioritize(value => -value)
+        const order: number[] = []
+        while (queue.size > 0) order.push(queue.pop()!)
+        expect(order).toEqual([...Array(50).keys()].filter(value => value !== 10))
+    })
+})
@@ -0,0 +1,146 @@
+interface HeapEntry<T> {
+    key: string
+    value: T
+    priority: number
+    order: number // Порядок вставки: при равном приоритете раньше выходит добавленный раньше
+}
+
+// Индексированная двоичная куча: больший приоритет выходит первым.
+// Элементы адресуются ключом, поэтому их можно удалять и переприоритизировать за O(log n)
+export class PriorityQueue<T> {
+    private heap: HeapEntry<T>[] = []
+    private positions: Map<string, number> = new Map()
+    private insertions = 0
+
+    get size(): number {
+        return this.heap.length
+    }
+
+    has(key: string): boolean {
+        return this.positions.has(key)
+    }
+
+    get(key: string): T | undefined {
+        const index = this.positions.get(key)
+        return index === undefined ? undefined : this.heap[index].value
+    }
+
+    // Добавляет элемент или обновляет значение и приоритет существующего
+    push(key: string, value: T, priority: number): void {
+        const index = this.positions.get(key)
+        if (index !== undefined) {
+            this.heap[index].value = value
+            this.updatePriority(key, priority)
+            return
+        }
+
+        this.heap.push({ key, value, priority, order: this.insertions++ })
+        this.positions.set(key, this.heap.length - 1)
+        this.siftUp(this.heap.length - 1)
+    }
+
+    peek(): T | undefined {
+        return this.heap[0]?.value
+    }
+
+    pop(): T | undefined {
+        if (this.heap.length === 0) return undefined
+        return this.removeAt(0)
+    }
+
+    remove(key: string): T | undefined {
+        const index = this.positions.get(key)
+        return index === undefined ? undefined : this.removeAt(index)
+    }
+
+    updatePriority(key: string, priority: number): boolean {
+        const index = this.positions.get(key)
+        if (index === undefined) return false
+
+        const previous = this.heap[index].priority
+        this.heap[index].priority = priority
+        if (priority > previous) this.siftUp(index)
+        else this.siftDown(index)
+        return true
+    }
+
+    // Пересчёт всех приоритетов с перестройкой кучи за O(n)
+    reprioritize(getPriority: (value: T, key: string) => number): void {
+        for (const entry of this.heap) {
+            entry.priority = getPriority(entry.value, entry.key)
+        }
+        for (let i = (this.heap.length >> 1) - 1; i >= 0; i--) {
+            this.siftDown(i)
+        }
+    }
+
+    getPriority(key: string): number | undefined {
+        const index = this.positions.get(key)
+        return index === undefined ? undefined : this.heap[index].priority
+    }
+
+    // Элементы в порядке выхода из очереди (без изменения самой очереди)
+    toSortedArray(): T[] {
+        return [...this.heap].sort((a, b) => this.compare(b, a)).map(entry => entry.value)
+    }
+
+    values(): T[] {
+        return this.heap.map(entry => entry.value)
+    }
+
+    clear(): void {
+        this.heap.length = 0
+        this.positions.clear()
+    }
+
+    // > 0, если a должен выйти раньше b
+    private compare(a: HeapEntry<T>, b: HeapEntry<T>): number {
+        return a.priority !== b.priority ? a.priority - b.priority : b.order - a.order
+    }
+
+    private removeAt(index: number): T {
+        const entry = this.heap[index]
+        const last = this.heap.pop()!
+        this.positions.delete(entry.key)
+
+        if (index < this.heap.length) {
+            this.heap[index] = last
+            this.positions.set(last.key, index)
+            this.siftDown(index)
+            this.siftUp(index)
+        }
+        return entry.value
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1
+            if (this.compare(this.heap[index], this.heap[parent]) <= 0) break
+            this.swap(index, parent)
+            index = parent
+        }
+    }
+
+    private siftDown(index: number): void {
+        for (;;) {
+            const left = index * 2 + 1
+            const right = left + 1
+            let best = index
+
+            if (left < this.heap.length && this.compare(this.heap[left], this.heap[best]) > 0) best = left
+            if (right < this.heap.length && this.compare(this.heap[right], this.heap[best]) > 0) best = right
+            if (best === index) return
+
+            this.swap(index, best)
+            index = best
+        }
+    }
+
+    private swap(a: number, b: number): void {
+        const entry = this.heap[a]
+        this.heap[a] = this.heap[b]
+        this.heap[b] = entry
+        this.positions.set(this.heap[a].key, a)
+        this.positions.set(this.heap[b].key, b)
+    }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { Profiler } from './Profiler'
+
+describe('Profiler', () => {
+    it('nests steps started inside other steps', () => {
+        const profiler = new Profiler()
+
+        profiler.startStep('root')
+        profiler.startStep('child a')
+        profiler.endStep()
+        profiler.measure('child b', () => profiler.measure('grandchild', () => 42))
+        profiler.endStep()
+        profiler.startStep('second root')
+        profiler.endStep()
+
+        const [root, secondRoot] = profiler.getResults()
+        expect(profiler.getResults().length).toBe(2)
+        expect(root.name).toBe('root')
+        expect(root.subSteps!.map(step => step.name)).toEqual(['child a', 'child b'])
+        expect(root.subSteps![1].subSteps!.map(step => step.name)).toEqual(['grandchild'])
+        expect(secondRoot.subSteps).toEqual([])
+        expect(root.duration).toBeGreaterThanOrEqual(root.subSteps![0].duration!)
+    })
+
+    it('closes steps when measured functions throw', async () => {
+        const profiler = new Profiler()
+
+        expect(() =>
+            profiler.measure('failing', () => {
+                throw new Error('fail')
+            })
+        ).toThrow('fail')
+        await expect(profiler.measureAsync('async failing', () => Promise.reject(new Error('async')))).rejects.toThrow(
+            'async'
+        )
+        profiler.measure('after', () => {})
+
+        // Упавшие шаги закрыты, следующий шаг не стал их подшагом
+        expect(profiler.getResults().map(step => step.name)).toEqual(['failing', 'async failing', 'after'])
+        expect(profiler.getResults().every(step => step.duration !== undefined)).toBe(true)
+    })
+
+    it('returns the slowest steps across all levels and clears results', () => {
+        const profiler = new Profiler()
+        profiler.startStep('root')
+        profiler.startStep('child')
+        profiler.endStep()
+        profiler.endStep()
+
+        const slowest = profiler.getSlowestSteps(1)
+        expect(slowest.map(step => step.name)).toEqual(['root'])
+        expect(profiler.getTotalTime()).toBe(profiler.getResults()[0].duration)
+
+        profiler.clear()
+        expect(profiler.getResults()).toEqual([])
+        expect(profiler.getTotalTime()).toBe(0)
+    })
+})
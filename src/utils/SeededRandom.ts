@@ -0,0 +1,25 @@
+// Детерминированные генераторы случайных чисел для процедурного контента
+
+// mulberry32: быстрый 32-битный PRNG, возвращает значения в [0, 1)
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+    }
+}
+
+// Смешивает seed мира с целочисленными координатами (например, чанка) в новый uint32 seed
+export function hashSeed(seed: number, ...values: number[]): number {
+    let hash = seed >>> 0
+    for (const value of values) {
+        hash = Math.imul(hash ^ (value | 0), 0x9e3779b1)
+        hash ^= hash >>> 16
+        hash = Math.imul(hash, 0x85ebca6b)
+        hash ^= hash >>> 13
+    }
+    return hash >>> 0
+}
@@ -1,6 +1,6 @@
 import UIControlsComponent from '../components/UIControls.svelte'
 import { mount } from 'svelte'
-import type { UISettings } from '../types/UISettings'
+import type { UISettings, UIActions } from '../types/UISettings'
 import { defaultSettings } from '../types/UISettings'
 
 export class UIControls {
@@ -8,9 +8,11 @@ export class UIControls {
     private container: HTMLElement | null = null
     private settings: UISettings
     private onSettingsChange: (settings: Partial<UISettings>) => void
+    private actions: UIActions
 
-    constructor(onSettingsChange: (settings: Partial<UISettings>) => void) {
+    constructor(onSettingsChange: (settings: Partial<UISettings>) => void, actions: UIActions = {}) {
         this.onSettingsChange = onSettingsChange
+        this.actions = actions
         this.settings = { ...defaultSettings }
     }
 
@@ -25,6 +27,7 @@ export class UIControls {
                 target: this.container,
                 props: {
                     visible: true,
+                    actions: this.actions,
                     onSettingsChange: (changes: Partial<UISettings>) => {
                         Object.assign(this.settings, changes)
                         this.onSettingsChange(changes)
@@ -91,4 +94,4 @@ export class UIControls {
     }
 }
 
-export type { UISettings } from '../types/UISettings'
+export type { UISettings, UIActions } from '../types/UISettings'
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Сборка headless CLI под Node: только чистые модули генерации, без three.js и DOM
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': '/src',
+        },
+    },
+    build: {
+        ssr: 'src/cli/three-vibes.ts',
+        outDir: 'dist-cli',
+        emptyOutDir: true,
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'three-vibes.js',
+            },
+        },
+    },
+})
@@ -49,10 +49,6 @@ export default defineConfig(({ mode }) => {
                         if (id.includes('three/examples/jsm/')) {
                             return 'three-addons'
                         }
-                        // TS Noise - генерация шума
-                        if (id.includes('ts-noise')) {
-                            return 'noise'
-                        }
                         // Svelte framework исходники
                         if (id.includes('svelte/src/')) {
                             return 'svelte-framework'